@@ -1,12 +1,32 @@
-import { useState } from 'react'
-import { Briefcase, Send, Sparkles, FileText } from 'lucide-react'
+import { useState, useEffect } from 'react'
+import { Briefcase, Send, Sparkles, FileText, KanbanSquare, Loader2 } from 'lucide-react'
 import Chat from './components/Chat'
 import WorkflowPanel from './components/WorkflowPanel'
+import ApplicationsBoard from './components/ApplicationsBoard'
+import SessionSidebar from './components/SessionSidebar'
+import UsageMeter from './components/UsageMeter'
+import { ensureSession } from './api'
+
+const newSessionId = () => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 
 function App() {
-  const [sessionId] = useState(() => `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`)
-  const [userId] = useState(() => `user-${Math.random().toString(36).substr(2, 9)}`)
-  const [activeTab, setActiveTab] = useState<'chat' | 'workflow'>('chat')
+  // A fresh session per visit; earlier ones are continued from the sidebar
+  const [sessionId, setSessionId] = useState(newSessionId)
+  // Bumped after chat activity so the session list and usage meter reload
+  const [activityKey, setActivityKey] = useState(0)
+  // Set once the session token is ready; every API call depends on it
+  const [userId, setUserId] = useState<string | null>(null)
+  const [sessionError, setSessionError] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState<'chat' | 'workflow' | 'applications'>('chat')
+
+  useEffect(() => {
+    ensureSession()
+      .then(setUserId)
+      .catch((error) => {
+        console.error('Failed to start session:', error)
+        setSessionError('Could not connect to the server. Please reload the page.')
+      })
+  }, [])
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
@@ -23,9 +43,12 @@ function App() {
                 <p className="text-sm text-gray-500">Powered by Cloudflare Workers AI</p>
               </div>
             </div>
-            <div className="flex items-center space-x-2 text-xs text-gray-500">
-              <Sparkles className="w-4 h-4" />
-              <span>Llama 3.3 • Durable Objects • Workflows</span>
+            <div className="flex items-center space-x-6">
+              {userId && <UsageMeter refreshKey={activityKey} />}
+              <div className="flex items-center space-x-2 text-xs text-gray-500">
+                <Sparkles className="w-4 h-4" />
+                <span>Llama 3.3 • Durable Objects • Workflows</span>
+              </div>
             </div>
           </div>
         </div>
@@ -56,15 +79,46 @@ function App() {
             <FileText className="w-4 h-4" />
             <span>Application Workflow</span>
           </button>
+          <button
+            onClick={() => setActiveTab('applications')}
+            className={`flex items-center space-x-2 px-4 py-3 font-medium transition-colors border-b-2 ${
+              activeTab === 'applications'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <KanbanSquare className="w-4 h-4" />
+            <span>Applications</span>
+          </button>
         </div>
       </div>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
-        {activeTab === 'chat' ? (
-          <Chat sessionId={sessionId} userId={userId} />
-        ) : (
+        {!userId ? (
+          <div className="flex justify-center py-12">
+            {sessionError ? (
+              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{sessionError}</div>
+            ) : (
+              <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+            )}
+          </div>
+        ) : activeTab === 'chat' ? (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <SessionSidebar
+              activeSessionId={sessionId}
+              refreshKey={activityKey}
+              onSelect={setSessionId}
+              onNew={() => setSessionId(newSessionId())}
+            />
+            <div className="lg:col-span-3">
+              <Chat sessionId={sessionId} onActivity={() => setActivityKey(key => key + 1)} />
+            </div>
+          </div>
+        ) : activeTab === 'workflow' ? (
           <WorkflowPanel userId={userId} />
+        ) : (
+          <ApplicationsBoard userId={userId} />
         )}
       </main>
 
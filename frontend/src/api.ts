@@ -0,0 +1,73 @@
+export const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+
+const TOKEN_KEY = 'authToken'
+
+interface TokenResponse {
+  token: string
+  userId: string
+  expiresAt: number
+}
+
+const getToken = () => localStorage.getItem(TOKEN_KEY)
+
+// Calls the API with the session token; `path` is relative to the API base, e.g. '/chat'
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers)
+  const token = getToken()
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+
+  return fetch(`${API_BASE_URL}${path}`, { ...init, headers })
+}
+
+// URL for plain links such as downloads, which can't send headers. They carry a
+// short-lived download token the server issued for `path` instead of the session token.
+export function downloadUrl(path: string, downloadToken: string): string {
+  return `${API_BASE_URL}${path}${path.includes('?') ? '&' : '?'}download=${encodeURIComponent(downloadToken)}`
+}
+
+/**
+ * Makes sure there is a valid session token and returns its user. A stored token is
+ * refreshed so active users never expire; without one (or if it was rejected) a new
+ * anonymous user is created.
+ */
+export async function ensureSession(): Promise<string> {
+  if (getToken()) {
+    const response = await apiFetch('/auth/refresh', { method: 'POST' })
+    if (response.ok) {
+      const { token, userId }: TokenResponse = await response.json()
+      localStorage.setItem(TOKEN_KEY, token)
+      return userId
+    }
+    // Only a rejected token means starting over; other failures shouldn't lose the user
+    if (response.status !== 401) {
+      throw new Error(`Failed to refresh the session: ${response.statusText}`)
+    }
+  }
+
+  const response = await fetch(`${API_BASE_URL}/auth/token`, { method: 'POST' })
+  if (!response.ok) {
+    throw new Error(`Failed to start a session: ${response.statusText}`)
+  }
+
+  const { token, userId }: TokenResponse = await response.json()
+  localStorage.setItem(TOKEN_KEY, token)
+  return userId
+}
+
+// Error responses have the shape { error: { code, message, details } }
+export interface ApiErrorBody {
+  error?: { code: string; message: string; details?: unknown }
+}
+
+// The message of an API error response body, for showing or throwing
+export function errorMessage(data: ApiErrorBody | undefined, fallback = 'Request failed'): string {
+  return data?.error?.message || fallback
+}
+
+// Explains a 429 response, using its Retry-After header
+export async function describeRateLimit(response: Response): Promise<string> {
+  const data: ApiErrorBody | undefined = await response.json().catch(() => undefined)
+  const seconds = Number(response.headers.get('Retry-After')) || 60
+  const wait = seconds < 90 ? `${seconds} seconds` : seconds < 90 * 60 ? `${Math.round(seconds / 60)} minutes` : `${Math.round(seconds / 3600)} hours`
+  return `${errorMessage(data, 'Too many requests')}. Please try again in ${wait}.`
+}
@@ -0,0 +1,342 @@
+import { useState, useEffect } from "react";
+import { Plus, Loader2, Trash2, X, ChevronDown, ChevronUp } from "lucide-react";
+import JobAnalysisView, { type JobAnalysis } from "./JobAnalysisView";
+import MatchReportView, { type MatchReport } from "./MatchReportView";
+import { apiFetch, errorMessage } from "../api";
+
+interface ApplicationsBoardProps {
+  userId: string;
+}
+
+type ApplicationStatus = "saved" | "applied" | "interviewing" | "offer" | "rejected";
+
+interface ApplicationArtifacts {
+  analysis?: JobAnalysis;
+  match?: MatchReport;
+  tailoredResume?: string;
+  coverLetter?: string;
+  interviewTips?: string;
+}
+
+export interface Application {
+  id: string;
+  company: string;
+  jobTitle: string;
+  jobDescription?: string;
+  status: ApplicationStatus;
+  artifacts?: ApplicationArtifacts;
+  workflowId?: string;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+  appliedAt?: number;
+}
+
+// Board columns in pipeline order
+const COLUMNS: { status: ApplicationStatus; title: string; className: string }[] = [
+  { status: "saved", title: "Saved", className: "bg-gray-100 text-gray-700" },
+  { status: "applied", title: "Applied", className: "bg-blue-100 text-blue-700" },
+  { status: "interviewing", title: "Interviewing", className: "bg-yellow-100 text-yellow-700" },
+  { status: "offer", title: "Offer", className: "bg-green-100 text-green-700" },
+  { status: "rejected", title: "Rejected", className: "bg-red-100 text-red-700" },
+];
+
+const ARTIFACT_TITLES: Record<keyof ApplicationArtifacts, string> = {
+  analysis: "Job Analysis",
+  match: "Resume Match",
+  tailoredResume: "Tailored Resume",
+  coverLetter: "Cover Letter",
+  interviewTips: "Interview Preparation",
+};
+
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString();
+
+function ApplicationCard({
+  application,
+  onUpdate,
+  onDelete,
+}: {
+  application: Application;
+  onUpdate: (changes: Partial<Application>) => void;
+  onDelete: () => void;
+}) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [notes, setNotes] = useState(application.notes ?? "");
+  const artifacts = Object.entries(application.artifacts ?? {}).filter(([, value]) => value) as [
+    keyof ApplicationArtifacts,
+    ApplicationArtifacts[keyof ApplicationArtifacts]
+  ][];
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-3 shadow-sm space-y-2">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-semibold text-gray-900">{application.company}</p>
+          <p className="text-sm text-gray-600">{application.jobTitle}</p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="text-gray-400 hover:text-gray-600"
+          title={isExpanded ? "Hide details" : "Show details"}
+        >
+          {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Added {formatDate(application.createdAt)}
+        {application.appliedAt && ` • Applied ${formatDate(application.appliedAt)}`}
+      </p>
+
+      <select
+        value={application.status}
+        onChange={(e) => onUpdate({ status: e.target.value as ApplicationStatus })}
+        className="w-full text-sm border border-gray-300 rounded-md px-2 py-1"
+      >
+        {COLUMNS.map(({ status, title }) => (
+          <option key={status} value={status}>
+            {title}
+          </option>
+        ))}
+      </select>
+
+      {isExpanded && (
+        <div className="space-y-3 pt-2 border-t border-gray-100">
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            onBlur={() => notes !== (application.notes ?? "") && onUpdate({ notes })}
+            placeholder="Notes (recruiter, follow-up dates, ...)"
+            rows={3}
+            className="w-full text-sm border border-gray-300 rounded-md px-2 py-1"
+          />
+
+          {application.jobDescription && (
+            <details>
+              <summary className="text-sm font-medium text-gray-700 cursor-pointer">Job description</summary>
+              <pre className="mt-2 whitespace-pre-wrap text-xs text-gray-600 bg-gray-50 p-2 rounded">
+                {application.jobDescription}
+              </pre>
+            </details>
+          )}
+
+          {artifacts.map(([key, value]) => (
+            <details key={key}>
+              <summary className="text-sm font-medium text-gray-700 cursor-pointer">{ARTIFACT_TITLES[key]}</summary>
+              <div className="mt-2">
+                {key === "analysis" ? (
+                  <JobAnalysisView analysis={value as JobAnalysis} />
+                ) : key === "match" ? (
+                  <MatchReportView report={value as MatchReport} />
+                ) : (
+                  <pre className="whitespace-pre-wrap text-xs text-gray-600 bg-gray-50 p-2 rounded">
+                    {value as string}
+                  </pre>
+                )}
+              </div>
+            </details>
+          ))}
+
+          <button
+            type="button"
+            onClick={onDelete}
+            className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-700"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>Delete</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ApplicationsBoard({ userId }: ApplicationsBoardProps) {
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [company, setCompany] = useState("");
+  const [jobTitle, setJobTitle] = useState("");
+  const [jobDescription, setJobDescription] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadApplications();
+  }, [userId]);
+
+  const loadApplications = async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiFetch(`/applications`);
+      const data = await response.json();
+      setApplications(data.applications || []);
+    } catch (err) {
+      console.error("Failed to load applications:", err);
+      setError("Failed to load applications. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const addApplication = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!company.trim() || !jobTitle.trim()) {
+      setError("Company and job title are required");
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await apiFetch(`/applications`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ company, jobTitle, jobDescription: jobDescription || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+
+      setApplications((prev) => [data.application, ...prev]);
+      setCompany("");
+      setJobTitle("");
+      setJobDescription("");
+      setIsAdding(false);
+    } catch (err) {
+      console.error("Failed to add application:", err);
+      setError("Failed to add application. Please try again.");
+    }
+  };
+
+  const updateApplication = async (id: string, changes: Partial<Application>) => {
+    // Update optimistically so cards move columns immediately
+    const previous = applications;
+    setApplications((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+
+    try {
+      const response = await apiFetch(`/applications/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+
+      setApplications((prev) => prev.map((a) => (a.id === id ? data.application : a)));
+    } catch (err) {
+      console.error("Failed to update application:", err);
+      setApplications(previous);
+      setError("Failed to update application. Please try again.");
+    }
+  };
+
+  const deleteApplication = async (id: string) => {
+    if (!confirm("Delete this application?")) return;
+
+    try {
+      const response = await apiFetch(`/applications/${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error(response.statusText);
+
+      setApplications((prev) => prev.filter((a) => a.id !== id));
+    } catch (err) {
+      console.error("Failed to delete application:", err);
+      setError("Failed to delete application. Please try again.");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Applications</h2>
+            <p className="text-gray-600">
+              Track every job you're pursuing. Save workflow results here from the Application Workflow tab.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setIsAdding(!isAdding)}
+            className="btn-primary flex items-center space-x-2"
+          >
+            {isAdding ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            <span>{isAdding ? "Cancel" : "Add application"}</span>
+          </button>
+        </div>
+
+        {isAdding && (
+          <form onSubmit={addApplication} className="mt-4 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="text"
+                value={company}
+                onChange={(e) => setCompany(e.target.value)}
+                placeholder="Company"
+                className="input-field"
+              />
+              <input
+                type="text"
+                value={jobTitle}
+                onChange={(e) => setJobTitle(e.target.value)}
+                placeholder="Job title"
+                className="input-field"
+              />
+            </div>
+            <textarea
+              value={jobDescription}
+              onChange={(e) => setJobDescription(e.target.value)}
+              placeholder="Job description (optional)"
+              rows={4}
+              className="input-field"
+            />
+            <button type="submit" className="btn-primary">
+              Save
+            </button>
+          </form>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 text-primary-500 animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+          {COLUMNS.map(({ status, title, className }) => {
+            const column = applications.filter((a) => a.status === status);
+            return (
+              <div key={status} className="bg-gray-50 rounded-xl border border-gray-200 p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${className}`}>{title}</span>
+                  <span className="text-xs text-gray-500">{column.length}</span>
+                </div>
+                {column.map((application) => (
+                  <ApplicationCard
+                    key={application.id}
+                    application={application}
+                    onUpdate={(changes) => updateApplication(application.id, changes)}
+                    onDelete={() => deleteApplication(application.id)}
+                  />
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ApplicationsBoard;
@@ -1,39 +1,140 @@
 import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, User, Bot, RotateCcw } from 'lucide-react'
+import { Send, Loader2, User, Bot, RotateCcw, Square, Briefcase, GraduationCap, Copy } from 'lucide-react'
 import { clsx } from 'clsx'
+import JobContextPanel from './JobContextPanel'
+import JobAnalysisView, { type JobAnalysis } from './JobAnalysisView'
+import InterviewReportView, { type InterviewReport, type InterviewSession } from './InterviewReportView'
+import { apiFetch, describeRateLimit, errorMessage } from '../api'
+
+// Structured result of a slash command, shown instead of (or alongside) the text
+type MessageAttachment =
+  | { type: 'analysis'; analysis: JobAnalysis }
+  | { type: 'document'; deliverable: string; title: string }
+  | { type: 'context'; jobContext: Record<string, string> }
 
 interface Message {
   role: 'user' | 'assistant'
   content: string
   timestamp: number
+  attachment?: MessageAttachment
+}
+
+interface ChatCommand {
+  name: string
+  usage: string
+  description: string
 }
 
 interface ChatProps {
   sessionId: string
-  userId: string
+  // Called when the session changes server-side, so the session list can reload
+  onActivity?: () => void
+}
+
+
+// Parses a text/event-stream body into { event, data } pairs as chunks arrive
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() ?? ''
+
+    for (const raw of events) {
+      let event = 'message'
+      const dataLines: string[] = []
+      for (const line of raw.split(/\r?\n/)) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''))
+      }
+      if (dataLines.length > 0) {
+        yield { event, data: dataLines.join('\n') }
+      }
+    }
+  }
+}
+
+// Shown to the user as is, unlike other failures
+class RateLimitError extends Error {}
+
+const appendToLastMessage = (messages: Message[], token: string): Message[] => {
+  const last = messages[messages.length - 1]
+  return [...messages.slice(0, -1), { ...last, content: last.content + token }]
 }
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
+function MessageBody({ message }: { message: Message }) {
+  const { attachment } = message
 
-function Chat({ sessionId, userId }: ChatProps) {
+  if (attachment?.type === 'analysis') {
+    return <JobAnalysisView analysis={attachment.analysis} />
+  }
+
+  if (attachment?.type === 'document') {
+    return (
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-xs uppercase tracking-wide text-gray-500">{attachment.title}</p>
+          <button
+            onClick={() => navigator.clipboard.writeText(message.content)}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title="Copy"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+      </div>
+    )
+  }
+
+  return <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+}
+
+function Chat({ sessionId, onActivity }: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [showContext, setShowContext] = useState(false)
+  // In interview practice, messages answer the current interview question
+  const [mode, setMode] = useState<'chat' | 'interview'>('chat')
+  const [interview, setInterview] = useState<InterviewSession | null>(null)
+  const [report, setReport] = useState<InterviewReport | null>(null)
+  const [questionCount, setQuestionCount] = useState(6)
+  const [commands, setCommands] = useState<ChatCommand[]>([])
+  const [highlightedCommand, setHighlightedCommand] = useState(0)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   useEffect(() => {
-    // Load conversation history on mount
+    // Load conversation history on mount and when switching sessions, dropping any
+    // reply still streaming into the previous one
+    abortControllerRef.current?.abort()
     loadHistory()
+    loadInterview()
   }, [sessionId])
 
   useEffect(() => {
-    // Scroll to bottom when messages change
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+    apiFetch('/chat/commands')
+      .then(response => response.ok ? response.json() : { commands: [] })
+      .then(data => setCommands(data.commands))
+      .catch(error => console.error('Failed to load commands:', error))
+  }, [])
+
+  useEffect(() => {
+    // Scroll to bottom when messages change (jump instantly while tokens stream in)
+    messagesEndRef.current?.scrollIntoView({ behavior: isStreaming ? 'auto' : 'smooth' })
   }, [messages])
 
   const loadHistory = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/history/${sessionId}`)
+      const response = await apiFetch(`/history/${sessionId}`)
       const data = await response.json()
       if (data.messages) {
         // Filter out system messages
@@ -45,13 +146,83 @@ function Chat({ sessionId, userId }: ChatProps) {
     }
   }
 
+  const loadInterview = async () => {
+    setInterview(null)
+    setReport(null)
+    try {
+      const response = await apiFetch(`/interview/${sessionId}`)
+      if (!response.ok) return
+      const data: { interview: InterviewSession | null } = await response.json()
+      setInterview(data.interview)
+      if (data.interview) {
+        setMode('interview')
+        if (data.interview.status === 'complete') loadReport()
+      }
+    } catch (error) {
+      console.error('Failed to load interview:', error)
+    }
+  }
+
+  const loadReport = async () => {
+    try {
+      const response = await apiFetch(`/interview/${sessionId}/report`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(errorMessage(data))
+      setReport(data.report)
+    } catch (error) {
+      console.error('Failed to load interview report:', error)
+    }
+  }
+
+  // Shows an error as an assistant message, since there's no reply to show instead
+  const showError = (error: unknown) => {
+    console.error('Error sending message:', error)
+    const errorMessage: Message = {
+      role: 'assistant',
+      content: error instanceof RateLimitError ? error.message : 'Sorry, I encountered an error. Please try again.',
+      timestamp: Date.now(),
+    }
+    setMessages(prev => [...prev, errorMessage])
+  }
+
+  const startInterview = async () => {
+    setIsLoading(true)
+    try {
+      const response = await apiFetch(`/interview/${sessionId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionCount }),
+      })
+
+      if (response.status === 429) {
+        throw new RateLimitError(await describeRateLimit(response))
+      }
+      const data = await response.json()
+      if (!response.ok) throw new Error(errorMessage(data))
+
+      setInterview(data.interview)
+      setReport(null)
+      setMessages(prev => [...prev, ...data.messages])
+    } catch (error) {
+      showError(error)
+    } finally {
+      setIsLoading(false)
+      onActivity?.()
+    }
+  }
+
   const handleClearHistory = async () => {
     if (confirm('Are you sure you want to clear the conversation history?')) {
       try {
-        await fetch(`${API_BASE_URL}/history/${sessionId}`, {
+        await apiFetch(`/history/${sessionId}`, {
           method: 'DELETE',
         })
         setMessages([])
+        setInterview(null)
+        setReport(null)
+        onActivity?.()
       } catch (error) {
         console.error('Failed to clear history:', error)
       }
@@ -72,8 +243,49 @@ function Chat({ sessionId, userId }: ChatProps) {
     setInput('')
     setIsLoading(true)
 
+    if (isAnswering) {
+      await sendAnswer(userMessage)
+    } else {
+      await streamReply(userMessage)
+    }
+  }
+
+  // Grades the answer; the reply holds the feedback and the next question
+  const sendAnswer = async (userMessage: Message) => {
+    try {
+      const response = await apiFetch(`/interview/${sessionId}/answer`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answer: userMessage.content }),
+      })
+
+      if (response.status === 429) {
+        throw new RateLimitError(await describeRateLimit(response))
+      }
+      const data = await response.json()
+      if (!response.ok) throw new Error(errorMessage(data))
+
+      // The answer is already shown
+      setMessages(prev => [...prev, ...data.messages.filter((m: Message) => m.role !== 'user')])
+      setInterview(data.interview)
+      if (data.interview.status === 'complete') loadReport()
+    } catch (error) {
+      showError(error)
+    } finally {
+      setIsLoading(false)
+      onActivity?.()
+    }
+  }
+
+  const streamReply = async (userMessage: Message) => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    let streamStarted = false
+
     try {
-      const response = await fetch(`${API_BASE_URL}/chat`, {
+      const response = await apiFetch(`/chat/stream`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -81,35 +293,87 @@ function Chat({ sessionId, userId }: ChatProps) {
         body: JSON.stringify({
           message: userMessage.content,
           sessionId,
-          userId,
         }),
+        signal: controller.signal,
       })
 
-      const data = await response.json()
+      if (response.status === 429) {
+        throw new RateLimitError(await describeRateLimit(response))
+      }
+      if (!response.ok || !response.body) {
+        throw new Error('No response from API')
+      }
 
-      if (data.response) {
-        const assistantMessage: Message = {
-          role: 'assistant',
-          content: data.response,
-          timestamp: data.timestamp || Date.now(),
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === 'token') {
+          const { token } = JSON.parse(data) as { token: string }
+          if (!streamStarted) {
+            // Replace the "Thinking..." indicator with the message being streamed
+            streamStarted = true
+            setIsStreaming(true)
+            setMessages(prev => [...prev, { role: 'assistant', content: token, timestamp: Date.now() }])
+          } else {
+            setMessages(prev => appendToLastMessage(prev, token))
+          }
+        } else if (event === 'command') {
+          // Commands reply in one piece rather than token by token
+          const { message, reset } = JSON.parse(data) as { message: Message; reset?: boolean }
+          streamStarted = true
+          setMessages(prev => reset ? [] : [...prev, message])
+          if (reset) {
+            setInterview(null)
+            setReport(null)
+          }
+        } else if (event === 'error') {
+          throw new Error(data)
         }
-        setMessages(prev => [...prev, assistantMessage])
-      } else {
+      }
+
+      if (!streamStarted) {
         throw new Error('No response from API')
       }
     } catch (error) {
-      console.error('Error sending message:', error)
-      const errorMessage: Message = {
-        role: 'assistant',
-        content: 'Sorry, I encountered an error. Please try again.',
-        timestamp: Date.now(),
-      }
-      setMessages(prev => [...prev, errorMessage])
+      if (controller.signal.aborted) return
+      showError(error)
     } finally {
+      abortControllerRef.current = null
       setIsLoading(false)
+      setIsStreaming(false)
+      onActivity?.()
     }
   }
 
+  const stopStreaming = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const isAnswering = mode === 'interview' && interview?.status === 'active'
+
+  // Commands matching what's typed so far, until the command name is finished
+  const commandSuggestions = !isAnswering && /^\/\w*$/.test(input)
+    ? commands.filter(command => command.name.startsWith(input.slice(1).toLowerCase()))
+    : []
+
+  const completeCommand = (command: ChatCommand) => {
+    setInput(`/${command.name} `)
+    setHighlightedCommand(0)
+  }
+
+  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commandSuggestions.length === 0) return
+    const highlighted = Math.min(highlightedCommand, commandSuggestions.length - 1)
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setHighlightedCommand((highlighted + step + commandSuggestions.length) % commandSuggestions.length)
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && input !== `/${commandSuggestions[highlighted].name}`)) {
+      e.preventDefault()
+      completeCommand(commandSuggestions[highlighted])
+    }
+  }
+  const answeredCount = interview?.turns.filter(turn => turn.answer !== undefined).length ?? 0
+
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden">
       {/* Chat Header */}
@@ -118,15 +382,75 @@ function Chat({ sessionId, userId }: ChatProps) {
           <h2 className="text-xl font-semibold text-white">Chat with AI Assistant</h2>
           <p className="text-primary-100 text-sm">Ask about resumes, cover letters, or interview prep</p>
         </div>
-        <button
-          onClick={handleClearHistory}
-          className="p-2 hover:bg-primary-700 rounded-lg transition-colors text-white"
-          title="Clear conversation"
-        >
-          <RotateCcw className="w-5 h-5" />
-        </button>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setMode(prev => prev === 'chat' ? 'interview' : 'chat')}
+            className={clsx(
+              'p-2 hover:bg-primary-700 rounded-lg transition-colors text-white',
+              mode === 'interview' && 'bg-primary-700'
+            )}
+            title="Interview practice"
+          >
+            <GraduationCap className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setShowContext(prev => !prev)}
+            className={clsx(
+              'p-2 hover:bg-primary-700 rounded-lg transition-colors text-white',
+              showContext && 'bg-primary-700'
+            )}
+            title="Job context"
+          >
+            <Briefcase className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleClearHistory}
+            className="p-2 hover:bg-primary-700 rounded-lg transition-colors text-white"
+            title="Clear conversation"
+          >
+            <RotateCcw className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
+      {showContext && <JobContextPanel sessionId={sessionId} onSaved={onActivity} />}
+
+      {mode === 'interview' && (
+        <div className="border-b border-gray-200 px-6 py-3 bg-white space-y-3">
+          {isAnswering ? (
+            <p className="text-sm text-gray-600">
+              Interview practice: question {answeredCount + 1} of {interview!.questionCount}. Answer in the box below.
+            </p>
+          ) : (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-gray-600">
+                Practise answering questions for this job, one at a time, with a score and a stronger sample answer for each.
+              </p>
+              <div className="flex items-center space-x-2 flex-shrink-0">
+                <select
+                  value={questionCount}
+                  onChange={(e) => setQuestionCount(Number(e.target.value))}
+                  className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  disabled={isLoading}
+                >
+                  {[3, 6, 9].map(count => (
+                    <option key={count} value={count}>{count} questions</option>
+                  ))}
+                </select>
+                <button
+                  onClick={startInterview}
+                  disabled={isLoading}
+                  className="px-3 py-1.5 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-300 text-white text-sm font-medium rounded-lg transition-colors"
+                >
+                  {interview ? 'Start again' : 'Start interview'}
+                </button>
+              </div>
+            </div>
+          )}
+          {report && <InterviewReportView report={report} />}
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className="h-[500px] overflow-y-auto p-6 space-y-4 bg-gray-50">
         {messages.length === 0 && !isLoading && (
@@ -160,7 +484,7 @@ function Chat({ sessionId, userId }: ChatProps) {
                   : 'bg-white border border-gray-200 rounded-bl-sm'
               )}
             >
-              <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>
+              <MessageBody message={message} />
               <span
                 className={clsx(
                   'text-xs mt-1 block',
@@ -178,7 +502,7 @@ function Chat({ sessionId, userId }: ChatProps) {
           </div>
         ))}
 
-        {isLoading && (
+        {isLoading && !isStreaming && (
           <div className="flex items-start space-x-3">
             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary-100 flex items-center justify-center">
               <Bot className="w-5 h-5 text-primary-600" />
@@ -196,28 +520,63 @@ function Chat({ sessionId, userId }: ChatProps) {
       </div>
 
       {/* Input Area */}
-      <form onSubmit={sendMessage} className="border-t border-gray-200 p-4 bg-white">
+      <form onSubmit={sendMessage} className="relative border-t border-gray-200 p-4 bg-white">
+        {commandSuggestions.length > 0 && (
+          <ul className="absolute bottom-full left-4 right-4 mb-1 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+            {commandSuggestions.map((command, index) => (
+              <li key={command.name}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => completeCommand(command)}
+                  className={clsx(
+                    'w-full text-left px-4 py-2 text-sm flex items-baseline justify-between',
+                    index === Math.min(highlightedCommand, commandSuggestions.length - 1) ? 'bg-primary-50' : 'hover:bg-gray-50'
+                  )}
+                >
+                  <span className="font-mono text-gray-900">{command.usage}</span>
+                  <span className="text-gray-500 ml-4">{command.description}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
         <div className="flex space-x-3">
           <input
             type="text"
             value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder="Type your message..."
+            onChange={(e) => {
+              setInput(e.target.value)
+              setHighlightedCommand(0)
+            }}
+            onKeyDown={handleInputKeyDown}
+            placeholder={isAnswering ? 'Type your answer...' : 'Type your message, or / for commands...'}
             className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={isLoading || !input.trim()}
-            className="px-6 py-3 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors flex items-center space-x-2"
-          >
-            {isLoading ? (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            ) : (
-              <Send className="w-5 h-5" />
-            )}
-            <span>Send</span>
-          </button>
+          {isStreaming ? (
+            <button
+              type="button"
+              onClick={stopStreaming}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-800 text-white font-medium rounded-lg transition-colors flex items-center space-x-2"
+            >
+              <Square className="w-5 h-5" />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isLoading || !input.trim()}
+              className="px-6 py-3 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors flex items-center space-x-2"
+            >
+              {isLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Send className="w-5 h-5" />
+              )}
+              <span>Send</span>
+            </button>
+          )}
         </div>
       </form>
     </div>
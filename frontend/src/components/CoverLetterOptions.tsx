@@ -0,0 +1,113 @@
+export type CoverLetterTone = "formal" | "conversational" | "enthusiastic";
+
+export interface CoverLetterPreferences {
+  tone?: CoverLetterTone;
+  wordTarget?: number;
+  onePage?: boolean;
+  highlights?: string[];
+  hiringManager?: string;
+}
+
+export interface CoverLetterReview {
+  wordCount: number;
+  wordRange?: { min: number; max: number };
+  placeholders: string[];
+  issues: string[];
+}
+
+interface CoverLetterOptionsProps {
+  preferences: CoverLetterPreferences;
+  disabled: boolean;
+  onChange: (preferences: CoverLetterPreferences) => void;
+}
+
+const TONES: { value: CoverLetterTone; label: string }[] = [
+  { value: "formal", label: "Formal" },
+  { value: "conversational", label: "Conversational" },
+  { value: "enthusiastic", label: "Enthusiastic" },
+];
+
+// Same bounds as the server's request schema
+const MIN_WORD_TARGET = 100;
+const MAX_WORD_TARGET = 1000;
+
+// Tone, length and content controls for the cover letter. Highlights are kept one per
+// line as typed; the workflow panel drops blank ones before sending.
+function CoverLetterOptions({ preferences, disabled, onChange }: CoverLetterOptionsProps) {
+  const update = (changes: Partial<CoverLetterPreferences>) => onChange({ ...preferences, ...changes });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-3">
+      <p className="text-sm font-medium text-gray-700">Cover letter</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Tone</label>
+          <select
+            value={preferences.tone ?? ""}
+            onChange={(e) => update({ tone: (e.target.value || undefined) as CoverLetterTone | undefined })}
+            className="input-field text-sm"
+            disabled={disabled}
+          >
+            <option value="">Professional (default)</option>
+            {TONES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Length in words</label>
+          <input
+            type="number"
+            min={MIN_WORD_TARGET}
+            max={MAX_WORD_TARGET}
+            step={50}
+            value={preferences.wordTarget ?? ""}
+            onChange={(e) => update({ wordTarget: e.target.value ? Number(e.target.value) : undefined })}
+            placeholder="Any"
+            className="input-field text-sm"
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Hiring manager</label>
+          <input
+            type="text"
+            value={preferences.hiringManager ?? ""}
+            onChange={(e) => update({ hiringManager: e.target.value })}
+            placeholder="e.g., Maria Smith"
+            className="input-field text-sm"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">Achievements to highlight (one per line)</label>
+        <textarea
+          value={(preferences.highlights ?? []).join("\n")}
+          onChange={(e) => update({ highlights: e.target.value.split("\n") })}
+          placeholder="e.g., Cut checkout latency by 40%"
+          rows={2}
+          className="input-field resize-none text-sm"
+          disabled={disabled}
+        />
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={preferences.onePage ?? false}
+          onChange={(e) => update({ onePage: e.target.checked })}
+          disabled={disabled}
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>Keep it to one page</span>
+      </label>
+    </div>
+  );
+}
+
+export default CoverLetterOptions;
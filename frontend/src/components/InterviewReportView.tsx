@@ -0,0 +1,117 @@
+export type RubricCriterion = "star" | "relevance" | "specificity";
+
+export type QuestionKind = "behavioral" | "technical" | "role-specific";
+
+export interface InterviewTurn {
+  kind: QuestionKind;
+  question: string;
+  answer?: string;
+  grade?: {
+    scores: Record<RubricCriterion, number>;
+    overall: number;
+    feedback: string;
+    improvedAnswer: string;
+  };
+}
+
+export interface InterviewSession {
+  status: "active" | "complete";
+  questionCount: number;
+  turns: InterviewTurn[];
+}
+
+export interface InterviewReport {
+  status: "active" | "complete";
+  questionsAsked: number;
+  questionsAnswered: number;
+  averages: (Record<RubricCriterion, number> & { overall: number }) | null;
+  byKind: Partial<Record<QuestionKind, number>>;
+  strongestCriterion: RubricCriterion | null;
+  weakestCriterion: RubricCriterion | null;
+  focusAreas: string[];
+  turns: InterviewTurn[];
+}
+
+interface InterviewReportViewProps {
+  report: InterviewReport;
+}
+
+const CRITERION_LABELS: Record<RubricCriterion, string> = {
+  star: "STAR structure",
+  relevance: "Relevance",
+  specificity: "Specificity",
+};
+
+// Scores are from 1 to 5
+const scoreColor = (score: number) => {
+  if (score >= 4) return "bg-green-500";
+  if (score >= 3) return "bg-yellow-500";
+  return "bg-red-500";
+};
+
+function ScoreBar({ label, score }: { label: string; score: number }) {
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <p className="text-xs text-gray-600">{label}</p>
+        <p className="text-xs font-semibold text-gray-900">{score}/5</p>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full ${scoreColor(score)}`} style={{ width: `${(score / 5) * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function InterviewReportView({ report }: InterviewReportViewProps) {
+  if (!report.averages) {
+    return <p className="text-sm text-gray-500">Answer a question to see your scores.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm text-gray-700">
+      <div className="flex items-baseline justify-between">
+        <p className="text-xs uppercase tracking-wide text-gray-500">
+          Overall ({report.questionsAnswered} of {report.questionsAsked} answered)
+        </p>
+        <p className="text-2xl font-bold text-gray-900">{report.averages.overall}/5</p>
+      </div>
+
+      <div className="space-y-2">
+        {(Object.keys(CRITERION_LABELS) as RubricCriterion[]).map((criterion) => (
+          <ScoreBar key={criterion} label={CRITERION_LABELS[criterion]} score={report.averages![criterion]} />
+        ))}
+      </div>
+
+      {Object.keys(report.byKind).length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(report.byKind).map(([kind, score]) => (
+            <span key={kind} className="text-xs font-medium px-2.5 py-1 rounded-full bg-gray-100 text-gray-700">
+              {kind}: {score}/5
+            </span>
+          ))}
+        </div>
+      )}
+
+      {report.strongestCriterion && report.weakestCriterion && report.strongestCriterion !== report.weakestCriterion && (
+        <p>
+          Strongest at <span className="font-medium">{CRITERION_LABELS[report.strongestCriterion]}</span>; work on{" "}
+          <span className="font-medium">{CRITERION_LABELS[report.weakestCriterion]}</span>.
+        </p>
+      )}
+
+      {report.focusAreas.length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">What to practise</p>
+          <ul className="list-disc pl-5 space-y-1">
+            {report.focusAreas.map((area) => (
+              <li key={area}>{area}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default InterviewReportView;
@@ -0,0 +1,98 @@
+import { AlertTriangle } from "lucide-react";
+
+export interface JobAnalysis {
+  summary: string;
+  requiredSkills: string[];
+  niceToHaveSkills: string[];
+  seniority: string;
+  yearsOfExperience: { min: number | null; max: number | null };
+  responsibilities: string[];
+  cultureSignals: string[];
+  redFlags: string[];
+}
+
+interface JobAnalysisViewProps {
+  analysis: JobAnalysis;
+}
+
+const formatYears = ({ min, max }: JobAnalysis["yearsOfExperience"]) => {
+  if (min !== null && max !== null) return `${min}-${max} years`;
+  if (min !== null) return `${min}+ years`;
+  if (max !== null) return `Up to ${max} years`;
+  return "Not specified";
+};
+
+function Chips({ items, className }: { items: string[]; className: string }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-gray-400">None listed</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map((item) => (
+        <span key={item} className={`text-xs font-medium px-2.5 py-1 rounded-full ${className}`}>
+          {item}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function JobAnalysisView({ analysis }: JobAnalysisViewProps) {
+  return (
+    <div className="space-y-4 text-sm text-gray-700">
+      <p>{analysis.summary}</p>
+
+      <div className="flex flex-wrap gap-6">
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Seniority</p>
+          <p className="font-medium capitalize">{analysis.seniority}</p>
+        </div>
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">Experience</p>
+          <p className="font-medium">{formatYears(analysis.yearsOfExperience)}</p>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Required skills</p>
+        <Chips items={analysis.requiredSkills} className="bg-blue-100 text-blue-700" />
+      </div>
+
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Nice to have</p>
+        <Chips items={analysis.niceToHaveSkills} className="bg-gray-100 text-gray-700" />
+      </div>
+
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Responsibilities</p>
+        <ul className="list-disc pl-5 space-y-1">
+          {analysis.responsibilities.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">Culture signals</p>
+        <Chips items={analysis.cultureSignals} className="bg-purple-100 text-purple-700" />
+      </div>
+
+      {analysis.redFlags.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+          <p className="flex items-center space-x-2 text-xs uppercase tracking-wide text-amber-700 mb-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Red flags</span>
+          </p>
+          <ul className="list-disc pl-5 space-y-1 text-amber-800">
+            {analysis.redFlags.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default JobAnalysisView;
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react'
+import { Loader2, Save, CheckCircle2 } from 'lucide-react'
+import { apiFetch } from '../api'
+import LanguageSelect, { type LanguageSetting } from './LanguageSelect'
+
+export interface JobContext {
+  jobTitle?: string
+  company?: string
+  jobDescription?: string
+  resumeText?: string
+}
+
+interface JobContextPanelProps {
+  sessionId: string
+  onSaved?: () => void
+}
+
+
+function JobContextPanel({ sessionId, onSaved }: JobContextPanelProps) {
+  const [context, setContext] = useState<JobContext>({})
+  const [language, setLanguage] = useState<LanguageSetting>('auto')
+  const [isSaving, setIsSaving] = useState(false)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadContext()
+  }, [sessionId])
+
+  const loadContext = async () => {
+    try {
+      const response = await apiFetch(`/context/${sessionId}`)
+      const data = await response.json()
+      setContext(data.context || {})
+      setLanguage(data.language || 'auto')
+    } catch (err) {
+      console.error('Failed to load job context:', err)
+    }
+  }
+
+  const updateField = (field: keyof JobContext, value: string) => {
+    setContext(prev => ({ ...prev, [field]: value }))
+    setSavedAt(null)
+  }
+
+  const updateLanguage = (value: LanguageSetting) => {
+    setLanguage(value)
+    setSavedAt(null)
+  }
+
+  const saveContext = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await apiFetch(`/context/${sessionId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ jobContext: context, language }),
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to save context: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setContext(data.context || context)
+      setLanguage(data.language || language)
+      setSavedAt(Date.now())
+      onSaved?.()
+    } catch (err) {
+      console.error('Failed to save job context:', err)
+      setError('Failed to save job context. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={saveContext} className="border-b border-gray-200 bg-white p-4 space-y-3">
+      <p className="text-sm text-gray-600">
+        The assistant uses this context in every reply, so you can ask things like
+        "how does my resume fit this role?"
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <input
+          type="text"
+          value={context.jobTitle || ''}
+          onChange={(e) => updateField('jobTitle', e.target.value)}
+          placeholder="Job title"
+          className="input-field"
+        />
+        <input
+          type="text"
+          value={context.company || ''}
+          onChange={(e) => updateField('company', e.target.value)}
+          placeholder="Company"
+          className="input-field"
+        />
+      </div>
+      <textarea
+        value={context.jobDescription || ''}
+        onChange={(e) => updateField('jobDescription', e.target.value)}
+        placeholder="Job description"
+        rows={4}
+        className="input-field resize-y"
+      />
+      <textarea
+        value={context.resumeText || ''}
+        onChange={(e) => updateField('resumeText', e.target.value)}
+        placeholder="Resume text"
+        rows={4}
+        className="input-field resize-y"
+      />
+      <div className="flex items-center space-x-3">
+        <label className="text-sm text-gray-600 whitespace-nowrap">Reply in</label>
+        <LanguageSelect value={language} onChange={updateLanguage} />
+      </div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+      <div className="flex items-center justify-end space-x-3">
+        {savedAt && (
+          <span className="flex items-center space-x-1 text-sm text-green-600">
+            <CheckCircle2 className="w-4 h-4" />
+            <span>Saved</span>
+          </span>
+        )}
+        <button type="submit" disabled={isSaving} className="btn-primary flex items-center space-x-2">
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          <span>Save context</span>
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default JobContextPanel
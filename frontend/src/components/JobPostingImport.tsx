@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Link, Loader2, Code } from "lucide-react";
+import { apiFetch, errorMessage } from "../api";
+
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  currency?: string;
+  period?: "hour" | "day" | "week" | "month" | "year";
+}
+
+export interface JobPosting {
+  jobTitle?: string;
+  company?: string;
+  location?: string;
+  salary?: SalaryRange;
+  description: string;
+  source: "greenhouse" | "lever" | "workday" | "json-ld" | "generic";
+  url?: string;
+}
+
+interface JobPostingImportProps {
+  disabled: boolean;
+  onImport: (posting: JobPosting) => void;
+}
+
+const SOURCE_LABELS: Record<JobPosting["source"], string> = {
+  greenhouse: "Greenhouse",
+  lever: "Lever",
+  workday: "Workday",
+  "json-ld": "structured data",
+  generic: "page text",
+};
+
+const formatSalary = ({ min, max, currency, period }: SalaryRange) => {
+  const amount = (value: number) =>
+    currency
+      ? value.toLocaleString(undefined, { style: "currency", currency, maximumFractionDigits: 0 })
+      : value.toLocaleString();
+  const range = min !== undefined && max !== undefined && min !== max
+    ? `${amount(min)} – ${amount(max)}`
+    : amount((min ?? max)!);
+  return period ? `${range} per ${period}` : range;
+};
+
+// Prefills the workflow form from a job posting's URL or pasted page HTML
+function JobPostingImport({ disabled, onImport }: JobPostingImportProps) {
+  const [url, setUrl] = useState("");
+  const [html, setHtml] = useState("");
+  const [isPasting, setIsPasting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [imported, setImported] = useState<JobPosting | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importPosting = async () => {
+    const body = isPasting ? { html } : { url: url.trim() };
+    if (!(isPasting ? html.trim() : url.trim())) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/job/ingest`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        const details = Array.isArray(data.error?.details) ? `: ${data.error.details.join(", ")}` : "";
+        throw new Error(`${errorMessage(data)}${details}`);
+      }
+
+      setImported(data.posting);
+      setHtml("");
+      onImport(data.posting);
+    } catch (err) {
+      console.error("Failed to import job posting:", err);
+      setError(err instanceof Error ? err.message : "Failed to import the job posting.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Import a job posting</span>
+        <button
+          type="button"
+          onClick={() => setIsPasting((pasting) => !pasting)}
+          className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+          disabled={disabled}
+        >
+          {isPasting ? <Link className="w-3 h-3" /> : <Code className="w-3 h-3" />}
+          <span>{isPasting ? "Use a link instead" : "Paste page HTML instead"}</span>
+        </button>
+      </div>
+
+      <div className="flex items-start space-x-2">
+        {isPasting ? (
+          <textarea
+            value={html}
+            onChange={(e) => setHtml(e.target.value)}
+            placeholder="Paste the HTML source of the job page..."
+            rows={3}
+            className="input-field resize-none text-sm flex-1"
+            disabled={disabled || isImporting}
+          />
+        ) : (
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter imports rather than submitting the workflow form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                importPosting();
+              }
+            }}
+            placeholder="https://boards.greenhouse.io/company/jobs/123"
+            className="input-field text-sm flex-1"
+            disabled={disabled || isImporting}
+          />
+        )}
+        <button
+          type="button"
+          onClick={importPosting}
+          disabled={disabled || isImporting || !(isPasting ? html.trim() : url.trim())}
+          className="btn-secondary flex items-center space-x-2 text-sm disabled:opacity-50"
+        >
+          {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+          <span>Import</span>
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {imported && !error && (
+        <p className="text-xs text-gray-500">
+          Filled in from {SOURCE_LABELS[imported.source]}
+          {imported.location && ` • ${imported.location}`}
+          {imported.salary && ` • ${formatSalary(imported.salary)}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default JobPostingImport;
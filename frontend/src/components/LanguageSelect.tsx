@@ -0,0 +1,38 @@
+export type Language = "en" | "de" | "fr" | "es";
+
+// "auto" follows the language of the job description
+export type LanguageSetting = "auto" | Language;
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+};
+
+interface LanguageSelectProps {
+  value: LanguageSetting;
+  onChange: (value: LanguageSetting) => void;
+  disabled?: boolean;
+}
+
+// Language of the generated documents or chat replies
+function LanguageSelect({ value, onChange, disabled }: LanguageSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as LanguageSetting)}
+      className="input-field text-sm"
+      disabled={disabled}
+    >
+      <option value="auto">Same as the job description</option>
+      {(Object.keys(LANGUAGE_NAMES) as Language[]).map((language) => (
+        <option key={language} value={language}>
+          {LANGUAGE_NAMES[language]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default LanguageSelect;
@@ -0,0 +1,91 @@
+export interface SkillCoverage {
+  matched: string[];
+  missing: string[];
+}
+
+export interface MatchReport {
+  score: number;
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  requiredSkills?: SkillCoverage;
+  niceToHaveSkills?: SkillCoverage;
+  gaps: { skill: string; suggestion: string }[];
+}
+
+interface MatchReportViewProps {
+  report: MatchReport;
+}
+
+const scoreColor = (score: number) => {
+  if (score >= 75) return "bg-green-500";
+  if (score >= 50) return "bg-yellow-500";
+  return "bg-red-500";
+};
+
+function CoverageRow({ label, coverage }: { label: string; coverage: SkillCoverage }) {
+  return (
+    <div>
+      <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">
+        {label} ({coverage.matched.length}/{coverage.matched.length + coverage.missing.length})
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {coverage.matched.map((skill) => (
+          <span key={skill} className="text-xs font-medium px-2.5 py-1 rounded-full bg-green-100 text-green-700">
+            {skill}
+          </span>
+        ))}
+        {coverage.missing.map((skill) => (
+          <span key={skill} className="text-xs font-medium px-2.5 py-1 rounded-full bg-red-50 text-red-700 line-through">
+            {skill}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MatchReportView({ report }: MatchReportViewProps) {
+  return (
+    <div className="space-y-4 text-sm text-gray-700">
+      <div>
+        <div className="flex items-baseline justify-between mb-1">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Match score</p>
+          <p className="text-2xl font-bold text-gray-900">{report.score}%</p>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${scoreColor(report.score)}`}
+            style={{ width: `${report.score}%` }}
+          />
+        </div>
+      </div>
+
+      {report.requiredSkills && (
+        <CoverageRow label="Required skills" coverage={report.requiredSkills} />
+      )}
+      {report.niceToHaveSkills && (
+        <CoverageRow label="Nice to have" coverage={report.niceToHaveSkills} />
+      )}
+      <CoverageRow
+        label="Job description keywords"
+        coverage={{ matched: report.matchedKeywords, missing: report.missingKeywords }}
+      />
+
+      {report.gaps.length > 0 && (
+        <div>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-2">How to close the gaps</p>
+          <ul className="space-y-2">
+            {report.gaps.map((gap) => (
+              <li key={gap.skill} className="bg-gray-50 rounded-lg p-3">
+                <p className="font-medium text-gray-900">{gap.skill}</p>
+                <p>{gap.suggestion}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MatchReportView;
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { Check, Loader2, Save, Undo2 } from "lucide-react";
+import { apiFetch, errorMessage } from "../api";
+
+interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+type DiffHunk =
+  | { type: "equal"; lines: string[] }
+  | { type: "change"; id: number; removed: string[]; added: string[]; words?: DiffSegment[] };
+
+interface ResumeDiff {
+  sections: { heading: string; hunks: DiffHunk[] }[];
+  changes: number;
+  added: number;
+  removed: number;
+}
+
+interface ResumeDiffViewProps {
+  // The resume the workflow was given: its text, or the saved profile
+  resumeText: string;
+  useProfile: boolean;
+  tailoredResume: string;
+  onSave: (text: string) => Promise<void>;
+}
+
+const SEGMENT_CLASSES: Record<DiffSegment["type"], string> = {
+  equal: "",
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-700 line-through",
+};
+
+// Accepted changes take the tailored lines, rejected ones keep the original's
+const assemble = (diff: ResumeDiff, rejected: Set<number>) =>
+  diff.sections
+    .flatMap(({ hunks }) =>
+      hunks.flatMap((hunk) =>
+        hunk.type === "equal" ? hunk.lines : rejected.has(hunk.id) ? hunk.removed : hunk.added
+      )
+    )
+    .join("\n");
+
+function ChangeBlock({ hunk, isRejected }: { hunk: Extract<DiffHunk, { type: "change" }>; isRejected: boolean }) {
+  // A rejected change shows the original text it keeps
+  if (isRejected) {
+    return <span className="text-gray-500">{hunk.removed.join("\n")}</span>;
+  }
+  if (hunk.words) {
+    return (
+      <>
+        {hunk.words.map((segment, index) => (
+          <span key={index} className={SEGMENT_CLASSES[segment.type]}>
+            {segment.text}
+          </span>
+        ))}
+      </>
+    );
+  }
+  return (
+    <>
+      {hunk.removed.length > 0 && <span className={`block ${SEGMENT_CLASSES.removed}`}>{hunk.removed.join("\n")}</span>}
+      {hunk.added.length > 0 && <span className={`block ${SEGMENT_CLASSES.added}`}>{hunk.added.join("\n")}</span>}
+    </>
+  );
+}
+
+// Original vs. tailored resume by section, with each change accepted or rejected on its
+// own; the assembled version is saved to the resume library
+function ResumeDiffView({ resumeText, useProfile, tailoredResume, onSave }: ResumeDiffViewProps) {
+  const [diff, setDiff] = useState<ResumeDiff | null>(null);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadDiff = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await apiFetch(`/resume/diff`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(useProfile ? { useProfile: true, tailoredResume } : { resumeText, tailoredResume }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(errorMessage(data));
+
+        if (!cancelled) {
+          setDiff(data);
+          setRejected(new Set());
+        }
+      } catch (err) {
+        console.error("Failed to compare resumes:", err);
+        if (!cancelled) setError("Failed to compare the resumes. Please try again.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeText, useProfile, tailoredResume]);
+
+  const toggle = (id: number) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const changeIds = diff
+    ? diff.sections.flatMap(({ hunks }) => hunks.flatMap((hunk) => (hunk.type === "change" ? [hunk.id] : [])))
+    : [];
+
+  const save = async () => {
+    if (!diff) return;
+    setIsSaving(true);
+    try {
+      await onSave(assemble(diff, rejected));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Comparing with your resume...</span>
+      </div>
+    );
+  }
+  if (error || !diff) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="text-gray-600">
+          {diff.changes === 0
+            ? "The tailored resume has the same content as yours."
+            : `${diff.changes - rejected.size} of ${diff.changes} changes accepted`}
+        </span>
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={() => setRejected(new Set())}
+            className="text-primary-600 hover:text-primary-700"
+          >
+            Accept all
+          </button>
+          <button
+            type="button"
+            onClick={() => setRejected(new Set(changeIds))}
+            className="text-primary-600 hover:text-primary-700"
+          >
+            Reject all
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            disabled={isSaving}
+            className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>Save final version</span>
+          </button>
+        </div>
+      </div>
+
+      {diff.sections.map((section, index) => (
+        <div key={index}>
+          <p className="text-xs uppercase tracking-wide text-gray-500 mb-1">
+            {section.heading.replace(/^#+\s*|\*\*|:$/g, "") || "Header"}
+          </p>
+          <div className="bg-gray-50 rounded-lg p-3 space-y-1">
+            {section.hunks.map((hunk, hunkIndex) =>
+              hunk.type === "equal" ? (
+                <pre key={hunkIndex} className="whitespace-pre-wrap text-sm text-gray-700">
+                  {hunk.lines.join("\n")}
+                </pre>
+              ) : (
+                <div key={hunkIndex} className="flex items-start space-x-2 border-l-2 border-primary-300 pl-2">
+                  <pre className="flex-1 whitespace-pre-wrap text-sm text-gray-700">
+                    <ChangeBlock hunk={hunk} isRejected={rejected.has(hunk.id)} />
+                  </pre>
+                  <button
+                    type="button"
+                    onClick={() => toggle(hunk.id)}
+                    className={`flex items-center space-x-1 text-xs px-2 py-1 rounded ${
+                      rejected.has(hunk.id)
+                        ? "bg-gray-200 text-gray-600 hover:bg-gray-300"
+                        : "bg-green-100 text-green-700 hover:bg-green-200"
+                    }`}
+                    title={rejected.has(hunk.id) ? "Use the tailored text" : "Keep your original text"}
+                  >
+                    {rejected.has(hunk.id) ? <Undo2 className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                    <span>{rejected.has(hunk.id) ? "Rejected" : "Accepted"}</span>
+                  </button>
+                </div>
+              )
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default ResumeDiffView;
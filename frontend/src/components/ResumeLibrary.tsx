@@ -0,0 +1,241 @@
+import { useState, useEffect } from "react";
+import { Library, Loader2, GitCompare, Pencil, Trash2 } from "lucide-react";
+import { apiFetch, errorMessage } from "../api";
+
+interface ResumeLibraryProps {
+  userId: string;
+  selectedId: string | null;
+  // Bumped by the parent whenever it saves a version, so the list reloads
+  refreshKey: number;
+  onUse: (resume: ResumeVersion) => void;
+  onDeleted: (id: string) => void;
+}
+
+export interface ResumeSummary {
+  id: string;
+  name: string;
+  source: "upload" | "manual" | "tailored";
+  parentId?: string;
+  workflowId?: string;
+  createdAt: number;
+  length: number;
+}
+
+export interface ResumeVersion extends Omit<ResumeSummary, "length"> {
+  text: string;
+}
+
+interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+
+const SOURCE_LABELS: Record<ResumeSummary["source"], string> = {
+  upload: "Uploaded",
+  manual: "Edited",
+  tailored: "Tailored",
+};
+
+// Orders versions so each one follows its parent, with its depth for indentation
+const toTree = (resumes: ResumeSummary[]) => {
+  const ids = new Set(resumes.map((r) => r.id));
+  const rows: { resume: ResumeSummary; depth: number }[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const resume of resumes) {
+      const isRoot = !resume.parentId || !ids.has(resume.parentId);
+      if (parentId === undefined ? isRoot : resume.parentId === parentId) {
+        rows.push({ resume, depth });
+        visit(resume.id, depth + 1);
+      }
+    }
+  };
+  visit(undefined, 0);
+  return rows;
+};
+
+function ResumeLibrary({ userId, selectedId, refreshKey, onUse, onDeleted }: ResumeLibraryProps) {
+  const [resumes, setResumes] = useState<ResumeSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [diffFor, setDiffFor] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DiffLine[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadResumes();
+  }, [userId, refreshKey]);
+
+  const loadResumes = async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiFetch(`/resumes`);
+      const data = await response.json();
+      setResumes(data.resumes || []);
+    } catch (err) {
+      console.error("Failed to load resumes:", err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectResume = async (id: string) => {
+    setLoadingId(id);
+    setError(null);
+    try {
+      const response = await apiFetch(`/resumes/${id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+      onUse(data.resume);
+    } catch (err) {
+      console.error("Failed to load resume:", err);
+      setError("Failed to load that resume. Please try again.");
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const toggleDiff = async (id: string) => {
+    if (diffFor === id) {
+      setDiffFor(null);
+      return;
+    }
+
+    setError(null);
+    try {
+      const response = await apiFetch(`/resumes/${id}/diff`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+      setDiff(data.lines);
+      setDiffFor(id);
+    } catch (err) {
+      console.error("Failed to diff resume:", err);
+      setError("Failed to compare with the parent version.");
+    }
+  };
+
+  const renameResume = async (resume: ResumeSummary) => {
+    const name = prompt("Rename resume", resume.name);
+    if (!name?.trim() || name === resume.name) return;
+
+    try {
+      const response = await apiFetch(`/resumes/${resume.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      await loadResumes();
+    } catch (err) {
+      console.error("Failed to rename resume:", err);
+      setError("Failed to rename the resume.");
+    }
+  };
+
+  const deleteResume = async (id: string) => {
+    if (!confirm("Delete this resume version?")) return;
+
+    try {
+      const response = await apiFetch(`/resumes/${id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      onDeleted(id);
+      await loadResumes();
+    } catch (err) {
+      console.error("Failed to delete resume:", err);
+      setError("Failed to delete the resume.");
+    }
+  };
+
+  if (resumes.length === 0 && !isLoading) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-3 space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Library className="w-4 h-4" />
+        <span>Resume library</span>
+        {isLoading && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <ul className="space-y-1">
+        {toTree(resumes).map(({ resume, depth }) => (
+          <li key={resume.id} style={{ marginLeft: depth * 16 }}>
+            <div
+              className={`flex items-center justify-between rounded-md px-2 py-1 text-sm ${
+                selectedId === resume.id ? "bg-primary-50 text-primary-700" : "hover:bg-gray-50"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => selectResume(resume.id)}
+                className="flex-1 text-left truncate"
+                title="Use this resume"
+              >
+                {loadingId === resume.id && <Loader2 className="inline w-3 h-3 mr-1 animate-spin" />}
+                <span className="font-medium">{resume.name}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {SOURCE_LABELS[resume.source]} • {new Date(resume.createdAt).toLocaleDateString()}
+                </span>
+              </button>
+              <div className="flex items-center space-x-2 text-gray-400">
+                {resume.parentId && (
+                  <button
+                    type="button"
+                    onClick={() => toggleDiff(resume.id)}
+                    className="hover:text-gray-600"
+                    title="Compare with parent"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => renameResume(resume)}
+                  className="hover:text-gray-600"
+                  title="Rename"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteResume(resume.id)}
+                  className="hover:text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {diffFor === resume.id && (
+              <pre className="mt-1 max-h-64 overflow-auto text-xs bg-gray-50 rounded-md p-2">
+                {diff.map((line, index) => (
+                  <div
+                    key={index}
+                    className={
+                      line.type === "added"
+                        ? "bg-green-50 text-green-800"
+                        : line.type === "removed"
+                          ? "bg-red-50 text-red-800 line-through"
+                          : "text-gray-600"
+                    }
+                  >
+                    {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                    {line.text}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default ResumeLibrary;
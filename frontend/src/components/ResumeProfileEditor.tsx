@@ -0,0 +1,393 @@
+import { useState, useEffect } from "react";
+import { IdCard, Loader2, Plus, Save, Sparkles, Trash2, ChevronDown, ChevronRight } from "lucide-react";
+import { apiFetch, describeRateLimit, errorMessage } from "../api";
+
+interface ResumeProfileEditorProps {
+  userId: string;
+  // The resume currently in the workflow form, parsed by "Parse resume"
+  resumeId: string | null;
+  resumeText: string;
+  onChange: (profile: ResumeProfile | null) => void;
+}
+
+interface ExperienceEntry {
+  title: string;
+  company: string;
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  bullets: string[];
+}
+
+interface EducationEntry {
+  institution: string;
+  degree?: string;
+  field?: string;
+  startDate?: string;
+  endDate?: string;
+  details: string[];
+}
+
+interface Certification {
+  name: string;
+  issuer?: string;
+  date?: string;
+}
+
+export interface ResumeProfile {
+  contact: { name: string; email?: string; phone?: string; location?: string; links: string[] };
+  summary: string;
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  skills: string[];
+  certifications: Certification[];
+  sourceResumeId?: string;
+  updatedAt?: number;
+}
+
+const EMPTY_EXPERIENCE: ExperienceEntry = { title: "", company: "", bullets: [] };
+const EMPTY_EDUCATION: EducationEntry = { institution: "", details: [] };
+const EMPTY_CERTIFICATION: Certification = { name: "" };
+
+// Lists are edited as one item per line (comma-separated for skills and links). Blank
+// items are kept while typing and dropped by cleanProfile before saving.
+const fromCommas = (text: string) => text.split(",").map((item) => item.trimStart());
+const clean = (items: string[]) => items.map((item) => item.trim()).filter(Boolean);
+
+const cleanProfile = ({ updatedAt, ...profile }: ResumeProfile): ResumeProfile => ({
+  ...profile,
+  contact: { ...profile.contact, links: clean(profile.contact.links) },
+  experience: profile.experience.map((job) => ({ ...job, bullets: clean(job.bullets) })),
+  education: profile.education.map((school) => ({ ...school, details: clean(school.details) })),
+  skills: clean(profile.skills),
+});
+
+function Field({ label, value, onChange }: { label: string; value?: string; onChange: (value: string) => void }) {
+  return (
+    <label className="block text-xs text-gray-500">
+      {label}
+      <input
+        type="text"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value)}
+        className="input-field mt-1 text-sm"
+      />
+    </label>
+  );
+}
+
+function ResumeProfileEditor({ userId, resumeId, resumeText, onChange }: ResumeProfileEditorProps) {
+  const [profile, setProfile] = useState<ResumeProfile | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfile();
+  }, [userId]);
+
+  const applyProfile = (next: ResumeProfile | null) => {
+    setProfile(next);
+    onChange(next);
+  };
+
+  const loadProfile = async () => {
+    try {
+      const response = await apiFetch(`/profile`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+      applyProfile(data.profile);
+    } catch (err) {
+      console.error("Failed to load profile:", err);
+    }
+  };
+
+  const parseResume = async () => {
+    if (profile && !confirm("Replace your profile with one parsed from the current resume?")) return;
+
+    setIsParsing(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/profile/parse`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(resumeId ? { resumeId } : { text: resumeText }),
+      });
+      if (response.status === 429) {
+        setError(await describeRateLimit(response));
+        return;
+      }
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+      applyProfile(data.profile);
+      setIsOpen(true);
+    } catch (err) {
+      console.error("Failed to parse resume:", err);
+      setError(err instanceof Error ? err.message : "Failed to parse the resume.");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const saveProfile = async () => {
+    if (!profile) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await apiFetch(`/profile`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(cleanProfile(profile)),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+      applyProfile(data.profile);
+    } catch (err) {
+      console.error("Failed to save profile:", err);
+      setError(err instanceof Error ? err.message : "Failed to save the profile.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!confirm("Delete your resume profile?")) return;
+
+    try {
+      const response = await apiFetch(`/profile`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error(response.statusText);
+      applyProfile(null);
+    } catch (err) {
+      console.error("Failed to delete profile:", err);
+      setError("Failed to delete the profile.");
+    }
+  };
+
+  const update = (changes: Partial<ResumeProfile>) => {
+    setProfile((prev) => prev && { ...prev, ...changes });
+  };
+
+  const updateEntry = <K extends "experience" | "education" | "certifications">(
+    section: K,
+    index: number,
+    changes: Partial<ResumeProfile[K][number]>
+  ) => {
+    if (!profile) return;
+    update({ [section]: profile[section].map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) });
+  };
+
+  const removeEntry = (section: "experience" | "education" | "certifications", index: number) => {
+    if (!profile) return;
+    update({ [section]: profile[section].filter((_, i) => i !== index) });
+  };
+
+  const canParse = Boolean(resumeId || resumeText.trim());
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 mb-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setIsOpen((open) => !open)}
+          className="flex items-center space-x-2 text-sm font-medium text-gray-700"
+          disabled={!profile}
+        >
+          {profile && (isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+          <IdCard className="w-4 h-4" />
+          <span>Resume profile</span>
+          {profile && (
+            <span className="text-xs font-normal text-gray-500">
+              {profile.contact.name} • {profile.experience.length} roles • {profile.skills.length} skills
+            </span>
+          )}
+        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={parseResume}
+            disabled={!canParse || isParsing}
+            className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+            title="Build the profile from the resume below"
+          >
+            {isParsing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            <span>{profile ? "Re-parse resume" : "Parse resume"}</span>
+          </button>
+          {profile && (
+            <button
+              type="button"
+              onClick={deleteProfile}
+              className="text-gray-400 hover:text-red-600"
+              title="Delete profile"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {profile && isOpen && (
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Name" value={profile.contact.name} onChange={(name) => update({ contact: { ...profile.contact, name } })} />
+            <Field label="Email" value={profile.contact.email} onChange={(email) => update({ contact: { ...profile.contact, email } })} />
+            <Field label="Phone" value={profile.contact.phone} onChange={(phone) => update({ contact: { ...profile.contact, phone } })} />
+            <Field label="Location" value={profile.contact.location} onChange={(location) => update({ contact: { ...profile.contact, location } })} />
+          </div>
+          <Field
+            label="Links (comma-separated)"
+            value={profile.contact.links.join(", ")}
+            onChange={(links) => update({ contact: { ...profile.contact, links: fromCommas(links) } })}
+          />
+
+          <label className="block text-xs text-gray-500">
+            Summary
+            <textarea
+              value={profile.summary}
+              onChange={(e) => update({ summary: e.target.value })}
+              rows={3}
+              className="input-field mt-1 text-sm resize-none"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-gray-600 uppercase">Experience</p>
+            {profile.experience.map((job, index) => (
+              <div key={index} className="border border-gray-100 rounded-md p-2 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Field label="Title" value={job.title} onChange={(title) => updateEntry("experience", index, { title })} />
+                  <Field label="Company" value={job.company} onChange={(company) => updateEntry("experience", index, { company })} />
+                  <Field label="Start" value={job.startDate} onChange={(startDate) => updateEntry("experience", index, { startDate })} />
+                  <Field label="End" value={job.endDate} onChange={(endDate) => updateEntry("experience", index, { endDate })} />
+                </div>
+                <Field label="Location" value={job.location} onChange={(location) => updateEntry("experience", index, { location })} />
+                <label className="block text-xs text-gray-500">
+                  Bullets (one per line)
+                  <textarea
+                    value={job.bullets.join("\n")}
+                    onChange={(e) => updateEntry("experience", index, { bullets: e.target.value.split("\n") })}
+                    rows={4}
+                    className="input-field mt-1 text-sm resize-none"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeEntry("experience", index)}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                >
+                  Remove role
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ experience: [...profile.experience, EMPTY_EXPERIENCE] })}
+              className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+            >
+              <Plus className="w-3 h-3" />
+              <span>Add role</span>
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-gray-600 uppercase">Education</p>
+            {profile.education.map((school, index) => (
+              <div key={index} className="border border-gray-100 rounded-md p-2 space-y-2">
+                <div className="grid grid-cols-2 gap-2">
+                  <Field label="Institution" value={school.institution} onChange={(institution) => updateEntry("education", index, { institution })} />
+                  <Field label="Degree" value={school.degree} onChange={(degree) => updateEntry("education", index, { degree })} />
+                  <Field label="Field" value={school.field} onChange={(field) => updateEntry("education", index, { field })} />
+                  <Field label="End" value={school.endDate} onChange={(endDate) => updateEntry("education", index, { endDate })} />
+                </div>
+                <label className="block text-xs text-gray-500">
+                  Details (one per line)
+                  <textarea
+                    value={school.details.join("\n")}
+                    onChange={(e) => updateEntry("education", index, { details: e.target.value.split("\n") })}
+                    rows={2}
+                    className="input-field mt-1 text-sm resize-none"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => removeEntry("education", index)}
+                  className="text-xs text-gray-500 hover:text-red-600"
+                >
+                  Remove education
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ education: [...profile.education, EMPTY_EDUCATION] })}
+              className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+            >
+              <Plus className="w-3 h-3" />
+              <span>Add education</span>
+            </button>
+          </div>
+
+          <label className="block text-xs text-gray-500">
+            Skills (comma-separated)
+            <textarea
+              value={profile.skills.join(", ")}
+              onChange={(e) => update({ skills: fromCommas(e.target.value) })}
+              rows={2}
+              className="input-field mt-1 text-sm resize-none"
+            />
+          </label>
+
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-gray-600 uppercase">Certifications</p>
+            {profile.certifications.map((cert, index) => (
+              <div key={index} className="grid grid-cols-3 gap-2 items-end">
+                <Field label="Name" value={cert.name} onChange={(name) => updateEntry("certifications", index, { name })} />
+                <Field label="Issuer" value={cert.issuer} onChange={(issuer) => updateEntry("certifications", index, { issuer })} />
+                <div className="flex items-end space-x-2">
+                  <Field label="Date" value={cert.date} onChange={(date) => updateEntry("certifications", index, { date })} />
+                  <button
+                    type="button"
+                    onClick={() => removeEntry("certifications", index)}
+                    className="pb-2 text-gray-400 hover:text-red-600"
+                    title="Remove certification"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => update({ certifications: [...profile.certifications, EMPTY_CERTIFICATION] })}
+              className="flex items-center space-x-1 text-xs text-primary-600 hover:text-primary-700"
+            >
+              <Plus className="w-3 h-3" />
+              <span>Add certification</span>
+            </button>
+          </div>
+
+          <button
+            type="button"
+            onClick={saveProfile}
+            disabled={isSaving}
+            className="btn-secondary flex items-center space-x-2 text-sm disabled:opacity-50"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            <span>Save profile</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ResumeProfileEditor;
@@ -0,0 +1,161 @@
+import { useState, useEffect } from "react";
+import { MessageSquare, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { clsx } from "clsx";
+import { apiFetch, errorMessage } from "../api";
+
+interface SessionSidebarProps {
+  activeSessionId: string;
+  // Bumped by the parent after chat activity, so titles and ordering stay current
+  refreshKey: number;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+}
+
+export interface SessionEntry {
+  id: string;
+  title: string | null;
+  createdAt: number;
+  lastActivityAt: number;
+  jobContext?: { jobTitle?: string; company?: string };
+}
+
+// Sessions only get a title with their first message; fall back to the linked job
+const sessionLabel = (session: SessionEntry) => {
+  if (session.title) return session.title;
+  const role = [session.jobContext?.jobTitle, session.jobContext?.company].filter(Boolean).join(" at ");
+  return role || "New conversation";
+};
+
+const formatActivity = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString();
+};
+
+function SessionSidebar({ activeSessionId, refreshKey, onSelect, onNew }: SessionSidebarProps) {
+  const [sessions, setSessions] = useState<SessionEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, [refreshKey]);
+
+  const loadSessions = async () => {
+    try {
+      const response = await apiFetch("/sessions");
+      const data = await response.json();
+      setSessions(data.sessions || []);
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+      setError("Failed to load conversations.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renameSession = async (session: SessionEntry) => {
+    const title = prompt("Rename conversation", sessionLabel(session));
+    if (!title?.trim() || title === session.title) return;
+
+    try {
+      const response = await apiFetch(`/sessions/${session.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+
+      setSessions((prev) => prev.map((s) => (s.id === session.id ? data.session : s)));
+    } catch (err) {
+      console.error("Failed to rename session:", err);
+      setError("Failed to rename conversation. Please try again.");
+    }
+  };
+
+  const deleteSession = async (session: SessionEntry) => {
+    if (!confirm(`Delete "${sessionLabel(session)}"?`)) return;
+
+    try {
+      const response = await apiFetch(`/sessions/${session.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error(response.statusText);
+
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      if (session.id === activeSessionId) onNew();
+    } catch (err) {
+      console.error("Failed to delete session:", err);
+      setError("Failed to delete conversation. Please try again.");
+    }
+  };
+
+  return (
+    <aside className="bg-white rounded-xl shadow-lg border border-gray-200 p-4 space-y-3 self-start">
+      <button type="button" onClick={onNew} className="btn-primary w-full flex items-center justify-center space-x-2">
+        <Plus className="w-4 h-4" />
+        <span>New chat</span>
+      </button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 text-primary-500 animate-spin" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">Your conversations will appear here.</p>
+      ) : (
+        <ul className="space-y-1 max-h-[560px] overflow-y-auto">
+          {sessions.map((session) => (
+            <li key={session.id}>
+              <div
+                className={clsx(
+                  "group flex items-start space-x-2 rounded-lg px-2 py-2 cursor-pointer transition-colors",
+                  session.id === activeSessionId ? "bg-primary-50 text-primary-700" : "hover:bg-gray-50 text-gray-700"
+                )}
+                onClick={() => onSelect(session.id)}
+              >
+                <MessageSquare className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{sessionLabel(session)}</p>
+                  <p className="text-xs text-gray-500">{formatActivity(session.lastActivityAt)}</p>
+                </div>
+                <div className="hidden group-hover:flex items-center space-x-1">
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      renameSession(session);
+                    }}
+                    className="text-gray-400 hover:text-gray-600"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteSession(session);
+                    }}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
+
+export default SessionSidebar;
@@ -0,0 +1,71 @@
+import { AlertTriangle } from "lucide-react";
+
+export interface UnverifiedClaim {
+  kind: "entity" | "date" | "number" | "skill";
+  text: string;
+  line: string;
+  reason?: string;
+}
+
+interface UnverifiedClaimsViewProps {
+  text: string;
+  claims: UnverifiedClaim[];
+}
+
+const KIND_LABELS: Record<UnverifiedClaim["kind"], string> = {
+  entity: "Not in your resume",
+  date: "Date",
+  number: "Figure",
+  skill: "Skill",
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Splits the text around every claim so each one can be marked; longer claims win
+const highlight = (text: string, claims: UnverifiedClaim[]) => {
+  const phrases = [...new Set(claims.map((claim) => claim.text))].sort((a, b) => b.length - a.length);
+  if (phrases.length === 0) return [text];
+
+  const pattern = new RegExp(`(${phrases.map(escapeRegExp).join("|")})`, "gi");
+  return text.split(pattern).map((part, index) =>
+    // split() puts the captured matches at the odd indexes
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+};
+
+// The tailored resume with what the original resume doesn't support marked, and a list
+// of those claims to check before sending it
+function UnverifiedClaimsView({ text, claims }: UnverifiedClaimsViewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+        <p className="flex items-center space-x-1 font-medium mb-1">
+          <AlertTriangle className="w-4 h-4" />
+          <span>
+            {claims.length === 1 ? "1 claim isn't" : `${claims.length} claims aren't`} backed by your
+            original resume. Check or remove {claims.length === 1 ? "it" : "them"} before sending.
+          </span>
+        </p>
+        <ul className="list-disc list-inside">
+          {claims.map((claim) => (
+            <li key={`${claim.kind}:${claim.text}`}>
+              <span className="font-medium">{KIND_LABELS[claim.kind]}:</span> {claim.text}
+              {claim.reason && <span className="text-yellow-700"> ({claim.reason})</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+      <pre className="whitespace-pre-wrap text-gray-700 bg-gray-50 p-4 rounded-lg">
+        {highlight(text, claims)}
+      </pre>
+    </div>
+  );
+}
+
+export default UnverifiedClaimsView;
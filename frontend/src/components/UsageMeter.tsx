@@ -0,0 +1,67 @@
+import { useState, useEffect } from "react";
+import { Gauge } from "lucide-react";
+import { clsx } from "clsx";
+import { apiFetch } from "../api";
+
+interface UsageMeterProps {
+  // Bumped by the parent after chat activity so the meter catches up immediately
+  refreshKey: number;
+}
+
+interface UsageSummary {
+  tokensUsed: number;
+  dailyTokenBudget: number;
+  tokensRemaining: number | null;
+  resetsAt: number;
+  limits: Record<"chat" | "workflow", { capacity: number; refillPerMinute: number; available: number }>;
+}
+
+// Workflows keep spending tokens in the background, so poll as well
+const POLL_INTERVAL_MS = 60_000;
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+function UsageMeter({ refreshKey }: UsageMeterProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+
+  useEffect(() => {
+    loadUsage();
+    const interval = setInterval(loadUsage, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshKey]);
+
+  const loadUsage = async () => {
+    try {
+      const response = await apiFetch("/usage");
+      if (response.ok) setUsage(await response.json());
+    } catch (err) {
+      console.error("Failed to load usage:", err);
+    }
+  };
+
+  if (!usage || usage.dailyTokenBudget === 0) return null;
+
+  const percent = Math.min(100, Math.round((usage.tokensUsed / usage.dailyTokenBudget) * 100));
+  const title = [
+    `${usage.tokensUsed.toLocaleString()} of ${usage.dailyTokenBudget.toLocaleString()} AI tokens used today`,
+    `resets ${new Date(usage.resetsAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`,
+    `${usage.limits.workflow.available} of ${usage.limits.workflow.capacity} workflow runs available`,
+  ].join(", ");
+
+  return (
+    <div className="flex items-center space-x-2 text-xs text-gray-500" title={title}>
+      <Gauge className="w-4 h-4" />
+      <div className="w-24 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div
+          className={clsx("h-full rounded-full", percent >= 90 ? "bg-red-500" : percent >= 70 ? "bg-yellow-500" : "bg-primary-500")}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <span>
+        {formatTokens(usage.tokensUsed)} / {formatTokens(usage.dailyTokenBudget)} tokens
+      </span>
+    </div>
+  );
+}
+
+export default UsageMeter;
@@ -9,25 +9,220 @@ import {
   Lightbulb,
   Upload,
   X,
+  RefreshCw,
+  Target,
+  BookmarkPlus,
+  Save,
+  Download,
+  AlertTriangle,
+  GitCompare,
+  Languages,
 } from "lucide-react";
 import * as pdfjsLib from "pdfjs-dist";
 import pdfjsWorker from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import JobAnalysisView, { type JobAnalysis } from "./JobAnalysisView";
+import MatchReportView, { type MatchReport } from "./MatchReportView";
+import ResumeLibrary, { type ResumeVersion } from "./ResumeLibrary";
+import ResumeProfileEditor, { type ResumeProfile } from "./ResumeProfileEditor";
+import JobPostingImport, { type JobPosting } from "./JobPostingImport";
+import ResumeDiffView from "./ResumeDiffView";
+import UnverifiedClaimsView, { type UnverifiedClaim } from "./UnverifiedClaimsView";
+import CoverLetterOptions, { type CoverLetterPreferences, type CoverLetterReview } from "./CoverLetterOptions";
+import LanguageSelect, { LANGUAGE_NAMES, type Language, type LanguageSetting } from "./LanguageSelect";
+import { apiFetch, describeRateLimit, downloadUrl, errorMessage } from "../api";
 
 // Configure PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
 
+// PDFs are read here with PDF.js; the other formats are extracted by the server
+const SERVER_UPLOAD_EXTENSIONS = ["docx", "txt", "text", "md", "markdown", "rtf"];
+const UPLOAD_ACCEPT = ".pdf,.docx,.txt,.md,.markdown,.rtf";
+
+const IMAGE_OPS = [
+  pdfjsLib.OPS.paintImageXObject,
+  pdfjsLib.OPS.paintInlineImageXObject,
+  pdfjsLib.OPS.paintImageMaskXObject,
+];
+
+// Fewer characters than this across the whole PDF means it has no real text layer
+const MIN_PDF_TEXT_LENGTH = 50;
+
+// Upload failures whose message can be shown as is
+class UploadError extends Error {}
+
 interface WorkflowPanelProps {
   userId: string;
 }
 
 interface WorkflowResult {
-  analysis: string;
+  analysis: JobAnalysis;
+  match: MatchReport;
   tailoredResume: string;
+  unverifiedClaims: UnverifiedClaim[];
   coverLetter: string;
+  coverLetterReview: CoverLetterReview;
   interviewTips: string;
+  language: Language;
+  translatedResume: string;
+}
+
+interface WorkflowStep {
+  name: string;
+  resultKey: keyof WorkflowResult;
+  status: "complete" | "running" | "pending" | "skipped";
+  output: WorkflowResult[keyof WorkflowResult] | null;
+  // Results of checks run on the output, such as the resume's unverified claims
+  checks?: Partial<WorkflowResult>;
+}
+
+// Result cards in workflow step order
+const RESULT_SECTIONS: {
+  key: keyof WorkflowResult;
+  title: string;
+  description: string;
+  icon: typeof Briefcase;
+  iconClassName: string;
+}[] = [
+  {
+    key: "analysis",
+    title: "Job Analysis",
+    description: "Key requirements and insights",
+    icon: Briefcase,
+    iconClassName: "bg-blue-100 text-blue-600",
+  },
+  {
+    key: "match",
+    title: "Resume Match",
+    description: "Keyword and skill coverage",
+    icon: Target,
+    iconClassName: "bg-red-100 text-red-600",
+  },
+  {
+    key: "tailoredResume",
+    title: "Tailored Resume",
+    description: "Optimized for this position",
+    icon: FileText,
+    iconClassName: "bg-green-100 text-green-600",
+  },
+  {
+    key: "coverLetter",
+    title: "Cover Letter",
+    description: "Personalized for this application",
+    icon: MessageSquare,
+    iconClassName: "bg-purple-100 text-purple-600",
+  },
+  {
+    key: "interviewTips",
+    title: "Interview Preparation",
+    description: "Tips and likely questions",
+    icon: Lightbulb,
+    iconClassName: "bg-yellow-100 text-yellow-600",
+  },
+];
+
+
+// Generated documents the server can export, and the formats it renders
+const EXPORTABLE_SECTIONS: (keyof WorkflowResult)[] = ["tailoredResume", "coverLetter", "interviewTips"];
+const EXPORT_FORMATS = [
+  { format: "docx", label: "DOCX" },
+  { format: "pdf", label: "PDF" },
+  { format: "md", label: "MD" },
+];
+
+// Downloads go through a link the server signs for this workflow's export
+const downloadExport = async (workflowId: string, format: string, artifact?: keyof WorkflowResult) => {
+  const response = await apiFetch(`/workflow/${workflowId}/export/link`, { method: "POST" });
+  const data = await response.json();
+  if (!response.ok) throw new Error(errorMessage(data, "Failed to start the download"));
+
+  window.location.assign(
+    downloadUrl(`/workflow/${workflowId}/export?format=${format}${artifact ? `&artifact=${artifact}` : ""}`, data.token)
+  );
+};
+
+interface ExportLinksProps {
+  workflowId: string;
+  artifact?: keyof WorkflowResult;
+  label?: string;
+  onError: (message: string) => void;
 }
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || "/api";
+function ExportLinks({ workflowId, artifact, label, onError }: ExportLinksProps) {
+  return (
+    <div className="flex items-center space-x-1 text-sm text-gray-500">
+      <Download className="w-4 h-4" />
+      {label && <span>{label}</span>}
+      {EXPORT_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => downloadExport(workflowId, format, artifact).catch((err: Error) => onError(err.message))}
+          className="px-1.5 py-0.5 rounded hover:bg-gray-100 text-primary-600 hover:text-primary-700"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Blank fields are left out so the server uses its defaults
+const cleanCoverLetterPreferences = ({ highlights, hiringManager, ...rest }: CoverLetterPreferences): CoverLetterPreferences => {
+  const kept = (highlights ?? []).map((highlight) => highlight.trim()).filter(Boolean);
+  return {
+    ...rest,
+    ...(kept.length > 0 && { highlights: kept }),
+    ...(hiringManager?.trim() && { hiringManager: hiringManager.trim() }),
+  };
+};
+
+// What the server's checks found in the cover letter
+function CoverLetterChecks({ review }: { review: CoverLetterReview }) {
+  if (review.issues.length === 0) {
+    return (
+      <p className="mt-3 flex items-center space-x-1 text-xs text-gray-500">
+        <CheckCircle2 className="w-4 h-4 text-green-500" />
+        <span>
+          {review.wordCount} words
+          {review.wordRange && ` (target ${review.wordRange.min > 0 ? `${review.wordRange.min}-` : "up to "}${review.wordRange.max})`}
+          , no placeholders left
+        </span>
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+      <p className="flex items-center space-x-1 font-medium mb-1">
+        <AlertTriangle className="w-4 h-4" />
+        <span>Check before sending</span>
+      </p>
+      <ul className="list-disc list-inside">
+        {review.issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+// Structured sections get their own views; the rest are generated text
+const renderOutput = (
+  key: keyof WorkflowResult,
+  output: WorkflowResult[keyof WorkflowResult]
+) => {
+  if (key === "analysis") {
+    return <JobAnalysisView analysis={output as JobAnalysis} />;
+  }
+  if (key === "match") {
+    return <MatchReportView report={output as MatchReport} />;
+  }
+  return (
+    <pre className="whitespace-pre-wrap text-gray-700 bg-gray-50 p-4 rounded-lg">
+      {output as string}
+    </pre>
+  );
+};
 
 function WorkflowPanel({ userId }: WorkflowPanelProps) {
   const [jobTitle, setJobTitle] = useState("");
@@ -38,29 +233,94 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
-  const [, setWorkflowId] = useState<string | null>(null);
-  const [result, setResult] = useState<WorkflowResult | null>(null);
+  const [workflowId, setWorkflowId] = useState<string | null>(null);
+  const [savedApplicationId, setSavedApplicationId] = useState<string | null>(null);
+  const [savedResult, setSavedResult] = useState<Partial<WorkflowResult> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [result, setResult] = useState<Partial<WorkflowResult> | null>(null);
+  const [steps, setSteps] = useState<WorkflowStep[]>([]);
+  const [deliverables, setDeliverables] = useState<(keyof WorkflowResult)[]>(
+    RESULT_SECTIONS.map((s) => s.key)
+  );
+  const [activeDeliverables, setActiveDeliverables] = useState<(keyof WorkflowResult)[]>([]);
+  const [regeneratingKey, setRegeneratingKey] = useState<keyof WorkflowResult | null>(null);
+  const [instructionsFor, setInstructionsFor] = useState<keyof WorkflowResult | null>(null);
+  const [regenerateInstructions, setRegenerateInstructions] = useState("");
+  const [coverLetterPreferences, setCoverLetterPreferences] = useState<CoverLetterPreferences>({});
+  const [language, setLanguage] = useState<LanguageSetting>("auto");
+  const [translateResume, setTranslateResume] = useState(false);
+  // Show the tailored resume as a diff against the submitted one
+  const [isComparing, setIsComparing] = useState(false);
+  // Library version the resume text was loaded from; edits detach it
+  const [selectedResume, setSelectedResume] = useState<ResumeVersion | null>(null);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const [profile, setProfile] = useState<ResumeProfile | null>(null);
+  // Send the saved profile instead of the resume text
+  const [useProfile, setUseProfile] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const extractTextFromPDF = async (file: File): Promise<string> => {
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-    let fullText = "";
+    const pages: string[] = [];
+    let imagePages = 0;
 
     for (let i = 1; i <= pdf.numPages; i++) {
       const page = await pdf.getPage(i);
       const textContent = await page.getTextContent();
-      const pageText = textContent.items.map((item: any) => item.str).join(" ");
-      fullText += pageText + "\n";
+      // Keep the PDF's line breaks so headings and bullets survive for the resume parser
+      let pageText = "";
+      let lastY: number | undefined;
+      for (const item of textContent.items as any[]) {
+        if (item.str === undefined) continue;
+        const y = item.transform?.[5];
+        if (lastY !== undefined && y !== undefined && Math.abs(y - lastY) > 2 && !pageText.endsWith("\n")) {
+          pageText += "\n";
+        } else if (pageText && !/\s$/.test(pageText) && item.str && !item.str.startsWith(" ")) {
+          pageText += " ";
+        }
+        pageText += item.str;
+        if (item.hasEOL) pageText += "\n";
+        lastY = y;
+      }
+      pages.push(pageText.replace(/[ \t]+\n/g, "\n").trim());
+
+      if (!pageText.trim()) {
+        const { fnArray } = await page.getOperatorList();
+        if (fnArray.some((op) => IMAGE_OPS.includes(op))) imagePages++;
+      }
     }
 
-    return fullText.trim();
+    const text = pages.join("\n\n").trim();
+    if (text.replace(/\s/g, "").length < MIN_PDF_TEXT_LENGTH) {
+      throw new UploadError(
+        imagePages > 0
+          ? "This PDF is a scanned image, so it has no text to read. Upload the original Word file or a text-based PDF, or paste your resume below."
+          : "No text was found in this PDF. Please paste your resume text below."
+      );
+    }
+    return text;
+  };
+
+  const extractTextOnServer = async (file: File): Promise<string> => {
+    const form = new FormData();
+    form.append("file", file);
+
+    const response = await apiFetch(`/resume/extract`, {
+      method: "POST",
+      body: form,
+    });
+    const data = await response.json();
+    if (!response.ok) throw new UploadError(errorMessage(data));
+    return data.text;
   };
 
   const handleFileUpload = async (file: File) => {
-    if (file.type !== "application/pdf") {
-      setError("Please upload a PDF file");
+    const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+    const isPdf = file.type === "application/pdf" || extension === "pdf";
+    if (!isPdf && !SERVER_UPLOAD_EXTENSIONS.includes(extension)) {
+      setError("Please upload a PDF, DOCX, TXT, Markdown or RTF file");
       return;
     }
 
@@ -68,14 +328,18 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
     setError(null);
 
     try {
-      const text = await extractTextFromPDF(file);
+      const text = isPdf ? await extractTextFromPDF(file) : await extractTextOnServer(file);
       setResumeText(text);
       setUploadedFileName(file.name);
+      // Keep every upload so it can be reused without re-uploading the file
+      await saveResumeVersion({ name: file.name, text, source: "upload" });
     } catch (err) {
       setError(
-        "Failed to parse PDF. Please try again or paste your resume text manually."
+        err instanceof UploadError
+          ? err.message
+          : "Failed to read the file. Please try again or paste your resume text manually."
       );
-      console.error("PDF parsing error:", err);
+      console.error("Resume upload error:", err);
     } finally {
       setIsUploading(false);
     }
@@ -108,6 +372,53 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
     }
   };
 
+  const saveResumeVersion = async (
+    version: Pick<ResumeVersion, "name" | "text" | "source" | "parentId">,
+    { select = true }: { select?: boolean } = {}
+  ) => {
+    try {
+      const response = await apiFetch(`/resumes`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(version),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+
+      if (select) setSelectedResume(data.resume);
+      setLibraryRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error("Failed to save resume:", err);
+      setError("Failed to save the resume to your library.");
+    }
+  };
+
+  const saveEditedResume = async () => {
+    const name = prompt(
+      "Name this resume version",
+      selectedResume ? `${selectedResume.name} (edited)` : "My resume"
+    );
+    if (!name?.trim()) return;
+
+    await saveResumeVersion({
+      name,
+      text: resumeText,
+      source: "manual",
+      parentId: selectedResume?.id,
+    });
+  };
+
+  const useLibraryResume = (resume: ResumeVersion) => {
+    setSelectedResume(resume);
+    setResumeText(resume.text);
+    setUploadedFileName(null);
+  };
+
+  // The selected version is only sent by ID while its text is unchanged
+  const isLibraryResume = selectedResume !== null && selectedResume.text === resumeText;
+
   const clearUploadedFile = () => {
     setResumeText("");
     setUploadedFileName(null);
@@ -116,20 +427,61 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
     }
   };
 
-  const startWorkflow = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!jobTitle || !company || !jobDescription || !resumeText) {
-      setError("All fields are required");
-      return;
-    }
+  // Keeps the version assembled in the diff view, without replacing the resume in the form
+  const saveReviewedResume = async (text: string) => {
+    await saveResumeVersion(
+      {
+        name: `Tailored for ${jobTitle} at ${company} (reviewed)`,
+        text,
+        source: "tailored",
+        parentId: isLibraryResume ? selectedResume.id : undefined,
+      },
+      { select: false }
+    );
+    setResult((prev) => prev && { ...prev, tailoredResume: text });
+    setIsComparing(false);
+  };
 
+  // The translation is kept as its own version, next to the resume it was made from
+  const saveTranslatedResume = async () => {
+    if (!result?.translatedResume || !result.language) return;
+    await saveResumeVersion(
+      {
+        name: `${isLibraryResume ? selectedResume.name : "My resume"} (${LANGUAGE_NAMES[result.language]})`,
+        text: result.translatedResume,
+        source: "manual",
+        parentId: isLibraryResume ? selectedResume.id : undefined,
+      },
+      { select: false }
+    );
+  };
+
+  // Imported fields replace what was typed; fields the page didn't have are kept
+  const applyJobPosting = (posting: JobPosting) => {
+    if (posting.jobTitle) setJobTitle(posting.jobTitle);
+    if (posting.company) setCompany(posting.company);
+    setJobDescription(posting.description);
+  };
+
+  const toggleDeliverable = (key: keyof WorkflowResult) => {
+    setDeliverables((prev) =>
+      prev.includes(key) ? prev.filter((d) => d !== key) : [...prev, key]
+    );
+  };
+
+  const runWorkflow = async (options: {
+    deliverables: (keyof WorkflowResult)[];
+    previousResults?: Partial<WorkflowResult>;
+    instructions?: Partial<Record<keyof WorkflowResult, string>>;
+  }) => {
     setIsRunning(true);
     setError(null);
-    setResult(null);
+    setSteps([]);
+    setActiveDeliverables(options.deliverables);
 
     try {
       // Start workflow
-      const response = await fetch(`${API_BASE_URL}/workflow`, {
+      const response = await apiFetch(`/workflow`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -138,11 +490,25 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
           jobTitle,
           company,
           jobDescription,
-          resumeText,
-          userId,
+          ...(useProfile
+            ? { useProfile: true }
+            : isLibraryResume
+              ? { resumeId: selectedResume.id }
+              : { resumeText }),
+          coverLetterPreferences: cleanCoverLetterPreferences(coverLetterPreferences),
+          language,
+          translateResume,
+          ...options,
         }),
       });
 
+      if (response.status === 429) {
+        setError(await describeRateLimit(response));
+        setIsRunning(false);
+        setRegeneratingKey(null);
+        return;
+      }
+
       const data = await response.json();
 
       if (data.workflowId) {
@@ -155,6 +521,78 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
     } catch (err) {
       setError("Failed to start workflow. Please try again.");
       setIsRunning(false);
+      setRegeneratingKey(null);
+    }
+  };
+
+  const startWorkflow = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!jobTitle || !company || !jobDescription || !resumeText) {
+      setError("All fields are required");
+      return;
+    }
+    if (deliverables.length === 0) {
+      setError("Select at least one section to generate");
+      return;
+    }
+
+    setResult(null);
+    // A fresh run is a new application; regenerating sections updates the saved one
+    setSavedApplicationId(null);
+    // Keep the order of the result cards regardless of click order
+    await runWorkflow({
+      deliverables: RESULT_SECTIONS.map((s) => s.key).filter((key) => deliverables.includes(key)),
+    });
+  };
+
+  // Reruns a single section, reusing everything already generated (e.g. the analysis)
+  const regenerateSection = async (key: keyof WorkflowResult) => {
+    setRegeneratingKey(key);
+    setInstructionsFor(null);
+    // The server checks a reused cover letter again rather than trusting the old review
+    const { coverLetterReview: _review, ...previousResults } = result ?? {};
+    await runWorkflow({
+      deliverables: [key],
+      previousResults: result ? previousResults : undefined,
+      instructions: regenerateInstructions.trim()
+        ? { [key]: regenerateInstructions.trim() }
+        : undefined,
+    });
+    setRegenerateInstructions("");
+  };
+
+  // Records the job and its generated artifacts in the Applications tracker
+  const saveApplication = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await apiFetch(
+        savedApplicationId ? `/applications/${savedApplicationId}` : "/applications",
+        {
+          method: savedApplicationId ? "PATCH" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            company,
+            jobTitle,
+            jobDescription,
+            artifacts: result,
+            workflowId: workflowId ?? undefined,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data));
+
+      setSavedApplicationId(data.application.id);
+      setSavedResult(result);
+    } catch (err) {
+      console.error("Failed to save application:", err);
+      setError("Failed to save the application. Please try again.");
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -164,24 +602,44 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
 
     const poll = async () => {
       try {
-        const response = await fetch(`${API_BASE_URL}/workflow/${id}`);
+        const response = await apiFetch(`/workflow/${id}`);
         
         if (!response.ok) {
           console.error('Workflow status check failed:', response.status, response.statusText);
           setError(`Failed to check workflow status: ${response.statusText}`);
           setIsRunning(false);
+          setRegeneratingKey(null);
           return;
         }
         
         const data = await response.json();
         console.log('Workflow status:', data.status, 'Has output:', !!data.output, 'Attempt:', attempts + 1, 'Full response:', data);
 
+        // Show each step's output as soon as it finishes
+        if (Array.isArray(data.steps) && data.steps.length > 0) {
+          const stepList = data.steps as WorkflowStep[];
+          setSteps(stepList);
+          setResult((prev) => {
+            const partial: Partial<WorkflowResult> = { ...prev };
+            for (const step of stepList) {
+              if (step.status === "complete" && step.output) {
+                Object.assign(partial, { [step.resultKey]: step.output }, step.checks);
+              }
+            }
+            return Object.keys(partial).length > 0 ? partial : prev;
+          });
+        }
+
         // Cloudflare Workflows return status as: 'queued', 'running', 'complete', 'errored', 'terminated', 'unknown'
         if (data.status === "complete" || data.status === "Complete") {
           if (data.output && typeof data.output === 'object') {
             console.log('Workflow completed successfully with output');
             setResult(data.output);
+            setSteps([]);
+            // A tailored resume built from a library version was saved there as its child
+            setLibraryRefreshKey((key) => key + 1);
             setIsRunning(false);
+            setRegeneratingKey(null);
           } else {
             console.warn('Status is complete but output is missing or invalid:', data.output);
             // Keep polling if status is complete but output not ready
@@ -191,12 +649,14 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
             } else {
               setError("Workflow completed but no output received. Please try again.");
               setIsRunning(false);
+              setRegeneratingKey(null);
             }
           }
         } else if (data.status === "error" || data.status === "errored" || data.status === "terminated") {
           console.error('Workflow error:', data);
           setError(`Workflow failed: ${data.error || 'Unknown error'}. Please try again.`);
           setIsRunning(false);
+          setRegeneratingKey(null);
         } else if (attempts < maxAttempts) {
           // Still running or queued
           attempts++;
@@ -205,11 +665,13 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
           console.error('Workflow timed out after', maxAttempts * 5, 'seconds. Last status:', data.status);
           setError(`Workflow timed out after ${maxAttempts * 5 / 60} minutes. The job application generation may take longer than expected. Please try with a shorter resume or job description.`);
           setIsRunning(false);
+          setRegeneratingKey(null);
         }
       } catch (err) {
         console.error('Workflow polling error:', err);
         setError("Failed to check workflow status. Please ensure the backend is running.");
         setIsRunning(false);
+        setRegeneratingKey(null);
       }
     };
 
@@ -231,6 +693,8 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
         </div>
 
         <form onSubmit={startWorkflow} className="space-y-4">
+          <JobPostingImport disabled={isRunning} onImport={applyJobPosting} />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -282,7 +746,25 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
               Your Resume *
             </label>
 
-            {/* PDF Upload Area */}
+            <ResumeLibrary
+              userId={userId}
+              selectedId={isLibraryResume ? selectedResume.id : null}
+              refreshKey={libraryRefreshKey}
+              onUse={useLibraryResume}
+              onDeleted={(id) => selectedResume?.id === id && setSelectedResume(null)}
+            />
+
+            <ResumeProfileEditor
+              userId={userId}
+              resumeId={isLibraryResume ? selectedResume.id : null}
+              resumeText={resumeText}
+              onChange={(next) => {
+                setProfile(next);
+                if (!next) setUseProfile(false);
+              }}
+            />
+
+            {/* File Upload Area */}
             <div
               onDragOver={handleDragOver}
               onDragLeave={handleDragLeave}
@@ -298,7 +780,7 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".pdf"
+                accept={UPLOAD_ACCEPT}
                 onChange={handleFileInputChange}
                 className="hidden"
                 disabled={isRunning || isUploading}
@@ -315,7 +797,7 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
                         {uploadedFileName}
                       </p>
                       <p className="text-xs text-gray-500">
-                        PDF parsed successfully
+                        Text extracted successfully
                       </p>
                     </div>
                   </div>
@@ -331,7 +813,7 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
               ) : isUploading ? (
                 <div className="text-center">
                   <Loader2 className="w-8 h-8 text-primary-500 animate-spin mx-auto mb-2" />
-                  <p className="text-sm text-gray-600">Parsing PDF...</p>
+                  <p className="text-sm text-gray-600">Reading file...</p>
                 </div>
               ) : (
                 <div className="text-center">
@@ -346,7 +828,7 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
                     </button>{" "}
                     or drag and drop
                   </p>
-                  <p className="text-xs text-gray-500">PDF files only</p>
+                  <p className="text-xs text-gray-500">PDF, DOCX, TXT, Markdown or RTF</p>
                 </div>
               )}
             </div>
@@ -360,18 +842,91 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
                 rows={6}
                 className="input-field resize-none"
                 disabled={isRunning || isUploading}
-                required
+                required={!useProfile}
               />
               {uploadedFileName && (
                 <div className="absolute top-2 right-2">
                   <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-                    From PDF
+                    From file
                   </span>
                 </div>
               )}
             </div>
+            {resumeText.trim() && !isLibraryResume && (
+              <button
+                type="button"
+                onClick={saveEditedResume}
+                className="mt-2 flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+                disabled={isRunning}
+              >
+                <Save className="w-4 h-4" />
+                <span>Save to resume library</span>
+              </button>
+            )}
+            {profile && (
+              <label className="mt-2 flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={useProfile}
+                  onChange={(e) => setUseProfile(e.target.checked)}
+                  disabled={isRunning}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span>Use my structured profile instead of the text above</span>
+              </label>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Generate
+            </label>
+            <div className="flex flex-wrap gap-4">
+              {RESULT_SECTIONS.map(({ key, title }) => (
+                <label
+                  key={key}
+                  className="flex items-center space-x-2 text-sm text-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={deliverables.includes(key)}
+                    onChange={() => toggleDeliverable(key)}
+                    disabled={isRunning}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span>{title}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Language
+              </label>
+              <LanguageSelect value={language} onChange={setLanguage} disabled={isRunning} />
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={translateResume}
+                onChange={(e) => setTranslateResume(e.target.checked)}
+                disabled={isRunning}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <span>Translate my resume into this language first</span>
+            </label>
           </div>
 
+          {deliverables.includes("coverLetter") && (
+            <CoverLetterOptions
+              preferences={coverLetterPreferences}
+              disabled={isRunning}
+              onChange={setCoverLetterPreferences}
+            />
+          )}
+
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
               {error}
@@ -399,99 +954,159 @@ function WorkflowPanel({ userId }: WorkflowPanelProps) {
       </div>
 
       {/* Results Section */}
-      {result && (
+      {(result || steps.length > 0) && (
         <div className="space-y-4">
-          {/* Job Analysis */}
-          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
-            <div className="flex items-center space-x-3 mb-4">
-              <div className="p-2 bg-blue-100 rounded-lg">
-                <Briefcase className="w-5 h-5 text-blue-600" />
-              </div>
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">
-                  Job Analysis
-                </h3>
-                <p className="text-sm text-gray-500">
-                  Key requirements and insights
-                </p>
-              </div>
-              <CheckCircle2 className="w-5 h-5 text-green-500 ml-auto" />
-            </div>
-            <div className="prose prose-sm max-w-none">
-              <pre className="whitespace-pre-wrap text-gray-700 bg-gray-50 p-4 rounded-lg">
-                {result.analysis}
-              </pre>
-            </div>
-          </div>
-
-          {/* Tailored Resume */}
-          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
-            <div className="flex items-center space-x-3 mb-4">
-              <div className="p-2 bg-green-100 rounded-lg">
-                <FileText className="w-5 h-5 text-green-600" />
-              </div>
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">
-                  Tailored Resume
-                </h3>
-                <p className="text-sm text-gray-500">
-                  Optimized for this position
-                </p>
-              </div>
-              <CheckCircle2 className="w-5 h-5 text-green-500 ml-auto" />
-            </div>
-            <div className="prose prose-sm max-w-none">
-              <pre className="whitespace-pre-wrap text-gray-700 bg-gray-50 p-4 rounded-lg">
-                {result.tailoredResume}
-              </pre>
+          {result && !isRunning && (
+            <div className="flex items-center justify-end space-x-4">
+              {result.language && (
+                <div className="mr-auto flex items-center space-x-2 text-sm text-gray-500">
+                  <Languages className="w-4 h-4" />
+                  <span>
+                    Written in {LANGUAGE_NAMES[result.language]}
+                    {result.translatedResume && " from your translated resume"}
+                  </span>
+                  {result.translatedResume && (
+                    <button
+                      type="button"
+                      onClick={saveTranslatedResume}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Save translation
+                    </button>
+                  )}
+                </div>
+              )}
+              {workflowId && EXPORTABLE_SECTIONS.some((key) => result[key]) && (
+                <ExportLinks workflowId={workflowId} label="Download all" onError={setError} />
+              )}
+              <button
+                type="button"
+                onClick={saveApplication}
+                disabled={isSaving || (savedApplicationId !== null && savedResult === result)}
+                className="btn-secondary flex items-center space-x-2 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : savedApplicationId && savedResult === result ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-500" />
+                ) : (
+                  <BookmarkPlus className="w-4 h-4" />
+                )}
+                <span>
+                  {savedApplicationId
+                    ? savedResult === result
+                      ? "Saved to Applications"
+                      : "Update saved application"
+                    : "Save to Applications"}
+                </span>
+              </button>
             </div>
-          </div>
+          )}
+          {RESULT_SECTIONS.map(({ key, title, description, icon: Icon, iconClassName }) => {
+            const output = result?.[key];
+            const stepStatus = steps.find((step) => step.resultKey === key)?.status;
+            const isRegenerating = regeneratingKey === key;
+            const isPendingInRun = isRunning && activeDeliverables.includes(key) && stepStatus !== "skipped";
 
-          {/* Cover Letter */}
-          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
-            <div className="flex items-center space-x-3 mb-4">
-              <div className="p-2 bg-purple-100 rounded-lg">
-                <MessageSquare className="w-5 h-5 text-purple-600" />
-              </div>
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">
-                  Cover Letter
-                </h3>
-                <p className="text-sm text-gray-500">
-                  Personalized for this application
-                </p>
-              </div>
-              <CheckCircle2 className="w-5 h-5 text-green-500 ml-auto" />
-            </div>
-            <div className="prose prose-sm max-w-none">
-              <pre className="whitespace-pre-wrap text-gray-700 bg-gray-50 p-4 rounded-lg">
-                {result.coverLetter}
-              </pre>
-            </div>
-          </div>
+            // While running, finished sections render immediately and requested ones show their state
+            if (!output && !isPendingInRun) return null;
 
-          {/* Interview Tips */}
-          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6">
-            <div className="flex items-center space-x-3 mb-4">
-              <div className="p-2 bg-yellow-100 rounded-lg">
-                <Lightbulb className="w-5 h-5 text-yellow-600" />
-              </div>
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">
-                  Interview Preparation
-                </h3>
-                <p className="text-sm text-gray-500">
-                  Tips and likely questions
-                </p>
+            return (
+              <div
+                key={key}
+                className="bg-white rounded-xl shadow-lg border border-gray-200 p-6"
+              >
+                <div className="flex items-center space-x-3 mb-4">
+                  <div className={`p-2 rounded-lg ${iconClassName}`}>
+                    <Icon className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {title}
+                    </h3>
+                    <p className="text-sm text-gray-500">{description}</p>
+                  </div>
+                  <div className="ml-auto flex items-center space-x-3">
+                    {key === "tailoredResume" && output && !isRunning && (
+                      <button
+                        type="button"
+                        onClick={() => setIsComparing(!isComparing)}
+                        className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+                        title="Review the changes against your resume"
+                      >
+                        <GitCompare className="w-4 h-4" />
+                        <span>{isComparing ? "Hide changes" : "Review changes"}</span>
+                      </button>
+                    )}
+                    {output && !isRunning && workflowId && EXPORTABLE_SECTIONS.includes(key) && (
+                      <ExportLinks workflowId={workflowId} artifact={key} onError={setError} />
+                    )}
+                    {output && !isRunning && (
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setInstructionsFor(instructionsFor === key ? null : key)
+                        }
+                        className="flex items-center space-x-1 text-sm text-primary-600 hover:text-primary-700"
+                        title="Regenerate this section"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                        <span>Regenerate</span>
+                      </button>
+                    )}
+                    {output && !isRegenerating ? (
+                      <CheckCircle2 className="w-5 h-5 text-green-500" />
+                    ) : stepStatus === "running" || isRegenerating ? (
+                      <Loader2 className="w-5 h-5 text-primary-500 animate-spin" />
+                    ) : (
+                      <span className="text-xs text-gray-400">Waiting</span>
+                    )}
+                  </div>
+                </div>
+                {instructionsFor === key && (
+                  <div className="mb-4 flex space-x-2">
+                    <input
+                      type="text"
+                      value={regenerateInstructions}
+                      onChange={(e) => setRegenerateInstructions(e.target.value)}
+                      placeholder="Optional instructions, e.g. shorter and more enthusiastic"
+                      className="input-field"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => regenerateSection(key)}
+                      className="btn-primary whitespace-nowrap"
+                    >
+                      Run
+                    </button>
+                  </div>
+                )}
+                {output ? (
+                  <div className={`prose prose-sm max-w-none ${isRegenerating ? "opacity-50" : ""}`}>
+                    {key === "tailoredResume" && isComparing && !isRunning ? (
+                      <ResumeDiffView
+                        resumeText={result?.translatedResume ?? resumeText}
+                        useProfile={useProfile && !result?.translatedResume}
+                        tailoredResume={output as string}
+                        onSave={saveReviewedResume}
+                      />
+                    ) : key === "tailoredResume" && result?.unverifiedClaims?.length ? (
+                      <UnverifiedClaimsView text={output as string} claims={result.unverifiedClaims} />
+                    ) : (
+                      renderOutput(key, output)
+                    )}
+                    {key === "coverLetter" && result?.coverLetterReview && (
+                      <CoverLetterChecks review={result.coverLetterReview} />
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {stepStatus === "running" ? "Generating..." : "Queued"}
+                  </p>
+                )}
               </div>
-              <CheckCircle2 className="w-5 h-5 text-green-500 ml-auto" />
-            </div>
-            <div className="prose prose-sm max-w-none">
-              <pre className="whitespace-pre-wrap text-gray-700 bg-gray-50 p-4 rounded-lg">
-                {result.interviewTips}
-              </pre>
-            </div>
-          </div>
+            );
+          })}
         </div>
       )}
     </div>
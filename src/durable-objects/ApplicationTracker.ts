@@ -0,0 +1,195 @@
+import { DurableObject } from "cloudflare:workers";
+import { errorResponse, jsonResponse } from "../lib/errors";
+import type { Env } from "../types";
+import type { JobApplicationResult } from "../workflows/JobApplicationWorkflow";
+
+export const APPLICATION_STATUSES = ["saved", "applied", "interviewing", "offer", "rejected"] as const;
+
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export interface Application {
+  id: string;
+  company: string;
+  jobTitle: string;
+  jobDescription?: string;
+  status: ApplicationStatus;
+  // Outputs of the workflow run this application was created from, if any
+  artifacts?: JobApplicationResult;
+  workflowId?: string;
+  notes?: string;
+  createdAt: number;
+  updatedAt: number;
+  appliedAt?: number;
+  statusHistory: { status: ApplicationStatus; at: number }[];
+}
+
+// Fields a client may set on create or update; the rest are managed here
+const EDITABLE_FIELDS = ["company", "jobTitle", "jobDescription", "status", "artifacts", "workflowId", "notes"] as const;
+
+type ApplicationInput = Partial<Pick<Application, typeof EDITABLE_FIELDS[number]>>;
+
+/**
+ * One object per user, holding every job application they track. Each application is
+ * stored under its own key so updates don't rewrite the whole pipeline.
+ */
+export class ApplicationTracker extends DurableObject<Env> {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    // Paths are /applications or /applications/:id
+    const [, resource, id] = url.pathname.split("/");
+
+    try {
+      if (resource !== "applications") {
+        return errorResponse(404, `No route for ${request.method} ${url.pathname}`);
+      }
+
+      if (!id) {
+        switch (request.method) {
+          case "GET":
+            return await this.handleList();
+          case "POST":
+            return await this.handleCreate(request);
+        }
+      } else {
+        switch (request.method) {
+          case "GET":
+            return await this.handleGet(id);
+          case "PATCH":
+            return await this.handleUpdate(id, request);
+          case "DELETE":
+            return await this.handleDelete(id);
+        }
+      }
+
+      return errorResponse(405, `${request.method} is not allowed on ${url.pathname}`);
+    } catch (error) {
+      console.error("Error in ApplicationTracker:", error);
+      return errorResponse(500, String(error));
+    }
+  }
+
+  private async handleList(): Promise<Response> {
+    const stored = await this.state.storage.list<Application>({ prefix: "application:" });
+    const applications = [...stored.values()].sort((a, b) => b.updatedAt - a.updatedAt);
+
+    return jsonResponse({ applications });
+  }
+
+  private async handleCreate(request: Request): Promise<Response> {
+    const input = pickEditable(await request.json());
+    const errors = validateInput(input, true);
+
+    if (errors.length > 0) {
+      return errorResponse(400, "Invalid application", { details: errors });
+    }
+
+    const now = Date.now();
+    const status = input.status ?? "saved";
+    const application: Application = {
+      ...input,
+      id: crypto.randomUUID(),
+      company: input.company!.trim(),
+      jobTitle: input.jobTitle!.trim(),
+      status,
+      createdAt: now,
+      updatedAt: now,
+      appliedAt: status === "saved" ? undefined : now,
+      statusHistory: [{ status, at: now }],
+    };
+
+    await this.state.storage.put(`application:${application.id}`, application);
+
+    return jsonResponse({ application }, 201);
+  }
+
+  private async handleGet(id: string): Promise<Response> {
+    const application = await this.state.storage.get<Application>(`application:${id}`);
+
+    if (!application) {
+      return errorResponse(404, "Application not found");
+    }
+
+    return jsonResponse({ application });
+  }
+
+  private async handleUpdate(id: string, request: Request): Promise<Response> {
+    const application = await this.state.storage.get<Application>(`application:${id}`);
+
+    if (!application) {
+      return errorResponse(404, "Application not found");
+    }
+
+    const input = pickEditable(await request.json());
+    const errors = validateInput(input, false);
+
+    if (errors.length > 0) {
+      return errorResponse(400, "Invalid application", { details: errors });
+    }
+
+    const now = Date.now();
+    const updated: Application = { ...application, ...input, updatedAt: now };
+
+    if (input.status && input.status !== application.status) {
+      updated.statusHistory = [...application.statusHistory, { status: input.status, at: now }];
+      // The first move out of "saved" is when the application went out
+      if (!application.appliedAt && input.status !== "saved") {
+        updated.appliedAt = now;
+      }
+    }
+
+    await this.state.storage.put(`application:${id}`, updated);
+
+    return jsonResponse({ application: updated });
+  }
+
+  private async handleDelete(id: string): Promise<Response> {
+    const deleted = await this.state.storage.delete(`application:${id}`);
+
+    if (!deleted) {
+      return errorResponse(404, "Application not found");
+    }
+
+    return jsonResponse({ success: true });
+  }
+}
+
+function pickEditable(body: unknown): ApplicationInput {
+  const input: Record<string, unknown> = {};
+  if (body && typeof body === "object") {
+    for (const field of EDITABLE_FIELDS) {
+      if (field in body) input[field] = (body as Record<string, unknown>)[field];
+    }
+  }
+  return input as ApplicationInput;
+}
+
+function validateInput(input: ApplicationInput, isCreate: boolean): string[] {
+  const errors: string[] = [];
+
+  for (const field of ["company", "jobTitle"] as const) {
+    const value = input[field];
+    if (value === undefined ? isCreate : typeof value !== "string" || !value.trim()) {
+      errors.push(`${field} is required`);
+    }
+  }
+  for (const field of ["jobDescription", "notes", "workflowId"] as const) {
+    if (input[field] !== undefined && typeof input[field] !== "string") {
+      errors.push(`${field} must be a string`);
+    }
+  }
+  if (input.status !== undefined && !APPLICATION_STATUSES.includes(input.status)) {
+    errors.push(`status must be one of: ${APPLICATION_STATUSES.join(", ")}`);
+  }
+  if (input.artifacts !== undefined && (typeof input.artifacts !== "object" || input.artifacts === null)) {
+    errors.push("artifacts must be an object");
+  }
+
+  return errors;
+}
@@ -1,31 +1,67 @@
 import { DurableObject } from "cloudflare:workers";
+import { errorResponse } from "../lib/errors";
+import { createUserLLM } from "../lib/aiUsage";
+import type { LLMClient } from "../lib/llm";
+import { buildSystemPrompt } from "../lib/chatPrompt";
+import { resolveLanguage, type LanguageSetting } from "../lib/language";
+import type { MessageAttachment } from "../lib/chatCommands";
+import { planSummary, summarizeTurns } from "../lib/conversationSummary";
+import {
+  DEFAULT_QUESTION_COUNT,
+  QUESTION_KINDS,
+  buildInterviewReport,
+  currentTurn,
+  formatGrade,
+  generateQuestion,
+  gradeAnswer,
+  questionKindAt,
+  type AnswerGrade,
+  type InterviewSession,
+  type QuestionKind,
+} from "../lib/mockInterview";
+import type { Env, JobContext } from "../types";
 
 export interface Message {
   role: "user" | "assistant" | "system";
   content: string;
   timestamp: number;
+  // Structured result of a chat command, shown alongside the text
+  attachment?: MessageAttachment;
+}
+
+export interface ConversationSummary {
+  content: string;
+  // Messages before this index have been folded into the summary
+  coveredUntil: number;
+  updatedAt: number;
 }
 
 export interface ConversationState {
   messages: Message[];
+  summary?: ConversationSummary;
   metadata: {
     userId: string;
     sessionId: string;
     createdAt: number;
     lastActivityAt: number;
-    jobContext?: {
-      jobTitle?: string;
-      company?: string;
-      jobDescription?: string;
-      resumeText?: string;
-    };
+    jobContext?: JobContext;
+    // Language of the replies; "auto" when unset
+    language?: LanguageSetting;
   };
 }
 
-export class ConversationMemory extends DurableObject {
+// A grading that takes longer than this is assumed to have died with its request
+const GRADING_TIMEOUT_MS = 2 * 60 * 1000;
+
+interface NextQuestion {
+  kind: QuestionKind;
+  question: string;
+}
+
+export class ConversationMemory extends DurableObject<Env> {
   private state: DurableObjectState;
 
-  constructor(state: DurableObjectState, env: any) {
+  constructor(state: DurableObjectState, env: Env) {
     super(state, env);
     this.state = state;
   }
@@ -38,29 +74,40 @@ export class ConversationMemory extends DurableObject {
       switch (path) {
         case "/init":
           return await this.handleInit(request);
+        case "/owner":
+          return await this.handleGetOwner();
         case "/message":
           return await this.handleAddMessage(request);
         case "/history":
           return await this.handleGetHistory(request);
+        case "/prompt":
+          return await this.handleGetPrompt();
         case "/context":
-          return await this.handleUpdateContext(request);
+          return request.method === "GET"
+            ? await this.handleGetContext()
+            : await this.handleUpdateContext(request);
+        case "/interview":
+          return await this.handleGetInterview();
+        case "/interview/start":
+          return await this.handleStartInterview(request);
+        case "/interview/answer":
+          return await this.handleAnswerInterview(request);
+        case "/interview/report":
+          return await this.handleGetInterviewReport();
         case "/clear":
           return await this.handleClear(request);
         default:
-          return new Response("Not Found", { status: 404 });
+          return errorResponse(404, `No route for ${request.method} ${path}`);
       }
     } catch (error) {
       console.error("Error in ConversationMemory:", error);
-      return new Response(JSON.stringify({ error: String(error) }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      });
+      return errorResponse(500, String(error));
     }
   }
 
   private async handleInit(request: Request): Promise<Response> {
     const body = await request.json();
-    const { userId, sessionId } = body as { userId: string; sessionId: string };
+    const { userId, sessionId, language } = body as { userId: string; sessionId: string; language?: LanguageSetting };
 
     const existingState = await this.state.storage.get<ConversationState>("conversation");
 
@@ -69,7 +116,7 @@ export class ConversationMemory extends DurableObject {
         messages: [
           {
             role: "system",
-            content: "You are a helpful AI job application assistant. Help users with resume tailoring, cover letter writing, interview preparation, and job search advice.",
+            content: buildSystemPrompt(undefined, language),
             timestamp: Date.now(),
           },
         ],
@@ -78,6 +125,7 @@ export class ConversationMemory extends DurableObject {
           sessionId,
           createdAt: Date.now(),
           lastActivityAt: Date.now(),
+          ...(language && { language }),
         },
       };
 
@@ -87,28 +135,40 @@ export class ConversationMemory extends DurableObject {
       });
     }
 
+    // The first user to initialize a session owns it
+    if (existingState.metadata.userId !== userId) {
+      return errorResponse(403, "Session belongs to another user");
+    }
+
     return new Response(JSON.stringify({ success: true, state: existingState }), {
       headers: { "Content-Type": "application/json" },
     });
   }
 
+  // null until the session is initialized
+  private async handleGetOwner(): Promise<Response> {
+    const conversation = await this.state.storage.get<ConversationState>("conversation");
+
+    return new Response(JSON.stringify({ userId: conversation?.metadata.userId ?? null }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
   private async handleAddMessage(request: Request): Promise<Response> {
     const body = await request.json();
-    const { role, content } = body as { role: "user" | "assistant"; content: string };
+    const { role, content, attachment } = body as { role: "user" | "assistant"; content: string; attachment?: MessageAttachment };
 
     const conversation = await this.state.storage.get<ConversationState>("conversation");
 
     if (!conversation) {
-      return new Response(JSON.stringify({ error: "Conversation not initialized" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
+      return errorResponse(400, "Conversation not initialized");
     }
 
     const newMessage: Message = {
       role,
       content,
       timestamp: Date.now(),
+      ...(attachment && { attachment }),
     };
 
     conversation.messages.push(newMessage);
@@ -143,35 +203,285 @@ export class ConversationMemory extends DurableObject {
     });
   }
 
+  // Returns the rolling summary plus the turns it doesn't cover, summarizing older turns
+  // first if the unsummarized transcript has outgrown its token budget
+  private async handleGetPrompt(): Promise<Response> {
+    const conversation = await this.state.storage.get<ConversationState>("conversation");
+
+    if (!conversation) {
+      return new Response(JSON.stringify({ summary: null, messages: [] }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    let coveredUntil = conversation.summary?.coveredUntil ?? 0;
+    const summarizeUntil = planSummary(conversation.messages, coveredUntil);
+
+    if (summarizeUntil !== null) {
+      try {
+        const content = await summarizeTurns(
+          this.createLLM(conversation.metadata.userId),
+          conversation.summary?.content,
+          conversation.messages.slice(coveredUntil, summarizeUntil)
+        );
+
+        conversation.summary = { content, coveredUntil: summarizeUntil, updatedAt: Date.now() };
+
+        // Messages can be added while the model runs, so only the summary is written back,
+        // and only if no other request stored a newer one meanwhile
+        const latest = await this.state.storage.get<ConversationState>("conversation");
+        if (latest && (latest.summary?.coveredUntil ?? 0) < summarizeUntil) {
+          latest.summary = conversation.summary;
+          await this.state.storage.put("conversation", latest);
+        }
+      } catch (error) {
+        // Keep the old summary; the prompt just drops the oldest turns this time
+        console.error("Failed to summarize conversation:", error);
+      }
+
+      coveredUntil = summarizeUntil;
+    }
+
+    const messages = conversation.messages
+      .slice(coveredUntil)
+      .filter((m) => m.role !== "system");
+
+    return new Response(JSON.stringify({
+      summary: conversation.summary?.content ?? null,
+      messages,
+      metadata: conversation.metadata,
+    }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private async handleGetContext(): Promise<Response> {
+    const conversation = await this.state.storage.get<ConversationState>("conversation");
+
+    return new Response(JSON.stringify({
+      context: conversation?.metadata.jobContext ?? {},
+      language: conversation?.metadata.language ?? "auto",
+    }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
   private async handleUpdateContext(request: Request): Promise<Response> {
     const body = await request.json();
-    const { jobContext } = body as { jobContext: ConversationState["metadata"]["jobContext"] };
+    const { jobContext, language } = body as {
+      jobContext?: ConversationState["metadata"]["jobContext"];
+      language?: LanguageSetting;
+    };
 
     const conversation = await this.state.storage.get<ConversationState>("conversation");
 
     if (!conversation) {
-      return new Response(JSON.stringify({ error: "Conversation not initialized" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
+      return errorResponse(400, "Conversation not initialized");
     }
 
     conversation.metadata.jobContext = {
       ...conversation.metadata.jobContext,
       ...jobContext,
     };
+    if (language) {
+      conversation.metadata.language = language;
+    }
 
     await this.state.storage.put("conversation", conversation);
 
-    return new Response(JSON.stringify({ success: true, context: conversation.metadata.jobContext }), {
+    return new Response(JSON.stringify({
+      success: true,
+      context: conversation.metadata.jobContext,
+      language: conversation.metadata.language ?? "auto",
+    }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private async handleGetInterview(): Promise<Response> {
+    const interview = await this.state.storage.get<InterviewSession>("interview");
+
+    return new Response(JSON.stringify({ interview: interview ?? null }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Starts a mock interview (replacing any earlier one) and asks its first question
+  private async handleStartInterview(request: Request): Promise<Response> {
+    const body = await request.json();
+    const { questionCount = DEFAULT_QUESTION_COUNT, kinds = [...QUESTION_KINDS] } = body as {
+      questionCount?: number;
+      kinds?: QuestionKind[];
+    };
+
+    const conversation = await this.state.storage.get<ConversationState>("conversation");
+
+    if (!conversation) {
+      return errorResponse(400, "Conversation not initialized");
+    }
+
+    const interview: InterviewSession = {
+      status: "active",
+      questionCount,
+      kinds,
+      turns: [],
+      startedAt: Date.now(),
+    };
+
+    const question = await this.generateNextQuestion(conversation, interview);
+
+    // Messages may have been added while the question was written
+    const latest = await this.state.storage.get<ConversationState>("conversation");
+    if (!latest) {
+      return errorResponse(409, "The conversation was cleared while the interview started");
+    }
+
+    const messages = [
+      this.appendMessage(latest, "assistant", `Let's start your mock interview: ${questionCount} question${questionCount === 1 ? "" : "s"}, one at a time. Answer each one as you would in the interview.`),
+      this.recordQuestion(latest, interview, question),
+    ];
+
+    await this.state.storage.put({ conversation: latest, interview });
+
+    return new Response(JSON.stringify({ success: true, interview, messages }), {
       headers: { "Content-Type": "application/json" },
     });
   }
 
+  // Grades the answer to the current question, then asks the next one or ends the interview
+  private async handleAnswerInterview(request: Request): Promise<Response> {
+    const body = await request.json();
+    const { answer } = body as { answer: string };
+
+    const conversation = await this.state.storage.get<ConversationState>("conversation");
+    const interview = await this.state.storage.get<InterviewSession>("interview");
+    const turn = interview && currentTurn(interview);
+
+    if (!conversation || !interview || !turn) {
+      return errorResponse(400, "No interview question is waiting for an answer");
+    }
+    if (turn.gradingStartedAt && Date.now() - turn.gradingStartedAt < GRADING_TIMEOUT_MS) {
+      return errorResponse(409, "The answer to this question is still being graded");
+    }
+
+    turn.gradingStartedAt = Date.now();
+    await this.state.storage.put("interview", interview);
+
+    let grade: AnswerGrade;
+    let next: NextQuestion | undefined;
+    try {
+      grade = await gradeAnswer(this.createLLM(conversation.metadata.userId), {
+        jobContext: conversation.metadata.jobContext,
+        kind: turn.kind,
+        question: turn.question,
+        answer,
+        language: this.sessionLanguage(conversation),
+      });
+      if (interview.turns.length < interview.questionCount) {
+        next = await this.generateNextQuestion(conversation, interview);
+      }
+    } catch (error) {
+      await this.clearGradingMark(interview.startedAt);
+      throw error;
+    }
+
+    // Messages can be added, and the interview restarted, while the model runs, so the
+    // result is merged into what is stored now
+    const latestConversation = await this.state.storage.get<ConversationState>("conversation");
+    const latestInterview = await this.state.storage.get<InterviewSession>("interview");
+    const latestTurn = latestInterview?.startedAt === interview.startedAt ? currentTurn(latestInterview) : undefined;
+
+    if (!latestConversation || !latestInterview || !latestTurn) {
+      return errorResponse(409, "The interview was restarted or cleared while the answer was being graded");
+    }
+
+    delete latestTurn.gradingStartedAt;
+    Object.assign(latestTurn, { answer, answeredAt: Date.now(), grade });
+
+    const messages = [
+      this.appendMessage(latestConversation, "user", answer),
+      this.appendMessage(latestConversation, "assistant", formatGrade(grade)),
+    ];
+
+    if (next) {
+      messages.push(this.recordQuestion(latestConversation, latestInterview, next));
+    } else {
+      latestInterview.status = "complete";
+      latestInterview.completedAt = Date.now();
+      messages.push(this.appendMessage(latestConversation, "assistant", "That was the last question. Your interview report is ready."));
+    }
+
+    await this.state.storage.put({ conversation: latestConversation, interview: latestInterview });
+
+    return new Response(JSON.stringify({ success: true, grade, interview: latestInterview, messages }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  // Lets the answer be submitted again after grading failed
+  private async clearGradingMark(startedAt: number) {
+    const interview = await this.state.storage.get<InterviewSession>("interview");
+    const turn = interview?.startedAt === startedAt ? currentTurn(interview) : undefined;
+
+    if (interview && turn) {
+      delete turn.gradingStartedAt;
+      await this.state.storage.put("interview", interview);
+    }
+  }
+
+  private async handleGetInterviewReport(): Promise<Response> {
+    const interview = await this.state.storage.get<InterviewSession>("interview");
+
+    if (!interview) {
+      return errorResponse(404, "No interview has been started in this session");
+    }
+
+    return new Response(JSON.stringify({ report: buildInterviewReport(interview) }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private async generateNextQuestion(conversation: ConversationState, interview: InterviewSession): Promise<NextQuestion> {
+    const kind = questionKindAt(interview.kinds, interview.turns.length);
+
+    const question = await generateQuestion(this.createLLM(conversation.metadata.userId), {
+      jobContext: conversation.metadata.jobContext,
+      kind,
+      previousQuestions: interview.turns.map((turn) => turn.question),
+      language: this.sessionLanguage(conversation),
+    });
+
+    return { kind, question };
+  }
+
+  private recordQuestion(conversation: ConversationState, interview: InterviewSession, { kind, question }: NextQuestion): Message {
+    const index = interview.turns.length;
+
+    interview.turns.push({ kind, question, askedAt: Date.now() });
+    return this.appendMessage(conversation, "assistant", `Question ${index + 1} of ${interview.questionCount} (${kind}): ${question}`);
+  }
+
+  private appendMessage(conversation: ConversationState, role: Message["role"], content: string): Message {
+    const message: Message = { role, content, timestamp: Date.now() };
+    conversation.messages.push(message);
+    conversation.metadata.lastActivityAt = message.timestamp;
+    return message;
+  }
+
+  // Interview questions and feedback follow the session's language, like its replies
+  private sessionLanguage(conversation: ConversationState) {
+    return resolveLanguage(conversation.metadata.language, conversation.metadata.jobContext?.jobDescription);
+  }
+
   private async handleClear(request: Request): Promise<Response> {
     await this.state.storage.deleteAll();
     return new Response(JSON.stringify({ success: true }), {
       headers: { "Content-Type": "application/json" },
     });
   }
+
+  // Summaries and interviews are charged to the conversation's owner; tests swap in a fake client here
+  protected createLLM(userId: string): LLMClient {
+    return createUserLLM(this.env, userId);
+  }
 }
@@ -0,0 +1,187 @@
+import { DurableObject } from "cloudflare:workers";
+import { errorResponse, jsonResponse } from "../lib/errors";
+import {
+  getRateLimitConfig,
+  RATE_LIMITED_ACTIONS,
+  type BucketRule,
+  type RateLimitDecision,
+  type RateLimitedAction,
+  type RateLimitScope,
+} from "../lib/rateLimit";
+import type { Env } from "../types";
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Model usage for one UTC day
+export interface DailyUsage {
+  tokens: number;
+  calls: number;
+}
+
+export interface UsageSummary {
+  date: string;
+  tokensUsed: number;
+  calls: number;
+  // 0 when there is no budget
+  dailyTokenBudget: number;
+  tokensRemaining: number | null;
+  resetsAt: number;
+  // Only the actions limited per user
+  limits: Partial<Record<RateLimitedAction, BucketRule & { available: number }>>;
+}
+
+/**
+ * One object per rate-limited key: `user:<id>` or `ip:<address>`. Holds a token bucket per
+ * action, and for users the model tokens spent today.
+ */
+export class RateLimiter extends DurableObject<Env> {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      switch (path) {
+        case "/consume":
+          return await this.handleConsume(request);
+        case "/usage":
+          return request.method === "GET"
+            ? await this.handleGetUsage()
+            : await this.handleRecordUsage(request);
+        default:
+          return errorResponse(404, `No route for ${request.method} ${path}`);
+      }
+    } catch (error) {
+      console.error("Error in RateLimiter:", error);
+      return errorResponse(500, String(error));
+    }
+  }
+
+  // Takes one request from the action's bucket, checking the daily budget first for users
+  private async handleConsume(request: Request): Promise<Response> {
+    const { action, scope } = await request.json() as { action: RateLimitedAction; scope: RateLimitScope };
+
+    if (!RATE_LIMITED_ACTIONS.includes(action) || (scope !== "user" && scope !== "ip")) {
+      return errorResponse(400, "Invalid action or scope");
+    }
+
+    const { limits, dailyTokenBudget } = getRateLimitConfig(this.env);
+    const rule = limits[action][scope];
+    if (!rule) {
+      return errorResponse(400, `${action} is not limited per ${scope}`);
+    }
+    const now = Date.now();
+
+    if (scope === "user" && dailyTokenBudget > 0) {
+      const usage = await this.getDailyUsage(now);
+      if (usage.tokens >= dailyTokenBudget) {
+        const decision: RateLimitDecision = {
+          allowed: false,
+          reason: "budget",
+          retryAfter: Math.ceil((nextUtcMidnight(now) - now) / 1000),
+        };
+        return jsonResponse(decision);
+      }
+    }
+
+    const bucket = await this.getBucket(action, rule, now);
+
+    let decision: RateLimitDecision;
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      decision = { allowed: true };
+    } else {
+      decision = {
+        allowed: false,
+        reason: "rate",
+        retryAfter: Math.ceil(((1 - bucket.tokens) / rule.refillPerMinute) * 60),
+      };
+    }
+
+    await this.state.storage.put(`bucket:${action}`, bucket);
+
+    return jsonResponse(decision);
+  }
+
+  private async handleRecordUsage(request: Request): Promise<Response> {
+    const { tokens } = await request.json() as { tokens: number };
+
+    if (typeof tokens !== "number" || !Number.isFinite(tokens) || tokens < 0) {
+      return errorResponse(400, "tokens must be a non-negative number");
+    }
+
+    const now = Date.now();
+    const usage = await this.getDailyUsage(now);
+    usage.tokens += Math.round(tokens);
+    usage.calls += 1;
+
+    const key = `usage:${utcDate(now)}`;
+    if (usage.calls === 1) {
+      // First call of the day: drop earlier days so storage doesn't grow
+      const previous = await this.state.storage.list({ prefix: "usage:" });
+      await this.state.storage.delete([...previous.keys()].filter((k) => k !== key));
+    }
+    await this.state.storage.put(key, usage);
+
+    return jsonResponse({ usage });
+  }
+
+  private async handleGetUsage(): Promise<Response> {
+    const { limits, dailyTokenBudget } = getRateLimitConfig(this.env);
+    const now = Date.now();
+    const usage = await this.getDailyUsage(now);
+
+    const buckets = {} as UsageSummary["limits"];
+    for (const action of RATE_LIMITED_ACTIONS) {
+      const rule = limits[action].user;
+      if (!rule) continue;
+      const bucket = await this.getBucket(action, rule, now);
+      buckets[action] = { ...rule, available: Math.floor(bucket.tokens) };
+    }
+
+    const summary: UsageSummary = {
+      date: utcDate(now),
+      tokensUsed: usage.tokens,
+      calls: usage.calls,
+      dailyTokenBudget,
+      tokensRemaining: dailyTokenBudget > 0 ? Math.max(0, dailyTokenBudget - usage.tokens) : null,
+      resetsAt: nextUtcMidnight(now),
+      limits: buckets,
+    };
+
+    return jsonResponse(summary);
+  }
+
+  // Returns the bucket refilled up to `now`; new buckets start full
+  private async getBucket(action: RateLimitedAction, rule: BucketRule, now: number): Promise<Bucket> {
+    const stored = await this.state.storage.get<Bucket>(`bucket:${action}`);
+    if (!stored) {
+      return { tokens: rule.capacity, updatedAt: now };
+    }
+
+    const refill = ((now - stored.updatedAt) / 60_000) * rule.refillPerMinute;
+    return { tokens: Math.min(rule.capacity, stored.tokens + refill), updatedAt: now };
+  }
+
+  private async getDailyUsage(now: number): Promise<DailyUsage> {
+    return await this.state.storage.get<DailyUsage>(`usage:${utcDate(now)}`) ?? { tokens: 0, calls: 0 };
+  }
+}
+
+function utcDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function nextUtcMidnight(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
@@ -0,0 +1,235 @@
+import { DurableObject } from "cloudflare:workers";
+import { errorResponse, jsonResponse } from "../lib/errors";
+import type { Env } from "../types";
+import { diffLines } from "../lib/textDiff";
+import type { StoredResumeProfile } from "../lib/resumeProfile";
+
+export const RESUME_SOURCES = ["upload", "manual", "tailored"] as const;
+
+export type ResumeSource = typeof RESUME_SOURCES[number];
+
+export interface ResumeVersion {
+  id: string;
+  name: string;
+  text: string;
+  source: ResumeSource;
+  // The version this one was derived from, e.g. the base resume a tailored one came from
+  parentId?: string;
+  // Set on tailored versions saved by a workflow run
+  workflowId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Listed without the text, which can be several kilobytes per version
+export type ResumeSummary = Omit<ResumeVersion, "text"> & { length: number };
+
+/**
+ * One object per user, holding their resume versions. Versions form a tree through
+ * `parentId` (base resume -> tailored for Company X) and are immutable apart from their
+ * name, so a diff against the parent always shows what tailoring changed. The user's
+ * structured profile, parsed from one of the versions and then edited, is kept here too.
+ */
+export class ResumeLibrary extends DurableObject<Env> {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    // Paths are /profile, /resumes, /resumes/:id or /resumes/:id/diff
+    const [, resource, id, action] = url.pathname.split("/");
+
+    try {
+      if (resource === "profile" && !id) {
+        switch (request.method) {
+          case "GET":
+            return await this.handleGetProfile();
+          case "PUT":
+            return await this.handleSaveProfile(request);
+          case "DELETE":
+            return await this.handleDeleteProfile();
+        }
+        return errorResponse(405, `${request.method} is not allowed on ${url.pathname}`);
+      }
+
+      if (resource !== "resumes") {
+        return errorResponse(404, `No route for ${request.method} ${url.pathname}`);
+      }
+
+      if (!id) {
+        switch (request.method) {
+          case "GET":
+            return await this.handleList();
+          case "POST":
+            return await this.handleCreate(request);
+        }
+      } else if (action === "diff") {
+        if (request.method === "GET") {
+          return await this.handleDiff(id);
+        }
+      } else if (!action) {
+        switch (request.method) {
+          case "GET":
+            return await this.handleGet(id);
+          case "PATCH":
+            return await this.handleRename(id, request);
+          case "DELETE":
+            return await this.handleDelete(id);
+        }
+      } else {
+        return errorResponse(404, `No route for ${request.method} ${url.pathname}`);
+      }
+
+      return errorResponse(405, `${request.method} is not allowed on ${url.pathname}`);
+    } catch (error) {
+      console.error("Error in ResumeLibrary:", error);
+      return errorResponse(500, String(error));
+    }
+  }
+
+  private async handleList(): Promise<Response> {
+    const versions = await this.listVersions();
+    const resumes: ResumeSummary[] = versions
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(({ text, ...summary }) => ({ ...summary, length: text.length }));
+
+    return jsonResponse({ resumes });
+  }
+
+  private async handleCreate(request: Request): Promise<Response> {
+    const { name, text, source = "manual", parentId, workflowId } = await request.json() as Partial<ResumeVersion>;
+    const errors: string[] = [];
+
+    if (typeof name !== "string" || !name.trim()) errors.push("name is required");
+    if (typeof text !== "string" || !text.trim()) errors.push("text is required");
+    if (!RESUME_SOURCES.includes(source)) errors.push(`source must be one of: ${RESUME_SOURCES.join(", ")}`);
+    if (parentId !== undefined && !(await this.state.storage.get(`resume:${parentId}`))) {
+      errors.push("parentId does not match a saved resume");
+    }
+
+    if (errors.length > 0) {
+      return errorResponse(400, "Invalid resume", { details: errors });
+    }
+
+    const now = Date.now();
+    const resume: ResumeVersion = {
+      id: crypto.randomUUID(),
+      name: name!.trim(),
+      text: text!,
+      source,
+      parentId,
+      workflowId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.state.storage.put(`resume:${resume.id}`, resume);
+
+    return jsonResponse({ resume }, 201);
+  }
+
+  private async handleGet(id: string): Promise<Response> {
+    const resume = await this.state.storage.get<ResumeVersion>(`resume:${id}`);
+
+    if (!resume) {
+      return errorResponse(404, "Resume not found");
+    }
+
+    return jsonResponse({ resume });
+  }
+
+  private async handleRename(id: string, request: Request): Promise<Response> {
+    const resume = await this.state.storage.get<ResumeVersion>(`resume:${id}`);
+
+    if (!resume) {
+      return errorResponse(404, "Resume not found");
+    }
+
+    const { name } = await request.json() as { name?: unknown };
+    if (typeof name !== "string" || !name.trim()) {
+      return errorResponse(400, "Invalid resume", { details: ["name is required"] });
+    }
+
+    const updated: ResumeVersion = { ...resume, name: name.trim(), updatedAt: Date.now() };
+    await this.state.storage.put(`resume:${id}`, updated);
+
+    return jsonResponse({ resume: updated });
+  }
+
+  // Children of a deleted version are re-attached to its parent so lineage stays connected
+  private async handleDelete(id: string): Promise<Response> {
+    const resume = await this.state.storage.get<ResumeVersion>(`resume:${id}`);
+
+    if (!resume) {
+      return errorResponse(404, "Resume not found");
+    }
+
+    const children = (await this.listVersions()).filter((version) => version.parentId === id);
+    const updates: Record<string, ResumeVersion> = {};
+    for (const child of children) {
+      updates[`resume:${child.id}`] = { ...child, parentId: resume.parentId };
+    }
+
+    if (children.length > 0) {
+      await this.state.storage.put(updates);
+    }
+    await this.state.storage.delete(`resume:${id}`);
+
+    return jsonResponse({ success: true });
+  }
+
+  private async handleDiff(id: string): Promise<Response> {
+    const resume = await this.state.storage.get<ResumeVersion>(`resume:${id}`);
+
+    if (!resume) {
+      return errorResponse(404, "Resume not found");
+    }
+    if (!resume.parentId) {
+      return errorResponse(400, "Resume has no parent to diff against");
+    }
+
+    const parent = await this.state.storage.get<ResumeVersion>(`resume:${resume.parentId}`);
+    if (!parent) {
+      return errorResponse(404, "Parent resume not found");
+    }
+
+    return jsonResponse({
+      resumeId: resume.id,
+      parentId: parent.id,
+      ...diffLines(parent.text, resume.text),
+    });
+  }
+
+  private async handleGetProfile(): Promise<Response> {
+    const profile = await this.state.storage.get<StoredResumeProfile>("profile");
+    return jsonResponse({ profile: profile ?? null });
+  }
+
+  // Replaces the profile; the Worker has already validated its shape
+  private async handleSaveProfile(request: Request): Promise<Response> {
+    const { updatedAt: _updatedAt, ...profile } = await request.json() as StoredResumeProfile;
+
+    if (typeof profile.contact?.name !== "string" || !profile.contact.name.trim()) {
+      return errorResponse(400, "Invalid profile", { details: ["contact.name is required"] });
+    }
+
+    const stored: StoredResumeProfile = { ...profile, updatedAt: Date.now() };
+    await this.state.storage.put("profile", stored);
+
+    return jsonResponse({ profile: stored });
+  }
+
+  private async handleDeleteProfile(): Promise<Response> {
+    await this.state.storage.delete("profile");
+    return jsonResponse({ success: true });
+  }
+
+  private async listVersions(): Promise<ResumeVersion[]> {
+    const stored = await this.state.storage.list<ResumeVersion>({ prefix: "resume:" });
+    return [...stored.values()];
+  }
+}
@@ -0,0 +1,156 @@
+import { DurableObject } from "cloudflare:workers";
+import { errorResponse, jsonResponse } from "../lib/errors";
+import type { Env, JobContext } from "../types";
+
+export interface SessionEntry {
+  // The chat sessionId, which also names its ConversationMemory object
+  id: string;
+  // Taken from the first message until the user renames the session; null before that
+  title: string | null;
+  createdAt: number;
+  lastActivityAt: number;
+  // The role the conversation is about, if a job context was linked
+  jobContext?: Pick<JobContext, "jobTitle" | "company">;
+}
+
+// Reported by the chat and context routes whenever a session is used
+interface SessionActivity {
+  message?: string;
+  jobContext?: JobContext;
+}
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * One object per user, indexing their chat sessions so earlier conversations can be
+ * listed and continued. The conversations themselves stay in ConversationMemory.
+ */
+export class SessionIndex extends DurableObject<Env> {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    // Paths are /sessions, /sessions/:id or /sessions/:id/activity
+    const [, resource, encodedId, action] = url.pathname.split("/");
+
+    try {
+      if (resource !== "sessions") {
+        return errorResponse(404, `No route for ${request.method} ${url.pathname}`);
+      }
+      // Session IDs come from the client, so the worker encodes them into the path
+      const id = encodedId && decodeURIComponent(encodedId);
+
+      if (!id) {
+        if (request.method === "GET") return await this.handleList();
+      } else if (action === "activity") {
+        if (request.method === "POST") return await this.handleActivity(id, request);
+      } else if (!action) {
+        switch (request.method) {
+          case "GET":
+            return await this.handleGet(id);
+          case "PATCH":
+            return await this.handleRename(id, request);
+          case "DELETE":
+            return await this.handleDelete(id);
+        }
+      } else {
+        return errorResponse(404, `No route for ${request.method} ${url.pathname}`);
+      }
+
+      return errorResponse(405, `${request.method} is not allowed on ${url.pathname}`);
+    } catch (error) {
+      console.error("Error in SessionIndex:", error);
+      return errorResponse(500, String(error));
+    }
+  }
+
+  private async handleList(): Promise<Response> {
+    const stored = await this.state.storage.list<SessionEntry>({ prefix: "session:" });
+    const sessions = [...stored.values()].sort((a, b) => b.lastActivityAt - a.lastActivityAt);
+
+    return jsonResponse({ sessions });
+  }
+
+  // Creates the entry on first use, then keeps its activity time, title and job current
+  private async handleActivity(id: string, request: Request): Promise<Response> {
+    const { message, jobContext } = await request.json() as SessionActivity;
+
+    const now = Date.now();
+    const session = await this.state.storage.get<SessionEntry>(`session:${id}`) ?? {
+      id,
+      title: null,
+      createdAt: now,
+      lastActivityAt: now,
+    };
+
+    session.lastActivityAt = now;
+
+    if (!session.title && typeof message === "string") {
+      session.title = titleFromMessage(message);
+    }
+
+    if (jobContext && (jobContext.jobTitle || jobContext.company)) {
+      session.jobContext = { jobTitle: jobContext.jobTitle, company: jobContext.company };
+    }
+
+    await this.state.storage.put(`session:${id}`, session);
+
+    return jsonResponse({ session });
+  }
+
+  private async handleGet(id: string): Promise<Response> {
+    const session = await this.state.storage.get<SessionEntry>(`session:${id}`);
+
+    if (!session) {
+      return errorResponse(404, "Session not found");
+    }
+
+    return jsonResponse({ session });
+  }
+
+  private async handleRename(id: string, request: Request): Promise<Response> {
+    const session = await this.state.storage.get<SessionEntry>(`session:${id}`);
+
+    if (!session) {
+      return errorResponse(404, "Session not found");
+    }
+
+    const { title } = await request.json() as { title?: unknown };
+    if (typeof title !== "string" || !title.trim()) {
+      return errorResponse(400, "Invalid session", { details: ["title is required"] });
+    }
+
+    session.title = title.trim().slice(0, 200);
+    await this.state.storage.put(`session:${id}`, session);
+
+    return jsonResponse({ session });
+  }
+
+  private async handleDelete(id: string): Promise<Response> {
+    const deleted = await this.state.storage.delete(`session:${id}`);
+
+    if (!deleted) {
+      return errorResponse(404, "Session not found");
+    }
+
+    return jsonResponse({ success: true });
+  }
+}
+
+// Uses the message's first sentence, cut at a word boundary if it's still too long
+function titleFromMessage(message: string): string | null {
+  const text = message.replace(/[#*_`>]/g, "").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+
+  const sentence = text.match(/^.+?[.?!](?=\s|$)/)?.[0] ?? text;
+  if (sentence.length <= MAX_TITLE_LENGTH) return sentence;
+
+  const cut = sentence.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:-]+$/, "")}…`;
+}
@@ -0,0 +1,137 @@
+import { DurableObject } from "cloudflare:workers";
+import { errorResponse } from "../lib/errors";
+import type { Env } from "../types";
+import type { ContactHeader } from "../lib/documentExport";
+
+export interface StepProgress {
+  output: unknown;
+  completedAt: number;
+}
+
+// Details of the run needed to export its documents
+export interface WorkflowMetadata {
+  jobTitle: string;
+  company: string;
+  contact?: ContactHeader;
+}
+
+export interface ProgressState {
+  // The user who started the workflow; recorded before the instance is created
+  userId?: string;
+  // Steps this run executes; absent until the workflow publishes its plan
+  planned?: string[];
+  metadata?: WorkflowMetadata;
+  steps: Record<string, StepProgress>;
+  updatedAt: number;
+}
+
+/**
+ * Holds the partial results of one JobApplicationWorkflow instance (one object per
+ * workflow ID), so the status endpoint can report each step as soon as it finishes.
+ */
+export class WorkflowProgress extends DurableObject<Env> {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      switch (path) {
+        case "/owner":
+          return await this.handleSetOwner(request);
+        case "/plan":
+          return await this.handlePlan(request);
+        case "/step":
+          return await this.handleCompleteStep(request);
+        case "/progress":
+          return await this.handleGetProgress();
+        default:
+          return errorResponse(404, `No route for ${request.method} ${path}`);
+      }
+    } catch (error) {
+      console.error("Error in WorkflowProgress:", error);
+      return errorResponse(500, String(error));
+    }
+  }
+
+  private async handleSetOwner(request: Request): Promise<Response> {
+    const { userId } = await request.json() as { userId?: string };
+
+    if (!userId) {
+      return errorResponse(400, "Missing userId");
+    }
+
+    const progress = await this.state.storage.get<ProgressState>("progress") ?? { steps: {}, updatedAt: 0 };
+
+    // Ownership is set once; workflow IDs are never reused
+    if (progress.userId && progress.userId !== userId) {
+      return errorResponse(403, "Workflow belongs to another user");
+    }
+
+    progress.userId = userId;
+    await this.state.storage.put("progress", progress);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private async handlePlan(request: Request): Promise<Response> {
+    const body = await request.json();
+    const { steps, metadata } = body as { steps: string[]; metadata?: WorkflowMetadata };
+
+    if (!Array.isArray(steps)) {
+      return errorResponse(400, "Missing planned steps");
+    }
+
+    const progress = await this.state.storage.get<ProgressState>("progress") ?? { steps: {}, updatedAt: 0 };
+
+    progress.planned = steps;
+    if (metadata) progress.metadata = metadata;
+    progress.updatedAt = Date.now();
+
+    await this.state.storage.put("progress", progress);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private async handleCompleteStep(request: Request): Promise<Response> {
+    const body = await request.json();
+    const { step, output } = body as { step: string; output: unknown };
+
+    if (!step) {
+      return errorResponse(400, "Missing step name");
+    }
+
+    const progress = await this.state.storage.get<ProgressState>("progress") ?? { steps: {}, updatedAt: 0 };
+
+    // Steps can replay when a workflow resumes; keep the first completion time
+    progress.steps[step] = {
+      output,
+      completedAt: progress.steps[step]?.completedAt ?? Date.now(),
+    };
+    progress.updatedAt = Date.now();
+
+    await this.state.storage.put("progress", progress);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  private async handleGetProgress(): Promise<Response> {
+    const progress = await this.state.storage.get<ProgressState>("progress") ?? { steps: {}, updatedAt: 0 };
+
+    return new Response(JSON.stringify(progress), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
@@ -1,16 +1,72 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
-import { ConversationMemory } from "./durable-objects/ConversationMemory";
-import { JobApplicationWorkflow } from "./workflows/JobApplicationWorkflow";
-import type { Env, ChatRequest, WorkflowRequest } from "./types";
+import { streamSSE } from "hono/streaming";
+import { except } from "hono/combine";
+import { bodyLimit } from "hono/body-limit";
+import { ConversationMemory, type Message } from "./durable-objects/ConversationMemory";
+import { WorkflowProgress, type ProgressState } from "./durable-objects/WorkflowProgress";
+import { ApplicationTracker } from "./durable-objects/ApplicationTracker";
+import { ResumeLibrary, type ResumeVersion } from "./durable-objects/ResumeLibrary";
+import { SessionIndex } from "./durable-objects/SessionIndex";
+import { RateLimiter } from "./durable-objects/RateLimiter";
+import {
+  JobApplicationWorkflow,
+  STEP_CHECKS,
+  WORKFLOW_STEPS,
+  type JobApplicationResult,
+} from "./workflows/JobApplicationWorkflow";
+import { createUserLLM } from "./lib/aiUsage";
+import type { LLMStream } from "./lib/llm";
+import { requireAuth, issueDownloadToken, issueToken, type AuthVariables } from "./lib/auth";
+import { enforceRateLimit, rateLimit } from "./lib/rateLimit";
+import { apiError } from "./lib/errors";
+import { validateBody } from "./lib/schema";
+import {
+  REQUEST_LIMITS,
+  applicationRequestSchema,
+  applicationUpdateSchema,
+  chatRequestSchema,
+  contextRequestSchema,
+  interviewAnswerRequestSchema,
+  interviewStartRequestSchema,
+  jobIngestRequestSchema,
+  matchRequestSchema,
+  resumeDiffRequestSchema,
+  resumeParseRequestSchema,
+  resumeProfileSchema,
+  resumeRenameRequestSchema,
+  resumeRequestSchema,
+  sessionRenameRequestSchema,
+  tokenRequestSchema,
+  workflowRequestSchema,
+} from "./lib/requestSchemas";
+import { buildSystemPrompt } from "./lib/chatPrompt";
+import type { LanguageSetting } from "./lib/language";
+import { CHAT_COMMANDS, DOCUMENT_COMMANDS, parseChatCommand, runChatCommand } from "./lib/chatCommands";
+import { validateJobAnalysis, type JobAnalysis } from "./lib/jobAnalysis";
+import { buildMatchReport } from "./lib/matchReport";
+import { formatResumeProfile, parseResume, type StoredResumeProfile } from "./lib/resumeProfile";
+import { detectResumeFormat, extractResumeText, isPdfUpload, RESUME_UPLOAD_FORMATS } from "./lib/resumeExtract";
+import { checkJobPageUrl, extractJobPosting, fetchJobPage } from "./lib/jobIngest";
+import { diffResume } from "./lib/textDiff";
+import {
+  buildExportDocument,
+  renderMarkdown,
+  EXPORT_ARTIFACTS,
+  type ExportArtifact,
+  type ExportDocument,
+} from "./lib/documentExport";
+import { renderDocx } from "./lib/docx";
+import { renderPdf } from "./lib/pdf";
+import type { Env, ChatMessage, ChatRequest, JobContext, WorkflowRequest } from "./types";
 
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<{ Bindings: Env; Variables: AuthVariables }>();
 
 // Enable CORS for frontend
 app.use("/*", cors({
   origin: "*",
-  allowMethods: ["GET", "POST", "OPTIONS"],
-  allowHeaders: ["Content-Type"],
+  allowMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+  allowHeaders: ["Content-Type", "Authorization"],
 }));
 
 // Health check endpoint
@@ -19,56 +75,266 @@ app.get("/", (c) => {
     message: "AI Job Application Assistant API",
     version: "1.0.0",
     endpoints: {
+      auth: "POST /api/auth/token, POST /api/auth/refresh",
       chat: "POST /api/chat",
+      chatStream: "POST /api/chat/stream",
+      chatCommands: "GET /api/chat/commands",
       workflow: "POST /api/workflow",
+      match: "POST /api/match",
+      usage: "GET /api/usage",
+      export: "GET /api/workflow/:workflowId/export?format=md|docx|pdf, POST /api/workflow/:workflowId/export/link",
+      sessions: "GET /api/sessions, PATCH|DELETE /api/sessions/:sessionId",
       history: "GET /api/history/:sessionId",
-      context: "POST /api/context/:sessionId",
+      context: "GET|POST /api/context/:sessionId",
+      interview: "GET|POST /api/interview/:sessionId, POST /api/interview/:sessionId/answer, GET /api/interview/:sessionId/report",
+      applications: "GET|POST /api/applications, GET|PATCH|DELETE /api/applications/:id",
+      resumes: "GET|POST /api/resumes, GET|PATCH|DELETE /api/resumes/:id, GET /api/resumes/:id/diff",
+      resumeExtract: "POST /api/resume/extract",
+      resumeDiff: "POST /api/resume/diff",
+      profile: "GET|PUT|DELETE /api/profile, POST /api/profile/parse",
+      jobIngest: "POST /api/job/ingest",
     },
   });
 });
 
-// Chat endpoint - uses Workers AI (Llama 3.3) with conversation memory
-app.post("/api/chat", async (c) => {
+// Every API route except token issuance needs a signed token
+app.use("/api/*", except("/api/auth/token", requireAuth));
+
+// Resume uploads have their own, larger limit
+app.use("/api/*", except("/api/resume/extract", bodyLimit({
+  maxSize: REQUEST_LIMITS.body,
+  onError: (c) => apiError(c, 413, `Request body must be at most ${REQUEST_LIMITS.body / 1024} KB`),
+})));
+
+// Issue a session token. Without a userId this creates a new anonymous user; in
+// development any userId can be requested, which makes this the local dev issuer.
+app.post("/api/auth/token", rateLimit("token"), async (c) => {
   try {
-    const { message, sessionId, userId }: ChatRequest = await c.req.json();
+    if (!c.env.AUTH_SECRET) {
+      console.error("AUTH_SECRET is not set");
+      return apiError(c, 500, "Authentication is not configured");
+    }
 
-    if (!message || !sessionId || !userId) {
-      return c.json({ error: "Missing required fields" }, 400);
+    // The body is optional: anonymous clients send none
+    const parsed = tokenRequestSchema.check(await c.req.json().catch(() => ({})), "");
+    if (!parsed.ok) {
+      return apiError(c, 400, "Invalid request body", { details: parsed.errors });
     }
+    const requestedUserId = parsed.value.userId;
 
-    // Get or create Durable Object for this session
-    const conversationId = c.env.CONVERSATIONS.idFromName(sessionId);
-    const conversationStub = c.env.CONVERSATIONS.get(conversationId);
+    if (requestedUserId && c.env.ENVIRONMENT !== "development") {
+      return apiError(c, 403, "Tokens for a specific user are only issued in development");
+    }
+
+    const userId = requestedUserId || `user-${crypto.randomUUID()}`;
+    const { token, expiresAt } = await issueToken(c.env.AUTH_SECRET, userId);
+
+    return c.json({ token, userId, expiresAt });
+  } catch (error) {
+    console.error("Auth error:", error);
+    return apiError(c, 500, "Failed to issue token");
+  }
+});
+
+// Exchange a valid token for a new one for the same user
+app.post("/api/auth/refresh", async (c) => {
+  try {
+    const userId = c.get("userId");
+    const { token, expiresAt } = await issueToken(c.env.AUTH_SECRET, userId);
 
-    // Initialize conversation if needed
-    await conversationStub.fetch(`http://do/init`, {
+    return c.json({ token, userId, expiresAt });
+  } catch (error) {
+    console.error("Auth error:", error);
+    return apiError(c, 500, "Failed to refresh token");
+  }
+});
+
+// Returns the session's Durable Object, or null when another user owns the session.
+// Sessions nobody has initialized yet are open to the caller.
+async function getOwnedConversation(env: Env, sessionId: string, userId: string) {
+  const conversationId = env.CONVERSATIONS.idFromName(sessionId);
+  const conversationStub = env.CONVERSATIONS.get(conversationId);
+
+  const response = await conversationStub.fetch(`http://do/owner`);
+  const { userId: owner } = await response.json() as { userId: string | null };
+
+  return owner === null || owner === userId ? conversationStub : null;
+}
+
+// Keeps the user's session index current. The index only powers the session list, so a
+// failure here is logged rather than failing the chat.
+async function recordSessionActivity(env: Env, userId: string, sessionId: string, activity: { message?: string; jobContext?: JobContext }) {
+  try {
+    await forwardToUserStore(env.SESSIONS, userId, `/sessions/${encodeURIComponent(sessionId)}/activity`, {
       method: "POST",
-      body: JSON.stringify({ userId, sessionId }),
+      body: JSON.stringify(activity),
     });
+  } catch (error) {
+    console.error("Failed to update session index:", error);
+  }
+}
 
-    // Add user message to history
-    await conversationStub.fetch(`http://do/message`, {
+// Stores the user's message and returns the conversation stub plus the prompt messages for
+// the model, or null when the session belongs to another user
+async function prepareChat(env: Env, { message, sessionId, userId }: ChatRequest) {
+  // Get or create Durable Object for this session
+  const conversationId = env.CONVERSATIONS.idFromName(sessionId);
+  const conversationStub = env.CONVERSATIONS.get(conversationId);
+
+  // Initialize conversation if needed; this also claims it for the user
+  const initResponse = await conversationStub.fetch(`http://do/init`, {
+    method: "POST",
+    body: JSON.stringify({ userId, sessionId }),
+  });
+  if (initResponse.status === 403) {
+    return null;
+  }
+
+  // Add user message to history
+  await conversationStub.fetch(`http://do/message`, {
+    method: "POST",
+    body: JSON.stringify({ role: "user", content: message }),
+  });
+  await recordSessionActivity(env, userId, sessionId, { message });
+
+  // Get the rolling summary and recent turns for context
+  const promptResponse = await conversationStub.fetch(`http://do/prompt`);
+  const { summary, messages, metadata } = await promptResponse.json() as {
+    summary: string | null;
+    messages: any[];
+    metadata?: { jobContext?: JobContext; language?: LanguageSetting };
+  };
+
+  // Prompt = system prompt (with job context and language) + summary of earlier turns + recent turns
+  const promptMessages: ChatMessage[] = [
+    { role: "system", content: buildSystemPrompt(metadata?.jobContext, metadata?.language) },
+  ];
+
+  if (summary) {
+    promptMessages.push({ role: "system", content: `Summary of the earlier conversation:\n${summary}` });
+  }
+
+  for (const m of messages) {
+    promptMessages.push({ role: m.role, content: m.content });
+  }
+
+  return { conversationStub, messages: promptMessages };
+}
+
+// Runs a slash command instead of a chat turn. The command and its reply are stored like
+// any other turn, with the command's structured result attached; unknown commands get a
+// reply that isn't stored. Returns null when the session belongs to another user.
+async function runSessionCommand(
+  env: Env,
+  { message, sessionId, userId }: ChatRequest,
+  parsed: NonNullable<ReturnType<typeof parseChatCommand>>
+): Promise<{ message: Message; reset?: boolean } | null> {
+  const conversationId = env.CONVERSATIONS.idFromName(sessionId);
+  const conversationStub = env.CONVERSATIONS.get(conversationId);
+
+  const initResponse = await conversationStub.fetch(`http://do/init`, {
+    method: "POST",
+    body: JSON.stringify({ userId, sessionId }),
+  });
+  if (initResponse.status === 403) {
+    return null;
+  }
+
+  if ("error" in parsed) {
+    return { message: { role: "assistant", content: parsed.error, timestamp: Date.now() } };
+  }
+  const { command } = parsed;
+
+  if (command.name === "reset") {
+    await conversationStub.fetch(`http://do/clear`, { method: "POST" });
+    await forwardToUserStore(env.SESSIONS, userId, `/sessions/${encodeURIComponent(sessionId)}`, {
+      method: "DELETE",
+    });
+    return { message: { role: "assistant", content: "Conversation cleared.", timestamp: Date.now() }, reset: true };
+  }
+
+  await conversationStub.fetch(`http://do/message`, {
+    method: "POST",
+    body: JSON.stringify({ role: "user", content: message }),
+  });
+  await recordSessionActivity(env, userId, sessionId, { message });
+
+  const contextResponse = await conversationStub.fetch(`http://do/context`);
+  const { context, language } = await contextResponse.json() as { context: JobContext; language: LanguageSetting };
+
+  // Without a resume in the job context, the documents are written from the user's profile
+  if ((command.name === "tailor" || command.name === "cover") && !context.resumeText?.trim()) {
+    const profile = await getResumeProfile(env, userId);
+    if (profile) context.resumeText = formatResumeProfile(profile);
+  }
+
+  const result = await runChatCommand(createUserLLM(env, userId), command, context, language);
+
+  if (result.jobContext) {
+    const updated = await conversationStub.fetch(`http://do/context`, {
       method: "POST",
-      body: JSON.stringify({ role: "user", content: message }),
+      body: JSON.stringify({ jobContext: result.jobContext }),
     });
+    const { context: jobContext } = await updated.json() as { context: JobContext };
+    await recordSessionActivity(env, userId, sessionId, { jobContext });
+  }
+
+  const saved = await conversationStub.fetch(`http://do/message`, {
+    method: "POST",
+    body: JSON.stringify({ role: "assistant", content: result.content, attachment: result.attachment }),
+  });
+  const { message: reply } = await saved.json() as { message: Message };
+
+  return { message: reply };
+}
+
+// The slash commands the chat endpoints understand, for autocomplete
+app.get("/api/chat/commands", (c) => {
+  return c.json({ commands: CHAT_COMMANDS });
+});
+
+// Chat endpoint - uses Workers AI (Llama 3.3) with conversation memory
+app.post("/api/chat", rateLimit("chat"), validateBody(chatRequestSchema), async (c) => {
+  try {
+    const { message, sessionId } = c.get("body");
+    const chatRequest: ChatRequest = { message, sessionId, userId: c.get("userId") };
+
+    const command = parseChatCommand(message);
+    if (command) {
+      // Writing a resume or cover letter counts against the workflow limits as well
+      if ("command" in command && DOCUMENT_COMMANDS.includes(command.command.name)) {
+        const limited = await enforceRateLimit(c, "workflow");
+        if (limited) return limited;
+      }
+
+      const ran = await runSessionCommand(c.env, chatRequest, command);
+      if (!ran) {
+        return apiError(c, 403, "Session belongs to another user");
+      }
+
+      return c.json({
+        response: ran.message.content,
+        sessionId,
+        timestamp: ran.message.timestamp,
+        ...(ran.message.attachment && { attachment: ran.message.attachment }),
+        ...(ran.reset && { reset: true }),
+      });
+    }
 
-    // Get conversation history for context
-    const historyResponse = await conversationStub.fetch(`http://do/history?limit=10`);
-    const { messages } = await historyResponse.json() as { messages: any[] };
+    const prepared = await prepareChat(c.env, chatRequest);
+    if (!prepared) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+    const { conversationStub, messages } = prepared;
 
-    // Call Workers AI with conversation context
-    const aiResponse: any = await c.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-      messages: messages.map((m: any) => ({
-        role: m.role,
-        content: m.content,
-      })),
-      max_tokens: 2048,
+    // Call the model with conversation context
+    const { text: assistantMessage } = await createUserLLM(c.env, chatRequest.userId).complete({
+      task: "chat",
+      messages,
+      maxTokens: 2048,
       temperature: 0.7,
     });
 
-    // Handle AI response - can be string or object with response property
-    const assistantMessage = typeof aiResponse === 'string' ? aiResponse : (aiResponse.response || aiResponse.text || String(aiResponse));
-
     // Save assistant response to history
     await conversationStub.fetch(`http://do/message`, {
       method: "POST",
@@ -82,18 +348,110 @@ app.post("/api/chat", async (c) => {
     });
   } catch (error) {
     console.error("Chat error:", error);
-    return c.json({ error: "Failed to process chat message" }, 500);
+    return apiError(c, 500, "Failed to process chat message");
   }
 });
 
+// Streaming chat endpoint - forwards model tokens to the client as Server-Sent Events
+app.post("/api/chat/stream", rateLimit("chat"), validateBody(chatRequestSchema), async (c) => {
+  const { message, sessionId } = c.get("body");
+  const chatRequest: ChatRequest = { message, sessionId, userId: c.get("userId") };
+  let conversationStub: DurableObjectStub;
+  let tokens: LLMStream;
+
+  try {
+    // Commands reply in one piece, sent as a single event
+    const command = parseChatCommand(message);
+    if (command) {
+      // Writing a resume or cover letter counts against the workflow limits as well
+      if ("command" in command && DOCUMENT_COMMANDS.includes(command.command.name)) {
+        const limited = await enforceRateLimit(c, "workflow");
+        if (limited) return limited;
+      }
+
+      const ran = await runSessionCommand(c.env, chatRequest, command);
+      if (!ran) {
+        return apiError(c, 403, "Session belongs to another user");
+      }
+
+      return streamSSE(c, async (stream) => {
+        await stream.writeSSE({ event: "command", data: JSON.stringify(ran) });
+        await stream.writeSSE({
+          event: "done",
+          data: JSON.stringify({ sessionId, timestamp: Date.now() }),
+        });
+      });
+    }
+
+    const prepared = await prepareChat(c.env, chatRequest);
+    if (!prepared) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+    conversationStub = prepared.conversationStub;
+
+    tokens = await createUserLLM(c.env, chatRequest.userId).stream({
+      task: "chat",
+      messages: prepared.messages,
+      maxTokens: 2048,
+      temperature: 0.7,
+    });
+  } catch (error) {
+    console.error("Chat stream error:", error);
+    return apiError(c, 500, "Failed to process chat message");
+  }
+
+  let assistantMessage = "";
+  let saved = false;
+
+  // Persist whatever was generated, whether the stream finished, failed or was cancelled
+  const saveAssistantMessage = async () => {
+    if (saved || !assistantMessage) return;
+    saved = true;
+
+    await conversationStub.fetch(`http://do/message`, {
+      method: "POST",
+      body: JSON.stringify({ role: "assistant", content: assistantMessage }),
+    });
+  };
+
+  return streamSSE(c, async (stream) => {
+    stream.onAbort(() => {
+      c.executionCtx.waitUntil(saveAssistantMessage());
+    });
+
+    // Breaking out when the client goes away cancels generation of tokens nobody will read
+    for await (const token of tokens) {
+      if (stream.aborted) break;
+      assistantMessage += token;
+      await stream.writeSSE({ event: "token", data: JSON.stringify({ token }) });
+    }
+
+    if (stream.aborted) return;
+
+    await saveAssistantMessage();
+    await stream.writeSSE({
+      event: "done",
+      data: JSON.stringify({ sessionId: chatRequest.sessionId, timestamp: Date.now() }),
+    });
+  }, async (error) => {
+    console.error("Chat stream error:", error);
+    await saveAssistantMessage();
+  });
+});
+
 // Get conversation history
 app.get("/api/history/:sessionId", async (c) => {
   try {
     const sessionId = c.req.param("sessionId");
-    const limit = c.req.query("limit") || "50";
+    const limit = Number(c.req.query("limit") ?? 50);
+    if (!Number.isInteger(limit) || limit < 1 || limit > REQUEST_LIMITS.historyMessages) {
+      return apiError(c, 400, `limit must be a whole number from 1 to ${REQUEST_LIMITS.historyMessages}`);
+    }
 
-    const conversationId = c.env.CONVERSATIONS.idFromName(sessionId);
-    const conversationStub = c.env.CONVERSATIONS.get(conversationId);
+    const conversationStub = await getOwnedConversation(c.env, sessionId, c.get("userId"));
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
 
     const response = await conversationStub.fetch(`http://do/history?limit=${limit}`);
     const data = await response.json();
@@ -101,43 +459,255 @@ app.get("/api/history/:sessionId", async (c) => {
     return c.json(data);
   } catch (error) {
     console.error("History error:", error);
-    return c.json({ error: "Failed to retrieve history" }, 500);
+    return apiError(c, 500, "Failed to retrieve history");
+  }
+});
+
+// Get job context for conversation
+app.get("/api/context/:sessionId", async (c) => {
+  try {
+    const sessionId = c.req.param("sessionId");
+
+    const conversationStub = await getOwnedConversation(c.env, sessionId, c.get("userId"));
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
+    const response = await conversationStub.fetch(`http://do/context`);
+    const data = await response.json();
+    return c.json(data);
+  } catch (error) {
+    console.error("Context error:", error);
+    return apiError(c, 500, "Failed to retrieve context");
   }
 });
 
 // Update job context for conversation
-app.post("/api/context/:sessionId", async (c) => {
+app.post("/api/context/:sessionId", validateBody(contextRequestSchema), async (c) => {
   try {
     const sessionId = c.req.param("sessionId");
-    const jobContext = await c.req.json();
+    // userId is accepted for older clients but the token decides the owner
+    const { jobContext: wrappedContext, userId: _userId, language, ...bareContext } = c.get("body");
+    // Accept both { jobContext } and a bare context object
+    const jobContext = wrappedContext ?? bareContext;
 
     const conversationId = c.env.CONVERSATIONS.idFromName(sessionId);
     const conversationStub = c.env.CONVERSATIONS.get(conversationId);
 
+    // Allow context to be set before the first chat message; this also checks ownership
+    const initResponse = await conversationStub.fetch(`http://do/init`, {
+      method: "POST",
+      body: JSON.stringify({ userId: c.get("userId"), sessionId, language }),
+    });
+    if (initResponse.status === 403) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
     const response = await conversationStub.fetch(`http://do/context`, {
       method: "POST",
-      body: JSON.stringify({ jobContext }),
+      body: JSON.stringify({ jobContext, language }),
     });
 
-    const data = await response.json();
-    return c.json(data);
+    const data = await response.json() as { context?: JobContext; language?: LanguageSetting };
+    if (response.ok) {
+      await recordSessionActivity(c.env, c.get("userId"), sessionId, { jobContext: data.context });
+    }
+
+    return c.json(data, response.status as 200 | 400);
   } catch (error) {
     console.error("Context error:", error);
-    return c.json({ error: "Failed to update context" }, 500);
+    return apiError(c, 500, "Failed to update context");
+  }
+});
+
+// Start a mock interview in the session, using its job context; the first question is
+// returned and added to the transcript
+app.post("/api/interview/:sessionId", rateLimit("chat"), validateBody(interviewStartRequestSchema), async (c) => {
+  try {
+    const sessionId = c.req.param("sessionId");
+    const userId = c.get("userId");
+
+    const conversationStub = c.env.CONVERSATIONS.get(c.env.CONVERSATIONS.idFromName(sessionId));
+
+    // An interview can open a new session; this also checks ownership
+    const initResponse = await conversationStub.fetch(`http://do/init`, {
+      method: "POST",
+      body: JSON.stringify({ userId, sessionId }),
+    });
+    if (initResponse.status === 403) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
+    const response = await conversationStub.fetch(`http://do/interview/start`, {
+      method: "POST",
+      body: JSON.stringify(c.get("body")),
+    });
+    if (response.ok) {
+      await recordSessionActivity(c.env, userId, sessionId, { message: "Mock interview" });
+    }
+
+    return c.json(await response.json(), response.status as 200 | 400 | 409 | 500);
+  } catch (error) {
+    console.error("Interview error:", error);
+    return apiError(c, 500, "Failed to start interview");
+  }
+});
+
+// The session's current or last mock interview, or null
+app.get("/api/interview/:sessionId", async (c) => {
+  try {
+    const conversationStub = await getOwnedConversation(c.env, c.req.param("sessionId"), c.get("userId"));
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
+    const response = await conversationStub.fetch(`http://do/interview`);
+    return c.json(await response.json());
+  } catch (error) {
+    console.error("Interview error:", error);
+    return apiError(c, 500, "Failed to retrieve interview");
+  }
+});
+
+// Answer the current question: the answer is graded against the rubric and the next
+// question asked, until the interview is complete
+app.post("/api/interview/:sessionId/answer", rateLimit("chat"), validateBody(interviewAnswerRequestSchema), async (c) => {
+  try {
+    const sessionId = c.req.param("sessionId");
+    const { answer } = c.get("body");
+
+    const conversationStub = await getOwnedConversation(c.env, sessionId, c.get("userId"));
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
+    const response = await conversationStub.fetch(`http://do/interview/answer`, {
+      method: "POST",
+      body: JSON.stringify({ answer }),
+    });
+    if (response.ok) {
+      await recordSessionActivity(c.env, c.get("userId"), sessionId, {});
+    }
+
+    return c.json(await response.json(), response.status as 200 | 400 | 409 | 500);
+  } catch (error) {
+    console.error("Interview error:", error);
+    return apiError(c, 500, "Failed to grade answer");
+  }
+});
+
+// Scores per rubric criterion and question kind, plus what to practise, for the graded answers
+app.get("/api/interview/:sessionId/report", async (c) => {
+  try {
+    const conversationStub = await getOwnedConversation(c.env, c.req.param("sessionId"), c.get("userId"));
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
+    const response = await conversationStub.fetch(`http://do/interview/report`);
+    return c.json(await response.json(), response.status as 200 | 404);
+  } catch (error) {
+    console.error("Interview error:", error);
+    return apiError(c, 500, "Failed to build interview report");
+  }
+});
+
+// Read a job posting from pasted HTML or its URL, to prefill the workflow form. Nothing
+// is stored; pasted HTML is used as is even when a URL is given too.
+app.post("/api/job/ingest", validateBody(jobIngestRequestSchema), async (c) => {
+  try {
+    const { html, url } = c.get("body");
+    if (!html && !url) {
+      return apiError(c, 400, "Invalid request body", { details: ["html or url is required"] });
+    }
+
+    const urlProblem = url ? checkJobPageUrl(url) : undefined;
+    if (urlProblem) {
+      return apiError(c, 400, "Invalid request body", { details: [urlProblem] });
+    }
+
+    let page = { html: html ?? "", url };
+    if (!html) {
+      // Only fetching a page is limited, so the route can't be used as an open proxy
+      const limited = await enforceRateLimit(c, "chat");
+      if (limited) return limited;
+
+      const fetcher = c.env.JOB_PAGE_FETCHER ?? { fetch: (input: RequestInfo, init?: RequestInit) => fetch(input, init) };
+      const fetched = await fetchJobPage(fetcher, url!);
+      if ("error" in fetched) {
+        return apiError(c, 502, `Could not fetch the job posting: ${fetched.error}`);
+      }
+      page = fetched;
+    }
+
+    const posting = extractJobPosting(page.html, page.url);
+    if (!posting) {
+      return apiError(c, 422, "No job description was found on the page");
+    }
+
+    return c.json({ posting });
+  } catch (error) {
+    console.error("Job ingest error:", error);
+    return apiError(c, 500, "Failed to read the job posting");
   }
 });
 
 // Workflow endpoint - triggers multi-step job application workflow
-app.post("/api/workflow", async (c) => {
+app.post("/api/workflow", rateLimit("workflow"), validateBody(workflowRequestSchema), async (c) => {
   try {
-    const workflowData: WorkflowRequest = await c.req.json();
+    const { userId: _userId, previousResults, useProfile, ...request } = c.get("body");
+    const workflowData: WorkflowRequest = { ...request, userId: c.get("userId") };
 
-    if (!workflowData.jobDescription || !workflowData.resumeText || !workflowData.jobTitle) {
-      return c.json({ error: "Missing required workflow fields" }, 400);
+    if (!workflowData.resumeText && !workflowData.resumeId && !useProfile) {
+      return apiError(c, 400, "Invalid request body", { details: ["resumeText, resumeId or useProfile is required"] });
+    }
+
+    // The profile and library resumes are resolved here so the workflow always receives the text
+    if (useProfile) {
+      const profile = await getResumeProfile(c.env, workflowData.userId);
+      if (!profile) {
+        return apiError(c, 404, "No resume profile has been saved");
+      }
+      workflowData.resumeText = formatResumeProfile(profile);
+      // The tailored resume isn't derived from a library version's text
+      delete workflowData.resumeId;
+    } else if (workflowData.resumeId) {
+      const { data, status } = await forwardToUserStore(
+        c.env.RESUMES,
+        workflowData.userId,
+        `/resumes/${workflowData.resumeId}`
+      );
+      if (status !== 200) {
+        return apiError(c, 404, "resumeId does not match a saved resume");
+      }
+      workflowData.resumeText = (data as { resume: ResumeVersion }).resume.text;
     }
 
+    if (previousResults) {
+      // A reused analysis feeds later prompts directly, so it must match the schema
+      const { analysis: rawAnalysis, ...reused } = previousResults;
+      let analysis: JobAnalysis | undefined;
+      if (rawAnalysis !== undefined) {
+        const validated = validateJobAnalysis(rawAnalysis);
+        if (!validated.analysis) {
+          return apiError(c, 400, "Invalid previousResults.analysis", { details: validated.errors });
+        }
+        analysis = validated.analysis;
+      }
+      workflowData.previousResults = { ...reused, ...(analysis && { analysis }) };
+    }
+
+    // Record the owner before the instance exists, so status checks never see it unowned
+    const workflowId = crypto.randomUUID();
+    const progressStub = c.env.WORKFLOW_PROGRESS.get(c.env.WORKFLOW_PROGRESS.idFromName(workflowId));
+    await progressStub.fetch(`http://do/owner`, {
+      method: "POST",
+      body: JSON.stringify({ userId: workflowData.userId }),
+    });
+
     // Trigger workflow
     const instance = await c.env.JOB_WORKFLOW.create({
+      id: workflowId,
       params: workflowData,
     });
 
@@ -148,72 +718,604 @@ app.post("/api/workflow", async (c) => {
     });
   } catch (error) {
     console.error("Workflow error:", error);
-    return c.json({ error: "Failed to start workflow" }, 500);
+    return apiError(c, 500, "Failed to start workflow");
   }
 });
 
+// Resume-job match score - deterministic keyword/skill overlap plus AI gap suggestions
+app.post("/api/match", rateLimit("chat"), validateBody(matchRequestSchema), async (c) => {
+  try {
+    const { resumeText, jobDescription, analysis, includeSuggestions } = c.get("body");
+
+    let jobAnalysis: JobAnalysis | undefined;
+    if (analysis !== undefined) {
+      const validated = validateJobAnalysis(analysis);
+      if (!validated.analysis) {
+        return apiError(c, 400, "Invalid analysis", { details: validated.errors });
+      }
+      jobAnalysis = validated.analysis;
+    }
+
+    const report = await buildMatchReport(createUserLLM(c.env, c.get("userId")), {
+      resumeText,
+      jobDescription,
+      analysis: jobAnalysis,
+      includeSuggestions: includeSuggestions !== false,
+    });
+
+    return c.json(report);
+  } catch (error) {
+    console.error("Match error:", error);
+    return apiError(c, 500, "Failed to compute match score");
+  }
+});
+
+// Today's model usage against the daily budget, and the user's request allowance
+app.get("/api/usage", async (c) => {
+  try {
+    const limiterStub = c.env.RATE_LIMITER.get(c.env.RATE_LIMITER.idFromName(`user:${c.get("userId")}`));
+
+    const response = await limiterStub.fetch(`http://do/usage`);
+    return c.json(await response.json());
+  } catch (error) {
+    console.error("Usage error:", error);
+    return apiError(c, 500, "Failed to retrieve usage");
+  }
+});
+
+// Loads a workflow's progress if the user started it; workflows without a recorded
+// owner are reported as not found
+async function getOwnedWorkflowProgress(env: Env, workflowId: string, userId: string) {
+  const progressId = env.WORKFLOW_PROGRESS.idFromName(workflowId);
+  const progressStub = env.WORKFLOW_PROGRESS.get(progressId);
+
+  const response = await progressStub.fetch(`http://do/progress`);
+  const progress = await response.json() as ProgressState;
+
+  if (!progress.userId) {
+    return { error: "Workflow not found", status: 404 as const };
+  }
+  if (progress.userId !== userId) {
+    return { error: "Workflow belongs to another user", status: 403 as const };
+  }
+  return { progress };
+}
+
+// Reports every workflow step in order, with the output of the ones that have finished
+// and the results of any checks of that output, e.g. { unverifiedClaims } for the resume
+function getWorkflowSteps(progress: ProgressState, workflowStatus: string) {
+  const isActive = workflowStatus === "running" || workflowStatus === "queued";
+  let runningAssigned = false;
+
+  return WORKFLOW_STEPS.map(({ name, resultKey }) => {
+    const completed = progress.steps[name];
+    let status: "complete" | "running" | "pending" | "skipped" = "pending";
+
+    if (completed) {
+      status = "complete";
+    } else if (progress.planned && !progress.planned.includes(name)) {
+      status = "skipped";
+    } else if (isActive && !runningAssigned) {
+      // Steps run sequentially, so the first unfinished step is the one in progress
+      status = "running";
+      runningAssigned = true;
+    }
+
+    const checks = Object.fromEntries(STEP_CHECKS
+      .filter((check) => check.step === name && progress.steps[check.name])
+      .map((check) => [check.resultKey, progress.steps[check.name].output]));
+
+    return {
+      name,
+      resultKey,
+      status,
+      output: completed?.output ?? null,
+      checks,
+      completedAt: completed?.completedAt ?? null,
+    };
+  });
+}
+
 // Check workflow status
 app.get("/api/workflow/:workflowId", async (c) => {
   try {
     const workflowId = c.req.param("workflowId");
-    
-    const instance = await c.env.JOB_WORKFLOW.get(workflowId);
-    const statusInfo: any = await instance.status();
-    
-    // Log full status for debugging
-    console.log(`Workflow ${workflowId} FULL status info:`, JSON.stringify(statusInfo, null, 2));
-    
-    // Check if workflow has completed and has output
-    let output = null;
-    let finalStatus = statusInfo?.status || "running";
-    
-    // Try different ways to get the output
-    if (statusInfo) {
-      // Check if output is directly in status
-      if (statusInfo.output) {
-        output = statusInfo.output;
-        finalStatus = "complete";
-      }
-      // Or if there's a result field
-      else if (statusInfo.result) {
-        output = statusInfo.result;
-        finalStatus = "complete";
-      }
-      // Or check the status indicates completion
-      else if (finalStatus === "complete" || finalStatus === "success") {
-        // Try to get output from instance
-        try {
-          const instanceOutput = await (instance as any).output();
-          if (instanceOutput) {
-            output = instanceOutput;
-          }
-        } catch (e) {
-          console.log('Could not get output from instance:', e);
-        }
-      }
+
+    const owned = await getOwnedWorkflowProgress(c.env, workflowId, c.get("userId"));
+    if (!owned.progress) {
+      return apiError(c, owned.status, owned.error);
     }
-    
+
+    const instance = await c.env.JOB_WORKFLOW.get(workflowId);
+    const statusInfo: InstanceStatus = await instance.status();
+
+    // A finished workflow reports its result as the output
+    const output = (statusInfo.output as JobApplicationResult | undefined) ?? null;
+    const finalStatus = output ? "complete" : statusInfo.status;
+
+    const steps = getWorkflowSteps(owned.progress, finalStatus);
+
     return c.json({
       workflowId,
       status: finalStatus,
       output: output,
+      steps,
     });
-  } catch (error: any) {
+  } catch (error) {
     console.error("Workflow status error:", error);
-    
+
     // Handle instance not found
-    if (error.message?.includes('not_found')) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("not_found")) {
       return c.json({
         workflowId: c.req.param("workflowId"),
         status: "not_found",
         output: null,
+        steps: [],
       });
     }
-    
-    return c.json({ 
-      error: "Failed to get workflow status",
-      message: error.message || String(error)
-    }, 500);
+
+    return apiError(c, 500, "Failed to get workflow status", { details: message });
+  }
+});
+
+// Download formats for /api/workflow/:workflowId/export
+const EXPORT_FORMATS: Record<string, { contentType: string; render: (doc: ExportDocument) => string | Uint8Array }> = {
+  md: { contentType: "text/markdown; charset=utf-8", render: renderMarkdown },
+  docx: { contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", render: renderDocx },
+  pdf: { contentType: "application/pdf", render: renderPdf },
+};
+
+// Export the generated documents (resume, cover letter, interview tips) as a file
+app.get("/api/workflow/:workflowId/export", async (c) => {
+  try {
+    const workflowId = c.req.param("workflowId");
+    const format = c.req.query("format") || "md";
+    const artifact = c.req.query("artifact");
+
+    if (!EXPORT_FORMATS[format]) {
+      return apiError(c, 400, `format must be one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`);
+    }
+    if (artifact && !(artifact in EXPORT_ARTIFACTS)) {
+      return apiError(c, 400, `artifact must be one of: ${Object.keys(EXPORT_ARTIFACTS).join(", ")}`);
+    }
+
+    const owned = await getOwnedWorkflowProgress(c.env, workflowId, c.get("userId"));
+    if (!owned.progress) {
+      return apiError(c, owned.status, owned.error);
+    }
+    const { progress } = owned;
+
+    // The final output includes results reused from earlier runs; fall back to the
+    // steps finished so far while the workflow is still running
+    let result: JobApplicationResult | null = null;
+    try {
+      const instance = await c.env.JOB_WORKFLOW.get(workflowId);
+      const statusInfo: InstanceStatus = await instance.status();
+      result = (statusInfo.output as JobApplicationResult | undefined) ?? null;
+    } catch {
+      // The instance is gone once its retention period ends; the progress still has the steps
+    }
+    if (!result) {
+      result = {};
+      for (const { name, resultKey } of WORKFLOW_STEPS) {
+        if (progress.steps[name]) Object.assign(result, { [resultKey]: progress.steps[name].output });
+      }
+    }
+
+    const artifacts = artifact ? [artifact as ExportArtifact] : Object.keys(EXPORT_ARTIFACTS) as ExportArtifact[];
+    const doc = buildExportDocument(result, artifacts, progress.metadata);
+
+    if (doc.sections.length === 0) {
+      return apiError(c, 404, "No generated documents to export");
+    }
+
+    const { contentType, render } = EXPORT_FORMATS[format];
+    const filename = [progress.metadata?.company, artifact ?? "application"]
+      .filter(Boolean)
+      .join("-")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "");
+
+    return new Response(render(doc), {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename || "application"}.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    return apiError(c, 500, "Failed to export documents");
+  }
+});
+
+// Issue a short-lived token for downloading a workflow's documents with a plain link:
+// GET /api/workflow/:workflowId/export?download=<token>&format=...
+app.post("/api/workflow/:workflowId/export/link", async (c) => {
+  try {
+    const workflowId = c.req.param("workflowId");
+
+    const owned = await getOwnedWorkflowProgress(c.env, workflowId, c.get("userId"));
+    if (!owned.progress) {
+      return apiError(c, owned.status, owned.error);
+    }
+
+    const { token, expiresAt } = await issueDownloadToken(c.env.AUTH_SECRET, c.get("userId"), `/api/workflow/${workflowId}/export`);
+    return c.json({ token, expiresAt });
+  } catch (error) {
+    console.error("Export link error:", error);
+    return apiError(c, 500, "Failed to create a download link");
+  }
+});
+
+// Forwards a request to one of the user's Durable Objects (tracker, resume library, sessions),
+// passing its status through
+async function forwardToUserStore(namespace: DurableObjectNamespace, userId: string, path: string, init?: RequestInit) {
+  const storeId = namespace.idFromName(userId);
+  const storeStub = namespace.get(storeId);
+
+  const response = await storeStub.fetch(`http://do${path}`, init);
+  return { data: await response.json(), status: response.status as 200 | 201 | 400 | 404 };
+}
+
+// List the user's tracked applications, most recently updated first
+app.get("/api/applications", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.APPLICATIONS, userId, "/applications");
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Applications error:", error);
+    return apiError(c, 500, "Failed to list applications");
+  }
+});
+
+// Track a new application
+app.post("/api/applications", validateBody(applicationRequestSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+    const application = c.get("body");
+
+    const { data, status } = await forwardToUserStore(c.env.APPLICATIONS, userId, "/applications", {
+      method: "POST",
+      body: JSON.stringify(application),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Applications error:", error);
+    return apiError(c, 500, "Failed to create application");
+  }
+});
+
+// Get a single application
+app.get("/api/applications/:id", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.APPLICATIONS, userId, `/applications/${c.req.param("id")}`);
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Applications error:", error);
+    return apiError(c, 500, "Failed to retrieve application");
+  }
+});
+
+// Update an application's status, notes or other fields
+app.patch("/api/applications/:id", validateBody(applicationUpdateSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+    const changes = c.get("body");
+
+    const { data, status } = await forwardToUserStore(c.env.APPLICATIONS, userId, `/applications/${c.req.param("id")}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Applications error:", error);
+    return apiError(c, 500, "Failed to update application");
+  }
+});
+
+// Stop tracking an application
+app.delete("/api/applications/:id", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.APPLICATIONS, userId, `/applications/${c.req.param("id")}`, {
+      method: "DELETE",
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Applications error:", error);
+    return apiError(c, 500, "Failed to delete application");
+  }
+});
+
+// List the user's resume versions (without their text)
+app.get("/api/resumes", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, "/resumes");
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Resumes error:", error);
+    return apiError(c, 500, "Failed to list resumes");
+  }
+});
+
+// Save a resume version, optionally derived from another one via parentId
+app.post("/api/resumes", validateBody(resumeRequestSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+    const resume = c.get("body");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, "/resumes", {
+      method: "POST",
+      body: JSON.stringify(resume),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Resumes error:", error);
+    return apiError(c, 500, "Failed to save resume");
+  }
+});
+
+// Get a resume version including its text
+app.get("/api/resumes/:id", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, `/resumes/${c.req.param("id")}`);
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Resumes error:", error);
+    return apiError(c, 500, "Failed to retrieve resume");
+  }
+});
+
+// Diff a resume version against the version it was derived from
+app.get("/api/resumes/:id/diff", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, `/resumes/${c.req.param("id")}/diff`);
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Resumes error:", error);
+    return apiError(c, 500, "Failed to diff resume");
+  }
+});
+
+// Rename a resume version; the text itself is immutable
+app.patch("/api/resumes/:id", validateBody(resumeRenameRequestSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+    const { name } = c.get("body");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, `/resumes/${c.req.param("id")}`, {
+      method: "PATCH",
+      body: JSON.stringify({ name }),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Resumes error:", error);
+    return apiError(c, 500, "Failed to rename resume");
+  }
+});
+
+// Delete a resume version
+app.delete("/api/resumes/:id", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, `/resumes/${c.req.param("id")}`, {
+      method: "DELETE",
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Resumes error:", error);
+    return apiError(c, 500, "Failed to delete resume");
+  }
+});
+
+// Extract the text of an uploaded DOCX, TXT, Markdown or RTF resume (multipart field
+// "file"). PDFs are read in the browser and rejected here with a message saying so, and
+// the text isn't stored until it is saved.
+app.post("/api/resume/extract", bodyLimit({
+  maxSize: REQUEST_LIMITS.upload,
+  onError: (c) => apiError(c, 413, `Files must be at most ${REQUEST_LIMITS.upload / 1024 / 1024} MB`),
+}), async (c) => {
+  try {
+    const form = await c.req.parseBody().catch(() => undefined);
+    const file = form?.file;
+    if (!(file instanceof File)) {
+      return apiError(c, 400, "Invalid request body", { details: ["file is required"] });
+    }
+
+    const format = detectResumeFormat(file.name, file.type);
+    if (!format) {
+      const labels = Object.values(RESUME_UPLOAD_FORMATS).map((f) => f.label);
+      const supported = `${labels.slice(0, -1).join(", ")} or ${labels.at(-1)}`;
+      if (isPdfUpload(file.name, file.type)) {
+        return apiError(c, 415, `PDF files can't be read by this endpoint. Extract the text before sending it, or upload a ${supported} file.`);
+      }
+      return apiError(c, 415, `Unsupported file type. Upload a ${supported} file.`);
+    }
+
+    const result = await extractResumeText(new Uint8Array(await file.arrayBuffer()), format);
+    if ("error" in result) {
+      return apiError(c, 422, result.error);
+    }
+    if (result.text.length > REQUEST_LIMITS.resumeText) {
+      return apiError(c, 422, `The extracted text is longer than ${REQUEST_LIMITS.resumeText.toLocaleString("en-US")} characters`);
+    }
+
+    return c.json({ text: result.text, format, fileName: file.name });
+  } catch (error) {
+    console.error("Resume extract error:", error);
+    return apiError(c, 500, "Failed to extract resume text");
+  }
+});
+
+// Section-by-section diff of the original and tailored resume, with word-level changes,
+// for accepting or rejecting each change before saving the result
+app.post("/api/resume/diff", validateBody(resumeDiffRequestSchema), async (c) => {
+  try {
+    const { resumeText, useProfile, tailoredResume } = c.get("body");
+
+    let original = resumeText;
+    if (useProfile) {
+      const profile = await getResumeProfile(c.env, c.get("userId"));
+      if (!profile) {
+        return apiError(c, 404, "No resume profile has been saved");
+      }
+      original = formatResumeProfile(profile);
+    }
+    if (!original) {
+      return apiError(c, 400, "Invalid request body", { details: ["resumeText or useProfile is required"] });
+    }
+
+    return c.json(diffResume(original, tailoredResume));
+  } catch (error) {
+    console.error("Resume diff error:", error);
+    return apiError(c, 500, "Failed to diff resume");
+  }
+});
+
+async function getResumeProfile(env: Env, userId: string) {
+  const { data } = await forwardToUserStore(env.RESUMES, userId, "/profile");
+  return (data as { profile: StoredResumeProfile | null }).profile;
+}
+
+// The user's structured resume profile, or null
+app.get("/api/profile", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, "/profile");
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Profile error:", error);
+    return apiError(c, 500, "Failed to retrieve profile");
+  }
+});
+
+// Save the user's edits to their profile
+app.put("/api/profile", validateBody(resumeProfileSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, "/profile", {
+      method: "PUT",
+      body: JSON.stringify(c.get("body")),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Profile error:", error);
+    return apiError(c, 500, "Failed to save profile");
+  }
+});
+
+app.delete("/api/profile", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, "/profile", { method: "DELETE" });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Profile error:", error);
+    return apiError(c, 500, "Failed to delete profile");
+  }
+});
+
+// Parse resume text, or a library version, into the user's profile, replacing the old one
+app.post("/api/profile/parse", rateLimit("chat"), validateBody(resumeParseRequestSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+    const { text, resumeId } = c.get("body");
+
+    let resumeText = text;
+    if (resumeId) {
+      const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, `/resumes/${resumeId}`);
+      if (status !== 200) {
+        return apiError(c, 404, "resumeId does not match a saved resume");
+      }
+      resumeText = (data as { resume: ResumeVersion }).resume.text;
+    }
+    if (!resumeText) {
+      return apiError(c, 400, "Invalid request body", { details: ["text or resumeId is required"] });
+    }
+
+    const profile = await parseResume(createUserLLM(c.env, userId), resumeText);
+
+    const { data, status } = await forwardToUserStore(c.env.RESUMES, userId, "/profile", {
+      method: "PUT",
+      body: JSON.stringify({ ...profile, ...(resumeId && { sourceResumeId: resumeId }) }),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Profile error:", error);
+    return apiError(c, 500, "Failed to parse resume");
+  }
+});
+
+// List the user's chat sessions, most recently active first
+app.get("/api/sessions", async (c) => {
+  try {
+    const userId = c.get("userId");
+
+    const { data, status } = await forwardToUserStore(c.env.SESSIONS, userId, "/sessions");
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Sessions error:", error);
+    return apiError(c, 500, "Failed to list sessions");
+  }
+});
+
+// Rename a chat session
+app.patch("/api/sessions/:sessionId", validateBody(sessionRenameRequestSchema), async (c) => {
+  try {
+    const userId = c.get("userId");
+    const { title } = c.get("body");
+
+    const { data, status } = await forwardToUserStore(c.env.SESSIONS, userId, `/sessions/${encodeURIComponent(c.req.param("sessionId"))}`, {
+      method: "PATCH",
+      body: JSON.stringify({ title }),
+    });
+    return c.json(data, status);
+  } catch (error) {
+    console.error("Sessions error:", error);
+    return apiError(c, 500, "Failed to rename session");
+  }
+});
+
+// Delete a chat session along with its conversation
+app.delete("/api/sessions/:sessionId", async (c) => {
+  try {
+    const userId = c.get("userId");
+    const sessionId = c.req.param("sessionId");
+
+    const conversationStub = await getOwnedConversation(c.env, sessionId, userId);
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
+
+    const { data, status } = await forwardToUserStore(c.env.SESSIONS, userId, `/sessions/${encodeURIComponent(sessionId)}`, {
+      method: "DELETE",
+    });
+    if (status !== 200) {
+      return c.json(data, status);
+    }
+
+    await conversationStub.fetch(`http://do/clear`, { method: "POST" });
+    return c.json(data);
+  } catch (error) {
+    console.error("Sessions error:", error);
+    return apiError(c, 500, "Failed to delete session");
   }
 });
 
@@ -222,20 +1324,38 @@ app.delete("/api/history/:sessionId", async (c) => {
   try {
     const sessionId = c.req.param("sessionId");
 
-    const conversationId = c.env.CONVERSATIONS.idFromName(sessionId);
-    const conversationStub = c.env.CONVERSATIONS.get(conversationId);
+    const conversationStub = await getOwnedConversation(c.env, sessionId, c.get("userId"));
+    if (!conversationStub) {
+      return apiError(c, 403, "Session belongs to another user");
+    }
 
     await conversationStub.fetch(`http://do/clear`, { method: "POST" });
+    // The next message starts the session over, with a new title
+    await forwardToUserStore(c.env.SESSIONS, c.get("userId"), `/sessions/${encodeURIComponent(sessionId)}`, {
+      method: "DELETE",
+    });
 
     return c.json({ success: true, message: "History cleared" });
   } catch (error) {
     console.error("Clear history error:", error);
-    return c.json({ error: "Failed to clear history" }, 500);
+    return apiError(c, 500, "Failed to clear history");
+  }
+});
+
+app.notFound((c) => apiError(c, 404, `No route for ${c.req.method} ${c.req.path}`));
+
+app.onError((error, c) => {
+  // A streamed body over the size limit, rethrown by validateBody; bodyLimit replaces
+  // this response with its own 413, so it isn't an unhandled error
+  if (error.name === "BodyLimitError") {
+    return apiError(c, 413, "Request body is too large");
   }
+  console.error("Unhandled error:", error);
+  return apiError(c, 500, "Internal server error");
 });
 
 // Export Durable Objects and Workflow
-export { ConversationMemory, JobApplicationWorkflow };
+export { ConversationMemory, WorkflowProgress, ApplicationTracker, ResumeLibrary, SessionIndex, RateLimiter, JobApplicationWorkflow };
 
 // Export default Worker
 export default app;
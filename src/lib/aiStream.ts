@@ -0,0 +1,61 @@
+/**
+ * Reads a Server-Sent Events body, as streamed by Workers AI and OpenAI-compatible APIs,
+ * and yields the data of each event. Stops at the `data: [DONE]` terminator.
+ */
+export async function* readEventData(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line; keep the trailing partial event buffered
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+
+      for (const event of events) {
+        const data = parseEvent(event);
+        if (data === null) return;
+        if (data) yield data;
+      }
+    }
+
+    const data = parseEvent(buffer);
+    if (data) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parses the JSON data of each event, skipping malformed ones.
+ */
+export async function* readJsonEvents<T>(stream: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  for await (const data of readEventData(stream)) {
+    try {
+      yield JSON.parse(data) as T;
+    } catch {
+      console.warn("Skipping malformed AI stream event:", data);
+    }
+  }
+}
+
+// Returns the data carried by an event, "" for events without data, or null on [DONE]
+function parseEvent(event: string): string | null {
+  const lines: string[] = [];
+
+  for (const line of event.split(/\r?\n/)) {
+    if (!line.startsWith("data:")) continue;
+
+    const data = line.slice(5).trim();
+    if (data === "[DONE]") return null;
+    if (data) lines.push(data);
+  }
+
+  return lines.join("\n");
+}
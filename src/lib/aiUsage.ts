@@ -0,0 +1,67 @@
+import { normalizeUsage } from "./llm/usage";
+import { createLLMClient, type LLMClient, type LLMStream } from "./llm";
+import type { Env } from "../types";
+
+/**
+ * Wraps a model client so every call is charged to the user's daily budget, using the
+ * usage the provider reports (or an estimate). Streams are charged when they end, and a
+ * stream stopped early is charged for what was generated up to that point.
+ */
+export function meteredLLM(client: LLMClient, env: Pick<Env, "RATE_LIMITER">, userId: string): LLMClient {
+  return {
+    async complete(request) {
+      const response = await client.complete(request);
+      await recordUsage(env, userId, response.usage.totalTokens);
+      return response;
+    },
+
+    async stream(request) {
+      const tokens = await client.stream(request);
+
+      async function* metered(): LLMStream {
+        let text = "";
+        let charged = false;
+        try {
+          let next = await tokens.next();
+          while (!next.done) {
+            text += next.value;
+            yield next.value;
+            next = await tokens.next();
+          }
+          charged = true;
+          await recordUsage(env, userId, next.value.totalTokens);
+          return next.value;
+        } finally {
+          if (!charged) {
+            // Stopped early or failed: cancel generation and charge an estimate
+            const usage = normalizeUsage(undefined, request.messages, text);
+            await tokens.return(usage);
+            await recordUsage(env, userId, usage.totalTokens);
+          }
+        }
+      }
+
+      return metered();
+    },
+  };
+}
+
+// Best-effort: a failure to record usage never fails the model call
+async function recordUsage(env: Pick<Env, "RATE_LIMITER">, userId: string, tokens: number) {
+  try {
+    const limiterStub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(`user:${userId}`));
+    await limiterStub.fetch(`http://do/usage`, {
+      method: "POST",
+      body: JSON.stringify({ tokens }),
+    });
+  } catch (error) {
+    console.error("Failed to record AI usage:", error);
+  }
+}
+
+/**
+ * The client routes and workflow steps use: the configured provider, metered for the user.
+ */
+export function createUserLLM(env: Env, userId: string): LLMClient {
+  return meteredLLM(createLLMClient(env), env, userId);
+}
@@ -0,0 +1,242 @@
+import { formatJobAnalysis, type JobAnalysis } from "./jobAnalysis";
+import { LANGUAGE_NAMES, type Language } from "./language";
+import type { LLMClient } from "./llm";
+
+// What the writing steps know about the application; shared by the workflow and chat commands
+export interface ApplicationDocumentInput {
+  jobTitle: string;
+  company: string;
+  jobDescription: string;
+  resumeText: string;
+  analysis?: JobAnalysis;
+  // Extra instructions from the candidate, e.g. when regenerating a cover letter
+  instructions?: string;
+  // Language to write in; left to the model when unset
+  language?: Language;
+}
+
+/**
+ * Rewrites the resume to lead with what the job asks for.
+ */
+export async function tailorResume(llm: LLMClient, input: ApplicationDocumentInput): Promise<string> {
+  const { jobTitle, company, resumeText, analysis, instructions, language } = input;
+
+  const prompt = `Given this resume:
+
+${resumeText}
+
+And this job analysis:
+${analysis ? formatJobAnalysis(analysis) : ""}
+
+Create a tailored version of the resume that emphasizes relevant skills and experience for the ${jobTitle} position at ${company}. Lead with experience that matches the required skills and responsibilities, then the nice-to-have skills. Maintain professional formatting.${formatLanguage(language)}${formatInstructions(instructions)}`;
+
+  const { text } = await llm.complete({
+    task: "writing",
+    messages: [{ role: "user", content: prompt }],
+    maxTokens: 2048,
+  });
+
+  return text;
+}
+
+export const COVER_LETTER_TONES = ["formal", "conversational", "enthusiastic"] as const;
+
+export type CoverLetterTone = (typeof COVER_LETTER_TONES)[number];
+
+// Roughly what fits on one page at a normal font size
+export const ONE_PAGE_WORDS = 400;
+
+// How far the word count may stray from the target before the letter is revised
+const WORD_TARGET_TOLERANCE = 0.15;
+
+const TONE_GUIDANCE: Record<CoverLetterTone, string> = {
+  formal: "Use a formal, polished business tone.",
+  conversational: "Use a warm, conversational tone, as if writing to a future colleague, while staying professional.",
+  enthusiastic: "Use an energetic, enthusiastic tone that shows real excitement about the role without overselling.",
+};
+
+// How the candidate wants their cover letter written; every field is optional
+export interface CoverLetterPreferences {
+  tone?: CoverLetterTone;
+  // Approximate length in words
+  wordTarget?: number;
+  // Keep the letter to a single page (about ONE_PAGE_WORDS words)
+  onePage?: boolean;
+  // Achievements the letter must feature, in the candidate's words
+  highlights?: string[];
+  // Addressed to this person instead of the hiring team
+  hiringManager?: string;
+}
+
+// Checks run on the finished letter
+export interface CoverLetterReview {
+  wordCount: number;
+  // Accepted length, when a word target or one page was asked for
+  wordRange?: { min: number; max: number };
+  // Template text the model left in, e.g. "[Company Name]"
+  placeholders: string[];
+  // What still needs fixing by hand; empty when the letter passed every check
+  issues: string[];
+}
+
+export interface CoverLetter {
+  text: string;
+  review: CoverLetterReview;
+}
+
+/**
+ * Writes the cover letter following the candidate's preferences, then checks its length,
+ * placeholders and greeting. A letter that fails a check is sent back for one revision.
+ */
+export async function writeCoverLetter(
+  llm: LLMClient,
+  input: ApplicationDocumentInput & { preferences?: CoverLetterPreferences }
+): Promise<CoverLetter> {
+  const { jobTitle, company, resumeText, analysis, instructions, language, preferences = {} } = input;
+
+  const prompt = `Write a compelling cover letter for the ${jobTitle} position at ${company}.
+
+Job Requirements:
+${analysis ? formatJobAnalysis(analysis) : ""}
+
+Candidate Background:
+${resumeText}
+
+Create a professional, personalized cover letter pitched at the role's seniority. Highlight experience that matches the required skills and key responsibilities, reflect the culture signals where the candidate genuinely fits them, and express genuine interest in the role.
+
+${formatCoverLetterPreferences(preferences)}${formatLanguage(language)}${formatInstructions(instructions)}`;
+
+  const { text } = await llm.complete({
+    task: "writing",
+    messages: [{ role: "user", content: prompt }],
+    maxTokens: 2048,
+  });
+
+  const review = reviewCoverLetter(text, preferences);
+  if (review.issues.length === 0) {
+    return { text, review };
+  }
+
+  const revisionPrompt = `Revise this cover letter to fix the problems listed below. Keep everything else as it is, including its language, and reply with only the revised letter.
+
+Cover letter:
+${text}
+
+Problems:
+${review.issues.map((issue) => `- ${issue}`).join("\n")}`;
+
+  const { text: revised } = await llm.complete({
+    task: "writing",
+    messages: [{ role: "user", content: revisionPrompt }],
+    maxTokens: 2048,
+  });
+
+  // A revision that made things worse is dropped
+  const revisedReview = reviewCoverLetter(revised, preferences);
+  return revisedReview.issues.length <= review.issues.length
+    ? { text: revised, review: revisedReview }
+    : { text, review };
+}
+
+// Square, curly and angle brackets around a short phrase ("[Company Name]", "{{date}}",
+// "<Hiring Manager>") and XXX/TBD stand-ins. Markdown links are left alone.
+const PLACEHOLDER_PATTERN = /\[[^\[\]\n]{1,60}\](?!\()|\{\{?[^{}\n]{1,60}\}?\}|<[A-Za-z][^<>\n]{0,59}>|\b(?:X{2,}|TBD)\b/g;
+
+/**
+ * Checks a cover letter against the candidate's preferences: its length, template text
+ * left in by the model and, when a hiring manager was named, whether it is addressed to them.
+ */
+export function reviewCoverLetter(text: string, preferences: CoverLetterPreferences = {}): CoverLetterReview {
+  const wordCount = text.match(/\S+/g)?.length ?? 0;
+  const wordRange = coverLetterWordRange(preferences);
+  const placeholders = [...new Set(text.match(PLACEHOLDER_PATTERN) ?? [])];
+  const issues: string[] = [];
+
+  if (wordRange && wordCount > wordRange.max) {
+    issues.push(preferences.wordTarget
+      ? `It is ${wordCount} words long; it should be ${wordRange.min}-${wordRange.max} words.`
+      : `It is ${wordCount} words long; it must fit on one page (at most ${wordRange.max} words).`);
+  } else if (wordRange && wordCount < wordRange.min) {
+    issues.push(`It is only ${wordCount} words long; it should be ${wordRange.min}-${wordRange.max} words.`);
+  }
+
+  if (placeholders.length > 0) {
+    issues.push(`It contains placeholder text: ${placeholders.join(", ")}.`);
+  }
+
+  // Matching the surname allows for "Dear Ms. Smith" when the name was "Jane Smith"
+  const surname = preferences.hiringManager?.trim().split(/\s+/).pop();
+  if (surname && !text.toLowerCase().includes(surname.toLowerCase())) {
+    issues.push(`It is not addressed to ${preferences.hiringManager!.trim()}.`);
+  }
+
+  return { wordCount, ...(wordRange && { wordRange }), placeholders, issues };
+}
+
+// A word target allows some leeway either way; one page only sets a maximum
+function coverLetterWordRange({ wordTarget, onePage }: CoverLetterPreferences): CoverLetterReview["wordRange"] {
+  const pageLimit = onePage ? ONE_PAGE_WORDS : Infinity;
+  if (wordTarget) {
+    const target = Math.min(wordTarget, pageLimit);
+    return {
+      min: Math.round(target * (1 - WORD_TARGET_TOLERANCE)),
+      max: Math.min(Math.round(target * (1 + WORD_TARGET_TOLERANCE)), pageLimit),
+    };
+  }
+  return onePage ? { min: 0, max: ONE_PAGE_WORDS } : undefined;
+}
+
+function formatCoverLetterPreferences(preferences: CoverLetterPreferences): string {
+  const { tone, wordTarget, highlights, hiringManager } = preferences;
+  const wordRange = coverLetterWordRange(preferences);
+  const lines: string[] = [];
+
+  if (tone) lines.push(TONE_GUIDANCE[tone]);
+  if (wordRange && wordTarget) {
+    lines.push(`Write about ${Math.min(wordTarget, wordRange.max)} words (between ${wordRange.min} and ${wordRange.max}).`);
+  } else if (wordRange) {
+    lines.push(`Keep it to one page: no more than ${wordRange.max} words.`);
+  }
+  if (highlights?.length) {
+    lines.push(`Feature these achievements from the candidate:\n${highlights.map((highlight) => `- ${highlight}`).join("\n")}`);
+  }
+  lines.push(hiringManager?.trim()
+    ? `Address the letter to ${hiringManager.trim()}.`
+    : "Address the letter to the hiring team.");
+  lines.push("Use the real company name and job title, and sign off with the candidate's name from their background. Never leave placeholders such as [Company Name] or [Your Name]; leave out details you don't know. Reply with only the letter.");
+
+  return lines.join("\n");
+}
+
+// Needs only the job; the resume isn't part of the prompt
+export async function writeInterviewTips(
+  llm: LLMClient,
+  input: Omit<ApplicationDocumentInput, "resumeText">
+): Promise<string> {
+  const { jobTitle, company, jobDescription, analysis, instructions, language } = input;
+
+  const prompt = `Based on this job for ${jobTitle} at ${company}:
+
+${jobDescription}
+${analysis ? `\nJob analysis:\n${formatJobAnalysis(analysis)}\n` : ""}
+Provide 5-7 targeted interview preparation tips, including likely questions and strong answer frameworks.${formatLanguage(language)}${formatInstructions(instructions)}`;
+
+  const { text } = await llm.complete({
+    task: "writing",
+    messages: [{ role: "user", content: prompt }],
+    maxTokens: 1536,
+  });
+
+  return text;
+}
+
+// The prompts are in English, so the language has to be asked for explicitly
+function formatLanguage(language?: Language): string {
+  return language
+    ? `\n\nWrite it in ${LANGUAGE_NAMES[language]}, even where the resume or job description is in another language. Keep names of employers, schools, products and technologies as they are.`
+    : "";
+}
+
+function formatInstructions(instructions?: string): string {
+  return instructions?.trim() ? `\n\nAdditional instructions from the candidate:\n${instructions.trim()}` : "";
+}
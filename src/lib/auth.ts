@@ -0,0 +1,105 @@
+import { createMiddleware } from "hono/factory";
+import { sign, verify } from "hono/jwt";
+import { apiError } from "./errors";
+import type { Env } from "../types";
+
+export const TOKEN_ISSUER = "ai-job-assistant";
+
+// Tokens are refreshed by the frontend on every visit, so this only limits idle time
+export const TOKEN_TTL_SECONDS = 60 * 60 * 24 * 90;
+
+// Download links are used right after they are issued
+export const DOWNLOAD_TOKEN_TTL_SECONDS = 5 * 60;
+
+const DOWNLOAD_AUDIENCE = "download";
+
+export interface AuthVariables {
+  // The authenticated user, taken from the token's `sub` claim
+  userId: string;
+}
+
+/**
+ * Signs an HS256 JWT for the user with AUTH_SECRET.
+ */
+export async function issueToken(secret: string, userId: string): Promise<{ token: string; expiresAt: number }> {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + TOKEN_TTL_SECONDS;
+
+  const token = await sign({ sub: userId, iss: TOKEN_ISSUER, iat: now, exp }, secret, "HS256");
+  return { token, expiresAt: exp * 1000 };
+}
+
+/**
+ * Verifies the signature, issuer and expiry of a token and returns its user ID. Throws
+ * if the token is invalid.
+ */
+export async function verifyToken(secret: string, token: string): Promise<string> {
+  const payload = await verify(token, secret, { alg: "HS256", iss: TOKEN_ISSUER });
+
+  if (payload.aud !== undefined) {
+    throw new Error("Not a session token");
+  }
+  if (typeof payload.sub !== "string" || !payload.sub) {
+    throw new Error("Token has no subject");
+  }
+  return payload.sub;
+}
+
+/**
+ * Signs a short-lived token that lets a plain link, which can't send the Authorization
+ * header, GET one path as the user. Session tokens stay out of URLs, where they would
+ * end up in browser history and server logs.
+ */
+export async function issueDownloadToken(secret: string, userId: string, path: string): Promise<{ token: string; expiresAt: number }> {
+  const now = Math.floor(Date.now() / 1000);
+  const exp = now + DOWNLOAD_TOKEN_TTL_SECONDS;
+
+  const token = await sign({ sub: userId, iss: TOKEN_ISSUER, aud: DOWNLOAD_AUDIENCE, path, iat: now, exp }, secret, "HS256");
+  return { token, expiresAt: exp * 1000 };
+}
+
+/**
+ * Verifies a download token for the requested path and returns its user ID. Throws if the
+ * token is invalid, expired or was issued for another path.
+ */
+export async function verifyDownloadToken(secret: string, token: string, path: string): Promise<string> {
+  const payload = await verify(token, secret, { alg: "HS256", iss: TOKEN_ISSUER, aud: DOWNLOAD_AUDIENCE });
+
+  if (payload.path !== path) {
+    throw new Error("Token is for another path");
+  }
+  if (typeof payload.sub !== "string" || !payload.sub) {
+    throw new Error("Token has no subject");
+  }
+  return payload.sub;
+}
+
+/**
+ * Requires a valid token and exposes its user as `c.get("userId")`. The token is read
+ * from the `Authorization: Bearer` header, or for plain links such as document downloads,
+ * a download token for the requested path from the `download` query parameter.
+ */
+export const requireAuth = createMiddleware<{ Bindings: Env; Variables: AuthVariables }>(async (c, next) => {
+  if (!c.env.AUTH_SECRET) {
+    console.error("AUTH_SECRET is not set");
+    return apiError(c, 500, "Authentication is not configured");
+  }
+
+  const header = c.req.header("Authorization");
+  const token = header?.startsWith("Bearer ") ? header.slice("Bearer ".length) : undefined;
+  const downloadToken = c.req.method === "GET" ? c.req.query("download") : undefined;
+
+  if (!token && !downloadToken) {
+    return apiError(c, 401, "Authentication required");
+  }
+
+  try {
+    c.set("userId", token
+      ? await verifyToken(c.env.AUTH_SECRET, token)
+      : await verifyDownloadToken(c.env.AUTH_SECRET, downloadToken!, c.req.path));
+  } catch (error) {
+    return apiError(c, 401, "Invalid or expired token");
+  }
+
+  await next();
+});
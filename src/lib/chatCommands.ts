@@ -0,0 +1,178 @@
+import { analyzeJob, formatJobAnalysis, type JobAnalysis } from "./jobAnalysis";
+import { tailorResume, writeCoverLetter, writeInterviewTips } from "./applicationDocuments";
+import { resolveLanguage, type LanguageSetting } from "./language";
+import type { LLMClient } from "./llm";
+import type { JobContext } from "../types";
+
+// Listed by /help and offered as completions in the chat input
+export const CHAT_COMMANDS = [
+  { name: "analyze", usage: "/analyze [instructions]", description: "Analyze the job description" },
+  { name: "tailor", usage: "/tailor [instructions]", description: "Tailor your resume to the job" },
+  { name: "cover", usage: "/cover [instructions]", description: "Write a cover letter for the job" },
+  { name: "tips", usage: "/tips [instructions]", description: "Interview preparation tips for the job" },
+  { name: "context", usage: "/context [set <field> <value>]", description: "Show the job context, or set its title, company, description or resume" },
+  { name: "reset", usage: "/reset", description: "Clear the conversation" },
+  { name: "help", usage: "/help", description: "List the commands" },
+] as const;
+
+export type ChatCommandName = typeof CHAT_COMMANDS[number]["name"];
+
+// Commands that analyze the job and then write a document: as costly as a workflow run
+export const DOCUMENT_COMMANDS: readonly ChatCommandName[] = ["tailor", "cover"];
+
+// Names accepted by /context set, for each job context field
+const CONTEXT_FIELDS: Record<string, keyof JobContext> = {
+  title: "jobTitle",
+  jobtitle: "jobTitle",
+  company: "company",
+  description: "jobDescription",
+  jobdescription: "jobDescription",
+  resume: "resumeText",
+  resumetext: "resumeText",
+};
+
+const CONTEXT_LABELS: Record<keyof JobContext, string> = {
+  jobTitle: "Job title",
+  company: "Company",
+  jobDescription: "Job description",
+  resumeText: "Resume",
+};
+
+export type ChatCommand =
+  | { name: "analyze" | "tailor" | "cover" | "tips"; instructions?: string }
+  | { name: "context"; set?: { field: keyof JobContext; value: string } }
+  | { name: "reset" }
+  | { name: "help" };
+
+// Structured results shown alongside a command's reply
+export type MessageAttachment =
+  | { type: "analysis"; analysis: JobAnalysis }
+  | { type: "document"; deliverable: "tailoredResume" | "coverLetter" | "interviewTips"; title: string }
+  | { type: "context"; jobContext: JobContext };
+
+export interface ChatCommandResult {
+  content: string;
+  attachment?: MessageAttachment;
+  // Fields to merge into the session's job context
+  jobContext?: JobContext;
+}
+
+/**
+ * Recognizes a slash command at the start of a chat message. Returns null for ordinary
+ * messages (including ones that merely start with a path such as "/usr/bin"), or an error
+ * for unknown commands and bad arguments.
+ */
+export function parseChatCommand(input: string): { command: ChatCommand } | { error: string } | null {
+  const match = input.trim().match(/^\/([a-z]+)(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+
+  const name = match[1].toLowerCase();
+  const args = match[2]?.trim() ?? "";
+
+  switch (name) {
+    case "analyze":
+    case "tailor":
+    case "cover":
+    case "tips":
+      return { command: { name, ...(args && { instructions: args }) } };
+    case "reset":
+    case "help":
+      return args ? { error: `/${name} takes no arguments` } : { command: { name } };
+    case "context": {
+      if (!args) return { command: { name } };
+
+      const set = args.match(/^set\s+(\S+)(?:\s+([\s\S]*))?$/i);
+      if (!set) return { error: "Usage: /context set <field> <value>" };
+
+      const field = CONTEXT_FIELDS[set[1].toLowerCase()];
+      if (!field) return { error: "Field must be one of: title, company, description, resume" };
+
+      // An empty value clears the field
+      return { command: { name, set: { field, value: set[2]?.trim() ?? "" } } };
+    }
+    default:
+      return { error: `Unknown command /${name}. Type /help to see the commands.` };
+  }
+}
+
+export function formatCommandHelp(): string {
+  return ["Commands:", ...CHAT_COMMANDS.map((c) => `${c.usage} - ${c.description}`)].join("\n");
+}
+
+function formatJobContext(jobContext: JobContext): string {
+  const lines = (Object.keys(CONTEXT_LABELS) as (keyof JobContext)[])
+    .filter((field) => jobContext[field]?.trim())
+    .map((field) => {
+      const value = jobContext[field]!.trim();
+      const isLong = field === "jobDescription" || field === "resumeText";
+      return `${CONTEXT_LABELS[field]}: ${isLong ? `${value.length.toLocaleString("en-US")} characters` : value}`;
+    });
+
+  return lines.length > 0 ? lines.join("\n") : "No job context is set yet. Use /context set <field> <value>.";
+}
+
+/**
+ * Runs a command against the session's job context. Missing context is answered with a
+ * hint about what to set rather than an error, since the reply is shown in the chat.
+ * Documents are written in the session's language. /reset is handled by the caller,
+ * which owns the conversation.
+ */
+export async function runChatCommand(
+  llm: LLMClient,
+  command: Exclude<ChatCommand, { name: "reset" }>,
+  jobContext: JobContext = {},
+  languageSetting: LanguageSetting = "auto"
+): Promise<ChatCommandResult> {
+  if (command.name === "help") {
+    return { content: formatCommandHelp() };
+  }
+
+  if (command.name === "context") {
+    if (!command.set) {
+      return { content: formatJobContext(jobContext), attachment: { type: "context", jobContext } };
+    }
+
+    const { field, value } = command.set;
+    const updated = { ...jobContext, [field]: value };
+    return {
+      content: `${CONTEXT_LABELS[field]} ${value ? "updated" : "cleared"}.\n\n${formatJobContext(updated)}`,
+      attachment: { type: "context", jobContext: updated },
+      jobContext: { [field]: value },
+    };
+  }
+
+  const jobDescription = jobContext.jobDescription?.trim();
+  const resumeText = jobContext.resumeText?.trim();
+  if (!jobDescription) {
+    return { content: "Add the job description first: /context set description <the job posting>" };
+  }
+  if ((command.name === "tailor" || command.name === "cover") && !resumeText) {
+    return { content: "Add your resume first: /context set resume <your resume>" };
+  }
+
+  const jobTitle = jobContext.jobTitle?.trim() || "this role";
+  const company = jobContext.company?.trim() || "the company";
+  const language = resolveLanguage(languageSetting, jobDescription);
+
+  if (command.name === "analyze") {
+    const analysis = await analyzeJob(llm, { jobTitle, company, jobDescription, instructions: command.instructions });
+    return { content: formatJobAnalysis(analysis), attachment: { type: "analysis", analysis } };
+  }
+
+  if (command.name === "tips") {
+    const text = await writeInterviewTips(llm, { jobTitle, company, jobDescription, instructions: command.instructions, language });
+    return { content: text, attachment: { type: "document", deliverable: "interviewTips", title: "Interview tips" } };
+  }
+
+  // The resume and cover letter are written from the analysis, as in the workflow
+  const analysis = await analyzeJob(llm, { jobTitle, company, jobDescription });
+  const input = { jobTitle, company, jobDescription, resumeText: resumeText!, analysis, instructions: command.instructions, language };
+
+  if (command.name === "tailor") {
+    const text = await tailorResume(llm, input);
+    return { content: text, attachment: { type: "document", deliverable: "tailoredResume", title: "Tailored resume" } };
+  }
+
+  const { text } = await writeCoverLetter(llm, input);
+  return { content: text, attachment: { type: "document", deliverable: "coverLetter", title: "Cover letter" } };
+}
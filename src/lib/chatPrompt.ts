@@ -0,0 +1,62 @@
+import { LANGUAGE_NAMES, resolveLanguage, type LanguageSetting } from "./language";
+import type { JobContext } from "../types";
+
+export const SYSTEM_PROMPT = "You are a helpful AI job application assistant. Help users with resume tailoring, cover letter writing, interview preparation, and job search advice.";
+
+// Character budgets for context injected into every chat turn. Llama 3.3 fp8-fast has a
+// 24k token window; these keep the job context well under half of it.
+const MAX_RESUME_CHARS = 6000;
+const MAX_JOB_DESCRIPTION_CHARS = 5000;
+
+/**
+ * Shortens text to at most `maxChars`, cutting at the last line break (or space) before the
+ * limit so the model never sees half a sentence, and marks the cut explicitly.
+ */
+export function truncateText(text: string, maxChars: number): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+
+  const slice = trimmed.slice(0, maxChars);
+  const lineBreak = slice.lastIndexOf("\n");
+  const space = slice.lastIndexOf(" ");
+  // Only back off to a boundary if it doesn't throw away more than 20% of the budget
+  const boundary = lineBreak > maxChars * 0.8 ? lineBreak : space > maxChars * 0.8 ? space : maxChars;
+
+  return `${slice.slice(0, boundary).trimEnd()}\n[... truncated ${trimmed.length - boundary} characters]`;
+}
+
+/**
+ * Builds the chat system prompt, appending whatever job context has been stored for the
+ * session so the user can ask about "this role" or "my resume" without pasting them again.
+ * The session's language setting ("auto" follows the job description) decides the
+ * language of the replies.
+ */
+export function buildSystemPrompt(jobContext?: JobContext, languageSetting: LanguageSetting = "auto"): string {
+  const language = resolveLanguage(languageSetting, jobContext?.jobDescription);
+  const basePrompt = language
+    ? `${SYSTEM_PROMPT} Reply in ${LANGUAGE_NAMES[language]} unless the user asks for another language.`
+    : SYSTEM_PROMPT;
+
+  if (!jobContext) return basePrompt;
+
+  const { jobTitle, company, jobDescription, resumeText } = jobContext;
+  const sections: string[] = [];
+
+  if (jobTitle || company) {
+    sections.push(`Target role: ${[jobTitle, company].filter(Boolean).join(" at ")}`);
+  }
+  if (jobDescription?.trim()) {
+    sections.push(`Job description:\n${truncateText(jobDescription, MAX_JOB_DESCRIPTION_CHARS)}`);
+  }
+  if (resumeText?.trim()) {
+    sections.push(`Candidate's resume:\n${truncateText(resumeText, MAX_RESUME_CHARS)}`);
+  }
+
+  if (sections.length === 0) return basePrompt;
+
+  return `${basePrompt}
+
+The user is working on the following application. Use it to ground your answers, refer to it directly when relevant, and do not ask the user to paste it again.
+
+${sections.join("\n\n")}`;
+}
@@ -0,0 +1,105 @@
+import type { LLMClient } from "./llm";
+import type { ChatMessage } from "../types";
+
+export interface SummaryBudget {
+  // Unsummarized transcript size (in estimated tokens) that triggers summarization
+  maxTranscriptTokens: number;
+  // How much of the most recent transcript is kept verbatim after summarizing
+  recentTokens: number;
+  // Never fold the last few messages into the summary, however long they are
+  minRecentMessages: number;
+}
+
+export const DEFAULT_SUMMARY_BUDGET: SummaryBudget = {
+  maxTranscriptTokens: 3000,
+  recentTokens: 1500,
+  minRecentMessages: 4,
+};
+
+const SUMMARY_INSTRUCTIONS = `You maintain the running summary of a conversation between a job seeker and an AI job application assistant.
+Merge the existing summary (if any) with the new conversation turns into a single updated summary.
+Keep facts the assistant will need later: the roles and companies discussed, the user's background, skills and preferences, drafts or decisions already made, and open questions.
+Write concise bullet points, no more than 250 words, and do not invent anything that was not said.`;
+
+/**
+ * Rough token estimate (~4 characters per token for English text). Good enough for
+ * budgeting prompt size without shipping a tokenizer to the Worker.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Decides whether the messages after `coveredUntil` have outgrown the budget. Returns the
+ * index up to which (exclusive) messages should be folded into the summary, or null when
+ * the transcript still fits. System messages are ignored: the prompt supplies its own.
+ */
+export function planSummary(
+  messages: ChatMessage[],
+  coveredUntil: number,
+  budget: SummaryBudget = DEFAULT_SUMMARY_BUDGET
+): number | null {
+  const candidates: number[] = [];
+  let totalTokens = 0;
+
+  for (let i = coveredUntil; i < messages.length; i++) {
+    if (messages[i].role === "system") continue;
+    candidates.push(i);
+    totalTokens += estimateTokens(messages[i].content);
+  }
+
+  if (totalTokens <= budget.maxTranscriptTokens) return null;
+
+  // Walk back from the newest message, keeping turns verbatim while they fit the recent budget
+  let keptTokens = 0;
+  let keptCount = 0;
+  let splitAt = messages.length;
+
+  for (let j = candidates.length - 1; j >= 0; j--) {
+    const tokens = estimateTokens(messages[candidates[j]].content);
+    if (keptCount >= budget.minRecentMessages && keptTokens + tokens > budget.recentTokens) break;
+    keptTokens += tokens;
+    keptCount++;
+    splitAt = candidates[j];
+  }
+
+  return splitAt > coveredUntil && keptCount < candidates.length ? splitAt : null;
+}
+
+/**
+ * Asks the model to fold `messages` into `previousSummary` and returns the new summary.
+ */
+export async function summarizeTurns(
+  llm: LLMClient,
+  previousSummary: string | undefined,
+  messages: ChatMessage[]
+): Promise<string> {
+  const transcript = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n\n");
+
+  const prompt = `Existing summary:
+${previousSummary || "(none)"}
+
+New conversation turns:
+${transcript}
+
+Updated summary:`;
+
+  const { text: summary } = await llm.complete({
+    task: "analysis",
+    messages: [
+      { role: "system", content: SUMMARY_INSTRUCTIONS },
+      { role: "user", content: prompt },
+    ],
+    maxTokens: 512,
+    temperature: 0.2,
+  });
+
+  if (!summary.trim()) {
+    throw new Error("Model returned an empty summary");
+  }
+
+  return summary.trim();
+}
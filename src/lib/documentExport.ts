@@ -0,0 +1,193 @@
+import type { JobApplicationResult } from "../workflows/JobApplicationWorkflow";
+
+export type DocBlock =
+  | { type: "heading"; text: string; level: 1 | 2 }
+  | { type: "paragraph"; text: string }
+  | { type: "bullet"; text: string };
+
+export interface ContactHeader {
+  name: string;
+  // Email, phone, location, profile links, ...
+  details: string[];
+}
+
+export interface ExportSection {
+  title: string;
+  // Shown instead of the title on resumes and cover letters
+  contact?: ContactHeader;
+  blocks: DocBlock[];
+}
+
+// Each section starts on a new page in paginated formats
+export interface ExportDocument {
+  title: string;
+  sections: ExportSection[];
+}
+
+// Text deliverables that can be exported, with their document titles
+export const EXPORT_ARTIFACTS = {
+  tailoredResume: "Tailored Resume",
+  coverLetter: "Cover Letter",
+  interviewTips: "Interview Preparation",
+} as const;
+
+export type ExportArtifact = keyof typeof EXPORT_ARTIFACTS;
+
+// Documents that go out under the candidate's name get the contact header
+const CONTACT_ARTIFACTS: ExportArtifact[] = ["tailoredResume", "coverLetter"];
+
+const CONTACT_PATTERN = /@|https?:\/\/|www\.|linkedin|github|\+?\d[\d\s().-]{7,}\d/i;
+
+// How far into the resume to look for the contact block
+const CONTACT_SCAN_LINES = 8;
+
+/**
+ * Pulls the candidate's name and contact details from the top of a resume: the first
+ * line is taken as the name, and nearby lines with an email, phone number or link as
+ * details. Lines like "jane@x.com | 555-0100" are split into separate details.
+ */
+export function extractContactHeader(resumeText: string): ContactHeader | undefined {
+  const lines = resumeText
+    .split(/\r?\n/)
+    .map((line) => stripInline(line.replace(/^#+\s*/, "")).trim())
+    .filter(Boolean)
+    .slice(0, CONTACT_SCAN_LINES);
+
+  const name = lines[0];
+  if (!name || name.length > 60 || CONTACT_PATTERN.test(name)) return undefined;
+
+  const details = lines
+    .slice(1)
+    .filter((line) => CONTACT_PATTERN.test(line))
+    .flatMap((line) => line.split(/\s*[|•·]\s*/))
+    .map((detail) => detail.trim())
+    .filter(Boolean);
+
+  return { name, details };
+}
+
+/**
+ * Builds one section per requested artifact that the result contains, in the order given.
+ */
+export function buildExportDocument(
+  result: JobApplicationResult,
+  artifacts: ExportArtifact[],
+  details: { jobTitle?: string; company?: string; contact?: ContactHeader } = {}
+): ExportDocument {
+  const role = [details.jobTitle, details.company].filter(Boolean).join(" at ");
+
+  const sections = artifacts
+    .filter((artifact) => typeof result[artifact] === "string" && result[artifact]!.trim())
+    .map((artifact) => {
+      const contact = CONTACT_ARTIFACTS.includes(artifact) ? details.contact : undefined;
+      return {
+        title: EXPORT_ARTIFACTS[artifact],
+        contact,
+        blocks: parseArtifact(result[artifact]!, contact),
+      };
+    });
+
+  const title = sections.length === 1 ? sections[0].title : "Application Documents";
+  return { title: role ? `${title} - ${role}` : title, sections };
+}
+
+/**
+ * Converts generated text into blocks. Model output is loosely Markdown: `#` headings,
+ * bold or ALL CAPS lines used as headings, and `-`, `*` or `•` bullets. Each remaining
+ * line becomes its own paragraph, since resume lines ("Acme Corp — 2019-2023") must not
+ * be merged. When a contact header is given, a copy of it at the top is dropped.
+ */
+export function parseArtifact(text: string, contact?: ContactHeader): DocBlock[] {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+
+  if (contact) {
+    let index = 0;
+    while (index < lines.length && index < CONTACT_SCAN_LINES) {
+      const line = stripInline(lines[index].replace(/^#+\s*/, ""));
+      const isContactLine = !line
+        || line.toLowerCase() === contact.name.toLowerCase()
+        || CONTACT_PATTERN.test(line);
+      if (!isContactLine) break;
+      index++;
+    }
+    lines.splice(0, index);
+  }
+
+  const blocks: DocBlock[] = [];
+
+  for (const line of lines) {
+    if (!line || /^([-*_])\1{2,}$/.test(line)) continue;
+
+    const markdownHeading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (markdownHeading) {
+      blocks.push({ type: "heading", text: stripInline(markdownHeading[2]), level: markdownHeading[1].length <= 2 ? 1 : 2 });
+      continue;
+    }
+
+    const bullet = line.match(/^[-*•●▪]\s+(.*)$/);
+    if (bullet) {
+      blocks.push({ type: "bullet", text: stripInline(bullet[1]) });
+      continue;
+    }
+
+    if (/^\*\*[^*]+\*\*:?$/.test(line)) {
+      blocks.push({ type: "heading", text: stripInline(line).replace(/:$/, ""), level: 2 });
+      continue;
+    }
+
+    const plain = stripInline(line);
+    if (isCapsHeading(plain)) {
+      blocks.push({ type: "heading", text: plain.replace(/:$/, ""), level: 1 });
+      continue;
+    }
+
+    blocks.push({ type: "paragraph", text: plain });
+  }
+
+  return blocks;
+}
+
+/**
+ * Renders the document as clean Markdown: the contact header (or section title) as the
+ * top heading, section headings one level below, sections separated by rules.
+ */
+export function renderMarkdown(doc: ExportDocument): string {
+  return doc.sections
+    .map((section) => {
+      const header = section.contact
+        ? [`# ${section.contact.name}`, ...(section.contact.details.length > 0 ? [section.contact.details.join(" | ")] : [])]
+        : [`# ${section.title}`];
+
+      const body = section.blocks.map((block) => {
+        switch (block.type) {
+          case "heading":
+            return `\n${block.level === 1 ? "##" : "###"} ${block.text}\n`;
+          case "bullet":
+            return `- ${block.text}`;
+          case "paragraph":
+            return `\n${block.text}\n`;
+        }
+      });
+
+      // Collapse the blank lines the blocks add around themselves
+      return [...header, "", ...body].join("\n").replace(/\n{3,}/g, "\n\n").trim();
+    })
+    .join("\n\n---\n\n") + "\n";
+}
+
+// Removes Markdown emphasis and code markers, keeping the text
+function stripInline(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/__(.+?)__/g, "$1")
+    .replace(/(^|\W)\*(\S(?:.*?\S)?)\*(?=\W|$)/g, "$1$2")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+// Short all-caps lines such as "EXPERIENCE" or "TECHNICAL SKILLS:"
+function isCapsHeading(text: string): boolean {
+  return /[A-Z]{2}/.test(text)
+    && text === text.toUpperCase()
+    && text.split(/\s+/).length <= 5
+    && !CONTACT_PATTERN.test(text);
+}
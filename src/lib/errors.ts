@@ -0,0 +1,73 @@
+import type { Context } from "hono";
+
+// Machine-readable code for each status the API returns errors with
+export const ERROR_CODES = {
+  400: "invalid_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  405: "method_not_allowed",
+  409: "conflict",
+  413: "payload_too_large",
+  415: "unsupported_media_type",
+  422: "unprocessable_content",
+  429: "rate_limited",
+  500: "internal_error",
+  502: "bad_gateway",
+} as const;
+
+export type ErrorStatus = keyof typeof ERROR_CODES;
+
+export type ErrorCode = typeof ERROR_CODES[ErrorStatus] | "budget_exceeded";
+
+/**
+ * The body of every 4xx/5xx response from the API and the Durable Objects behind it.
+ * `details` carries structured context such as the list of validation problems.
+ */
+export interface ErrorEnvelope {
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: unknown;
+  };
+}
+
+export interface ErrorOptions {
+  // Overrides the status's default code
+  code?: ErrorCode;
+  details?: unknown;
+}
+
+export function errorBody(status: ErrorStatus, message: string, { code, details }: ErrorOptions = {}): ErrorEnvelope {
+  return {
+    error: {
+      code: code ?? ERROR_CODES[status],
+      message,
+      ...(details !== undefined && { details }),
+    },
+  };
+}
+
+/**
+ * JSON response for Durable Object fetch handlers.
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Error response for Durable Object fetch handlers.
+ */
+export function errorResponse(status: ErrorStatus, message: string, options?: ErrorOptions): Response {
+  return jsonResponse(errorBody(status, message, options), status);
+}
+
+/**
+ * Error response for Hono handlers and middleware, keeping headers already set on `c`.
+ */
+export function apiError(c: Context, status: ErrorStatus, message: string, options?: ErrorOptions) {
+  return c.json(errorBody(status, message, options), status);
+}
@@ -0,0 +1,211 @@
+import { parseModelJson } from "./modelJson";
+import type { LLMMessage, LLMClient } from "./llm";
+
+export const SENIORITY_LEVELS = [
+  "intern",
+  "junior",
+  "mid",
+  "senior",
+  "lead",
+  "principal",
+  "executive",
+  "unknown",
+] as const;
+
+export type Seniority = typeof SENIORITY_LEVELS[number];
+
+export interface JobAnalysis {
+  summary: string;
+  requiredSkills: string[];
+  niceToHaveSkills: string[];
+  seniority: Seniority;
+  yearsOfExperience: { min: number | null; max: number | null };
+  responsibilities: string[];
+  cultureSignals: string[];
+  redFlags: string[];
+}
+
+const STRING_LIST_FIELDS = [
+  "requiredSkills",
+  "niceToHaveSkills",
+  "responsibilities",
+  "cultureSignals",
+  "redFlags",
+] as const;
+
+const stringList = { type: "array", items: { type: "string" } };
+
+// Passed to the model's JSON mode and mirrored by validateJobAnalysis
+export const JOB_ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    requiredSkills: stringList,
+    niceToHaveSkills: stringList,
+    seniority: { type: "string", enum: SENIORITY_LEVELS },
+    yearsOfExperience: {
+      type: "object",
+      properties: {
+        min: { type: ["number", "null"] },
+        max: { type: ["number", "null"] },
+      },
+      required: ["min", "max"],
+    },
+    responsibilities: stringList,
+    cultureSignals: stringList,
+    redFlags: stringList,
+  },
+  required: ["summary", "requiredSkills", "niceToHaveSkills", "seniority", "yearsOfExperience", "responsibilities", "cultureSignals", "redFlags"],
+};
+
+export interface JobAnalysisInput {
+  jobTitle: string;
+  company: string;
+  jobDescription: string;
+  instructions?: string;
+}
+
+/**
+ * Checks a model response against the job analysis schema. Accepts either the parsed
+ * object (JSON mode) or raw text, from which the first JSON object is extracted. Minor
+ * issues are normalized (trimming, de-duplication, numeric strings); anything else is
+ * reported in `errors` so it can be fed back to the model.
+ */
+export function validateJobAnalysis(raw: unknown): { analysis?: JobAnalysis; errors: string[] } {
+  let input: Record<string, unknown>;
+  try {
+    input = parseModelJson(raw);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
+
+  const errors: string[] = [];
+
+  const summary = typeof input.summary === "string" ? input.summary.trim() : "";
+  if (!summary) errors.push("summary must be a non-empty string");
+
+  const lists = {} as Record<typeof STRING_LIST_FIELDS[number], string[]>;
+  for (const field of STRING_LIST_FIELDS) {
+    const list = input[field];
+    if (!Array.isArray(list) || list.some((item) => typeof item !== "string")) {
+      errors.push(`${field} must be an array of strings`);
+      continue;
+    }
+    lists[field] = [...new Set(list.map((item: string) => item.trim()).filter(Boolean))];
+  }
+  if (lists.requiredSkills?.length === 0) errors.push("requiredSkills must not be empty");
+
+  const seniority = typeof input.seniority === "string" ? input.seniority.trim().toLowerCase() : "";
+  if (!SENIORITY_LEVELS.includes(seniority as Seniority)) {
+    errors.push(`seniority must be one of: ${SENIORITY_LEVELS.join(", ")}`);
+  }
+
+  const years = input.yearsOfExperience as Record<string, unknown> | undefined;
+  const min = toYears(years?.min);
+  const max = toYears(years?.max);
+  if (!years || typeof years !== "object" || min === undefined || max === undefined) {
+    errors.push("yearsOfExperience must be an object with numeric or null min and max");
+  } else if (min !== null && max !== null && min > max) {
+    errors.push("yearsOfExperience.min must not exceed yearsOfExperience.max");
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    analysis: {
+      summary,
+      requiredSkills: lists.requiredSkills,
+      niceToHaveSkills: lists.niceToHaveSkills,
+      seniority: seniority as Seniority,
+      yearsOfExperience: { min: min!, max: max! },
+      responsibilities: lists.responsibilities,
+      cultureSignals: lists.cultureSignals,
+      redFlags: lists.redFlags,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Runs the structured analysis, re-prompting with the validation errors when the model
+ * returns something that doesn't match the schema.
+ */
+export async function analyzeJob(llm: LLMClient, input: JobAnalysisInput, maxAttempts = 3): Promise<JobAnalysis> {
+  const { jobTitle, company, jobDescription, instructions } = input;
+
+  const messages: LLMMessage[] = [
+    {
+      role: "system",
+      content: `You analyze job descriptions and reply with a single JSON object only, no prose. It must have exactly these fields:
+- summary: two or three sentences describing the role
+- requiredSkills: skills, tools and qualifications the posting requires
+- niceToHaveSkills: skills listed as preferred, bonus or nice to have
+- seniority: one of ${SENIORITY_LEVELS.join(", ")}
+- yearsOfExperience: { "min": number or null, "max": number or null }
+- responsibilities: the main duties of the role
+- cultureSignals: what the posting says about team culture, values and working style
+- redFlags: concerns a candidate should notice (vague scope, unrealistic requirements, unpaid overtime, etc.), empty if none
+Keep each list item short (a few words for skills, one sentence for the rest).`,
+    },
+    {
+      role: "user",
+      content: `Analyze this job description for ${jobTitle} at ${company}:
+
+${jobDescription}${instructions?.trim() ? `\n\nAdditional instructions from the candidate:\n${instructions.trim()}` : ""}`,
+    },
+  ];
+
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { text } = await llm.complete({
+      task: "analysis",
+      messages: [...messages],
+      maxTokens: 1536,
+      temperature: 0.2,
+      json: { name: "job_analysis", schema: JOB_ANALYSIS_SCHEMA },
+    });
+
+    const { analysis, errors } = validateJobAnalysis(text);
+    if (analysis) return analysis;
+
+    lastErrors = errors;
+    console.warn(`Job analysis attempt ${attempt} was invalid:`, errors);
+
+    messages.push(
+      { role: "assistant", content: text },
+      { role: "user", content: `That response was invalid:\n- ${errors.join("\n- ")}\nReply again with only the corrected JSON object.` }
+    );
+  }
+
+  throw new Error(`Job analysis failed validation after ${maxAttempts} attempts: ${lastErrors.join("; ")}`);
+}
+
+/**
+ * Renders the analysis as compact text for the prompts of later workflow steps.
+ */
+export function formatJobAnalysis(analysis: JobAnalysis): string {
+  const { min, max } = analysis.yearsOfExperience;
+  const years = min !== null && max !== null ? `${min}-${max} years`
+    : min !== null ? `${min}+ years`
+    : max !== null ? `up to ${max} years`
+    : "not specified";
+
+  const list = (items: string[]) => items.length > 0 ? items.join(", ") : "none listed";
+
+  return [
+    `Summary: ${analysis.summary}`,
+    `Seniority: ${analysis.seniority} (experience: ${years})`,
+    `Required skills: ${list(analysis.requiredSkills)}`,
+    `Nice-to-have skills: ${list(analysis.niceToHaveSkills)}`,
+    `Key responsibilities:\n${analysis.responsibilities.map((r) => `- ${r}`).join("\n") || "- none listed"}`,
+    `Culture signals: ${list(analysis.cultureSignals)}`,
+  ].join("\n");
+}
+
+function toYears(value: unknown): number | null | undefined {
+  if (value === null) return null;
+  if (typeof value === "number" && Number.isFinite(value) && value >= 0) return value;
+  if (typeof value === "string" && /^\d+(\.\d+)?$/.test(value.trim())) return Number(value);
+  return undefined;
+}
@@ -0,0 +1,536 @@
+import { truncateText } from "./chatPrompt";
+
+export const JOB_POSTING_SOURCES = ["greenhouse", "lever", "workday", "json-ld", "generic"] as const;
+
+export type JobPostingSource = typeof JOB_POSTING_SOURCES[number];
+
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  // ISO 4217 code, e.g. "USD"
+  currency?: string;
+  period?: "hour" | "day" | "week" | "month" | "year";
+}
+
+export interface JobPosting {
+  jobTitle?: string;
+  company?: string;
+  location?: string;
+  salary?: SalaryRange;
+  // Plain text with headings and list items on their own lines
+  description: string;
+  // The ATS layout that was recognized, or "json-ld"/"generic" when none was
+  source: JobPostingSource;
+  url?: string;
+}
+
+// Longer descriptions are cut at a line break; real postings stay far below this
+const MAX_DESCRIPTION_CHARS = 20_000;
+
+// Pages larger than this are cut before parsing
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 10_000;
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Pulls the posting out of a job page. Fields from schema.org JobPosting JSON-LD win,
+ * then the recognized ATS layout, then generic page metadata. Returns undefined when
+ * no description can be found.
+ */
+export function extractJobPosting(html: string, url?: string): JobPosting | undefined {
+  const host = url ? safeHostname(url) : "";
+  const jsonLd = readJsonLd(html);
+  const layout = detectLayout(html, host);
+  const ats = layout ? ATS_READERS[layout](html) : {};
+  const generic = readGeneric(html);
+
+  const description = jsonLd.description || ats.description || generic.description;
+  if (!description) return undefined;
+
+  const posting: JobPosting = {
+    jobTitle: jsonLd.jobTitle || ats.jobTitle || generic.jobTitle,
+    company: jsonLd.company || ats.company || generic.company,
+    location: jsonLd.location || ats.location,
+    salary: jsonLd.salary || ats.salary || parseSalary(description),
+    description: truncateText(description, MAX_DESCRIPTION_CHARS),
+    source: layout ?? (jsonLd.description ? "json-ld" : "generic"),
+    url,
+  };
+
+  // Drop empty fields so clients can tell "not found" from an empty string
+  return Object.fromEntries(Object.entries(posting).filter(([, value]) => value !== undefined && value !== "")) as JobPosting;
+}
+
+// Something that can fetch a page: the global fetch, or a service binding in its place
+export interface PageFetcher {
+  fetch(input: RequestInfo, init?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Checks that a job page URL is http(s) on a public host. Returns the problem, if any,
+ * in the style of a validation error.
+ */
+export function checkJobPageUrl(url: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "url must be a valid URL";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "url must start with http:// or https://";
+  }
+  if (isPrivateHost(parsed.hostname)) {
+    return "url must point to a public website";
+  }
+  return undefined;
+}
+
+/**
+ * Downloads a job page whose URL passed checkJobPageUrl. Redirects are followed one at
+ * a time so each target is checked too, and only the first MAX_PAGE_BYTES of the page
+ * are read. Failures are returned as a message to show the user.
+ */
+export async function fetchJobPage(fetcher: PageFetcher, url: string): Promise<{ html: string; url: string } | { error: string }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let response: Response;
+  let current = url;
+
+  for (let hops = 0; ; hops++) {
+    try {
+      response = await fetcher.fetch(current, {
+        headers: { Accept: "text/html,application/xhtml+xml", "User-Agent": "Mozilla/5.0 (compatible; AIJobAssistant/1.0)" },
+        redirect: "manual",
+        signal,
+      });
+    } catch (error) {
+      console.warn(`Fetching ${current} failed:`, error);
+      return { error: "The page could not be reached" };
+    }
+
+    const location = response.status >= 300 && response.status < 400 ? response.headers.get("Location") : null;
+    if (!location) break;
+
+    await response.body?.cancel();
+    if (hops === MAX_REDIRECTS) {
+      return { error: "The page redirected too many times" };
+    }
+    let next: string;
+    try {
+      next = new URL(location, current).href;
+    } catch {
+      next = location;
+    }
+    if (checkJobPageUrl(next)) {
+      return { error: "The page redirected to an address that can't be imported" };
+    }
+    current = next;
+  }
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    return { error: `The page returned HTTP ${response.status}` };
+  }
+  const type = response.headers.get("Content-Type") ?? "";
+  if (type && !/html|xml|text\/plain/i.test(type)) {
+    await response.body?.cancel();
+    return { error: "The URL does not point to a web page" };
+  }
+
+  try {
+    return { html: new TextDecoder().decode(await readBody(response, MAX_PAGE_BYTES)), url: current };
+  } catch (error) {
+    console.warn(`Reading ${current} failed:`, error);
+    return { error: "The page could not be reached" };
+  }
+}
+
+// The first maxBytes of a response body; the rest is never downloaded
+async function readBody(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const result = new Uint8Array(maxBytes);
+  let length = 0;
+
+  while (length < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, maxBytes - length);
+    result.set(chunk, length);
+    length += chunk.length;
+  }
+  await reader.cancel();
+
+  return result.subarray(0, length);
+}
+
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal") || host.endsWith(".local")) return true;
+  // IPv4-mapped IPv6 addresses reach the IPv4 host; URL writes ::ffff:127.0.0.1 as ::ffff:7f00:1
+  const mapped = host.match(/^::ffff:(?:([\d.]+)|([\da-f]{1,4}):([\da-f]{1,4}))$/);
+  if (mapped) {
+    const [, dotted, high, low] = mapped;
+    if (dotted) return isPrivateHost(dotted);
+    const value = (parseInt(high, 16) << 16 | parseInt(low, 16)) >>> 0;
+    return isPrivateHost([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].join("."));
+  }
+  // IPv6 unspecified, loopback, unique local and link-local addresses
+  if (host.includes(":")) return host === "::" || host === "::1" || /^(fc|fd|fe80:)/.test(host);
+
+  const octets = host.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((n) => !Number.isInteger(n))) return false;
+  const [a, b] = octets;
+  return a === 10 || a === 127 || a === 0 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+function safeHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+type PostingFields = Partial<Omit<JobPosting, "source" | "url">>;
+
+// ---- ATS layouts ----
+
+type AtsLayout = Exclude<JobPostingSource, "json-ld" | "generic">;
+
+function detectLayout(html: string, host: string): AtsLayout | undefined {
+  if (host.endsWith("greenhouse.io") || /class="[^"]*\b(app-title|job__description)\b/.test(html)) return "greenhouse";
+  if (host.endsWith("lever.co") || /class="[^"]*\bposting-headline\b/.test(html)) return "lever";
+  if (host.includes("myworkdayjobs.com") || host.includes("myworkdaysite.com") || /data-automation-id="jobPostingHeader"/.test(html)) return "workday";
+  return undefined;
+}
+
+const ATS_READERS: Record<AtsLayout, (html: string) => PostingFields> = {
+  greenhouse(html) {
+    // Classic boards (boards.greenhouse.io) and the newer job-boards layout
+    const company = textOf(html, (tag, attrs) => hasClass(attrs, "company-name"))?.replace(/^at\s+/i, "")
+      || pageTitle(html)?.match(/ at (.+)$/)?.[1];
+    const description = htmlOf(html, (tag, attrs) => attrs.id === "content" || hasClass(attrs, "job__description"));
+
+    return {
+      jobTitle: textOf(html, (tag, attrs) => tag === "h1" && (hasClass(attrs, "app-title") || hasClass(attrs, "section-header"))),
+      company,
+      location: textOf(html, (tag, attrs) => hasClass(attrs, "location") || hasClass(attrs, "job__location")),
+      description: description && htmlToText(description),
+    };
+  },
+
+  lever(html) {
+    const headline = htmlOf(html, (tag, attrs) => hasClass(attrs, "posting-headline")) ?? "";
+    const jobTitle = textOf(headline, (tag) => tag === "h2");
+    // Lever titles pages "Company - Job title"
+    const title = pageTitle(html);
+    const company = jobTitle && title?.endsWith(` - ${jobTitle}`) ? title.slice(0, -jobTitle.length - 3) : undefined;
+
+    const sections = allHtmlOf(html, (tag, attrs) =>
+      hasClass(attrs, "section") && hasClass(attrs, "page-centered") && !hasClass(attrs, "last-section-apply")
+    );
+    const salary = textOf(html, (tag, attrs) => attrs["data-qa"] === "salary-range");
+
+    return {
+      jobTitle,
+      company,
+      location: textOf(headline, (tag, attrs) => hasClass(attrs, "location")),
+      salary: salary ? parseSalary(salary) : undefined,
+      description: sections.map(htmlToText).filter(Boolean).join("\n\n"),
+    };
+  },
+
+  workday(html) {
+    const automation = (id: string) => (tag: string, attrs: Record<string, string>) => attrs["data-automation-id"] === id;
+    const locations = htmlOf(html, automation("locations")) ?? "";
+    // The locations block is a definition list with a "locations" label
+    const location = allHtmlOf(locations, (tag) => tag === "dd").map(htmlToText).filter(Boolean).join("; ")
+      || textOf(html, automation("locations"));
+    const description = htmlOf(html, automation("jobPostingDescription"));
+
+    return {
+      jobTitle: textOf(html, automation("jobPostingHeader")),
+      location,
+      description: description && htmlToText(description),
+    };
+  },
+};
+
+function readGeneric(html: string): PostingFields {
+  const meta = (property: string) => {
+    const tag = [...html.matchAll(/<meta\b([^>]*)>/gi)]
+      .map((match) => parseAttributes(match[1]))
+      .find((attrs) => attrs.property === property || attrs.name === property);
+    return tag?.content ? cleanText(decodeEntities(tag.content)) : undefined;
+  };
+
+  const main = htmlOf(html, (tag, attrs) => tag === "main" || tag === "article" || attrs.role === "main")
+    ?? htmlOf(html, (tag) => tag === "body")
+    ?? html;
+
+  return {
+    jobTitle: meta("og:title") || textOf(html, (tag) => tag === "h1") || pageTitle(html),
+    company: meta("og:site_name"),
+    description: htmlToText(main),
+  };
+}
+
+// ---- schema.org JobPosting ----
+
+function readJsonLd(html: string): PostingFields {
+  const posting = findJsonLdPosting(html);
+  if (!posting) return {};
+
+  const organization = posting.hiringOrganization;
+  // Some sites entity-encode the HTML a second time, and some send plain text
+  const raw = typeof posting.description === "string" ? posting.description : "";
+  const description = /</.test(raw) ? raw : decodeEntities(raw);
+
+  return {
+    jobTitle: typeof posting.title === "string" ? cleanText(decodeEntities(posting.title)) : undefined,
+    company: typeof organization === "string" ? organization : stringField(organization, "name"),
+    location: jsonLdLocation(posting),
+    salary: jsonLdSalary(posting.baseSalary ?? posting.estimatedSalary),
+    description: /<[a-z]/i.test(description) ? htmlToText(description) : tidyLines(description),
+  };
+}
+
+function findJsonLdPosting(html: string): Record<string, any> | undefined {
+  for (const match of html.matchAll(/<script\b[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script\s*>/gi)) {
+    let data: unknown;
+    try {
+      data = JSON.parse(match[1].replace(/^\s*(<!--|<!\[CDATA\[)|(-->|\]\]>)\s*$/g, ""));
+    } catch {
+      continue;
+    }
+
+    const queue = [data];
+    while (queue.length > 0) {
+      const item = queue.shift();
+      if (Array.isArray(item)) {
+        queue.push(...item);
+      } else if (item && typeof item === "object") {
+        const record = item as Record<string, any>;
+        const type = record["@type"];
+        if (type === "JobPosting" || (Array.isArray(type) && type.includes("JobPosting"))) return record;
+        if (record["@graph"]) queue.push(record["@graph"]);
+      }
+    }
+  }
+  return undefined;
+}
+
+function jsonLdLocation(posting: Record<string, any>): string | undefined {
+  const places = [posting.jobLocation].flat().filter(Boolean);
+  const names = places.map((place) => {
+    const address = place?.address ?? place;
+    if (typeof address === "string") return address;
+    const country = typeof address?.addressCountry === "string" ? address.addressCountry : stringField(address?.addressCountry, "name");
+    return [stringField(address, "addressLocality"), stringField(address, "addressRegion"), country].filter(Boolean).join(", ");
+  });
+
+  const isRemote = [posting.jobLocationType].flat().some((type) => typeof type === "string" && /telecommute/i.test(type));
+  const unique = [...new Set([...names, ...(isRemote ? ["Remote"] : [])].filter(Boolean))];
+  return unique.length > 0 ? unique.join("; ") : undefined;
+}
+
+const SALARY_PERIODS: Record<string, SalaryRange["period"]> = {
+  hour: "hour", hourly: "hour", hr: "hour",
+  day: "day", daily: "day",
+  week: "week", weekly: "week", wk: "week",
+  month: "month", monthly: "month", mo: "month",
+  year: "year", yearly: "year", annual: "year", annually: "year", annum: "year", yr: "year",
+};
+
+function jsonLdSalary(data: unknown): SalaryRange | undefined {
+  if (!data || typeof data !== "object") return undefined;
+
+  const salary = data as Record<string, unknown>;
+  // value is a number, or a QuantitativeValue with a range and a unit
+  const quantity = salary.value && typeof salary.value === "object" ? salary.value as Record<string, unknown> : undefined;
+  const amount = (raw: unknown) => (typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw.replace(/,/g, "")) : undefined);
+  const min = amount(quantity ? quantity.minValue ?? quantity.value : salary.value);
+  const max = amount(quantity ? quantity.maxValue ?? quantity.value : salary.value);
+  const unit = quantity?.unitText ?? salary.unitText;
+
+  const range: SalaryRange = {
+    ...(min !== undefined && !Number.isNaN(min) && { min }),
+    ...(max !== undefined && !Number.isNaN(max) && { max }),
+    ...(typeof salary.currency === "string" && { currency: salary.currency.toUpperCase() }),
+    ...(typeof unit === "string" && SALARY_PERIODS[unit.toLowerCase()] && { period: SALARY_PERIODS[unit.toLowerCase()] }),
+  };
+  return range.min !== undefined || range.max !== undefined ? range : undefined;
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "$": "USD", "€": "EUR", "£": "GBP" };
+
+/**
+ * Finds the first pay range written in text, such as "$120,000 - $150,000 per year",
+ * "€60k–75k" or "USD 40 to 55 an hour".
+ */
+export function parseSalary(text: string): SalaryRange | undefined {
+  const match = text.match(
+    /(?:([$€£])|\b(USD|EUR|GBP|CAD|AUD)\s?)(\d[\d,.]*)\s?(k)?\s*(?:-|–|—|to)\s*(?:[$€£]|USD|EUR|GBP|CAD|AUD)?\s?(\d[\d,.]*)\s?(k)?(?:\s*(?:\/|per|an?)\s*(hour|hr|day|week|wk|month|mo|year|yr|annum))?/i
+  );
+  if (!match) return undefined;
+
+  const [, symbol, code, low, lowK, high, highK, period] = match;
+  // "60k-75k" and "60-75k" both mean thousands
+  const value = (digits: string, thousands: boolean) => Number(digits.replace(/,/g, "")) * (thousands ? 1000 : 1);
+  const min = value(low, Boolean(lowK || (highK && !low.includes(","))));
+  const max = value(high, Boolean(highK));
+  if (Number.isNaN(min) || Number.isNaN(max) || max < min) return undefined;
+
+  return {
+    min,
+    max,
+    currency: symbol ? CURRENCY_SYMBOLS[symbol] : code.toUpperCase(),
+    ...(period && { period: SALARY_PERIODS[period.toLowerCase()] }),
+  };
+}
+
+// ---- HTML helpers ----
+
+const VOID_TAGS = new Set(["area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "source", "track", "wbr"]);
+
+// Elements whose content is never part of the posting text
+const SKIPPED_TAGS = "script|style|noscript|svg|template|iframe|nav|header|footer|aside|form|button|select";
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "ul", "ol", "table", "tr", "blockquote", "pre", "dl", "dt", "dd", "hr",
+  "h1", "h2", "h3", "h4", "h5", "h6", "li", "br",
+]);
+
+type TagMatcher = (tag: string, attrs: Record<string, string>) => boolean;
+
+/**
+ * Inner HTML of every element matching `match`, outermost first. Matches nested inside
+ * an earlier match are not returned separately.
+ */
+function allHtmlOf(html: string, match: TagMatcher): string[] {
+  const results: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>/g;
+  let target: { tag: string; start: number; depth: number } | undefined;
+
+  for (const token of html.matchAll(tagPattern)) {
+    const [, closing, rawTag, attributes, selfClosing] = token;
+    const tag = rawTag.toLowerCase();
+    const isVoid = VOID_TAGS.has(tag) || Boolean(selfClosing);
+
+    if (target) {
+      if (tag !== target.tag || isVoid) continue;
+      target.depth += closing ? -1 : 1;
+      if (target.depth === 0) {
+        results.push(html.slice(target.start, token.index));
+        target = undefined;
+      }
+    } else if (!closing && !isVoid && match(tag, parseAttributes(attributes))) {
+      target = { tag, start: token.index! + token[0].length, depth: 1 };
+    }
+  }
+
+  // An element left open by broken markup runs to the end of the page
+  if (target) results.push(html.slice(target.start));
+  return results;
+}
+
+function htmlOf(html: string, match: TagMatcher): string | undefined {
+  return allHtmlOf(html, match)[0];
+}
+
+function textOf(html: string, match: TagMatcher): string | undefined {
+  const inner = htmlOf(html, match);
+  const text = inner === undefined ? "" : cleanText(htmlToText(inner));
+  return text || undefined;
+}
+
+function pageTitle(html: string): string | undefined {
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return title ? cleanText(decodeEntities(title)) || undefined : undefined;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of source.matchAll(/([^\s=/"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g)) {
+    attrs[name.toLowerCase()] = doubleQuoted ?? singleQuoted ?? bare ?? "";
+  }
+  return attrs;
+}
+
+function hasClass(attrs: Record<string, string>, name: string): boolean {
+  return (attrs.class ?? "").split(/\s+/).includes(name);
+}
+
+/**
+ * Converts HTML to plain text: navigation, scripts and forms are dropped, block
+ * elements become lines, list items get a "- " prefix and headings a blank line
+ * before them.
+ */
+export function htmlToText(html: string): string {
+  const stripped = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(new RegExp(`<(${SKIPPED_TAGS})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, "gi"), "");
+
+  let text = "";
+  for (const [, closing, rawTag, content] of stripped.matchAll(/<(\/?)([a-zA-Z][\w:-]*)[^>]*>|([^<]+)/g)) {
+    if (content !== undefined) {
+      text += decodeEntities(content.replace(/\s+/g, " "));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    // Nested blocks share one line break; headings and paragraphs add a blank line
+    const lineBreak = /\n *$/.test(text) ? "" : "\n";
+    if (tag === "li" && !closing) text += `${lineBreak}- `;
+    else if (/^h[1-6]$/.test(tag)) text += closing ? lineBreak : "\n\n";
+    else if (tag === "p") text += "\n\n";
+    else if (tag === "td" || tag === "th") text += " ";
+    else if (BLOCK_TAGS.has(tag)) text += lineBreak;
+  }
+
+  return tidyLines(text);
+}
+
+// Single spaces within lines, no empty list items and at most one blank line in a row
+function tidyLines(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .filter((line) => line !== "-")
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "–", mdash: "—",
+  hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", bull: "•", middot: "·",
+  copy: "©", reg: "®", trade: "™", euro: "€", pound: "£", eacute: "é", uuml: "ü", ouml: "ö", auml: "ä",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));/gi, (entity, hex, decimal, name) => {
+    if (hex || decimal) {
+      const code = hex ? parseInt(hex, 16) : Number(decimal);
+      // Numbers past the last code point are left as written
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    const key = name.toLowerCase();
+    return Object.hasOwn(NAMED_ENTITIES, key) ? NAMED_ENTITIES[key] : entity;
+  });
+}
+
+// Collapses a value to a single line
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function stringField(value: unknown, key: string): string | undefined {
+  const field = value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+  return typeof field === "string" && field.trim() ? cleanText(decodeEntities(field)) : undefined;
+}
@@ -0,0 +1,145 @@
+import { parseModelJson } from "./modelJson";
+import type { LLMClient } from "./llm";
+
+// Languages the documents and chat replies can be written in
+export const LANGUAGES = ["en", "de", "fr", "es"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+// "auto" writes in the language of the job description
+export const LANGUAGE_SETTINGS = ["auto", ...LANGUAGES] as const;
+
+export type LanguageSetting = (typeof LANGUAGE_SETTINGS)[number];
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+};
+
+// Common function words of each language. Words the languages share ("de", "en", "la",
+// "in", "es", "que") are left out so they can't tip the balance.
+const STOPWORDS: Record<Language, Set<string>> = {
+  en: new Set(["the", "and", "of", "to", "is", "for", "with", "you", "we", "our", "are", "will", "on", "be", "this", "that", "your", "or", "have", "at", "from", "who", "what"]),
+  de: new Set(["der", "die", "das", "und", "ist", "mit", "für", "wir", "sie", "den", "dem", "ein", "eine", "einen", "auf", "zu", "von", "im", "bei", "nicht", "auch", "oder", "sind", "werden", "unser", "unsere", "als", "ihre", "du", "dich"]),
+  fr: new Set(["le", "les", "et", "des", "du", "une", "est", "pour", "avec", "vous", "nous", "dans", "sur", "au", "aux", "votre", "notre", "sont", "qui", "ce", "cette", "il", "pas", "plus", "être"]),
+  es: new Set(["el", "los", "las", "y", "del", "una", "para", "con", "por", "como", "sus", "nuestro", "nuestra", "nuestros", "al", "más", "también", "está", "tu", "tus", "usted", "buscamos"]),
+};
+
+// Fewer stopwords than this and the text is too short (or too technical) to tell
+const MIN_STOPWORD_HITS = 3;
+
+// Only the start of a long text is sampled
+const DETECTION_SAMPLE_CHARS = 5_000;
+
+/**
+ * Guesses the language of a text from its common words. Returns undefined when the text
+ * has too few of them, or no language clearly leads, e.g. a bare list of skills.
+ */
+export function detectLanguage(text: string): Language | undefined {
+  const words = text.slice(0, DETECTION_SAMPLE_CHARS).toLowerCase().match(/\p{L}+/gu) ?? [];
+  const counts = LANGUAGES.map((language) => ({
+    language,
+    hits: words.filter((word) => STOPWORDS[language].has(word)).length,
+  })).sort((a, b) => b.hits - a.hits);
+
+  const [best, runnerUp] = counts;
+  return best.hits >= MIN_STOPWORD_HITS && best.hits > runnerUp.hits * 1.5 ? best.language : undefined;
+}
+
+/**
+ * The language to write in: the one chosen, or for "auto" the one the text is written in.
+ * Undefined when it can't be detected, in which case the prompts don't ask for one.
+ */
+export function resolveLanguage(setting: LanguageSetting = "auto", text = ""): Language | undefined {
+  return setting === "auto" ? detectLanguage(text) : setting;
+}
+
+const TRANSLATION_SCHEMA = {
+  type: "object",
+  properties: {
+    lines: { type: "array", items: { type: "string" } },
+  },
+  required: ["lines"],
+};
+
+// Resume text per translation request, so each reply stays well within its token budget
+const TRANSLATION_BATCH_CHARS = 4_000;
+
+// Indentation, bullets, numbering and Markdown heading marks, kept out of the translation
+const LINE_PARTS = /^(\s*(?:[-*•▪◦–]\s+|\d{1,2}[.)]\s+|#{1,6}\s+)?)(.*?)(\s*)$/;
+
+/**
+ * Translates a resume line by line, so its sections, bullets and line breaks come back
+ * exactly as they were. Lines without words (dates, phone numbers, rules) aren't sent.
+ * Returns null when the model doesn't return one translation per line.
+ */
+export async function translateResume(
+  llm: LLMClient,
+  resumeText: string,
+  language: Language,
+  maxAttempts = 2
+): Promise<string | null> {
+  const lines = resumeText.replace(/\r\n?/g, "\n").split("\n").map((line) => {
+    const [, prefix, text, suffix] = line.match(LINE_PARTS)!;
+    return { prefix, text, suffix };
+  });
+
+  const batches: (typeof lines)[] = [];
+  let size = Infinity;
+  for (const line of lines.filter(({ text }) => /\p{L}/u.test(text))) {
+    if (size + line.text.length > TRANSLATION_BATCH_CHARS) {
+      batches.push([]);
+      size = 0;
+    }
+    batches[batches.length - 1].push(line);
+    size += line.text.length;
+  }
+
+  for (const batch of batches) {
+    const translated = await translateLines(llm, batch.map(({ text }) => text), language, maxAttempts);
+    if (!translated) return null;
+    batch.forEach((line, index) => {
+      line.text = translated[index];
+    });
+  }
+
+  return lines.map(({ prefix, text, suffix }) => prefix + text + suffix).join("\n");
+}
+
+async function translateLines(
+  llm: LLMClient,
+  lines: string[],
+  language: Language,
+  maxAttempts: number
+): Promise<string[] | null> {
+  const name = LANGUAGE_NAMES[language];
+  const prompt = `Translate these lines from a resume into ${name}. Translate each line on its own and keep them in the same order. Keep the names of people, employers, schools, products and technologies, and all numbers, dates, email addresses and links, as they are. Use the usual ${name} wording for resume section headings.
+Reply with a JSON object: { "lines": [...] } with exactly ${lines.length} strings, the translation of each line below.
+
+${JSON.stringify(lines, null, 2)}`;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const { text } = await llm.complete({
+        task: "writing",
+        messages: [{ role: "user", content: prompt }],
+        maxTokens: 4096,
+        temperature: 0.2,
+        json: { name: "resume_translation", schema: TRANSLATION_SCHEMA },
+      });
+
+      const { lines: translated } = parseModelJson(text);
+      if (Array.isArray(translated) && translated.length === lines.length && translated.every((line) => typeof line === "string")) {
+        // A line the model left empty keeps its original text
+        return translated.map((line, index) => line.trim() || lines[index]);
+      }
+      console.warn(`Resume translation attempt ${attempt} returned ${Array.isArray(translated) ? translated.length : "no"} lines for ${lines.length}`);
+    } catch (error) {
+      console.warn(`Resume translation attempt ${attempt} failed:`, error);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+import { normalizeUsage } from "./usage";
+import type { LLMClient, LLMRequest, LLMStream } from "./types";
+
+export type FakeResponder = (request: LLMRequest, call: number) => string;
+
+/**
+ * Deterministic stand-in for a model, for tests and for running the app without AI
+ * access (LLM_PROVIDER = "fake"). Each request is recorded in `calls` and answered by
+ * `respond`; by default text requests get a canned reply and JSON requests the simplest
+ * object matching their schema.
+ */
+export function createFakeLLMClient(respond: FakeResponder = defaultReply) {
+  const calls: LLMRequest[] = [];
+
+  const reply = (request: LLMRequest) => {
+    calls.push(request);
+    return respond(request, calls.length);
+  };
+
+  const client: LLMClient & { calls: LLMRequest[] } = {
+    calls,
+
+    async complete(request) {
+      const text = reply(request);
+      return { text, model: "fake", usage: normalizeUsage(undefined, request.messages, text) };
+    },
+
+    async stream(request) {
+      const text = reply(request);
+
+      async function* tokens(): LLMStream {
+        // Word by word, keeping the whitespace so the tokens join back into the reply
+        for (const token of text.match(/\S+\s*|\s+/g) ?? []) {
+          yield token;
+        }
+        return normalizeUsage(undefined, request.messages, text);
+      }
+
+      return tokens();
+    },
+  };
+
+  return client;
+}
+
+function defaultReply(request: LLMRequest): string {
+  if (request.json) {
+    return JSON.stringify(sampleFromSchema(request.json.schema, request.json.name));
+  }
+
+  const lastUserMessage = [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+  return `Fake ${request.task} reply to: ${lastUserMessage.replace(/\s+/g, " ").trim().slice(0, 80)}`;
+}
+
+// A value for every property: enums take their first option, lists hold a single item
+function sampleFromSchema(schema: any, name: string): unknown {
+  if (Array.isArray(schema?.enum)) return schema.enum[0];
+
+  const type = Array.isArray(schema?.type) ? schema.type[0] : schema?.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, property]) => [key, sampleFromSchema(property, key)])
+      );
+    case "array":
+      return [sampleFromSchema(schema.items, name)];
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return `Fake ${name}`;
+  }
+}
@@ -0,0 +1,63 @@
+import { createWorkersAIClient, DEFAULT_WORKERS_AI_MODEL } from "./workersAI";
+import { createOpenAICompatibleClient } from "./openAICompatible";
+import { createFakeLLMClient } from "./fake";
+import { LLM_TASKS, type LLMClient, type ModelMap } from "./types";
+import type { Env } from "../../types";
+
+export * from "./types";
+export { createWorkersAIClient, createOpenAICompatibleClient, createFakeLLMClient };
+
+export const LLM_PROVIDERS = ["workers-ai", "openai-compatible", "fake"] as const;
+
+export type LLMProvider = typeof LLM_PROVIDERS[number];
+
+type LLMEnv = Pick<Env, "AI" | "LLM_PROVIDER" | "LLM_MODEL" | "LLM_MODEL_CHAT" | "LLM_MODEL_ANALYSIS" | "LLM_MODEL_WRITING" | "LLM_BASE_URL" | "LLM_API_KEY">;
+
+/**
+ * Picks the model for each task: LLM_MODEL_<TASK> if set, then LLM_MODEL, then the
+ * provider's default. OpenAI-compatible servers have no default model.
+ */
+export function resolveModels(env: LLMEnv, provider: LLMProvider): ModelMap {
+  const overrides: Record<string, string | undefined> = {
+    chat: env.LLM_MODEL_CHAT,
+    analysis: env.LLM_MODEL_ANALYSIS,
+    writing: env.LLM_MODEL_WRITING,
+  };
+  const fallback = env.LLM_MODEL
+    || (provider === "workers-ai" ? DEFAULT_WORKERS_AI_MODEL : provider === "fake" ? "fake" : undefined);
+
+  const models = {} as ModelMap;
+  for (const task of LLM_TASKS) {
+    const model = overrides[task] || fallback;
+    if (!model) {
+      throw new Error(`No model configured for ${task}: set LLM_MODEL or LLM_MODEL_${task.toUpperCase()}`);
+    }
+    models[task] = model;
+  }
+  return models;
+}
+
+/**
+ * Creates the client for the provider configured in LLM_PROVIDER (Workers AI by default).
+ */
+export function createLLMClient(env: LLMEnv): LLMClient {
+  const provider = (env.LLM_PROVIDER || "workers-ai") as LLMProvider;
+
+  switch (provider) {
+    case "workers-ai":
+      return createWorkersAIClient(env.AI, resolveModels(env, provider));
+    case "openai-compatible":
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL is required for the openai-compatible provider");
+      }
+      return createOpenAICompatibleClient({
+        baseUrl: env.LLM_BASE_URL,
+        apiKey: env.LLM_API_KEY,
+        models: resolveModels(env, provider),
+      });
+    case "fake":
+      return createFakeLLMClient();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"; expected one of: ${LLM_PROVIDERS.join(", ")}`);
+  }
+}
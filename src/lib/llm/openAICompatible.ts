@@ -0,0 +1,99 @@
+import { readJsonEvents } from "../aiStream";
+import { normalizeUsage, type ReportedUsage } from "./usage";
+import type { LLMClient, LLMMessage, LLMRequest, LLMStream, ModelMap } from "./types";
+
+export interface OpenAICompatibleOptions {
+  // e.g. http://localhost:11434/v1 for Ollama, or https://api.openai.com/v1
+  baseUrl: string;
+  apiKey?: string;
+  models: ModelMap;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ReportedUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ReportedUsage | null;
+}
+
+/**
+ * Serves requests with any server implementing the OpenAI chat completions API, such as
+ * vLLM, Ollama, llama.cpp or OpenAI itself.
+ */
+export function createOpenAICompatibleClient({ baseUrl, apiKey, models }: OpenAICompatibleOptions): LLMClient {
+  const post = async (request: LLMRequest, stream: boolean) => {
+    const model = models[request.task];
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json && {
+          response_format: { type: "json_schema", json_schema: { name: request.json.name, schema: request.json.schema } },
+        }),
+        ...(stream && { stream: true, stream_options: { include_usage: true } }),
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(`${model} request failed with ${response.status}: ${detail.slice(0, 200)}`);
+    }
+    return { model, response };
+  };
+
+  return {
+    async complete(request) {
+      const { model, response } = await post(request, false);
+      const completion = await response.json() as ChatCompletion;
+
+      const text = completion.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new Error(`Unexpected response from ${model}`);
+      }
+
+      return { text, model, usage: normalizeUsage(completion.usage, request.messages, text) };
+    },
+
+    async stream(request) {
+      const { response } = await post(request, true);
+      if (!response.body) {
+        throw new Error("Streaming response has no body");
+      }
+
+      return streamReply(response.body, request.messages);
+    },
+  };
+}
+
+// Chunks carry choices[0].delta.content; with include_usage a final chunk carries the usage
+async function* streamReply(body: ReadableStream<Uint8Array>, messages: LLMMessage[]): LLMStream {
+  let text = "";
+  let reported: ReportedUsage | undefined;
+  let finished = false;
+
+  try {
+    for await (const chunk of readJsonEvents<ChatCompletionChunk>(body)) {
+      reported = chunk.usage ?? reported;
+      const token = chunk.choices?.[0]?.delta?.content;
+      if (token) {
+        text += token;
+        yield token;
+      }
+    }
+    finished = true;
+  } finally {
+    if (!finished) await body.cancel().catch(() => {});
+  }
+
+  return normalizeUsage(reported, messages, text);
+}
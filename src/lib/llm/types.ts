@@ -0,0 +1,49 @@
+// What a request is for; each task can be served by a different model
+export const LLM_TASKS = ["chat", "analysis", "writing"] as const;
+
+export type LLMTask = typeof LLM_TASKS[number];
+
+export type ModelMap = Record<LLMTask, string>;
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  // chat: conversational replies; analysis: extraction, JSON and summaries;
+  // writing: long-form documents such as resumes and cover letters
+  task: LLMTask;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  // Constrains the reply to a JSON object matching the schema, where the provider supports it
+  json?: { name: string; schema: object };
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // True when the provider reported nothing and the counts were estimated from the text
+  estimated: boolean;
+}
+
+export interface LLMResponse {
+  // JSON replies are returned as their serialized text
+  text: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+/**
+ * Yields the reply's text as it is generated and returns the usage once it finishes.
+ * Stopping early (`break` in a for await loop, or `return()`) cancels generation.
+ */
+export type LLMStream = AsyncGenerator<string, LLMUsage, undefined>;
+
+export interface LLMClient {
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // Resolves once the provider has accepted the request, so errors surface before streaming
+  stream(request: LLMRequest): Promise<LLMStream>;
+}
@@ -0,0 +1,29 @@
+import { estimateTokens } from "../conversationSummary";
+import type { LLMMessage, LLMUsage } from "./types";
+
+// The `usage` object Workers AI and OpenAI-compatible APIs attach to replies
+export interface ReportedUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+/**
+ * Converts the provider's usage report, estimating the counts from the text when the
+ * provider didn't report them.
+ */
+export function normalizeUsage(reported: ReportedUsage | undefined, messages: LLMMessage[], reply: string): LLMUsage {
+  if (reported && typeof reported.total_tokens === "number") {
+    const promptTokens = reported.prompt_tokens ?? 0;
+    return {
+      promptTokens,
+      completionTokens: reported.completion_tokens ?? reported.total_tokens - promptTokens,
+      totalTokens: reported.total_tokens,
+      estimated: false,
+    };
+  }
+
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  const completionTokens = estimateTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
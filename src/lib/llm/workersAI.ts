@@ -0,0 +1,64 @@
+import { readJsonEvents } from "../aiStream";
+import { normalizeUsage, type ReportedUsage } from "./usage";
+import type { LLMClient, LLMMessage, LLMRequest, LLMStream, ModelMap } from "./types";
+
+export const DEFAULT_WORKERS_AI_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+/**
+ * Serves requests with the Workers AI binding.
+ */
+export function createWorkersAIClient(ai: Ai, models: ModelMap): LLMClient {
+  return {
+    async complete(request) {
+      const model = models[request.task];
+      const response: any = await ai.run(model as any, toInputs(request));
+
+      // Text models reply with { response }, which JSON mode fills with the parsed object
+      const reply = typeof response === "string" ? response : response?.response;
+      if (reply === undefined || reply === null) {
+        throw new Error(`Unexpected response from ${model}`);
+      }
+
+      const text = typeof reply === "string" ? reply : JSON.stringify(reply);
+      return { text, model, usage: normalizeUsage(response?.usage, request.messages, text) };
+    },
+
+    async stream(request) {
+      const model = models[request.task];
+      const body = await ai.run(model as any, { ...toInputs(request), stream: true }) as ReadableStream<Uint8Array>;
+
+      return streamReply(body, request.messages);
+    },
+  };
+}
+
+function toInputs(request: LLMRequest) {
+  return {
+    messages: request.messages,
+    ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+    ...(request.temperature !== undefined && { temperature: request.temperature }),
+    ...(request.json && { response_format: { type: "json_schema", json_schema: request.json.schema } }),
+  };
+}
+
+// Events carry { response: "token" }; the last one before [DONE] carries the usage
+async function* streamReply(body: ReadableStream<Uint8Array>, messages: LLMMessage[]): LLMStream {
+  let text = "";
+  let reported: ReportedUsage | undefined;
+  let finished = false;
+
+  try {
+    for await (const event of readJsonEvents<{ response?: string; usage?: ReportedUsage }>(body)) {
+      reported = event.usage ?? reported;
+      if (event.response) {
+        text += event.response;
+        yield event.response;
+      }
+    }
+    finished = true;
+  } finally {
+    if (!finished) await body.cancel().catch(() => {});
+  }
+
+  return normalizeUsage(reported, messages, text);
+}
@@ -0,0 +1,109 @@
+import { parseModelJson } from "./modelJson";
+import type { LLMClient } from "./llm";
+import { computeMatchScore, type MatchScore } from "./matchScore";
+import type { JobAnalysis } from "./jobAnalysis";
+
+export interface SkillGap {
+  skill: string;
+  // Truthful wording for the resume, or how to close the gap if there's no related experience
+  suggestion: string;
+}
+
+export interface MatchReport extends MatchScore {
+  gaps: SkillGap[];
+}
+
+// Keeps the prompt (and the UI list) focused on the gaps that matter most
+export const MAX_GAPS = 10;
+
+const SKILL_GAPS_SCHEMA = {
+  type: "object",
+  properties: {
+    gaps: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          skill: { type: "string" },
+          suggestion: { type: "string" },
+        },
+        required: ["skill", "suggestion"],
+      },
+    },
+  },
+  required: ["gaps"],
+};
+
+/**
+ * Asks the model how to address skills the deterministic score found missing. Suggestions
+ * are best-effort: an unusable reply yields an empty list rather than failing the match.
+ */
+export async function suggestSkillGaps(
+  llm: LLMClient,
+  input: { resumeText: string; jobDescription: string; missingSkills: string[] }
+): Promise<SkillGap[]> {
+  const missingSkills = input.missingSkills.slice(0, MAX_GAPS);
+  if (missingSkills.length === 0) return [];
+
+  const prompt = `A candidate is applying to this job:
+
+${input.jobDescription}
+
+Their resume:
+${input.resumeText}
+
+These skills or keywords from the job description are missing from the resume:
+${missingSkills.map((s) => `- ${s}`).join("\n")}
+
+For each one, if the resume shows related experience, suggest a resume bullet or phrasing that surfaces it truthfully. If it does not, say briefly how the candidate could address the gap (a project, course or cover letter mention). Never suggest claiming experience the resume doesn't support.
+Reply with a JSON object: { "gaps": [{ "skill": "...", "suggestion": "..." }] }`;
+
+  try {
+    const { text } = await llm.complete({
+      task: "analysis",
+      messages: [{ role: "user", content: prompt }],
+      maxTokens: 1024,
+      temperature: 0.3,
+      json: { name: "skill_gaps", schema: SKILL_GAPS_SCHEMA },
+    });
+
+    const { gaps } = parseModelJson(text);
+    if (!Array.isArray(gaps)) return [];
+
+    return gaps
+      .filter((gap): gap is SkillGap =>
+        typeof gap?.skill === "string" && typeof gap?.suggestion === "string" && gap.suggestion.trim() !== "")
+      .map((gap) => ({ skill: gap.skill.trim(), suggestion: gap.suggestion.trim() }))
+      .slice(0, MAX_GAPS);
+  } catch (error) {
+    console.error("Failed to get skill gap suggestions:", error);
+    return [];
+  }
+}
+
+/**
+ * Deterministic match score plus AI suggestions for what's missing. With a job analysis the
+ * missing required and nice-to-have skills are discussed; otherwise the missing keywords.
+ */
+export async function buildMatchReport(
+  llm: LLMClient,
+  input: { resumeText: string; jobDescription: string; analysis?: JobAnalysis; includeSuggestions?: boolean }
+): Promise<MatchReport> {
+  const { resumeText, jobDescription, analysis, includeSuggestions = true } = input;
+
+  const score = computeMatchScore(
+    resumeText,
+    jobDescription,
+    analysis ? { required: analysis.requiredSkills, niceToHave: analysis.niceToHaveSkills } : undefined
+  );
+
+  const missingSkills = score.requiredSkills
+    ? [...score.requiredSkills.missing, ...(score.niceToHaveSkills?.missing ?? [])]
+    : score.missingKeywords;
+
+  const gaps = includeSuggestions
+    ? await suggestSkillGaps(llm, { resumeText, jobDescription, missingSkills })
+    : [];
+
+  return { ...score, gaps };
+}
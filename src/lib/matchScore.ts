@@ -0,0 +1,172 @@
+export interface SkillCoverage {
+  matched: string[];
+  missing: string[];
+}
+
+export interface MatchScore {
+  // 0-100, higher is a closer fit
+  score: number;
+  // Most frequent job description keywords found / not found in the resume
+  matchedKeywords: string[];
+  missingKeywords: string[];
+  // Only present when the skills from a job analysis are supplied
+  requiredSkills?: SkillCoverage;
+  niceToHaveSkills?: SkillCoverage;
+}
+
+export interface MatchSkills {
+  required: string[];
+  niceToHave: string[];
+}
+
+// How many of the job description's most frequent keywords are compared
+const MAX_KEYWORDS = 25;
+
+// Score weights when analysis skills are available; keywords alone are used otherwise
+const REQUIRED_WEIGHT = 0.5;
+const NICE_TO_HAVE_WEIGHT = 0.2;
+const KEYWORD_WEIGHT = 0.3;
+
+const STOPWORDS = new Set([
+  "a", "about", "across", "all", "also", "an", "and", "any", "are", "as", "at", "be", "been", "being",
+  "best", "both", "but", "by", "can", "candidate", "candidates", "company", "day", "do", "each",
+  "etc", "every", "experience", "for", "from", "good", "great", "has", "have", "help", "high", "how",
+  "if", "in", "including", "into", "is", "it", "its", "job", "join", "just", "key", "like", "looking",
+  "make", "more", "most", "must", "need", "new", "not", "of", "on", "one", "or", "other", "our",
+  "ours", "out", "over", "own", "per", "plus", "preferred", "required", "requirements", "role", "so",
+  "some", "strong", "such", "team", "than", "that", "the", "their", "them", "then", "there", "these",
+  "they", "this", "those", "through", "to", "up", "us", "use", "using", "very", "want", "was", "we",
+  "well", "were", "what", "when", "where", "which", "while", "who", "will", "with", "within", "work",
+  "working", "would", "year", "years", "you", "your",
+]);
+
+// Common spellings of the same skill, normalized to one form before comparing
+const ALIASES: Record<string, string> = {
+  "js": "javascript",
+  "ts": "typescript",
+  "node": "nodejs",
+  "node.js": "nodejs",
+  "postgres": "postgresql",
+  "k8s": "kubernetes",
+  "golang": "go",
+  "ml": "machine learning",
+  "ai": "artificial intelligence",
+  "gcp": "google cloud",
+  "aws": "amazon web services",
+  "ci/cd": "cicd",
+  "react.js": "react",
+  "reactjs": "react",
+  "vue.js": "vue",
+  "vuejs": "vue",
+};
+
+/**
+ * Deterministic resume/job fit score. Compares the resume against the job description's
+ * most frequent keywords and, when available, the required and nice-to-have skills from
+ * the job analysis. No model calls, so the same inputs always give the same score.
+ */
+export function computeMatchScore(resumeText: string, jobDescription: string, skills?: MatchSkills): MatchScore {
+  const resumeStems = tokenize(resumeText).map(stem);
+  const resumeTerms = new Set(resumeStems);
+  const resumeNormalized = ` ${resumeStems.join(" ")} `;
+
+  const keywords = topKeywords(jobDescription, MAX_KEYWORDS);
+  const matchedKeywords = keywords.filter((k) => resumeTerms.has(stem(k)));
+  const missingKeywords = keywords.filter((k) => !resumeTerms.has(stem(k)));
+  const keywordCoverage = keywords.length > 0 ? matchedKeywords.length / keywords.length : 0;
+
+  if (!skills) {
+    return {
+      score: Math.round(keywordCoverage * 100),
+      matchedKeywords,
+      missingKeywords,
+    };
+  }
+
+  const requiredSkills = coverage(skills.required, resumeNormalized);
+  const niceToHaveSkills = coverage(skills.niceToHave, resumeNormalized);
+
+  // Weights of empty skill lists are redistributed over the parts that exist
+  const parts: [number, number][] = [[KEYWORD_WEIGHT, keywordCoverage]];
+  if (skills.required.length > 0) parts.push([REQUIRED_WEIGHT, ratio(requiredSkills)]);
+  if (skills.niceToHave.length > 0) parts.push([NICE_TO_HAVE_WEIGHT, ratio(niceToHaveSkills)]);
+
+  const totalWeight = parts.reduce((sum, [weight]) => sum + weight, 0);
+  const weighted = parts.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight;
+
+  return {
+    score: Math.round(weighted * 100),
+    matchedKeywords,
+    missingKeywords,
+    requiredSkills,
+    niceToHaveSkills,
+  };
+}
+
+/**
+ * Lowercases, splits on anything that can't be part of a skill name (keeping things like
+ * c++, c#, node.js and ci/cd intact) and applies aliases. Letters in any script count, so
+ * words like "Größe" and "développeur" stay whole.
+ */
+export function tokenize(text: string): string[] {
+  const tokens = text.normalize("NFC").toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}+#./-]*/gu) ?? [];
+
+  return tokens
+    .map((token) => token.replace(/[./-]+$/, ""))
+    .filter(Boolean)
+    .flatMap((token) => (ALIASES[token] ?? token).split(" "));
+}
+
+// The skills from the list that the text mentions, matched as whole phrases like the score
+export function findSkills(text: string, skills: string[]): string[] {
+  return coverage(skills, ` ${tokenize(text).map(stem).join(" ")} `).matched;
+}
+
+// The job description's most frequent non-stopword terms, ties broken alphabetically.
+// Plural and singular forms count together and are reported in the first form seen.
+function topKeywords(text: string, limit: number): string[] {
+  const counts = new Map<string, { term: string; count: number }>();
+
+  for (const token of tokenize(text)) {
+    if (STOPWORDS.has(token) || /^\d+$/.test(token)) continue;
+    // Short tokens are only kept when they look like tech names (c#, c++, go)
+    if (token.length < 3 && !/[+#]/.test(token) && token !== "go") continue;
+
+    const key = stem(token);
+    const entry = counts.get(key) ?? { term: token, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, limit)
+    .map(({ term }) => term);
+}
+
+function coverage(skills: string[], resumeNormalized: string): SkillCoverage {
+  const matched: string[] = [];
+  const missing: string[] = [];
+
+  for (const skill of skills) {
+    const phrase = tokenize(skill).map(stem).join(" ");
+    // Whole-phrase match so "go" doesn't match inside "google"
+    if (phrase && resumeNormalized.includes(` ${phrase} `)) {
+      matched.push(skill);
+    } else {
+      missing.push(skill);
+    }
+  }
+
+  return { matched, missing };
+}
+
+function ratio({ matched, missing }: SkillCoverage): number {
+  const total = matched.length + missing.length;
+  return total > 0 ? matched.length / total : 0;
+}
+
+// Comparison key that treats plural and singular alike ("apis" -> "api"), leaving "ss" endings alone
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token;
+}
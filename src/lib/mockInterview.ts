@@ -0,0 +1,341 @@
+import { parseModelJson } from "./modelJson";
+import { truncateText } from "./chatPrompt";
+import { LANGUAGE_NAMES, type Language } from "./language";
+import type { LLMClient, LLMMessage } from "./llm";
+import type { JobContext } from "../types";
+
+// Asked in rotation, so every interview covers each kind
+export const QUESTION_KINDS = ["behavioral", "technical", "role-specific"] as const;
+
+export type QuestionKind = typeof QUESTION_KINDS[number];
+
+// What each answer is scored on, from 1 (poor) to 5 (excellent)
+export const RUBRIC = {
+  star: "Structure: the answer sets out the Situation, Task, Action and Result (for technical questions: the problem, approach, trade-offs and outcome)",
+  relevance: "Relevance: the answer addresses the question and what this role needs",
+  specificity: "Specificity: concrete examples, numbers, tools and the candidate's own contribution rather than generalities",
+} as const;
+
+export type RubricCriterion = keyof typeof RUBRIC;
+
+export const RUBRIC_CRITERIA = Object.keys(RUBRIC) as RubricCriterion[];
+
+export const DEFAULT_QUESTION_COUNT = 6;
+export const MAX_QUESTION_COUNT = 15;
+
+export interface AnswerGrade {
+  scores: Record<RubricCriterion, number>;
+  // Mean of the criterion scores, to one decimal
+  overall: number;
+  feedback: string;
+  strengths: string[];
+  improvements: string[];
+  // The candidate's answer rewritten to score well, using only what they said or their resume shows
+  improvedAnswer: string;
+}
+
+export interface InterviewTurn {
+  kind: QuestionKind;
+  question: string;
+  askedAt: number;
+  answer?: string;
+  answeredAt?: number;
+  grade?: AnswerGrade;
+  // Set while an answer is being graded, so the same question isn't answered twice
+  gradingStartedAt?: number;
+}
+
+export interface InterviewSession {
+  status: "active" | "complete";
+  questionCount: number;
+  // Kinds to rotate through; all of QUESTION_KINDS unless the user picked some
+  kinds: QuestionKind[];
+  turns: InterviewTurn[];
+  startedAt: number;
+  completedAt?: number;
+}
+
+export interface InterviewReport {
+  status: InterviewSession["status"];
+  questionsAsked: number;
+  questionsAnswered: number;
+  // Averages over the graded answers; null until one has been graded
+  averages: (Record<RubricCriterion, number> & { overall: number }) | null;
+  byKind: Partial<Record<QuestionKind, number>>;
+  strongestCriterion: RubricCriterion | null;
+  weakestCriterion: RubricCriterion | null;
+  // The most common improvements across answers, to practise next
+  focusAreas: string[];
+  turns: InterviewTurn[];
+}
+
+// Keeps the job context in the interview prompts to a fraction of the model's window
+const MAX_RESUME_CHARS = 4000;
+const MAX_JOB_DESCRIPTION_CHARS = 4000;
+const MAX_FOCUS_AREAS = 5;
+
+const QUESTION_SCHEMA = {
+  type: "object",
+  properties: { question: { type: "string" } },
+  required: ["question"],
+};
+
+const stringList = { type: "array", items: { type: "string" } };
+
+const GRADE_SCHEMA = {
+  type: "object",
+  properties: {
+    scores: {
+      type: "object",
+      properties: Object.fromEntries(RUBRIC_CRITERIA.map((criterion) => [criterion, { type: "integer" }])),
+      required: RUBRIC_CRITERIA,
+    },
+    feedback: { type: "string" },
+    strengths: stringList,
+    improvements: stringList,
+    improvedAnswer: { type: "string" },
+  },
+  required: ["scores", "feedback", "strengths", "improvements", "improvedAnswer"],
+};
+
+// Kind of the question at `index`, rotating through the session's kinds
+export function questionKindAt(kinds: readonly QuestionKind[], index: number): QuestionKind {
+  return kinds[index % kinds.length];
+}
+
+// The question waiting for an answer, if any
+export function currentTurn(session: InterviewSession): InterviewTurn | undefined {
+  const last = session.turns[session.turns.length - 1];
+  return last && last.answer === undefined ? last : undefined;
+}
+
+function describeJob(jobContext: JobContext = {}): string {
+  const { jobTitle, company, jobDescription, resumeText } = jobContext;
+  const sections = [`Role: ${[jobTitle, company].filter(Boolean).join(" at ") || "not specified"}`];
+
+  if (jobDescription?.trim()) {
+    sections.push(`Job description:\n${truncateText(jobDescription, MAX_JOB_DESCRIPTION_CHARS)}`);
+  }
+  if (resumeText?.trim()) {
+    sections.push(`Candidate's resume:\n${truncateText(resumeText, MAX_RESUME_CHARS)}`);
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * Asks the model for the next interview question of the given kind, avoiding repeats of
+ * the questions already asked.
+ */
+export async function generateQuestion(
+  llm: LLMClient,
+  input: { jobContext?: JobContext; kind: QuestionKind; previousQuestions: string[]; language?: Language }
+): Promise<string> {
+  const { jobContext, kind, previousQuestions, language } = input;
+
+  const prompt = `You are interviewing a candidate for this job:
+
+${describeJob(jobContext)}
+
+Ask one ${kind} interview question${kind === "role-specific" ? " about the responsibilities and situations particular to this role" : ""}. Ask it the way an interviewer would say it, in one or two sentences, without the answer or any hints.${language ? ` Ask it in ${LANGUAGE_NAMES[language]}.` : ""}${previousQuestions.length > 0 ? `\n\nDo not repeat or closely rephrase these questions already asked:\n${previousQuestions.map((q) => `- ${q}`).join("\n")}` : ""}
+Reply with a JSON object: { "question": "..." }`;
+
+  const { text } = await llm.complete({
+    task: "chat",
+    messages: [{ role: "user", content: prompt }],
+    maxTokens: 256,
+    temperature: 0.8,
+    json: { name: "interview_question", schema: QUESTION_SCHEMA },
+  });
+
+  const { question } = parseModelJson(text);
+  if (typeof question !== "string" || !question.trim()) {
+    throw new Error("Response did not contain a question");
+  }
+  return question.trim();
+}
+
+/**
+ * Checks a grading response. Scores are rounded and clamped to 1-5 and lists trimmed;
+ * a reply missing feedback or an improved answer is reported in `errors`.
+ */
+export function validateAnswerGrade(raw: unknown): { grade?: AnswerGrade; errors: string[] } {
+  let input: Record<string, unknown>;
+  try {
+    input = parseModelJson(raw);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
+
+  const errors: string[] = [];
+  const rawScores = (input.scores ?? {}) as Record<string, unknown>;
+  const scores = {} as Record<RubricCriterion, number>;
+
+  for (const criterion of RUBRIC_CRITERIA) {
+    const score = Number(rawScores[criterion]);
+    if (rawScores[criterion] === null || rawScores[criterion] === "" || !Number.isFinite(score)) {
+      errors.push(`scores.${criterion} must be a number from 1 to 5`);
+      continue;
+    }
+    scores[criterion] = Math.min(5, Math.max(1, Math.round(score)));
+  }
+
+  const text = (field: string) => typeof input[field] === "string" ? (input[field] as string).trim() : "";
+  const list = (field: string) => Array.isArray(input[field])
+    ? (input[field] as unknown[]).filter((item): item is string => typeof item === "string").map((item) => item.trim()).filter(Boolean)
+    : [];
+
+  const feedback = text("feedback");
+  const improvedAnswer = text("improvedAnswer");
+  if (!feedback) errors.push("feedback must be a non-empty string");
+  if (!improvedAnswer) errors.push("improvedAnswer must be a non-empty string");
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    grade: {
+      scores,
+      overall: average(Object.values(scores)),
+      feedback,
+      strengths: list("strengths"),
+      improvements: list("improvements"),
+      improvedAnswer,
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Grades an answer against the rubric, re-prompting with the validation errors when the
+ * model's reply doesn't match the schema.
+ */
+export async function gradeAnswer(
+  llm: LLMClient,
+  input: { jobContext?: JobContext; kind: QuestionKind; question: string; answer: string; language?: Language },
+  maxAttempts = 2
+): Promise<AnswerGrade> {
+  const { jobContext, kind, question, answer, language } = input;
+
+  const messages: LLMMessage[] = [
+    {
+      role: "system",
+      content: `You are an experienced interviewer coaching a candidate. Grade their answer on each criterion from 1 (poor) to 5 (excellent):
+${RUBRIC_CRITERIA.map((criterion) => `- ${criterion}: ${RUBRIC[criterion]}`).join("\n")}
+
+Reply with a single JSON object only, no prose:
+{ "scores": { ${RUBRIC_CRITERIA.map((criterion) => `"${criterion}": 1-5`).join(", ")} }, "feedback": "two or three sentences", "strengths": ["..."], "improvements": ["..."], "improvedAnswer": "..." }
+improvedAnswer is the candidate's answer rewritten to score 5 on every criterion. Only use facts from their answer or resume; mark anything they would need to fill in with [brackets] instead of inventing it.${language ? `\nWrite the feedback, strengths, improvements and improvedAnswer in ${LANGUAGE_NAMES[language]}.` : ""}`,
+    },
+    {
+      role: "user",
+      content: `${describeJob(jobContext)}
+
+Question (${kind}): ${question}
+
+Candidate's answer:
+${answer}`,
+    },
+  ];
+
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { text } = await llm.complete({
+      task: "analysis",
+      messages: [...messages],
+      maxTokens: 1536,
+      temperature: 0.3,
+      json: { name: "answer_grade", schema: GRADE_SCHEMA },
+    });
+
+    const { grade, errors } = validateAnswerGrade(text);
+    if (grade) return grade;
+
+    lastErrors = errors;
+    console.warn(`Answer grading attempt ${attempt} was invalid:`, errors);
+
+    messages.push(
+      { role: "assistant", content: text },
+      { role: "user", content: `That response was invalid:\n- ${errors.join("\n- ")}\nReply again with only the corrected JSON object.` }
+    );
+  }
+
+  throw new Error(`Answer grading failed validation after ${maxAttempts} attempts: ${lastErrors.join("; ")}`);
+}
+
+/**
+ * Renders a grade as a chat message, so the transcript reads like the interview did.
+ */
+export function formatGrade(grade: AnswerGrade): string {
+  const lines = [
+    `Score: ${grade.overall}/5 (${RUBRIC_CRITERIA.map((criterion) => `${criterion === "star" ? "STAR" : criterion} ${grade.scores[criterion]}`).join(", ")})`,
+    "",
+    grade.feedback,
+  ];
+
+  if (grade.strengths.length > 0) lines.push("", "What worked:", ...grade.strengths.map((s) => `- ${s}`));
+  if (grade.improvements.length > 0) lines.push("", "To improve:", ...grade.improvements.map((s) => `- ${s}`));
+  lines.push("", "A stronger answer:", grade.improvedAnswer);
+
+  return lines.join("\n");
+}
+
+/**
+ * Summarizes the graded answers: averages per criterion and question kind, the strongest
+ * and weakest criterion, and the improvements suggested most often.
+ */
+export function buildInterviewReport(session: InterviewSession): InterviewReport {
+  const graded = session.turns.filter((turn): turn is InterviewTurn & { grade: AnswerGrade } => !!turn.grade);
+
+  let averages: InterviewReport["averages"] = null;
+  let strongestCriterion: RubricCriterion | null = null;
+  let weakestCriterion: RubricCriterion | null = null;
+
+  if (graded.length > 0) {
+    const criterionAverages = Object.fromEntries(
+      RUBRIC_CRITERIA.map((criterion) => [criterion, average(graded.map((turn) => turn.grade.scores[criterion]))])
+    ) as Record<RubricCriterion, number>;
+    averages = { ...criterionAverages, overall: average(graded.map((turn) => turn.grade.overall)) };
+
+    // Sorting is stable, so ties go to the criterion listed first in the rubric
+    strongestCriterion = [...RUBRIC_CRITERIA].sort((a, b) => criterionAverages[b] - criterionAverages[a])[0];
+    weakestCriterion = [...RUBRIC_CRITERIA].sort((a, b) => criterionAverages[a] - criterionAverages[b])[0];
+  }
+
+  const byKind: InterviewReport["byKind"] = {};
+  for (const kind of QUESTION_KINDS) {
+    const scores = graded.filter((turn) => turn.kind === kind).map((turn) => turn.grade.overall);
+    if (scores.length > 0) byKind[kind] = average(scores);
+  }
+
+  // Most frequent first, then from the lowest scoring answers
+  const counts = new Map<string, { text: string; count: number; score: number }>();
+  for (const turn of graded) {
+    for (const improvement of turn.grade.improvements) {
+      const key = improvement.toLowerCase();
+      const entry = counts.get(key) ?? { text: improvement, count: 0, score: turn.grade.overall };
+      entry.count++;
+      entry.score = Math.min(entry.score, turn.grade.overall);
+      counts.set(key, entry);
+    }
+  }
+  const focusAreas = [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.score - b.score)
+    .slice(0, MAX_FOCUS_AREAS)
+    .map((entry) => entry.text);
+
+  return {
+    status: session.status,
+    questionsAsked: session.turns.length,
+    questionsAnswered: graded.length,
+    averages,
+    byKind,
+    strongestCriterion,
+    weakestCriterion,
+    focusAreas,
+    turns: session.turns,
+  };
+}
+
+function average(values: number[]): number {
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
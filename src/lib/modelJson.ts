@@ -0,0 +1,28 @@
+/**
+ * Parses a JSON object out of a model response. The reply is text that may wrap the JSON
+ * in prose or code fences, so the outermost {...} is extracted; an already parsed object
+ * is accepted as is. Throws with a readable message on failure.
+ */
+export function parseModelJson(raw: unknown): Record<string, unknown> {
+  let value = raw;
+
+  if (typeof raw === "string") {
+    const start = raw.indexOf("{");
+    const end = raw.lastIndexOf("}");
+    if (start === -1 || end <= start) {
+      throw new Error("Response did not contain a JSON object");
+    }
+
+    try {
+      value = JSON.parse(raw.slice(start, end + 1));
+    } catch (error) {
+      throw new Error(`Response was not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Response must be a JSON object");
+  }
+
+  return value as Record<string, unknown>;
+}
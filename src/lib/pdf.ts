@@ -0,0 +1,249 @@
+import type { DocBlock, ExportDocument, ExportSection } from "./documentExport";
+
+// US Letter in points, one-inch margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BULLET_INDENT = 16;
+
+type Font = "regular" | "bold";
+
+// Helvetica advance widths (per 1000 units of font size) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9f; 0x81, 0x8d, 0x8f,
+// 0x90 and 0x9d are unused
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88,
+  "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e,
+  "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98,
+  "™": 0x99, "š": 0x9a, "›": 0x9b, "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+interface Line {
+  text: string;
+  font: Font;
+  size: number;
+  x: number;
+  // Space above the line, from the previous baseline
+  leading: number;
+  // Draw a rule under the line (section headings)
+  rule?: boolean;
+  // Bullet glyph drawn in the indent
+  bullet?: boolean;
+}
+
+/**
+ * Renders the document as a PDF using the standard Helvetica fonts, which every reader
+ * provides, so nothing has to be embedded. Text is limited to the WinAnsi character set;
+ * anything else is replaced with "?".
+ */
+export function renderPdf(doc: ExportDocument): Uint8Array {
+  const pages: Line[][] = doc.sections.flatMap((section) => paginate(layoutSection(section)));
+
+  // Objects 1-4 are fixed; each page adds a page object and its content stream
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+
+  for (const [index, lines] of pages.entries()) {
+    const content = renderPage(lines);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  }
+
+  // Every character is a single byte (see toWinAnsi), so string offsets are byte offsets
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info << /Title ${pdfString(doc.title)} >> >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function layoutSection(section: ExportSection): Line[] {
+  const lines: Line[] = [];
+  const add = (text: string, font: Font, size: number, leading: number, options: Partial<Line> = {}) => {
+    const x = options.x ?? MARGIN;
+    wrapText(text, font, size, MARGIN + CONTENT_WIDTH - x).forEach((wrapped, index) => {
+      lines.push({
+        text: wrapped,
+        font,
+        size,
+        x,
+        leading: index === 0 ? leading : size * 1.25,
+        rule: options.rule && index === 0,
+        bullet: options.bullet && index === 0,
+      });
+    });
+  };
+
+  if (section.contact) {
+    add(section.contact.name, "bold", 20, 20, { x: centered(section.contact.name, "bold", 20) });
+    const details = section.contact.details.join("  |  ");
+    if (details) add(details, "regular", 10, 16, { x: centered(details, "regular", 10) });
+  } else {
+    add(section.title, "bold", 18, 18);
+  }
+
+  for (const block of section.blocks) {
+    addBlock(block, add);
+  }
+
+  return lines;
+}
+
+function addBlock(
+  block: DocBlock,
+  add: (text: string, font: Font, size: number, leading: number, options?: Partial<Line>) => void
+) {
+  switch (block.type) {
+    case "heading":
+      if (block.level === 1) {
+        add(block.text, "bold", 13, 26, { rule: true });
+      } else {
+        add(block.text, "bold", 11, 18);
+      }
+      break;
+    case "bullet":
+      add(block.text, "regular", 11, 15, { x: MARGIN + BULLET_INDENT, bullet: true });
+      break;
+    case "paragraph":
+      add(block.text, "regular", 11, 18);
+      break;
+  }
+}
+
+// Splits lines into pages, keeping headings with the line that follows them
+function paginate(lines: Line[]): Line[][] {
+  const pages: Line[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach((line, index) => {
+    const next = lines[index + 1];
+    const needed = line.leading + (line.rule && next ? next.leading : 0);
+    const page = pages[pages.length - 1];
+
+    if (page.length > 0 && y - needed < MARGIN) {
+      pages.push([{ ...line, leading: line.size }]);
+      y = PAGE_HEIGHT - MARGIN - line.size;
+      return;
+    }
+
+    page.push(page.length === 0 ? { ...line, leading: line.size } : line);
+    y -= page.length === 1 ? line.size : line.leading;
+  });
+
+  return pages;
+}
+
+function renderPage(lines: Line[]): string {
+  const ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    y -= line.leading;
+    const font = line.font === "bold" ? "F2" : "F1";
+
+    if (line.bullet) {
+      ops.push(`BT /F1 ${line.size} Tf ${line.x - BULLET_INDENT + 4} ${y} Td ${pdfString("•")} Tj ET`);
+    }
+    ops.push(`BT /${font} ${line.size} Tf ${round(line.x)} ${y} Td ${pdfString(line.text)} Tj ET`);
+    if (line.rule) {
+      ops.push(`0.6 G 0.5 w ${MARGIN} ${y - 4} m ${MARGIN + CONTENT_WIDTH} ${y - 4} l S 0 G`);
+    }
+  }
+
+  return ops.join("\n");
+}
+
+function wrapText(text: string, font: Font, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+
+    // Words longer than a line (URLs) are broken by character
+    current = "";
+    for (const char of word) {
+      if (current && textWidth(current + char, font, size) > maxWidth) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines.length > 0 ? lines : [""];
+}
+
+// Bold glyphs are a little wider; 8% over-estimates slightly so lines never overflow
+function textWidth(text: string, font: Font, size: number): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units * size * (font === "bold" ? 1.08 : 1)) / 1000;
+}
+
+function centered(text: string, font: Font, size: number): number {
+  return MARGIN + Math.max(0, (CONTENT_WIDTH - textWidth(text, font, size)) / 2);
+}
+
+function pdfString(text: string): string {
+  return `(${toWinAnsi(text).replace(/[\\()]/g, "\\$&")})`;
+}
+
+// Maps text to single-byte WinAnsi characters
+function toWinAnsi(text: string): string {
+  let result = "";
+  for (const char of text.normalize("NFC")) {
+    const code = char.charCodeAt(0);
+    if (WIN_ANSI_EXTRAS[char]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      result += char;
+    } else if (char === "\t") {
+      result += " ";
+    } else {
+      result += "?";
+    }
+  }
+  return result;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,149 @@
+import { createMiddleware } from "hono/factory";
+import type { Context } from "hono";
+import { apiError } from "./errors";
+import type { AuthVariables } from "./auth";
+import type { Env } from "../types";
+
+// Routes that call the model, grouped by how expensive one request is, and token
+// issuance, which creates a new user each time
+export const RATE_LIMITED_ACTIONS = ["chat", "workflow", "token"] as const;
+
+export type RateLimitedAction = typeof RATE_LIMITED_ACTIONS[number];
+
+export type RateLimitScope = "user" | "ip";
+
+// Token bucket: up to `capacity` requests at once, refilled continuously
+export interface BucketRule {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+// An action is only limited in the scopes it has a rule for
+export type RateLimits = Record<RateLimitedAction, Partial<Record<RateLimitScope, BucketRule>>>;
+
+export interface RateLimitConfig {
+  limits: RateLimits;
+  // Model tokens a user may spend per UTC day; 0 disables the budget
+  dailyTokenBudget: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  chat: {
+    user: { capacity: 20, refillPerMinute: 10 },
+    ip: { capacity: 60, refillPerMinute: 30 },
+  },
+  // A workflow makes up to five model calls, so only a few can start back to back
+  workflow: {
+    user: { capacity: 3, refillPerMinute: 0.1 },
+    ip: { capacity: 10, refillPerMinute: 0.5 },
+  },
+  // Each new user gets full buckets of their own, so issuing them is limited per IP
+  token: {
+    ip: { capacity: 5, refillPerMinute: 0.2 },
+  },
+};
+
+export const DEFAULT_DAILY_TOKEN_BUDGET = 200_000;
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Seconds until the request would be allowed
+  retryAfter?: number;
+  reason?: "rate" | "budget";
+}
+
+/**
+ * Reads the limits from the environment. RATE_LIMITS is JSON overriding any of the
+ * default rules, e.g. {"workflow":{"user":{"capacity":5,"refillPerMinute":0.2}}};
+ * DAILY_TOKEN_BUDGET is a number. Invalid values fall back to the defaults.
+ */
+export function getRateLimitConfig(env: Pick<Env, "RATE_LIMITS" | "DAILY_TOKEN_BUDGET">): RateLimitConfig {
+  const limits = structuredClone(DEFAULT_RATE_LIMITS);
+
+  if (env.RATE_LIMITS) {
+    try {
+      const overrides = JSON.parse(env.RATE_LIMITS) as Partial<Record<RateLimitedAction, Partial<Record<RateLimitScope, Partial<BucketRule>>>>>;
+      for (const action of RATE_LIMITED_ACTIONS) {
+        for (const scope of ["user", "ip"] as const) {
+          if (!limits[action][scope]) continue;
+          const rule = { ...limits[action][scope], ...overrides[action]?.[scope] };
+          if (isValidRule(rule)) limits[action][scope] = rule;
+        }
+      }
+    } catch (error) {
+      console.error("Ignoring invalid RATE_LIMITS:", error);
+    }
+  }
+
+  const budget = Number(env.DAILY_TOKEN_BUDGET);
+  const dailyTokenBudget = env.DAILY_TOKEN_BUDGET !== undefined && Number.isFinite(budget) && budget >= 0
+    ? budget
+    : DEFAULT_DAILY_TOKEN_BUDGET;
+
+  return { limits, dailyTokenBudget };
+}
+
+/**
+ * Limits the route per user and per client IP, and stops model calls once the user's
+ * daily token budget is spent. Rejected requests get 429 with a Retry-After header.
+ * Runs after requireAuth, except for token issuance, which has no user and is only
+ * limited per IP. If the limiter itself fails the request is let through.
+ */
+export function rateLimit(action: RateLimitedAction) {
+  return createMiddleware<{ Bindings: Env; Variables: AuthVariables }>(async (c, next) => {
+    const limited = await enforceRateLimit(c, action);
+    if (limited) return limited;
+
+    await next();
+  });
+}
+
+/**
+ * The check behind rateLimit(), for routes that only know the cost of a request once
+ * they have read it. Returns the 429 response when the request is over a limit.
+ */
+export async function enforceRateLimit<E extends { Bindings: Env; Variables: AuthVariables }>(
+  c: Context<E>,
+  action: RateLimitedAction
+): Promise<Response | undefined> {
+  const rules = DEFAULT_RATE_LIMITS[action];
+  const userId = c.get("userId");
+  const ip = c.req.header("CF-Connecting-IP");
+  // The user's own bucket first, so a user who is over their limit doesn't also use up
+  // requests shared with everyone behind the same IP
+  const checks: { key: string; scope: RateLimitScope }[] = [
+    ...(rules.user && userId ? [{ key: `user:${userId}`, scope: "user" as const }] : []),
+    ...(rules.ip && ip ? [{ key: `ip:${ip}`, scope: "ip" as const }] : []),
+  ];
+
+  for (const { key, scope } of checks) {
+    let decision: RateLimitDecision;
+    try {
+      const limiterStub = c.env.RATE_LIMITER.get(c.env.RATE_LIMITER.idFromName(key));
+      const response = await limiterStub.fetch(`http://do/consume`, {
+        method: "POST",
+        body: JSON.stringify({ action, scope }),
+      });
+      decision = await response.json();
+    } catch (error) {
+      console.error("Rate limiter unavailable:", error);
+      return undefined;
+    }
+
+    if (!decision.allowed) {
+      c.header("Retry-After", String(decision.retryAfter ?? 60));
+      const overBudget = decision.reason === "budget";
+      return apiError(c, 429, overBudget ? "Daily AI usage budget reached" : "Too many requests, please slow down", {
+        code: overBudget ? "budget_exceeded" : "rate_limited",
+        details: { retryAfter: decision.retryAfter },
+      });
+    }
+  }
+
+  return undefined;
+}
+
+function isValidRule(rule: Partial<BucketRule>): rule is BucketRule {
+  return typeof rule.capacity === "number" && rule.capacity >= 1
+    && typeof rule.refillPerMinute === "number" && rule.refillPerMinute > 0;
+}
@@ -0,0 +1,246 @@
+import { array, boolean, integer, object, oneOf, optional, string, unknown, type OptionalSchema } from "./schema";
+import { DELIVERABLES, type Deliverable } from "../workflows/JobApplicationWorkflow";
+import { RESUME_SOURCES } from "../durable-objects/ResumeLibrary";
+import { APPLICATION_STATUSES } from "../durable-objects/ApplicationTracker";
+import { MAX_QUESTION_COUNT, QUESTION_KINDS } from "./mockInterview";
+import { COVER_LETTER_TONES } from "./applicationDocuments";
+import { CLAIM_KINDS, MAX_UNVERIFIED_CLAIMS } from "./resumeVerification";
+import { MAX_GAPS } from "./matchReport";
+import { LANGUAGES, LANGUAGE_SETTINGS } from "./language";
+
+// Size limits for request fields, in characters. A long resume is ~15,000 characters;
+// the limits leave room while keeping prompts within the model's context window.
+export const REQUEST_LIMITS = {
+  id: 128,
+  title: 200,
+  message: 8_000,
+  instructions: 2_000,
+  jobDescription: 30_000,
+  resumeText: 50_000,
+  // Messages per history request
+  historyMessages: 500,
+  // Whole request bodies, in bytes
+  body: 512 * 1024,
+  // Uploaded resume files, in bytes
+  upload: 5 * 1024 * 1024,
+  url: 2_048,
+} as const;
+
+const id = () => string({ max: REQUEST_LIMITS.id });
+
+// Older clients still send their userId; it is accepted but the token decides the user
+const legacyUserId = optional(string({ min: 0, max: REQUEST_LIMITS.id }));
+
+export const tokenRequestSchema = object({
+  userId: optional(id()),
+});
+
+export const chatRequestSchema = object({
+  message: string({ max: REQUEST_LIMITS.message }),
+  sessionId: id(),
+  userId: legacyUserId,
+});
+
+// Empty strings are allowed so a field can be cleared
+const jobContextFields = {
+  jobTitle: optional(string({ min: 0, max: REQUEST_LIMITS.title })),
+  company: optional(string({ min: 0, max: REQUEST_LIMITS.title })),
+  jobDescription: optional(string({ min: 0, max: REQUEST_LIMITS.jobDescription })),
+  resumeText: optional(string({ min: 0, max: REQUEST_LIMITS.resumeText })),
+};
+
+// Either { jobContext: {...} } or the context fields at the top level
+export const contextRequestSchema = object({
+  jobContext: optional(object(jobContextFields)),
+  ...jobContextFields,
+  // Language of the session's replies
+  language: optional(oneOf(LANGUAGE_SETTINGS)),
+  userId: legacyUserId,
+});
+
+const document = () => optional(string({ min: 0, max: REQUEST_LIMITS.resumeText }));
+
+// Keywords and skill names, as a match report lists them
+const terms = () => array(string({ max: REQUEST_LIMITS.title }), { max: 200 });
+const skillCoverage = () => optional(object({ matched: terms(), missing: terms() }));
+
+// Mirrors MatchReport in lib/matchReport
+const matchReportSchema = object({
+  score: integer({ min: 0, max: 100 }),
+  matchedKeywords: terms(),
+  missingKeywords: terms(),
+  requiredSkills: skillCoverage(),
+  niceToHaveSkills: skillCoverage(),
+  gaps: array(object({
+    skill: string({ max: REQUEST_LIMITS.title }),
+    suggestion: string({ max: REQUEST_LIMITS.message }),
+  }), { max: MAX_GAPS }),
+});
+
+// Mirrors CoverLetterReview in lib/applicationDocuments
+const coverLetterReviewSchema = object({
+  wordCount: integer({ min: 0 }),
+  wordRange: optional(object({ min: integer({ min: 0 }), max: integer({ min: 0 }) })),
+  placeholders: array(string({ max: REQUEST_LIMITS.title }), { max: 100 }),
+  issues: array(string({ max: REQUEST_LIMITS.message }), { max: 20 }),
+});
+
+// Outputs of a workflow run, passed back to reuse them or kept with a tracked application
+const workflowResultFields = {
+  // Checked against the job analysis schema by the route
+  analysis: optional(unknown()),
+  match: optional(matchReportSchema),
+  tailoredResume: document(),
+  // Kept with a reused tailored resume rather than checked again
+  unverifiedClaims: optional(array(object({
+    kind: oneOf(CLAIM_KINDS),
+    text: string({ max: REQUEST_LIMITS.message }),
+    line: string({ min: 0, max: REQUEST_LIMITS.message }),
+    reason: optional(string({ max: REQUEST_LIMITS.message })),
+  }), { max: MAX_UNVERIFIED_CLAIMS })),
+  coverLetter: document(),
+  interviewTips: document(),
+  // A translation is reused when the run's language is still the same
+  language: optional(oneOf(LANGUAGES)),
+  translatedResume: document(),
+};
+
+export const workflowRequestSchema = object({
+  jobTitle: string({ max: REQUEST_LIMITS.title }),
+  company: string({ max: REQUEST_LIMITS.title }),
+  jobDescription: string({ max: REQUEST_LIMITS.jobDescription }),
+  // Either the resume itself or the ID of a version in the user's resume library
+  resumeText: optional(string({ max: REQUEST_LIMITS.resumeText })),
+  resumeId: optional(id()),
+  // Use the user's structured resume profile instead
+  useProfile: optional(boolean()),
+  deliverables: optional(array(oneOf(DELIVERABLES), { min: 1, max: DELIVERABLES.length })),
+  previousResults: optional(object(workflowResultFields)),
+  instructions: optional(object(Object.fromEntries(
+    DELIVERABLES.map((deliverable) => [deliverable, optional(string({ min: 0, max: REQUEST_LIMITS.instructions }))])
+  ) as Record<Deliverable, OptionalSchema<string>>)),
+  coverLetterPreferences: optional(object({
+    tone: optional(oneOf(COVER_LETTER_TONES)),
+    wordTarget: optional(integer({ min: 100, max: 1_000 })),
+    onePage: optional(boolean()),
+    highlights: optional(array(string({ max: REQUEST_LIMITS.title }), { max: 10 })),
+    hiringManager: optional(string({ max: REQUEST_LIMITS.title })),
+  })),
+  language: optional(oneOf(LANGUAGE_SETTINGS)),
+  translateResume: optional(boolean()),
+  userId: legacyUserId,
+});
+
+export const matchRequestSchema = object({
+  resumeText: string({ max: REQUEST_LIMITS.resumeText }),
+  jobDescription: string({ max: REQUEST_LIMITS.jobDescription }),
+  // Checked against the job analysis schema by the route
+  analysis: optional(unknown()),
+  includeSuggestions: optional(boolean()),
+});
+
+const applicationFields = {
+  jobDescription: optional(string({ min: 0, max: REQUEST_LIMITS.jobDescription })),
+  status: optional(oneOf(APPLICATION_STATUSES)),
+  // The cover letter's review is kept too, as shown when the application was saved
+  artifacts: optional(object({ ...workflowResultFields, coverLetterReview: optional(coverLetterReviewSchema) })),
+  workflowId: optional(id()),
+  notes: optional(string({ min: 0, max: REQUEST_LIMITS.instructions })),
+};
+
+export const applicationRequestSchema = object({
+  company: string({ max: REQUEST_LIMITS.title }),
+  jobTitle: string({ max: REQUEST_LIMITS.title }),
+  ...applicationFields,
+});
+
+export const applicationUpdateSchema = object({
+  company: optional(string({ max: REQUEST_LIMITS.title })),
+  jobTitle: optional(string({ max: REQUEST_LIMITS.title })),
+  ...applicationFields,
+});
+
+export const resumeRequestSchema = object({
+  name: string({ max: REQUEST_LIMITS.title }),
+  text: string({ max: REQUEST_LIMITS.resumeText }),
+  source: optional(oneOf(RESUME_SOURCES)),
+  parentId: optional(id()),
+  workflowId: optional(id()),
+});
+
+export const resumeRenameRequestSchema = object({
+  name: string({ max: REQUEST_LIMITS.title }),
+});
+
+const line = () => string({ max: REQUEST_LIMITS.title });
+const optionalLine = () => optional(string({ min: 0, max: REQUEST_LIMITS.title }));
+const paragraphs = (max: number) => array(string({ max: REQUEST_LIMITS.instructions }), { max });
+
+// A resume profile as edited by the user; mirrors ResumeProfile in lib/resumeProfile
+export const resumeProfileSchema = object({
+  contact: object({
+    name: line(),
+    email: optionalLine(),
+    phone: optionalLine(),
+    location: optionalLine(),
+    links: array(line(), { max: 10 }),
+  }),
+  summary: string({ min: 0, max: REQUEST_LIMITS.instructions }),
+  experience: array(object({
+    title: line(),
+    company: line(),
+    location: optionalLine(),
+    startDate: optionalLine(),
+    endDate: optionalLine(),
+    bullets: paragraphs(30),
+  }), { max: 50 }),
+  education: array(object({
+    institution: line(),
+    degree: optionalLine(),
+    field: optionalLine(),
+    startDate: optionalLine(),
+    endDate: optionalLine(),
+    details: paragraphs(20),
+  }), { max: 20 }),
+  skills: array(line(), { max: 200 }),
+  certifications: array(object({
+    name: line(),
+    issuer: optionalLine(),
+    date: optionalLine(),
+  }), { max: 50 }),
+  // The library version it was parsed from, kept across edits
+  sourceResumeId: optional(id()),
+});
+
+// Either resume text or the ID of a version in the user's resume library
+export const resumeParseRequestSchema = object({
+  text: optional(string({ max: REQUEST_LIMITS.resumeText })),
+  resumeId: optional(id()),
+});
+
+export const resumeDiffRequestSchema = object({
+  // The resume the workflow was given: its text, or the user's structured profile
+  resumeText: optional(string({ max: REQUEST_LIMITS.resumeText })),
+  useProfile: optional(boolean()),
+  tailoredResume: string({ max: REQUEST_LIMITS.resumeText }),
+});
+
+export const interviewStartRequestSchema = object({
+  questionCount: optional(integer({ min: 1, max: MAX_QUESTION_COUNT })),
+  // Limits the interview to some kinds of question; all of them by default
+  kinds: optional(array(oneOf(QUESTION_KINDS), { min: 1, max: QUESTION_KINDS.length })),
+});
+
+export const interviewAnswerRequestSchema = object({
+  answer: string({ max: REQUEST_LIMITS.message }),
+});
+
+export const sessionRenameRequestSchema = object({
+  title: string({ max: REQUEST_LIMITS.title }),
+});
+
+// A job page as pasted HTML, or its URL to fetch
+export const jobIngestRequestSchema = object({
+  html: optional(string({ max: REQUEST_LIMITS.body })),
+  url: optional(string({ max: REQUEST_LIMITS.url })),
+});
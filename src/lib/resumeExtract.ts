@@ -0,0 +1,286 @@
+import { readZip } from "./zip";
+
+// Formats read on the server. PDFs are read in the browser with PDF.js, which handles
+// their fonts and layout far better than we could here.
+export const RESUME_UPLOAD_FORMATS = {
+  docx: {
+    label: "DOCX",
+    extensions: ["docx"],
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  },
+  txt: { label: "TXT", extensions: ["txt", "text"], mimeTypes: ["text/plain"] },
+  md: { label: "Markdown", extensions: ["md", "markdown"], mimeTypes: ["text/markdown", "text/x-markdown"] },
+  rtf: { label: "RTF", extensions: ["rtf"], mimeTypes: ["application/rtf", "text/rtf"] },
+} as const;
+
+export type ResumeUploadFormat = keyof typeof RESUME_UPLOAD_FORMATS;
+
+/**
+ * Picks the format from the file extension, falling back to the MIME type for files
+ * without one. Returns undefined for anything we can't read.
+ */
+export function detectResumeFormat(fileName: string, mimeType = ""): ResumeUploadFormat | undefined {
+  const formats = Object.entries(RESUME_UPLOAD_FORMATS) as [ResumeUploadFormat, typeof RESUME_UPLOAD_FORMATS[ResumeUploadFormat]][];
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+
+  if (extension) {
+    return formats.find(([, format]) => (format.extensions as readonly string[]).includes(extension))?.[0];
+  }
+  return formats.find(([, format]) => (format.mimeTypes as readonly string[]).includes(type))?.[0];
+}
+
+/**
+ * Whether an upload is a PDF, which the app reads in the browser rather than sending here,
+ * so the rejection can say so instead of listing PDF among the other formats.
+ */
+export function isPdfUpload(fileName: string, mimeType = ""): boolean {
+  return /\.pdf$/i.test(fileName) || mimeType.split(";")[0].trim().toLowerCase() === "application/pdf";
+}
+
+/**
+ * Extracts the plain text of an uploaded resume, keeping its paragraphs and list items
+ * on separate lines. Files that turn out not to be what their extension says, or that
+ * contain no text, are reported in `error`.
+ */
+export async function extractResumeText(data: Uint8Array, format: ResumeUploadFormat): Promise<{ text: string } | { error: string }> {
+  let text: string;
+
+  switch (format) {
+    case "docx": {
+      // ZIP archives start with "PK"
+      if (data[0] !== 0x50 || data[1] !== 0x4b) {
+        return { error: "The file is not a valid DOCX document. Older .doc files need to be saved as .docx first." };
+      }
+      try {
+        text = await extractDocxText(data);
+      } catch (error) {
+        console.warn("DOCX extraction failed:", error);
+        return { error: "The DOCX file could not be read. It may be damaged or password-protected." };
+      }
+      break;
+    }
+    case "rtf": {
+      const source = decodeText(data);
+      if (!source.trimStart().startsWith("{\\rtf")) {
+        return { error: "The file is not a valid RTF document." };
+      }
+      text = extractRtfText(source);
+      break;
+    }
+    case "txt":
+    case "md":
+      text = decodeText(data);
+      break;
+  }
+
+  text = normalizeText(text);
+  if (!text) {
+    return { error: "No text was found in the file." };
+  }
+  return { text };
+}
+
+/**
+ * Reads the body of a Word document, plus its page headers, where resumes often keep
+ * the name and contact details. List paragraphs are prefixed with "- " and tracked
+ * deletions and field codes are skipped.
+ */
+export async function extractDocxText(data: Uint8Array): Promise<string> {
+  const isText = (name: string) => name === "word/document.xml" || /^word\/header\d*\.xml$/.test(name);
+  const entries = await readZip(data, isText);
+
+  const body = entries.find((entry) => entry.name === "word/document.xml");
+  if (!body) throw new Error("word/document.xml is missing");
+
+  const decoder = new TextDecoder();
+  // A header is usually repeated for the first and following pages
+  const headerLines = new Set(
+    entries
+      .filter((entry) => entry !== body)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap((entry) => wordXmlParagraphs(decoder.decode(entry.data)))
+      .filter((line) => line.trim())
+  );
+
+  return [...headerLines, ...wordXmlParagraphs(decoder.decode(body.data))].join("\n");
+}
+
+function wordXmlParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  // Paragraphs nest when a text box sits inside one, so keep a stack
+  const open: string[] = [];
+  let inText = false;
+  // Tab stops are declared with <w:tab> inside the paragraph properties
+  let inProperties = false;
+
+  const markListItem = (index: number) => {
+    if (index >= 0 && !open[index].startsWith("- ")) open[index] = `- ${open[index]}`;
+  };
+
+  for (const match of xml.matchAll(/<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const [, closing, tag, attributes, selfClosing, content] = match;
+
+    if (content !== undefined) {
+      if (inText && open.length > 0) open[open.length - 1] += decodeXmlEntities(content);
+      continue;
+    }
+
+    const current = open.length - 1;
+    switch (tag) {
+      case "w:p":
+        if (selfClosing) paragraphs.push("");
+        else if (closing) paragraphs.push(open.pop() ?? "");
+        else open.push("");
+        break;
+      case "w:t":
+        inText = !closing && !selfClosing;
+        break;
+      case "w:pPr":
+        inProperties = !closing && !selfClosing;
+        break;
+      case "w:numPr":
+        if (!closing) markListItem(current);
+        break;
+      case "w:pStyle":
+        if (/w:val="List/i.test(attributes)) markListItem(current);
+        break;
+      case "w:tab":
+        if (current >= 0 && !closing && !inProperties) open[current] += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        if (current >= 0 && !closing) open[current] += "\n";
+        break;
+      case "w:noBreakHyphen":
+        if (current >= 0) open[current] += "-";
+        break;
+    }
+  }
+
+  return paragraphs;
+}
+
+// RTF destinations that hold formatting tables, metadata or binary data rather than text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "fldinst", "listtable",
+  "listoverridetable", "rsidtbl", "generator", "xmlnstbl", "themedata", "colorschememapping",
+  "datastore", "latentstyles", "revtbl", "filetbl", "footnote", "footer", "footerl", "footerr", "footerf",
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n", line: "\n", sect: "\n", page: "\n", row: "\n", cell: "\t", tab: "\t",
+  emdash: "—", endash: "–", bullet: "•", lquote: "‘", rquote: "’",
+  ldblquote: "“", rdblquote: "”", emspace: " ", enspace: " ", qmspace: " ",
+};
+
+/**
+ * Converts RTF to plain text: paragraphs become lines, \u escapes and Windows-1252
+ * \'hh bytes are decoded, and font tables, pictures and similar groups are dropped.
+ */
+export function extractRtfText(rtf: string): string {
+  // Each group inherits whether it is skipped and how many fallback characters follow \u
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let state = { skip: false, unicodeSkip: 1 };
+  let pendingSkip = 0;
+  let groupStart = false;
+  let text = "";
+
+  const emit = (value: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) text += value;
+  };
+
+  const token = /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|([\r\n]+)|([^\\{}\r\n]+)/g;
+  for (const match of rtf.matchAll(token)) {
+    const [, word, param, hex, symbol, brace, , plain] = match;
+    const atGroupStart = groupStart;
+    groupStart = false;
+
+    if (brace === "{") {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      pendingSkip = 0;
+    } else if (brace === "}") {
+      state = stack.pop() ?? state;
+      pendingSkip = 0;
+    } else if (word) {
+      if (atGroupStart && RTF_SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+      } else if (word === "uc") {
+        state.unicodeSkip = Number(param ?? 1);
+      } else if (word === "u" && param !== undefined) {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = state.unicodeSkip;
+      } else if (Object.hasOwn(RTF_SYMBOLS, word)) {
+        emit(RTF_SYMBOLS[word]);
+      }
+    } else if (hex) {
+      emit(decodeWindows1252(parseInt(hex, 16)));
+    } else if (symbol) {
+      if (symbol === "*") {
+        // {\* ...} marks a destination readers may ignore
+        state.skip = true;
+      } else if (symbol === "\n" || symbol === "\r") {
+        emit("\n");
+      } else if (symbol === "~") {
+        emit(" ");
+      } else if (symbol === "_") {
+        emit("-");
+      } else if (symbol === "\\" || symbol === "{" || symbol === "}") {
+        emit(symbol);
+      }
+      // \- (optional hyphen) and other control symbols produce no text
+    } else if (plain) {
+      // One character at a time, so the fallback after a \u escape is skipped
+      for (const char of plain) emit(char);
+    }
+  }
+
+  return text;
+}
+
+// Code points for Windows-1252 bytes 0x80-0x9f; the rest of the range matches Latin-1
+const WINDOWS_1252 = "€�‚ƒ„…†‡ˆ‰Š‹Œ�Ž��‘’“”•–—˜™š›œ�žŸ";
+
+function decodeWindows1252(byte: number): string {
+  return byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252[byte - 0x80] : String.fromCharCode(byte);
+}
+
+// UTF-8 (with or without a byte order mark), falling back to Windows-1252 for files
+// saved by older editors
+function decodeText(data: Uint8Array): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(data);
+  } catch {
+    return Array.from(data, decodeWindows1252).join("");
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(?:#x([0-9a-f]+)|#(\d+)|(amp|lt|gt|quot|apos));/gi, (entity, hex, decimal, name) => {
+    if (hex || decimal) {
+      const code = hex ? parseInt(hex, 16) : Number(decimal);
+      // Numbers past the last code point are left as written
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[(name as string).toLowerCase()]!;
+  });
+}
+
+// Unix line endings, no trailing spaces and at most one blank line in a row
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\u00a0/g, " ")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
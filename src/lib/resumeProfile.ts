@@ -0,0 +1,287 @@
+import { parseModelJson } from "./modelJson";
+import { extractContactHeader } from "./documentExport";
+import type { LLMClient, LLMMessage } from "./llm";
+
+export interface ResumeContact {
+  name: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  // Portfolio, LinkedIn, GitHub and similar URLs
+  links: string[];
+}
+
+// Dates are kept as written ("Mar 2021", "2019"); endDate is "Present" for current roles
+export interface ExperienceEntry {
+  title: string;
+  company: string;
+  location?: string;
+  startDate?: string;
+  endDate?: string;
+  bullets: string[];
+}
+
+export interface EducationEntry {
+  institution: string;
+  degree?: string;
+  field?: string;
+  startDate?: string;
+  endDate?: string;
+  // Honours, GPA, relevant coursework
+  details: string[];
+}
+
+export interface Certification {
+  name: string;
+  issuer?: string;
+  date?: string;
+}
+
+export interface ResumeProfile {
+  contact: ResumeContact;
+  summary: string;
+  experience: ExperienceEntry[];
+  education: EducationEntry[];
+  skills: string[];
+  certifications: Certification[];
+}
+
+// A user's profile as stored, with the library version it was parsed from
+export interface StoredResumeProfile extends ResumeProfile {
+  sourceResumeId?: string;
+  updatedAt: number;
+}
+
+// Resumes beyond this are cut before parsing; even long CVs fit well within it
+const MAX_RESUME_CHARS = 20_000;
+
+const text = { type: "string" };
+const stringList = { type: "array", items: text };
+
+// Passed to the model's JSON mode and mirrored by validateResumeProfile. Optional fields
+// are empty strings when the resume doesn't have them.
+export const RESUME_PROFILE_SCHEMA = {
+  type: "object",
+  properties: {
+    contact: {
+      type: "object",
+      properties: { name: text, email: text, phone: text, location: text, links: stringList },
+      required: ["name", "email", "phone", "location", "links"],
+    },
+    summary: text,
+    experience: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { title: text, company: text, location: text, startDate: text, endDate: text, bullets: stringList },
+        required: ["title", "company", "location", "startDate", "endDate", "bullets"],
+      },
+    },
+    education: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { institution: text, degree: text, field: text, startDate: text, endDate: text, details: stringList },
+        required: ["institution", "degree", "field", "startDate", "endDate", "details"],
+      },
+    },
+    skills: stringList,
+    certifications: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { name: text, issuer: text, date: text },
+        required: ["name", "issuer", "date"],
+      },
+    },
+  },
+  required: ["contact", "summary", "experience", "education", "skills", "certifications"],
+};
+
+/**
+ * Checks a model response against the profile schema. Strings are trimmed, empty optional
+ * fields dropped and list items de-duplicated; a missing name is taken from the top of
+ * the resume when `resumeText` is given. Anything else is reported in `errors` so it can
+ * be fed back to the model.
+ */
+export function validateResumeProfile(raw: unknown, resumeText?: string): { profile?: ResumeProfile; errors: string[] } {
+  let input: Record<string, unknown>;
+  try {
+    input = parseModelJson(raw);
+  } catch (error) {
+    return { errors: [(error as Error).message] };
+  }
+
+  const errors: string[] = [];
+
+  const entries = (field: string) => {
+    const value = input[field];
+    if (!Array.isArray(value) || value.some((item) => !item || typeof item !== "object")) {
+      errors.push(`${field} must be an array of objects`);
+      return [];
+    }
+    return value as Record<string, unknown>[];
+  };
+
+  const list = (value: unknown, path: string) => {
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+      errors.push(`${path} must be an array of strings`);
+      return [];
+    }
+    return [...new Set((value as string[]).map((item) => item.trim()).filter(Boolean))];
+  };
+
+  const required = (value: unknown, path: string) => {
+    const trimmed = optionalText(value);
+    if (!trimmed) errors.push(`${path} must be a non-empty string`);
+    return trimmed ?? "";
+  };
+
+  const contact = (input.contact ?? {}) as Record<string, unknown>;
+  const name = optionalText(contact.name) ?? (resumeText ? extractContactHeader(resumeText)?.name : undefined);
+  if (!name) errors.push("contact.name must be a non-empty string");
+
+  const experience = entries("experience").map((entry, i): ExperienceEntry => compact({
+    title: required(entry.title, `experience[${i}].title`),
+    company: required(entry.company, `experience[${i}].company`),
+    location: optionalText(entry.location),
+    startDate: optionalText(entry.startDate),
+    endDate: optionalText(entry.endDate),
+    bullets: list(entry.bullets, `experience[${i}].bullets`),
+  }));
+
+  const education = entries("education").map((entry, i): EducationEntry => compact({
+    institution: required(entry.institution, `education[${i}].institution`),
+    degree: optionalText(entry.degree),
+    field: optionalText(entry.field),
+    startDate: optionalText(entry.startDate),
+    endDate: optionalText(entry.endDate),
+    details: list(entry.details, `education[${i}].details`),
+  }));
+
+  const certifications = entries("certifications").map((entry, i): Certification => compact({
+    name: required(entry.name, `certifications[${i}].name`),
+    issuer: optionalText(entry.issuer),
+    date: optionalText(entry.date),
+  }));
+
+  const profile: ResumeProfile = {
+    contact: compact({
+      name: name ?? "",
+      email: optionalText(contact.email),
+      phone: optionalText(contact.phone),
+      location: optionalText(contact.location),
+      links: contact.links === undefined ? [] : list(contact.links, "contact.links"),
+    }),
+    summary: optionalText(input.summary) ?? "",
+    experience,
+    education,
+    skills: list(input.skills, "skills"),
+    certifications,
+  };
+
+  return errors.length > 0 ? { errors } : { profile, errors: [] };
+}
+
+/**
+ * Parses resume text into a profile, re-prompting with the validation errors when the
+ * model returns something that doesn't match the schema.
+ */
+export async function parseResume(llm: LLMClient, resumeText: string, maxAttempts = 3): Promise<ResumeProfile> {
+  const messages: LLMMessage[] = [
+    {
+      role: "system",
+      content: `You extract resumes into a single JSON object only, no prose. It must have exactly these fields:
+- contact: { name, email, phone, location, links (URLs) }
+- summary: the resume's summary or objective, as written
+- experience: jobs, most recent first: { title, company, location, startDate, endDate, bullets }
+- education: { institution, degree, field, startDate, endDate, details }
+- skills: individual skills, tools and languages
+- certifications: { name, issuer, date }
+Copy the candidate's wording; don't summarize, improve or invent anything. Keep dates as written and use "Present" as the endDate of current roles. Use an empty string for anything the resume doesn't state and an empty list for missing sections. Text extracted from PDFs may have broken line wraps or merged columns; put each fact in the right field regardless.`,
+    },
+    { role: "user", content: `Extract this resume:\n\n${resumeText.trim().slice(0, MAX_RESUME_CHARS)}` },
+  ];
+
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { text } = await llm.complete({
+      task: "analysis",
+      messages: [...messages],
+      maxTokens: 4096,
+      temperature: 0.1,
+      json: { name: "resume_profile", schema: RESUME_PROFILE_SCHEMA },
+    });
+
+    const { profile, errors } = validateResumeProfile(text, resumeText);
+    if (profile) return profile;
+
+    lastErrors = errors;
+    console.warn(`Resume parsing attempt ${attempt} was invalid:`, errors);
+
+    messages.push(
+      { role: "assistant", content: text },
+      { role: "user", content: `That response was invalid:\n- ${errors.join("\n- ")}\nReply again with only the corrected JSON object.` }
+    );
+  }
+
+  throw new Error(`Resume parsing failed validation after ${maxAttempts} attempts: ${lastErrors.join("; ")}`);
+}
+
+/**
+ * Renders the profile as plain resume text with one ALL CAPS heading per section, the
+ * layout the writing prompts and the document export expect.
+ */
+export function formatResumeProfile(profile: ResumeProfile): string {
+  const { contact } = profile;
+  const dates = (start?: string, end?: string) => [start, end].filter(Boolean).join(" - ");
+  const sections: string[] = [];
+
+  const contactLine = [contact.email, contact.phone, contact.location, ...contact.links].filter(Boolean).join(" | ");
+  sections.push([contact.name, contactLine].filter(Boolean).join("\n"));
+
+  if (profile.summary) {
+    sections.push(`SUMMARY\n${profile.summary}`);
+  }
+
+  if (profile.experience.length > 0) {
+    sections.push(`EXPERIENCE\n${profile.experience.map((job) => {
+      const heading = [`${job.title}, ${job.company}${job.location ? ` (${job.location})` : ""}`, dates(job.startDate, job.endDate)]
+        .filter(Boolean)
+        .join(" | ");
+      return [heading, ...job.bullets.map((bullet) => `- ${bullet}`)].join("\n");
+    }).join("\n\n")}`);
+  }
+
+  if (profile.education.length > 0) {
+    sections.push(`EDUCATION\n${profile.education.map((school) => {
+      const degree = [school.degree, school.field].filter(Boolean).join(" in ");
+      const heading = [[degree, school.institution].filter(Boolean).join(", "), dates(school.startDate, school.endDate)]
+        .filter(Boolean)
+        .join(" | ");
+      return [heading, ...school.details.map((detail) => `- ${detail}`)].join("\n");
+    }).join("\n\n")}`);
+  }
+
+  if (profile.skills.length > 0) {
+    sections.push(`SKILLS\n${profile.skills.join(", ")}`);
+  }
+
+  if (profile.certifications.length > 0) {
+    sections.push(["CERTIFICATIONS", ...profile.certifications.map((cert) =>
+      `- ${[cert.name, cert.issuer].filter(Boolean).join(", ")}${cert.date ? ` (${cert.date})` : ""}`
+    )].join("\n"));
+  }
+
+  return sections.join("\n\n");
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// Drops fields left undefined, so stored profiles only hold what the resume states
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
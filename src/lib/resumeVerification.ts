@@ -0,0 +1,198 @@
+import { parseModelJson } from "./modelJson";
+import { findSkills } from "./matchScore";
+import type { JobAnalysis } from "./jobAnalysis";
+import type { LLMClient } from "./llm";
+
+export const CLAIM_KINDS = ["entity", "date", "number", "skill"] as const;
+
+export type ClaimKind = (typeof CLAIM_KINDS)[number];
+
+// Something in the tailored resume that the original resume doesn't back up
+export interface UnverifiedClaim {
+  kind: ClaimKind;
+  // As written in the tailored resume, so the UI can highlight it
+  text: string;
+  // The tailored resume line it appears on
+  line: string;
+  // Why the model flagged it; only set for entities
+  reason?: string;
+}
+
+// Keeps the list reviewable; a resume with more than this needs rewriting, not a list
+export const MAX_UNVERIFIED_CLAIMS = 30;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const NUMBER_WORDS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen", "twenty",
+];
+
+const MULTIPLIERS: Record<string, number> = { k: 1e3, m: 1e6, mm: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9 };
+
+// "$1.2M", "40%", "3x", "12,000", "2.5 million"; years are matched separately as dates
+const NUMBER_PATTERN = /(?<![\w.])[$€£]?\d+(?:[.,]\d+)*(?:\s?(?:million|billion)\b|(?:k|m|mm|b|bn|x)\b|%|\+)?/gi;
+
+// "March 2021", "Mar. 2021", "03/2021" and bare years
+const DATE_PATTERN = /\b(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+|(?:0?[1-9]|1[0-2])\/)?(?:19|20)\d{2}\b/gi;
+
+const ENTITY_CLAIMS_SCHEMA = {
+  type: "object",
+  properties: {
+    claims: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          text: { type: "string" },
+          reason: { type: "string" },
+        },
+        required: ["text", "reason"],
+      },
+    },
+  },
+  required: ["claims"],
+};
+
+/**
+ * Deterministic half of the check: numbers and dates in the tailored resume that the
+ * original doesn't contain, and skills from the job analysis that it adds. Numbers are
+ * compared by value, so "$1.2M" matches "1,200,000" and "five" matches "5".
+ */
+export function findUnsupportedFacts(resumeText: string, tailoredResume: string, analysis?: JobAnalysis): UnverifiedClaim[] {
+  const knownNumbers = new Set([
+    ...[...resumeText.matchAll(NUMBER_PATTERN)].map(([match]) => numberValue(match)),
+    ...(resumeText.toLowerCase().match(/\b[a-z]+\b/g) ?? []).map((word) => NUMBER_WORDS.indexOf(word)).filter((n) => n >= 0),
+  ]);
+  const knownDates = new Set([...resumeText.matchAll(DATE_PATTERN)].flatMap(([match]) => dateKeys(match)));
+  const claims: UnverifiedClaim[] = [];
+
+  for (const line of tailoredResume.split("\n")) {
+    const dates = [...line.matchAll(DATE_PATTERN)];
+    for (const [match] of dates) {
+      if (dateKeys(match).some((key) => !knownDates.has(key))) {
+        claims.push({ kind: "date", text: match.trim(), line: line.trim() });
+      }
+    }
+
+    for (const number of line.matchAll(NUMBER_PATTERN)) {
+      // Years are part of a date, and a month number in "03/2021" isn't a figure
+      const start = number.index!;
+      const overlapsDate = dates.some((date) => start >= date.index! && start < date.index! + date[0].length);
+      if (overlapsDate || /^(?:19|20)\d{2}$/.test(number[0])) continue;
+
+      if (!knownNumbers.has(numberValue(number[0]))) {
+        claims.push({ kind: "number", text: number[0].trim(), line: line.trim() });
+      }
+    }
+  }
+
+  if (analysis) {
+    const jobSkills = [...analysis.requiredSkills, ...analysis.niceToHaveSkills];
+    const originalSkills = new Set(findSkills(resumeText, jobSkills));
+    for (const skill of findSkills(tailoredResume, jobSkills)) {
+      if (originalSkills.has(skill)) continue;
+      const line = tailoredResume.split("\n").find((l) => l.toLowerCase().includes(skill.toLowerCase()));
+      claims.push({ kind: "skill", text: skill, line: line?.trim() ?? "" });
+    }
+  }
+
+  return dedupeClaims(claims);
+}
+
+/**
+ * Asks the model for employers, schools, degrees, certifications and titles in the tailored
+ * resume that the original doesn't mention. Best-effort like the skill gap suggestions, and
+ * only claims that really are in the tailored resume and missing from the original are kept.
+ */
+export async function findUnsupportedEntities(
+  llm: LLMClient,
+  input: { resumeText: string; tailoredResume: string }
+): Promise<UnverifiedClaim[]> {
+  const { resumeText, tailoredResume } = input;
+
+  const prompt = `Compare a tailored resume with the original it was written from.
+
+Original resume:
+${resumeText}
+
+Tailored resume:
+${tailoredResume}
+
+List every employer, school, degree, certification, job title, award, product or project name in the tailored resume that the original resume does not support. Ignore rewording, reordering and summaries of what the original says; numbers, dates and skills are checked separately.
+Reply with a JSON object: { "claims": [{ "text": "exact wording from the tailored resume", "reason": "..." }] }`;
+
+  try {
+    const { text } = await llm.complete({
+      task: "analysis",
+      messages: [{ role: "user", content: prompt }],
+      maxTokens: 1024,
+      temperature: 0,
+      json: { name: "unsupported_claims", schema: ENTITY_CLAIMS_SCHEMA },
+    });
+
+    const { claims } = parseModelJson(text);
+    if (!Array.isArray(claims)) return [];
+
+    const original = resumeText.toLowerCase();
+    const lines = tailoredResume.split("\n");
+    return dedupeClaims(claims.flatMap((claim) => {
+      const claimText = typeof claim?.text === "string" ? claim.text.trim() : "";
+      if (!claimText || original.includes(claimText.toLowerCase())) return [];
+
+      const line = lines.find((l) => l.toLowerCase().includes(claimText.toLowerCase()));
+      if (line === undefined) return [];
+
+      const reason = typeof claim.reason === "string" && claim.reason.trim() ? claim.reason.trim() : undefined;
+      return [{ kind: "entity" as const, text: claimText, line: line.trim(), ...(reason && { reason }) }];
+    }));
+  } catch (error) {
+    console.error("Failed to check the tailored resume for unsupported entities:", error);
+    return [];
+  }
+}
+
+/**
+ * Flags what the tailored resume claims beyond the original: new entities, dates, numbers
+ * and skills, in that order.
+ */
+export async function verifyTailoredResume(
+  llm: LLMClient,
+  input: { resumeText: string; tailoredResume: string; analysis?: JobAnalysis }
+): Promise<UnverifiedClaim[]> {
+  const entities = await findUnsupportedEntities(llm, input);
+  const facts = findUnsupportedFacts(input.resumeText, input.tailoredResume, input.analysis);
+
+  return dedupeClaims([...entities, ...facts]).slice(0, MAX_UNVERIFIED_CLAIMS);
+}
+
+// Comparable value of a number as written: "$1.2M" -> 1200000, "40%" -> 40
+function numberValue(text: string): number {
+  const match = text.toLowerCase().match(/([\d.,]+)\s?([a-z]*)/);
+  if (!match) return NaN;
+
+  const [, digits, unit] = match;
+  // A comma followed by exactly three digits groups thousands; otherwise it's a decimal point
+  const normalized = /,\d{3}(?!\d)/.test(digits) ? digits.replace(/,/g, "") : digits.replace(",", ".");
+  return parseFloat(normalized) * (MULTIPLIERS[unit] ?? 1);
+}
+
+// A bare year only needs the year in the original; a month and year need that month too
+function dateKeys(text: string): string[] {
+  const year = text.match(/(?:19|20)\d{2}/)![0];
+  const monthName = text.toLowerCase().match(/^[a-z]{3}/)?.[0];
+  const monthNumber = text.match(/^(\d{1,2})\//)?.[1];
+  const month = monthName ? MONTHS.indexOf(monthName) + 1 : monthNumber ? Number(monthNumber) : undefined;
+
+  return month ? [year, `${month}/${year}`] : [year];
+}
+
+function dedupeClaims(claims: UnverifiedClaim[]): UnverifiedClaim[] {
+  const seen = new Set<string>();
+  return claims.filter((claim) => {
+    const key = `${claim.kind}:${claim.text.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,162 @@
+import { createMiddleware } from "hono/factory";
+import { apiError } from "./errors";
+
+/**
+ * Small typed schemas for request bodies. A schema checks an unknown value and returns
+ * either the typed value or every problem found, each naming the field's path (e.g.
+ * "deliverables[1] must be one of: ...").
+ */
+export type CheckResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface Schema<T> {
+  check(value: unknown, path: string): CheckResult<T>;
+}
+
+// Marks an object field that may be left out
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type ObjectOf<S extends Shape> = Simplify<
+  { [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]> }
+  & { [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Exclude<Infer<S[K]>, undefined> }
+>;
+
+const ok = <T>(value: T): CheckResult<T> => ({ ok: true, value });
+const fail = (path: string, problem: string): CheckResult<never> => ({ ok: false, errors: [`${path || "body"} ${problem}`] });
+
+/**
+ * A string, trimmed. `min` defaults to 1, so required strings can't be blank.
+ */
+export function string({ min = 1, max }: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    check(value, path) {
+      if (typeof value !== "string") return fail(path, "must be a string");
+      const trimmed = value.trim();
+      if (trimmed.length < min) return fail(path, min === 1 ? "is required" : `must be at least ${min} characters`);
+      if (max !== undefined && trimmed.length > max) return fail(path, `must be at most ${max} characters`);
+      return ok(trimmed);
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check(value, path) {
+      return typeof value === "boolean" ? ok(value) : fail(path, "must be true or false");
+    },
+  };
+}
+
+export function integer({ min, max }: { min?: number; max?: number } = {}): Schema<number> {
+  return {
+    check(value, path) {
+      if (typeof value !== "number" || !Number.isInteger(value)) return fail(path, "must be a whole number");
+      if (min !== undefined && value < min) return fail(path, `must be at least ${min}`);
+      if (max !== undefined && value > max) return fail(path, `must be at most ${max}`);
+      return ok(value);
+    },
+  };
+}
+
+export function oneOf<const T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    check(value, path) {
+      return values.includes(value as T) ? ok(value as T) : fail(path, `must be one of: ${values.join(", ")}`);
+    },
+  };
+}
+
+// Accepts any value; for fields checked further by their own validator
+export function unknown(): Schema<unknown> {
+  return { check: (value) => ok(value) };
+}
+
+export function array<T>(item: Schema<T>, { min = 0, max }: { min?: number; max?: number } = {}): Schema<T[]> {
+  return {
+    check(value, path) {
+      if (!Array.isArray(value)) return fail(path, "must be a list");
+      if (value.length < min) return fail(path, `must have at least ${min} item${min === 1 ? "" : "s"}`);
+      if (max !== undefined && value.length > max) return fail(path, `must have at most ${max} items`);
+
+      const items: T[] = [];
+      const errors: string[] = [];
+      value.forEach((element, i) => {
+        const result = item.check(element, `${path}[${i}]`);
+        if (result.ok) items.push(result.value);
+        else errors.push(...result.errors);
+      });
+      return errors.length > 0 ? { ok: false, errors } : ok(items);
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    check(value, path) {
+      return value === undefined || value === null ? ok(undefined) : schema.check(value, path);
+    },
+  };
+}
+
+/**
+ * An object with exactly the fields in `shape`; any other field is reported.
+ */
+export function object<S extends Shape>(shape: S): Schema<ObjectOf<S>> {
+  return {
+    check(value, path) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return fail(path, "must be a JSON object");
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const errors: string[] = [];
+
+      for (const key of Object.keys(input)) {
+        if (!(key in shape)) errors.push(`${path ? `${path}.` : ""}${key} is not an allowed field`);
+      }
+      for (const [key, schema] of Object.entries(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key;
+        const result = schema.check(input[key], fieldPath);
+        if (!result.ok) {
+          errors.push(...(input[key] === undefined ? [`${fieldPath} is required`] : result.errors));
+        } else if (result.value !== undefined) {
+          output[key] = result.value;
+        }
+      }
+
+      return errors.length > 0 ? { ok: false, errors } : ok(output as ObjectOf<S>);
+    },
+  };
+}
+
+/**
+ * Parses the JSON body and checks it against `schema`, exposing the typed result as
+ * `c.get("body")`. Invalid bodies get a 400 listing every problem in `details`.
+ */
+export function validateBody<T>(schema: Schema<T>) {
+  return createMiddleware<{ Variables: { body: T } }>(async (c, next) => {
+    let raw: unknown;
+    try {
+      raw = await c.req.json();
+    } catch (error) {
+      // Streamed bodies over the size limit fail while being read; bodyLimit answers those
+      if ((error as Error).name === "BodyLimitError") throw error;
+      return apiError(c, 400, "Request body must be valid JSON");
+    }
+
+    const result = schema.check(raw, "");
+    if (!result.ok) {
+      return apiError(c, 400, "Invalid request body", { details: result.errors });
+    }
+
+    c.set("body", result.value);
+    await next();
+  });
+}
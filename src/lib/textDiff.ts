@@ -0,0 +1,271 @@
+export interface DiffLine {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+}
+
+// A run of text within a changed block, for word-level highlighting
+export type DiffSegment = DiffLine;
+
+export type DiffHunk =
+  | { type: "equal"; lines: string[] }
+  | {
+      type: "change";
+      // Numbers the changes across the whole diff, in document order
+      id: number;
+      // Lines of the original replaced by `added`; either side may be empty
+      removed: string[];
+      added: string[];
+      // Word-level view of the change; left out for rewrites too large to compare word by word
+      words?: DiffSegment[];
+    };
+
+export interface ResumeDiffSection {
+  // The heading line as written in the tailored resume (the original's for a dropped
+  // section); empty for the lines above the first heading
+  heading: string;
+  hunks: DiffHunk[];
+}
+
+export interface ResumeDiff {
+  // In the tailored resume's order, with dropped sections where they were in the original.
+  // Joining every section's lines, taking `added` for accepted changes and `removed` for
+  // rejected ones, gives the final resume.
+  sections: ResumeDiffSection[];
+  changes: number;
+  added: number;
+  removed: number;
+}
+
+// Largest LCS table built for one diff, in token pairs. Beyond it, lines that differ are
+// diffed as one replaced block, and changes are shown line by line without word detail.
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Headings that mean the same section, whatever the wording ("Work History", "EXPERIENCE")
+const SECTION_KEYWORDS: [string, RegExp][] = [
+  ["summary", /summary|profile|objective|about/],
+  ["experience", /experience|employment|work history|career/],
+  ["education", /education|academic/],
+  ["skills", /skills|competencies|technologies|expertise/],
+  ["projects", /projects/],
+  ["certifications", /certifications?|licenses?/],
+  ["awards", /awards|honors|achievements/],
+  ["publications", /publications/],
+  ["languages", /languages/],
+  ["volunteering", /volunteer/],
+];
+
+/**
+ * Line-based diff of two texts using the longest common subsequence. Trailing whitespace
+ * is ignored when comparing lines, since PDF extraction and model output differ there.
+ * Removed lines are listed before the added lines that replace them.
+ */
+export function diffLines(before: string, after: string): TextDiff {
+  const lines = diffSequences(splitLines(before), splitLines(after), (a, b) => a.trimEnd() === b.trimEnd());
+
+  return {
+    lines,
+    added: lines.filter((line) => line.type === "added").length,
+    removed: lines.filter((line) => line.type === "removed").length,
+  };
+}
+
+/**
+ * Word-level diff, keeping whitespace and punctuation as their own tokens so the segments
+ * join back into both texts. Adjacent tokens of the same kind are merged.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+
+  for (const token of diffSequences(splitWords(before), splitWords(after), (a, b) => a === b)) {
+    const last = segments[segments.length - 1];
+    if (last?.type === token.type) last.text += token.text;
+    else segments.push({ ...token });
+  }
+
+  return segments;
+}
+
+/**
+ * Diff of an original and tailored resume that follows their sections. Sections are
+ * matched by heading, so moving a whole section counts as no change, and each block of
+ * changed lines becomes a numbered change that can be accepted or rejected on its own.
+ */
+export function diffResume(original: string, tailored: string): ResumeDiff {
+  const before = splitSections(original);
+  const after = splitSections(tailored);
+
+  // Pair each tailored section with the first unused original section under the same heading
+  const used = new Set<number>();
+  const pairs: { before?: ResumeSection; after?: ResumeSection }[] = after.map((section) => {
+    const index = before.findIndex((candidate, i) => !used.has(i) && candidate.key === section.key);
+    if (index < 0) return { after: section };
+    used.add(index);
+    return { before: before[index], after: section };
+  });
+
+  // Dropped sections go after the section that preceded them in the original
+  before.forEach((section, index) => {
+    if (used.has(index)) return;
+    const previous = before[index - 1];
+    const position = previous ? pairs.findIndex((pair) => pair.before === previous) : -1;
+    pairs.splice(position + 1, 0, { before: section });
+  });
+
+  let nextId = 1;
+  let added = 0;
+  let removed = 0;
+
+  const sections = pairs.map(({ before, after }) => {
+    const lines = diffSequences(before?.lines ?? [], after?.lines ?? [], (a, b) => a.trimEnd() === b.trimEnd());
+    const hunks: DiffHunk[] = [];
+
+    for (const line of lines) {
+      const last = hunks[hunks.length - 1];
+      if (line.type === "equal") {
+        if (last?.type === "equal") last.lines.push(line.text);
+        else hunks.push({ type: "equal", lines: [line.text] });
+        continue;
+      }
+
+      let change = last?.type === "change" ? last : undefined;
+      if (!change) {
+        change = { type: "change", id: nextId++, removed: [], added: [] };
+        hunks.push(change);
+      }
+      change[line.type].push(line.text);
+      if (line.type === "added") added++;
+      else removed++;
+    }
+
+    for (const hunk of hunks) {
+      if (hunk.type !== "change" || hunk.removed.length === 0 || hunk.added.length === 0) continue;
+      const removedText = hunk.removed.join("\n");
+      const addedText = hunk.added.join("\n");
+      if (splitWords(removedText).length * splitWords(addedText).length <= MAX_DIFF_CELLS) {
+        hunk.words = diffWords(removedText, addedText);
+      }
+    }
+
+    return { heading: (after ?? before)!.heading, hunks };
+  });
+
+  return { sections, changes: nextId - 1, added, removed };
+}
+
+interface ResumeSection {
+  heading: string;
+  // Compared to match sections up; see SECTION_KEYWORDS
+  key: string;
+  // Including the heading line and any blank lines before the next heading
+  lines: string[];
+}
+
+function splitSections(text: string): ResumeSection[] {
+  const sections: ResumeSection[] = [{ heading: "", key: "", lines: [] }];
+
+  for (const line of splitLines(text)) {
+    const heading = sectionHeading(line);
+    // The name and contact details above the first section stay together, however they're formatted
+    const startsSection = heading !== undefined && (sections.length > 1 || isKnownSection(heading));
+    if (startsSection) {
+      sections.push({ heading: line.trim(), key: sectionKey(heading), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections[0].lines.length > 0 ? sections : sections.slice(1);
+}
+
+// The heading's text for Markdown headings, short ALL CAPS lines and the usual section names
+function sectionHeading(line: string): string | undefined {
+  const trimmed = line.trim();
+  const text = trimmed.replace(/^#{1,6}\s+/, "").replace(/^\*\*(.+)\*\*$/, "$1").replace(/:$/, "").trim();
+  if (!text || text.length > 40 || /^[-*•]/.test(text)) return undefined;
+
+  const words = text.split(/\s+/).length;
+  const isMarkdown = /^#{1,2}\s/.test(trimmed);
+  const isCaps = /[A-Z]{2}/.test(text) && text === text.toUpperCase() && words <= 4;
+  const isSectionName = words <= 3 && isKnownSection(text);
+  return isMarkdown || isCaps || isSectionName ? text : undefined;
+}
+
+function isKnownSection(heading: string): boolean {
+  return SECTION_KEYWORDS.some(([, pattern]) => pattern.test(heading.toLowerCase()));
+}
+
+// Canonical name for the usual sections, so differently worded headings match up
+function sectionKey(heading: string): string {
+  const text = heading.toLowerCase().replace(/\s+/g, " ");
+  return SECTION_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? text;
+}
+
+// Longest common subsequence of two token lists, as equal, removed and added runs. The
+// common start and end are matched up first; if what remains is still too large to
+// compare (see MAX_DIFF_CELLS), it is reported as removed in full and added in full.
+function diffSequences(before: string[], after: string[], equals: (a: string, b: string) => boolean): DiffLine[] {
+  let start = 0;
+  while (start < before.length && start < after.length && equals(before[start], after[start])) start++;
+  let end = 0;
+  while (
+    end < before.length - start && end < after.length - start
+    && equals(before[before.length - 1 - end], after[after.length - 1 - end])
+  ) end++;
+
+  const prefix = after.slice(0, start).map((text): DiffLine => ({ type: "equal", text }));
+  const suffix = after.slice(after.length - end).map((text): DiffLine => ({ type: "equal", text }));
+  const a = before.slice(start, before.length - end);
+  const b = after.slice(start, after.length - end);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...prefix,
+      ...a.map((text): DiffLine => ({ type: "removed", text })),
+      ...b.map((text): DiffLine => ({ type: "added", text })),
+      ...suffix,
+    ];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = equals(a[i], b[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && equals(a[i], b[j])) {
+      result.push({ type: "equal", text: b[j] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ type: "removed", text: a[i] });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[j] });
+      j++;
+    }
+  }
+
+  return [...prefix, ...result, ...suffix];
+}
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+function splitWords(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_'’-]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
@@ -0,0 +1,189 @@
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// Combined uncompressed size of the entries readZip extracts. A resume's document.xml
+// is rarely more than a few megabytes.
+const MAX_UNCOMPRESSED_SIZE = 32 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds a ZIP archive with uncompressed (stored) entries, which is all DOCX needs.
+ * Timestamps are fixed at 1980-01-01 so the same input always gives the same bytes.
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // local file header signature
+    local.setUint16(4, 20, true); // version needed (2.0)
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, 0, true); // time
+    local.setUint16(12, 0x21, true); // date: 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // central directory header signature
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true); // version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true); // local header offset
+
+    localParts.push(new Uint8Array(local.buffer), name, entry.data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // end of central directory signature
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+/**
+ * Reads the entries of a ZIP archive through its central directory, so entries written
+ * with data descriptors (sizes after the data, as Word does) are found too. Stored and
+ * deflated entries are supported; ZIP64, encryption and split archives are not.
+ * `include` limits which entries are decompressed, and `maxSize` caps their combined
+ * uncompressed size, both as declared and as actually inflated, so a small archive
+ * can't expand into gigabytes.
+ */
+export async function readZip(
+  data: Uint8Array,
+  include: (name: string) => boolean = () => true,
+  maxSize = MAX_UNCOMPRESSED_SIZE
+): Promise<ZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is last, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive");
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+  let remaining = maxSize;
+
+  for (let n = 0; n < count; n++) {
+    if (position + 46 > data.length || view.getUint32(position, true) !== 0x02014b50) {
+      throw new Error("Corrupt ZIP central directory");
+    }
+
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const uncompressedSize = view.getUint32(position + 24, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (!include(name)) continue;
+    if (flags & 0x1) throw new Error(`${name} is encrypted`);
+    if (uncompressedSize > remaining) throw new Error(`${name} is too large to extract`);
+
+    // The local header's name and extra field lengths can differ from the central copy
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.subarray(start, start + compressedSize);
+
+    let entry: Uint8Array;
+    if (method === 0) {
+      entry = raw;
+    } else if (method === 8) {
+      // The declared size can't be trusted, so the inflated size is checked as well
+      entry = await inflateRaw(raw, remaining, name);
+    } else {
+      throw new Error(`${name} uses unsupported compression method ${method}`);
+    }
+    if (entry.length > remaining) throw new Error(`${name} is too large to extract`);
+
+    remaining -= entry.length;
+    entries.push({ name, data: entry });
+  }
+
+  return entries;
+}
+
+async function inflateRaw(data: Uint8Array, maxSize: number, name: string): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error(`${name} is too large to extract`);
+    }
+    chunks.push(value);
+  }
+
+  return concatBytes(chunks);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
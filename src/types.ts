@@ -1,9 +1,36 @@
+import type { Deliverable, JobApplicationResult } from "./workflows/JobApplicationWorkflow";
+import type { CoverLetterPreferences } from "./lib/applicationDocuments";
+import type { LanguageSetting } from "./lib/language";
+
 export interface Env {
   AI: Ai;
   CONVERSATIONS: DurableObjectNamespace;
+  WORKFLOW_PROGRESS: DurableObjectNamespace;
+  APPLICATIONS: DurableObjectNamespace;
+  RESUMES: DurableObjectNamespace;
+  SESSIONS: DurableObjectNamespace;
+  RATE_LIMITER: DurableObjectNamespace;
   JOB_WORKFLOW: Workflow;
   KV: KVNamespace;
   ENVIRONMENT: string;
+  // HS256 key for session tokens; set with `wrangler secret put AUTH_SECRET`
+  AUTH_SECRET: string;
+  // Optional overrides for the defaults in src/lib/rateLimit.ts
+  RATE_LIMITS?: string;
+  DAILY_TOKEN_BUDGET?: string;
+  // Model provider, see src/lib/llm: "workers-ai" (default), "openai-compatible" or "fake"
+  LLM_PROVIDER?: string;
+  // Model for every task, or per task with LLM_MODEL_CHAT / _ANALYSIS / _WRITING
+  LLM_MODEL?: string;
+  LLM_MODEL_CHAT?: string;
+  LLM_MODEL_ANALYSIS?: string;
+  LLM_MODEL_WRITING?: string;
+  // OpenAI-compatible server, e.g. http://localhost:11434/v1; the key is a secret
+  LLM_BASE_URL?: string;
+  LLM_API_KEY?: string;
+  // Optional service binding that fetches job pages for /api/job/ingest, e.g. a Worker
+  // that renders them with Browser Rendering; plain fetch() is used without it
+  JOB_PAGE_FETCHER?: Fetcher;
 }
 
 export interface ChatMessage {
@@ -17,10 +44,25 @@ export interface ChatRequest {
   userId: string;
 }
 
+export interface JobContext {
+  jobTitle?: string;
+  company?: string;
+  jobDescription?: string;
+  resumeText?: string;
+}
+
 export interface WorkflowRequest {
   jobDescription: string;
-  resumeText: string;
+  // Either the resume itself or the ID of a version in the user's resume library
+  resumeText?: string;
+  resumeId?: string;
   jobTitle: string;
   company: string;
   userId: string;
+  deliverables?: Deliverable[];
+  previousResults?: Partial<JobApplicationResult>;
+  instructions?: Partial<Record<Deliverable, string>>;
+  coverLetterPreferences?: CoverLetterPreferences;
+  language?: LanguageSetting;
+  translateResume?: boolean;
 }
@@ -1,4 +1,20 @@
 import { WorkflowEntrypoint, WorkflowStep, WorkflowEvent } from "cloudflare:workers";
+import { analyzeJob, type JobAnalysis } from "../lib/jobAnalysis";
+import {
+  reviewCoverLetter,
+  tailorResume,
+  writeCoverLetter,
+  writeInterviewTips,
+  type CoverLetterPreferences,
+  type CoverLetterReview,
+} from "../lib/applicationDocuments";
+import { buildMatchReport, type MatchReport } from "../lib/matchReport";
+import { verifyTailoredResume, type UnverifiedClaim } from "../lib/resumeVerification";
+import { detectLanguage, resolveLanguage, translateResume, type Language, type LanguageSetting } from "../lib/language";
+import { createUserLLM } from "../lib/aiUsage";
+import { extractContactHeader } from "../lib/documentExport";
+import type { ResumeVersion } from "../durable-objects/ResumeLibrary";
+import type { WorkflowMetadata } from "../durable-objects/WorkflowProgress";
 
 export interface JobApplicationParams {
   jobDescription: string;
@@ -6,102 +22,250 @@ export interface JobApplicationParams {
   jobTitle: string;
   company: string;
   userId: string;
+  // Resume library version the resume text came from; the tailored resume is saved as its child
+  resumeId?: string;
+  // Sections to (re)generate; defaults to all of them
+  deliverables?: Deliverable[];
+  // Outputs from an earlier run, reused instead of recomputing (e.g. an existing analysis)
+  previousResults?: Partial<JobApplicationResult>;
+  // Extra instructions per section, e.g. when regenerating a cover letter
+  instructions?: Partial<Record<Deliverable, string>>;
+  // Tone, length and content of the cover letter
+  coverLetterPreferences?: CoverLetterPreferences;
+  // Language of the generated documents; defaults to "auto", the job description's language
+  language?: LanguageSetting;
+  // Translate the resume into that language before tailoring and matching
+  translateResume?: boolean;
 }
 
+// Only requested deliverables and reused previous results are present
 export interface JobApplicationResult {
-  analysis: string;
-  tailoredResume: string;
-  coverLetter: string;
-  interviewTips: string;
+  analysis?: JobAnalysis;
+  match?: MatchReport;
+  tailoredResume?: string;
+  // What the tailored resume says that the original doesn't support; present whenever it is
+  unverifiedClaims?: UnverifiedClaim[];
+  coverLetter?: string;
+  // Length and placeholder checks for the cover letter; present whenever it is
+  coverLetterReview?: CoverLetterReview;
+  interviewTips?: string;
+  // The documents' language; absent when "auto" couldn't detect one
+  language?: Language;
+  // The resume in that language, used in place of the original; present when translated
+  translatedResume?: string;
 }
 
+// Checks of a deliverable are returned with it rather than requested on their own, and
+// the language and translation come with the run
+export type Deliverable = Exclude<
+  keyof JobApplicationResult,
+  "unverifiedClaims" | "coverLetterReview" | "language" | "translatedResume"
+>;
+
+// Steps in execution order, with the result field each one produces
+export const WORKFLOW_STEPS = [
+  { name: "analyze-job", resultKey: "analysis" },
+  { name: "match-resume", resultKey: "match" },
+  { name: "tailor-resume", resultKey: "tailoredResume" },
+  { name: "generate-cover-letter", resultKey: "coverLetter" },
+  { name: "interview-tips", resultKey: "interviewTips" },
+] as const satisfies ReadonlyArray<{ name: string; resultKey: Deliverable }>;
+
+export const DELIVERABLES: Deliverable[] = WORKFLOW_STEPS.map((s) => s.resultKey);
+
+// Checks of a step's output, published under their own name and reported with that
+// step. The claims check runs as a step of its own; the cover letter is reviewed while
+// it is written.
+export const STEP_CHECKS = [
+  { name: "verify-tailored-resume", step: "tailor-resume", resultKey: "unverifiedClaims" },
+  { name: "review-cover-letter", step: "generate-cover-letter", resultKey: "coverLetterReview" },
+] as const satisfies ReadonlyArray<{
+  name: string;
+  step: typeof WORKFLOW_STEPS[number]["name"];
+  resultKey: keyof JobApplicationResult;
+}>;
+
 export class JobApplicationWorkflow extends WorkflowEntrypoint<any, JobApplicationParams> {
   async run(event: WorkflowEvent<JobApplicationParams>, step: WorkflowStep) {
-    const { jobDescription, resumeText, jobTitle, company, userId } = event.payload;
+    const { jobDescription, jobTitle, company, userId } = event.payload;
     const workflowId = (event as any).instanceId || (event as any).id || 'unknown';
+    const requested = new Set(event.payload.deliverables?.length ? event.payload.deliverables : DELIVERABLES);
+    const previous = event.payload.previousResults ?? {};
+    const instructions = event.payload.instructions ?? {};
+    const coverLetterPreferences = event.payload.coverLetterPreferences ?? {};
+    const language = resolveLanguage(event.payload.language, jobDescription);
+    // Every model call counts towards the user's daily budget
+    const llm = createUserLLM(this.env, userId);
 
-    // Step 1: Analyze the job description
-    const analysis = await step.do("analyze-job", async () => {
-      const prompt = `Analyze this job description for ${jobTitle} at ${company}:
+    // The match score and the resume and cover letter are built from the analysis, so it
+    // has to run for them unless an earlier one was passed in
+    const needsAnalysis = requested.has("analysis")
+      || (!previous.analysis && (requested.has("match") || requested.has("tailoredResume") || requested.has("coverLetter")));
+
+    const plannedSteps = WORKFLOW_STEPS
+      .filter(({ resultKey }) => resultKey === "analysis" ? needsAnalysis : requested.has(resultKey))
+      .map(({ name }) => name);
+    await this.publishPlan(workflowId, plannedSteps, {
+      jobTitle,
+      company,
+      contact: extractContactHeader(event.payload.resumeText),
+    });
 
-${jobDescription}
+    const result: JobApplicationResult = { ...previous, language };
+    // A translation from an earlier run is only reused if it is in the same language
+    if (previous.language !== language) delete result.translatedResume;
 
-Provide key requirements, skills needed, and culture fit indicators.`;
+    // Step 0: Translate the resume for the steps that use it, unless it's in that language already
+    let { resumeText } = event.payload;
+    const usesResume = requested.has("match") || requested.has("tailoredResume") || requested.has("coverLetter");
+    if (event.payload.translateResume && language && usesResume && detectLanguage(resumeText) !== language) {
+      if (!result.translatedResume) {
+        const originalResume = resumeText;
+        const translated = await step.do("translate-resume", async () => {
+          return translateResume(llm, originalResume, language);
+        });
+        // An incomplete translation leaves the original resume in place
+        if (translated) result.translatedResume = translated;
+      }
+      resumeText = result.translatedResume ?? resumeText;
+    }
 
-      const response = await this.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1024,
+    // Step 1: Analyze the job description
+    if (needsAnalysis) {
+      result.analysis = await step.do("analyze-job", async () => {
+        return analyzeJob(llm, {
+          jobTitle,
+          company,
+          jobDescription,
+          instructions: instructions.analysis,
+        });
       });
+      await this.publishProgress(workflowId, "analyze-job", result.analysis);
+    }
 
-      return response.response;
-    });
+    // Step 2: Score how well the resume matches the job and explain the gaps
+    if (requested.has("match")) {
+      const jobAnalysis = result.analysis;
+      result.match = await step.do("match-resume", async () => {
+        return buildMatchReport(llm, { resumeText, jobDescription, analysis: jobAnalysis });
+      });
+      await this.publishProgress(workflowId, "match-resume", result.match);
+    }
 
-    // Step 2: Tailor the resume based on job requirements
-    const tailoredResume = await step.do("tailor-resume", async () => {
-      const prompt = `Given this resume:
+    const documentInput = { jobTitle, company, jobDescription, resumeText, analysis: result.analysis, language };
 
-${resumeText}
+    // Step 3: Tailor the resume based on job requirements
+    if (requested.has("tailoredResume")) {
+      result.tailoredResume = await step.do("tailor-resume", async () => {
+        return tailorResume(llm, { ...documentInput, instructions: instructions.tailoredResume });
+      });
+      await this.publishProgress(workflowId, "tailor-resume", result.tailoredResume);
 
-And this job analysis:
-${analysis}
+      const tailoredResume = result.tailoredResume;
+      const jobAnalysis = result.analysis;
+      result.unverifiedClaims = await step.do("verify-tailored-resume", async () => {
+        return verifyTailoredResume(llm, { resumeText, tailoredResume, analysis: jobAnalysis });
+      });
+      await this.publishProgress(workflowId, "verify-tailored-resume", result.unverifiedClaims);
 
-Create a tailored version of the resume that emphasizes relevant skills and experience for the ${jobTitle} position at ${company}. Maintain professional formatting.`;
+      const { resumeId } = event.payload;
+      if (resumeId && tailoredResume) {
+        await step.do("save-tailored-resume", async () => {
+          return this.saveTailoredResume(userId, {
+            name: `Tailored for ${jobTitle} at ${company}`,
+            text: tailoredResume,
+            source: "tailored",
+            parentId: resumeId,
+            workflowId,
+          });
+        });
+      }
+    }
 
-      const response = await this.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2048,
+    // Step 4: Generate a personalized cover letter
+    if (requested.has("coverLetter")) {
+      const coverLetter = await step.do("generate-cover-letter", async () => {
+        return writeCoverLetter(llm, {
+          ...documentInput,
+          instructions: instructions.coverLetter,
+          preferences: coverLetterPreferences,
+        });
       });
+      result.coverLetter = coverLetter.text;
+      result.coverLetterReview = coverLetter.review;
+      await this.publishProgress(workflowId, "generate-cover-letter", result.coverLetter);
+      await this.publishProgress(workflowId, "review-cover-letter", result.coverLetterReview);
+    } else if (result.coverLetter) {
+      // A reused letter is checked again, as the preferences may have changed since
+      result.coverLetterReview = reviewCoverLetter(result.coverLetter, coverLetterPreferences);
+    }
 
-      return response.response;
-    });
-
-    // Step 3: Generate a personalized cover letter
-    const coverLetter = await step.do("generate-cover-letter", async () => {
-      const prompt = `Write a compelling cover letter for the ${jobTitle} position at ${company}.
+    // Step 5: Provide interview preparation tips
+    if (requested.has("interviewTips")) {
+      result.interviewTips = await step.do("interview-tips", async () => {
+        return writeInterviewTips(llm, { ...documentInput, instructions: instructions.interviewTips });
+      });
+      await this.publishProgress(workflowId, "interview-tips", result.interviewTips);
+    }
 
-Job Requirements:
-${analysis}
+    // Log the complete result
+    console.log('Workflow completed successfully:', JSON.stringify(result, null, 2));
 
-Candidate Background:
-${resumeText}
+    return result;
+  }
 
-Create a professional, personalized cover letter that highlights relevant experience and expresses genuine interest in the role.`;
+  // Adds the tailored resume to the user's library under the version it was built from.
+  // Best-effort like progress: the resume is still returned in the result if this fails.
+  private async saveTailoredResume(
+    userId: string,
+    resume: Pick<ResumeVersion, "name" | "text" | "source" | "parentId" | "workflowId">
+  ): Promise<string | null> {
+    try {
+      const libraryId = this.env.RESUMES.idFromName(userId);
+      const libraryStub = this.env.RESUMES.get(libraryId);
 
-      const response = await this.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2048,
+      const response = await libraryStub.fetch(`http://do/resumes`, {
+        method: "POST",
+        body: JSON.stringify(resume),
       });
+      const data: any = await response.json();
 
-      return response.response;
-    });
-
-    // Step 4: Provide interview preparation tips
-    const interviewTips = await step.do("interview-tips", async () => {
-      const prompt = `Based on this job for ${jobTitle} at ${company}:
-
-${jobDescription}
+      return data.resume?.id ?? null;
+    } catch (error) {
+      console.error("Failed to save tailored resume:", error);
+      return null;
+    }
+  }
 
-Provide 5-7 targeted interview preparation tips, including likely questions and strong answer frameworks.`;
+  // Records which steps this run will execute, so skipped ones aren't reported as pending,
+  // and the job and contact details used when exporting the documents
+  private async publishPlan(workflowId: string, steps: string[], metadata: WorkflowMetadata) {
+    try {
+      const progressId = this.env.WORKFLOW_PROGRESS.idFromName(workflowId);
+      const progressStub = this.env.WORKFLOW_PROGRESS.get(progressId);
 
-      const response = await this.env.AI.run("@cf/meta/llama-3.3-70b-instruct-fp8-fast", {
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 1536,
+      await progressStub.fetch(`http://do/plan`, {
+        method: "POST",
+        body: JSON.stringify({ steps, metadata }),
       });
+    } catch (error) {
+      console.error("Failed to publish workflow plan:", error);
+    }
+  }
 
-      return response.response;
-    });
+  // Records a finished step so /api/workflow/:workflowId can show it before the whole run
+  // completes. Progress is best-effort: a failure here must not fail the workflow.
+  private async publishProgress(workflowId: string, step: string, output: unknown) {
+    try {
+      const progressId = this.env.WORKFLOW_PROGRESS.idFromName(workflowId);
+      const progressStub = this.env.WORKFLOW_PROGRESS.get(progressId);
 
-    // Return all results
-    const result = {
-      analysis,
-      tailoredResume,
-      coverLetter,
-      interviewTips,
-    };
-    
-    // Log the complete result
-    console.log('Workflow completed successfully:', JSON.stringify(result, null, 2));
-    
-    return result;
+      await progressStub.fetch(`http://do/step`, {
+        method: "POST",
+        body: JSON.stringify({ step, output }),
+      });
+    } catch (error) {
+      console.error(`Failed to publish progress for ${step}:`, error);
+    }
   }
 }
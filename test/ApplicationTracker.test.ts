@@ -0,0 +1,61 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+
+function getStub(name: string) {
+  return env.APPLICATIONS.get(env.APPLICATIONS.idFromName(name));
+}
+
+async function create(stub: ReturnType<typeof getStub>, body: object) {
+  const response = await stub.fetch("http://do/applications", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, data: await response.json() as any };
+}
+
+describe("ApplicationTracker", () => {
+  it("creates applications as saved and lists them", async () => {
+    const stub = getStub("tracker-create");
+
+    const { status, data } = await create(stub, { company: " Acme ", jobTitle: "Engineer", notes: "Referral" });
+    const list = await (await stub.fetch("http://do/applications")).json() as any;
+
+    expect(status).toBe(201);
+    expect(data.application).toMatchObject({ company: "Acme", jobTitle: "Engineer", status: "saved", notes: "Referral" });
+    expect(data.application.appliedAt).toBeUndefined();
+    expect(list.applications.map((a: any) => a.id)).toEqual([data.application.id]);
+  });
+
+  it("records status changes and the date the application went out", async () => {
+    const stub = getStub("tracker-status");
+    const { data } = await create(stub, { company: "Acme", jobTitle: "Engineer" });
+    const path = `http://do/applications/${data.application.id}`;
+
+    await stub.fetch(path, { method: "PATCH", body: JSON.stringify({ status: "applied" }) });
+    const response = await stub.fetch(path, { method: "PATCH", body: JSON.stringify({ status: "interviewing" }) });
+    const { application } = await response.json() as any;
+
+    expect(application.status).toBe("interviewing");
+    expect(application.statusHistory.map((h: any) => h.status)).toEqual(["saved", "applied", "interviewing"]);
+    expect(application.appliedAt).toBe(application.statusHistory[1].at);
+  });
+
+  it("rejects missing fields and unknown statuses", async () => {
+    const stub = getStub("tracker-invalid");
+
+    const { status, data } = await create(stub, { company: "Acme", status: "ghosted" });
+
+    expect(status).toBe(400);
+    expect(data.error.details).toEqual(["jobTitle is required", expect.stringContaining("status must be one of")]);
+  });
+
+  it("deletes applications and returns 404 afterwards", async () => {
+    const stub = getStub("tracker-delete");
+    const { data } = await create(stub, { company: "Acme", jobTitle: "Engineer" });
+    const path = `http://do/applications/${data.application.id}`;
+
+    expect((await stub.fetch(path, { method: "DELETE" })).status).toBe(200);
+    expect((await stub.fetch(path)).status).toBe(404);
+    expect((await stub.fetch(path, { method: "DELETE" })).status).toBe(404);
+  });
+});
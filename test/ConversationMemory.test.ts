@@ -0,0 +1,258 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { ConversationMemory, ConversationState } from "../src/durable-objects/ConversationMemory";
+import { createFakeLLMClient, type LLMRequest } from "../src/lib/llm";
+
+function getStub(name: string) {
+  return env.CONVERSATIONS.get(env.CONVERSATIONS.idFromName(name)) as DurableObjectStub<ConversationMemory>;
+}
+
+async function addMessages(stub: DurableObjectStub<ConversationMemory>, count: number, length: number) {
+  for (let i = 0; i < count; i++) {
+    await stub.fetch("http://do/message", {
+      method: "POST",
+      body: JSON.stringify({
+        role: i % 2 === 0 ? "user" : "assistant",
+        content: `message ${i} `.padEnd(length, "x"),
+      }),
+    });
+  }
+}
+
+describe("ConversationMemory rolling summary", () => {
+  it("returns every turn unsummarized while the transcript is short", async () => {
+    const stub = getStub("short-chat");
+    await stub.fetch("http://do/init", {
+      method: "POST",
+      body: JSON.stringify({ userId: "user-1", sessionId: "short-chat" }),
+    });
+    await addMessages(stub, 4, 40);
+
+    const llm = createFakeLLMClient();
+    const data = await runInDurableObject(stub, async (instance: ConversationMemory) => {
+      (instance as any).createLLM = () => llm;
+      const response = await instance.fetch(new Request("http://do/prompt"));
+      return response.json() as Promise<{ summary: string | null; messages: any[] }>;
+    });
+
+    expect(data.summary).toBeNull();
+    expect(data.messages).toHaveLength(4);
+    expect(data.messages.every((m) => m.role !== "system")).toBe(true);
+    expect(llm.calls).toHaveLength(0);
+  });
+
+  it("folds older turns into a stored summary once over budget", async () => {
+    const stub = getStub("long-chat");
+    await stub.fetch("http://do/init", {
+      method: "POST",
+      body: JSON.stringify({ userId: "user-1", sessionId: "long-chat" }),
+    });
+    // 30 turns of ~500 tokens each, well over the 3000 token budget
+    await addMessages(stub, 30, 2000);
+
+    const llm = createFakeLLMClient((_, call) => `summary #${call}`);
+    const first = await runInDurableObject(stub, async (instance: ConversationMemory, state) => {
+      (instance as any).createLLM = () => llm;
+      const response = await instance.fetch(new Request("http://do/prompt"));
+      const stored = await state.storage.get<ConversationState>("conversation");
+      return { body: await response.json() as { summary: string; messages: any[] }, stored };
+    });
+
+    expect(llm.calls).toHaveLength(1);
+    expect(first.body.summary).toBe("summary #1");
+    // The minimum of four turns stays verbatim, ending with the newest message
+    expect(first.body.messages).toHaveLength(4);
+    expect(first.body.messages[3].content).toMatch(/^message 29 /);
+    // The system prompt at index 0 plus the 26 summarized turns
+    expect(first.stored?.summary?.coveredUntil).toBe(27);
+
+    // A second read doesn't summarize again until more turns push it over budget
+    const second = await runInDurableObject(stub, async (instance: ConversationMemory) => {
+      const response = await instance.fetch(new Request("http://do/prompt"));
+      return response.json() as Promise<{ summary: string; messages: any[] }>;
+    });
+
+    expect(llm.calls).toHaveLength(1);
+    expect(second.summary).toBe("summary #1");
+    expect(second.messages).toHaveLength(4);
+  });
+
+  it("keeps messages added while the summary is being written", async () => {
+    const stub = getStub("busy-chat");
+    await stub.fetch("http://do/init", {
+      method: "POST",
+      body: JSON.stringify({ userId: "user-1", sessionId: "busy-chat" }),
+    });
+    await addMessages(stub, 30, 2000);
+
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => { release = resolve; });
+    const fake = createFakeLLMClient(() => "summary while busy");
+    const llm = { ...fake, complete: async (request: LLMRequest) => { await released; return fake.complete(request); } };
+
+    const stored = await runInDurableObject(stub, async (instance: ConversationMemory, state) => {
+      (instance as any).createLLM = () => llm;
+      const prompt = instance.fetch(new Request("http://do/prompt"));
+      await instance.fetch(new Request("http://do/message", {
+        method: "POST",
+        body: JSON.stringify({ role: "user", content: "sent during summarization" }),
+      }));
+      release();
+      await prompt;
+      return state.storage.get<ConversationState>("conversation");
+    });
+
+    expect(stored?.summary?.content).toBe("summary while busy");
+    expect(stored?.messages.at(-1)?.content).toBe("sent during summarization");
+    expect(stored?.messages).toHaveLength(32);
+  });
+
+  it("clears the summary along with the history", async () => {
+    const stub = getStub("cleared-chat");
+    await stub.fetch("http://do/init", {
+      method: "POST",
+      body: JSON.stringify({ userId: "user-1", sessionId: "cleared-chat" }),
+    });
+    await addMessages(stub, 30, 2000);
+
+    await runInDurableObject(stub, async (instance: ConversationMemory) => {
+      (instance as any).createLLM = () => createFakeLLMClient();
+      await instance.fetch(new Request("http://do/prompt"));
+    });
+
+    await stub.fetch("http://do/clear", { method: "POST" });
+
+    const response = await stub.fetch("http://do/prompt");
+    expect(await response.json()).toEqual({ summary: null, messages: [] });
+  });
+});
+
+describe("ConversationMemory storage", () => {
+  async function init(stub: DurableObjectStub<ConversationMemory>, userId: string, sessionId: string) {
+    return stub.fetch("http://do/init", { method: "POST", body: JSON.stringify({ userId, sessionId }) });
+  }
+
+  it("starts with the system prompt and belongs to the first user to initialize it", async () => {
+    const stub = getStub("storage-owner");
+
+    const before = await stub.fetch("http://do/owner");
+    const first = await init(stub, "user-1", "storage-owner");
+    const again = await init(stub, "user-1", "storage-owner");
+    const other = await init(stub, "user-2", "storage-owner");
+    const after = await stub.fetch("http://do/owner");
+
+    expect(await before.json()).toEqual({ userId: null });
+    const { state } = await first.json() as { state: ConversationState };
+    expect(state.messages).toMatchObject([{ role: "system" }]);
+    expect(state.metadata).toMatchObject({ userId: "user-1", sessionId: "storage-owner" });
+    expect(again.status).toBe(200);
+    expect(other.status).toBe(403);
+    expect(await after.json()).toEqual({ userId: "user-1" });
+  });
+
+  it("refuses messages and context before initialization", async () => {
+    const stub = getStub("storage-uninitialized");
+
+    const message = await stub.fetch("http://do/message", { method: "POST", body: JSON.stringify({ role: "user", content: "Hi" }) });
+    const context = await stub.fetch("http://do/context", { method: "POST", body: JSON.stringify({ jobContext: { company: "Acme" } }) });
+    const history = await stub.fetch("http://do/history");
+
+    expect(message.status).toBe(400);
+    expect(await message.json()).toEqual({ error: { code: "invalid_request", message: "Conversation not initialized" } });
+    expect(context.status).toBe(400);
+    expect(await history.json()).toEqual({ messages: [] });
+  });
+
+  it("appends messages in order and tracks the last activity", async () => {
+    const stub = getStub("storage-messages");
+    await init(stub, "user-1", "storage-messages");
+    await addMessages(stub, 3, 10);
+
+    const response = await stub.fetch("http://do/history?limit=2");
+    const { messages, metadata } = await response.json() as ConversationState;
+
+    expect(messages.map((m) => m.role)).toEqual(["assistant", "user"]);
+    expect(messages[1].content).toMatch(/^message 2 /);
+    expect(messages[0].timestamp).toBeLessThanOrEqual(messages[1].timestamp);
+    expect(metadata.lastActivityAt).toBeGreaterThanOrEqual(messages[1].timestamp);
+  });
+
+  it("merges job context updates and drops everything on clear", async () => {
+    const stub = getStub("storage-context");
+    await init(stub, "user-1", "storage-context");
+
+    await stub.fetch("http://do/context", { method: "POST", body: JSON.stringify({ jobContext: { jobTitle: "Engineer", company: "Acme" } }) });
+    await stub.fetch("http://do/context", { method: "POST", body: JSON.stringify({ jobContext: { company: "Globex" } }) });
+    const merged = await stub.fetch("http://do/context");
+
+    await stub.fetch("http://do/clear", { method: "POST" });
+    const cleared = await stub.fetch("http://do/context");
+    const owner = await stub.fetch("http://do/owner");
+
+    expect(await merged.json()).toEqual({ context: { jobTitle: "Engineer", company: "Globex" }, language: "auto" });
+    expect(await cleared.json()).toEqual({ context: {}, language: "auto" });
+    expect(await owner.json()).toEqual({ userId: null });
+  });
+
+  it("keeps the session language from init or a context update", async () => {
+    const stub = getStub("storage-language");
+    const first = await stub.fetch("http://do/init", {
+      method: "POST",
+      body: JSON.stringify({ userId: "user-1", sessionId: "storage-language", language: "de" }),
+    });
+
+    await stub.fetch("http://do/context", { method: "POST", body: JSON.stringify({ jobContext: { company: "Acme" } }) });
+    const kept = await stub.fetch("http://do/context");
+    await stub.fetch("http://do/context", { method: "POST", body: JSON.stringify({ language: "fr" }) });
+    const changed = await stub.fetch("http://do/context");
+
+    const { state } = await first.json() as { state: ConversationState };
+    expect(state.messages[0].content).toContain("Reply in German");
+    expect(await kept.json()).toEqual({ context: { company: "Acme" }, language: "de" });
+    expect(await changed.json()).toEqual({ context: { company: "Acme" }, language: "fr" });
+  });
+});
+
+describe("ConversationMemory interview", () => {
+  it("grades an answer once and keeps messages added while it is graded", async () => {
+    const stub = getStub("interview-busy");
+    await stub.fetch("http://do/init", {
+      method: "POST",
+      body: JSON.stringify({ userId: "user-1", sessionId: "interview-busy" }),
+    });
+
+    let gate: Promise<void> | undefined;
+    let release!: () => void;
+    const fake = createFakeLLMClient();
+    const llm = { ...fake, complete: async (request: LLMRequest) => { await gate; return fake.complete(request); } };
+
+    const result = await runInDurableObject(stub, async (instance: ConversationMemory, state) => {
+      (instance as any).createLLM = () => llm;
+      const post = (path: string, body: unknown) =>
+        instance.fetch(new Request(`http://do${path}`, { method: "POST", body: JSON.stringify(body) }));
+
+      await post("/interview/start", { questionCount: 2 });
+      gate = new Promise<void>((resolve) => { release = resolve; });
+
+      const answer = post("/interview/answer", { answer: "I led the payments migration" });
+      const duplicate = await post("/interview/answer", { answer: "I led the payments migration" });
+      await post("/message", { role: "user", content: "sent during grading" });
+      release();
+
+      return {
+        answer: await answer,
+        duplicate,
+        conversation: await state.storage.get<ConversationState>("conversation"),
+      };
+    });
+
+    expect(result.answer.status).toBe(200);
+    expect(result.duplicate.status).toBe(409);
+    // The start's question, then one grade and one next question
+    expect(fake.calls).toHaveLength(3);
+    const contents = result.conversation!.messages.map((m) => m.content);
+    expect(contents).toContain("sent during grading");
+    expect(contents.filter((content) => content === "I led the payments migration")).toHaveLength(1);
+    expect(contents.at(-1)).toMatch(/^Question 2 of 2/);
+  });
+});
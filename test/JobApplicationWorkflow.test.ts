@@ -0,0 +1,162 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { JobApplicationWorkflow, type JobApplicationParams, type JobApplicationResult } from "../src/workflows/JobApplicationWorkflow";
+import type { ProgressState } from "../src/durable-objects/WorkflowProgress";
+import type { JobAnalysis } from "../src/lib/jobAnalysis";
+
+const job = {
+  jobTitle: "Engineer",
+  company: "Acme",
+  jobDescription: "Build payments in Go with PostgreSQL",
+  resumeText: "Jane Doe\njane@example.com\n\nGo developer",
+};
+
+// Runs the workflow with a step runner that records the order steps ran in
+async function runWorkflow(workflowId: string, params: Partial<JobApplicationParams> & { userId: string }) {
+  // The base class only accepts the runtime's own context, and run() just needs env
+  const workflow: JobApplicationWorkflow = Object.assign(Object.create(JobApplicationWorkflow.prototype), { env });
+  const steps: string[] = [];
+  const step = {
+    async do(name: string, callback: () => Promise<unknown>) {
+      steps.push(name);
+      return callback();
+    },
+  };
+
+  const result = await workflow.run(
+    { payload: { ...job, ...params }, timestamp: new Date(), instanceId: workflowId } as any,
+    step as any
+  ) as JobApplicationResult;
+  return { result, steps };
+}
+
+async function getProgress(workflowId: string) {
+  const stub = env.WORKFLOW_PROGRESS.get(env.WORKFLOW_PROGRESS.idFromName(workflowId));
+  return await (await stub.fetch("http://do/progress")).json() as ProgressState;
+}
+
+describe("JobApplicationWorkflow", () => {
+  it("runs every step in order and publishes each output", async () => {
+    const { result, steps } = await runWorkflow("workflow-all", { userId: "workflow-user" });
+    const progress = await getProgress("workflow-all");
+
+    expect(steps).toEqual(["analyze-job", "match-resume", "tailor-resume", "verify-tailored-resume", "generate-cover-letter", "interview-tips"]);
+    expect(result.analysis?.requiredSkills.length).toBeGreaterThan(0);
+    expect(result.match?.score).toEqual(expect.any(Number));
+    expect(result.tailoredResume).toMatch(/^Fake writing reply to: Given this resume/);
+    expect(result.coverLetter).toMatch(/^Fake writing reply to: Write a compelling cover letter for the Engineer position at Acme/);
+    expect(result.interviewTips).toMatch(/^Fake writing reply to: Based on this job for Engineer at Acme/);
+
+    expect(result.unverifiedClaims).toEqual([]);
+
+    // Checks aren't deliverables, so they aren't planned, but their results are published
+    expect(progress.planned).toEqual(steps.filter((name) => name !== "verify-tailored-resume"));
+    expect(Object.keys(progress.steps)).toEqual([...steps.slice(0, -1), "review-cover-letter", "interview-tips"]);
+    expect(progress.steps["verify-tailored-resume"].output).toEqual([]);
+    expect(progress.steps["generate-cover-letter"].output).toBe(result.coverLetter);
+    expect(progress.steps["review-cover-letter"].output).toEqual(result.coverLetterReview);
+    expect(progress.metadata).toMatchObject({ jobTitle: "Engineer", company: "Acme", contact: expect.objectContaining({ name: "Jane Doe" }) });
+  });
+
+  it("reuses an earlier analysis and only runs the requested steps", async () => {
+    const analysis: JobAnalysis = {
+      summary: "Payments backend",
+      requiredSkills: ["Go"],
+      niceToHaveSkills: [],
+      seniority: "mid",
+      yearsOfExperience: { min: 2, max: null },
+      responsibilities: [],
+      cultureSignals: [],
+      redFlags: [],
+    };
+
+    const { result, steps } = await runWorkflow("workflow-regenerate", {
+      userId: "workflow-user",
+      deliverables: ["coverLetter"],
+      previousResults: { analysis, tailoredResume: "Earlier resume" },
+      instructions: { coverLetter: "Keep it short" },
+    });
+    const progress = await getProgress("workflow-regenerate");
+
+    expect(steps).toEqual(["generate-cover-letter"]);
+    expect(result).toMatchObject({ analysis, tailoredResume: "Earlier resume", coverLetter: expect.any(String) });
+    expect(progress.planned).toEqual(["generate-cover-letter"]);
+  });
+
+  it("checks the cover letter against the preferences and rechecks a reused one", async () => {
+    const { result } = await runWorkflow("workflow-cover-letter", {
+      userId: "workflow-user",
+      deliverables: ["coverLetter"],
+      coverLetterPreferences: { tone: "formal", onePage: true },
+    });
+
+    expect(result.coverLetterReview).toMatchObject({ wordRange: { min: 0, max: 400 }, placeholders: [], issues: [] });
+
+    const { result: reused } = await runWorkflow("workflow-cover-letter-reused", {
+      userId: "workflow-user",
+      deliverables: ["interviewTips"],
+      previousResults: { coverLetter: "Dear [Name], hello." },
+    });
+
+    expect(reused.coverLetterReview?.issues).toEqual(["It contains placeholder text: [Name]."]);
+  });
+
+  it("writes in the job description's language and reuses a translation in that language", async () => {
+    const germanJob = "Wir suchen eine Entwicklerin für unser Team in Berlin. Du arbeitest mit Go und PostgreSQL und bist auch für die Architektur verantwortlich.";
+
+    // The fake model's one-line reply doesn't cover every resume line, so the original is kept
+    const { result, steps } = await runWorkflow("workflow-language", {
+      userId: "workflow-language-user",
+      jobDescription: germanJob,
+      deliverables: ["tailoredResume"],
+      translateResume: true,
+    });
+
+    expect(steps).toEqual(["translate-resume", "analyze-job", "tailor-resume", "verify-tailored-resume"]);
+    expect(result.language).toBe("de");
+    expect(result.translatedResume).toBeUndefined();
+
+    const { result: reused, steps: reusedSteps } = await runWorkflow("workflow-language-reused", {
+      userId: "workflow-language-user",
+      jobDescription: germanJob,
+      deliverables: ["tailoredResume"],
+      translateResume: true,
+      previousResults: { language: "de", translatedResume: "Lebenslauf von Jane Doe" },
+    });
+
+    expect(reusedSteps).toEqual(["analyze-job", "tailor-resume", "verify-tailored-resume"]);
+    expect(reused.tailoredResume).toMatch(/^Fake writing reply to: Given this resume: Lebenslauf von Jane Doe/);
+  });
+
+  it("runs the analysis first when a later step needs it", async () => {
+    const { steps } = await runWorkflow("workflow-needs-analysis", { userId: "workflow-user", deliverables: ["interviewTips", "match"] });
+
+    expect(steps).toEqual(["analyze-job", "match-resume", "interview-tips"]);
+  });
+
+  it("saves the tailored resume under the library version it came from", async () => {
+    const library = env.RESUMES.get(env.RESUMES.idFromName("workflow-library-user"));
+    const saved = await library.fetch("http://do/resumes", {
+      method: "POST",
+      body: JSON.stringify({ name: "Base", text: job.resumeText }),
+    });
+    const { resume } = await saved.json() as { resume: { id: string } };
+
+    const { result, steps } = await runWorkflow("workflow-library", {
+      userId: "workflow-library-user",
+      resumeId: resume.id,
+      deliverables: ["tailoredResume"],
+    });
+    const listed = await library.fetch("http://do/resumes");
+    const { resumes } = await listed.json() as { resumes: { name: string; parentId?: string; workflowId?: string; source: string }[] };
+
+    expect(steps).toEqual(["analyze-job", "tailor-resume", "verify-tailored-resume", "save-tailored-resume"]);
+    expect(result.tailoredResume).toBeTruthy();
+    expect(resumes).toContainEqual(expect.objectContaining({
+      name: "Tailored for Engineer at Acme",
+      source: "tailored",
+      parentId: resume.id,
+      workflowId: "workflow-library",
+    }));
+  });
+});
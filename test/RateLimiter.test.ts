@@ -0,0 +1,188 @@
+import { env, SELF } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { getRateLimitConfig, DEFAULT_RATE_LIMITS } from "../src/lib/rateLimit";
+import { meteredLLM } from "../src/lib/aiUsage";
+import { createFakeLLMClient, createWorkersAIClient } from "../src/lib/llm";
+
+function getStub(key: string) {
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key));
+}
+
+async function consume(stub: ReturnType<typeof getStub>, action: string, scope: string) {
+  const response = await stub.fetch("http://do/consume", {
+    method: "POST",
+    body: JSON.stringify({ action, scope }),
+  });
+  return await response.json() as any;
+}
+
+async function getUsage(key: string) {
+  return await (await getStub(key).fetch("http://do/usage")).json() as any;
+}
+
+describe("RateLimiter", () => {
+  it("allows a burst up to the bucket capacity, then asks the client to wait", async () => {
+    const stub = getStub("user:limiter-burst");
+
+    const decisions = [];
+    for (let i = 0; i < 4; i++) decisions.push(await consume(stub, "workflow", "user"));
+
+    expect(decisions.slice(0, 3).every((d) => d.allowed)).toBe(true);
+    // One request refills every 10 minutes
+    expect(decisions[3]).toMatchObject({ allowed: false, reason: "rate" });
+    expect(decisions[3].retryAfter).toBeGreaterThan(590);
+    expect(decisions[3].retryAfter).toBeLessThanOrEqual(600);
+  });
+
+  it("stops users at the daily token budget until midnight UTC", async () => {
+    const stub = getStub("user:limiter-budget");
+
+    await stub.fetch("http://do/usage", { method: "POST", body: JSON.stringify({ tokens: 150_000 }) });
+    const underBudget = await consume(stub, "chat", "user");
+    await stub.fetch("http://do/usage", { method: "POST", body: JSON.stringify({ tokens: 60_000 }) });
+    const overBudget = await consume(stub, "chat", "user");
+    const usage = await getUsage("user:limiter-budget");
+
+    expect(underBudget.allowed).toBe(true);
+    expect(overBudget).toMatchObject({ allowed: false, reason: "budget" });
+    expect(overBudget.retryAfter).toBeLessThanOrEqual(24 * 60 * 60);
+    expect(usage).toMatchObject({ tokensUsed: 210_000, calls: 2, dailyTokenBudget: 200_000, tokensRemaining: 0 });
+    expect(usage.limits.chat).toMatchObject({ capacity: 20, available: 19 });
+  });
+});
+
+describe("getRateLimitConfig", () => {
+  it("merges valid overrides and ignores invalid ones", () => {
+    const config = getRateLimitConfig({
+      RATE_LIMITS: JSON.stringify({ workflow: { user: { capacity: 5 } }, chat: { ip: { refillPerMinute: -1 } } }),
+      DAILY_TOKEN_BUDGET: "0",
+    });
+
+    expect(config.limits.workflow.user).toEqual({ capacity: 5, refillPerMinute: 0.1 });
+    expect(config.limits.chat.ip).toEqual(DEFAULT_RATE_LIMITS.chat.ip);
+    expect(config.dailyTokenBudget).toBe(0);
+  });
+});
+
+describe("meteredLLM", () => {
+  // A Workers AI binding whose streams send `events` and then stay open until cancelled
+  function streamingAI(events: string[], onCancel?: () => void) {
+    return {
+      async run() {
+        const encoder = new TextEncoder();
+        return new ReadableStream<Uint8Array>({
+          start(controller) {
+            for (const event of events) controller.enqueue(encoder.encode(event));
+            if (!onCancel) controller.close();
+          },
+          cancel: onCancel,
+        });
+      },
+    } as unknown as Ai;
+  }
+
+  const models = { chat: "test-model", analysis: "test-model", writing: "test-model" };
+
+  it("charges the reported usage, or an estimate when there is none", async () => {
+    const llm = createFakeLLMClient(() => "x".repeat(400));
+    const metered = meteredLLM(llm, env, "metered-estimate");
+
+    await metered.complete({ task: "chat", messages: [{ role: "user", content: "Hi" }] });
+    const usage = await getUsage("user:metered-estimate");
+
+    expect(llm.calls).toHaveLength(1);
+    // 100 tokens for the reply plus a few for the prompt
+    expect(usage.tokensUsed).toBeGreaterThan(100);
+    expect(usage.tokensUsed).toBeLessThan(120);
+  });
+
+  it("charges streams once they finish, without changing what the reader sees", async () => {
+    const ai = streamingAI([
+      'data: {"response":"Hello"}\n\n',
+      'data: {"response":" there"}\n\n',
+      'data: {"response":"","usage":{"prompt_tokens":30,"completion_tokens":2,"total_tokens":32}}\n\n',
+      "data: [DONE]\n\n",
+    ]);
+    const metered = meteredLLM(createWorkersAIClient(ai, models), env, "metered-stream");
+
+    let text = "";
+    for await (const token of await metered.stream({ task: "chat", messages: [] })) text += token;
+
+    expect(text).toBe("Hello there");
+    expect((await getUsage("user:metered-stream")).tokensUsed).toBe(32);
+  });
+
+  it("cancels generation and charges an estimate when the reader stops early", async () => {
+    let cancelled = false;
+    const ai = streamingAI(['data: {"response":"Hello"}\n\n'], () => { cancelled = true; });
+    const metered = meteredLLM(createWorkersAIClient(ai, models), env, "metered-stopped");
+
+    for await (const token of await metered.stream({ task: "chat", messages: [{ role: "user", content: "Hi" }] })) {
+      expect(token).toBe("Hello");
+      break;
+    }
+
+    expect(cancelled).toBe(true);
+    expect((await getUsage("user:metered-stopped")).tokensUsed).toBeGreaterThan(0);
+  });
+});
+
+describe("rate limited routes", () => {
+  it("returns 429 with Retry-After once the user's bucket is empty", async () => {
+    const tokenResponse = await SELF.fetch("http://worker/api/auth/token", {
+      method: "POST",
+      body: JSON.stringify({ userId: "limiter-route-user" }),
+    });
+    const { token } = await tokenResponse.json() as { token: string };
+    const init = { method: "POST", headers: { Authorization: `Bearer ${token}` }, body: "{}" };
+
+    const statuses = [];
+    let limited: Response | undefined;
+    for (let i = 0; i < 4; i++) {
+      limited = await SELF.fetch("http://worker/api/workflow", init);
+      statuses.push(limited.status);
+    }
+
+    // Invalid requests still count: the limit applies before the body is read
+    expect(statuses).toEqual([400, 400, 400, 429]);
+    expect(Number(limited!.headers.get("Retry-After"))).toBeGreaterThan(0);
+    expect(await limited!.json()).toMatchObject({
+      error: { code: "rate_limited", message: "Too many requests, please slow down", details: { retryAfter: expect.any(Number) } },
+    });
+  });
+
+  it("doesn't use up the IP's requests for a user who is over their own limit", async () => {
+    const tokenFor = async (userId: string) => {
+      const response = await SELF.fetch("http://worker/api/auth/token", { method: "POST", body: JSON.stringify({ userId }) });
+      return (await response.json() as { token: string }).token;
+    };
+    const workflow = async (token: string) => {
+      const response = await SELF.fetch("http://worker/api/workflow", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "CF-Connecting-IP": "203.0.113.7" },
+        body: "{}",
+      });
+      return response.status;
+    };
+    const busy = await tokenFor("limiter-route-busy");
+    const neighbour = await tokenFor("limiter-route-neighbour");
+
+    // The IP allows 10; the busy user's first 3 are the only ones it is charged for
+    for (let i = 0; i < 10; i++) await workflow(busy);
+
+    expect(await workflow(neighbour)).toBe(400);
+  });
+
+  it("limits token issuance per IP", async () => {
+    const issue = () => SELF.fetch("http://worker/api/auth/token", {
+      method: "POST",
+      headers: { "CF-Connecting-IP": "198.51.100.23" },
+    });
+
+    const statuses = [];
+    for (let i = 0; i < 6; i++) statuses.push((await issue()).status);
+
+    expect(statuses).toEqual([200, 200, 200, 200, 200, 429]);
+    expect(await consume(getStub("user:anyone"), "token", "user")).toMatchObject({ error: { code: "invalid_request" } });
+  });
+});
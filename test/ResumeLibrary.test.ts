@@ -0,0 +1,79 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+
+function getStub(name: string) {
+  return env.RESUMES.get(env.RESUMES.idFromName(name));
+}
+
+async function save(stub: ReturnType<typeof getStub>, body: object) {
+  const response = await stub.fetch("http://do/resumes", {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, data: await response.json() as any };
+}
+
+describe("ResumeLibrary", () => {
+  it("lists versions without their text", async () => {
+    const stub = getStub("resumes-list");
+    await save(stub, { name: "Base", text: "Jane Doe\nEngineer", source: "upload" });
+
+    const { resumes } = await (await stub.fetch("http://do/resumes")).json() as any;
+
+    expect(resumes).toHaveLength(1);
+    expect(resumes[0]).toMatchObject({ name: "Base", source: "upload", length: 17 });
+    expect(resumes[0].text).toBeUndefined();
+  });
+
+  it("diffs a tailored version against its parent", async () => {
+    const stub = getStub("resumes-diff");
+    const base = await save(stub, { name: "Base", text: "Jane Doe\nEngineer\nPython" });
+    const tailored = await save(stub, {
+      name: "Tailored for Acme",
+      text: "Jane Doe\nBackend Engineer\nPython",
+      source: "tailored",
+      parentId: base.data.resume.id,
+    });
+
+    const diff = await (await stub.fetch(`http://do/resumes/${tailored.data.resume.id}/diff`)).json() as any;
+
+    expect(diff).toMatchObject({ parentId: base.data.resume.id, added: 1, removed: 1 });
+    expect((await stub.fetch(`http://do/resumes/${base.data.resume.id}/diff`)).status).toBe(400);
+  });
+
+  it("rejects an unknown parent", async () => {
+    const { status, data } = await save(getStub("resumes-invalid"), { name: "Orphan", text: "x", parentId: "missing" });
+
+    expect(status).toBe(400);
+    expect(data.error.details).toEqual(["parentId does not match a saved resume"]);
+  });
+
+  it("re-attaches children to the grandparent on delete", async () => {
+    const stub = getStub("resumes-delete");
+    const base = await save(stub, { name: "Base", text: "a" });
+    const middle = await save(stub, { name: "Middle", text: "b", parentId: base.data.resume.id });
+    const leaf = await save(stub, { name: "Leaf", text: "c", parentId: middle.data.resume.id });
+
+    await stub.fetch(`http://do/resumes/${middle.data.resume.id}`, { method: "DELETE" });
+    const { resume } = await (await stub.fetch(`http://do/resumes/${leaf.data.resume.id}`)).json() as any;
+
+    expect(resume.parentId).toBe(base.data.resume.id);
+  });
+
+  it("stores, replaces and deletes the structured profile", async () => {
+    const stub = getStub("resumes-profile");
+    const profile = { contact: { name: "Jane Doe", links: [] }, summary: "", experience: [], education: [], skills: ["Go"], certifications: [] };
+
+    const empty = await (await stub.fetch("http://do/profile")).json() as any;
+    const invalid = await stub.fetch("http://do/profile", { method: "PUT", body: JSON.stringify({ ...profile, contact: { name: " " } }) });
+    await stub.fetch("http://do/profile", { method: "PUT", body: JSON.stringify(profile) });
+    const stored = await (await stub.fetch("http://do/profile")).json() as any;
+    await stub.fetch("http://do/profile", { method: "DELETE" });
+    const deleted = await (await stub.fetch("http://do/profile")).json() as any;
+
+    expect(empty.profile).toBeNull();
+    expect(invalid.status).toBe(400);
+    expect(stored.profile).toMatchObject({ ...profile, updatedAt: expect.any(Number) });
+    expect(deleted.profile).toBeNull();
+  });
+});
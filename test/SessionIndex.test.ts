@@ -0,0 +1,113 @@
+import { env, SELF } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+
+function getStub(name: string) {
+  return env.SESSIONS.get(env.SESSIONS.idFromName(name));
+}
+
+async function recordActivity(stub: ReturnType<typeof getStub>, sessionId: string, activity: object) {
+  const response = await stub.fetch(`http://do/sessions/${sessionId}/activity`, {
+    method: "POST",
+    body: JSON.stringify(activity),
+  });
+  return (await response.json() as any).session;
+}
+
+describe("SessionIndex", () => {
+  it("titles a session after its first message and keeps that title", async () => {
+    const stub = getStub("sessions-title");
+
+    await recordActivity(stub, "s1", { message: "How do I **negotiate** salary? I have an offer from Acme." });
+    const session = await recordActivity(stub, "s1", { message: "Thanks!" });
+
+    expect(session.title).toBe("How do I negotiate salary?");
+  });
+
+  it("cuts long titles at a word boundary", async () => {
+    const stub = getStub("sessions-long-title");
+
+    const session = await recordActivity(stub, "s1", {
+      message: "Can you help me rewrite the summary section of my resume for a staff platform engineering role",
+    });
+
+    expect(session.title).toBe("Can you help me rewrite the summary section of my resume…");
+  });
+
+  it("links the job context and lists the most recently active session first", async () => {
+    const stub = getStub("sessions-list");
+
+    await recordActivity(stub, "older", { jobContext: { jobTitle: "Engineer", company: "Acme", resumeText: "..." } });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await recordActivity(stub, "newer", { message: "Hi" });
+
+    const { sessions } = await (await stub.fetch("http://do/sessions")).json() as any;
+
+    expect(sessions.map((s: any) => s.id)).toEqual(["newer", "older"]);
+    expect(sessions[1]).toMatchObject({ title: null, jobContext: { jobTitle: "Engineer", company: "Acme" } });
+  });
+
+  it("renames and deletes sessions", async () => {
+    const stub = getStub("sessions-rename");
+    await recordActivity(stub, "s1", { message: "Hello" });
+
+    const renamed = await stub.fetch("http://do/sessions/s1", { method: "PATCH", body: JSON.stringify({ title: " Acme prep " }) });
+    const invalid = await stub.fetch("http://do/sessions/s1", { method: "PATCH", body: JSON.stringify({ title: "" }) });
+    const session = await recordActivity(stub, "s1", { message: "Another message" });
+
+    expect(renamed.status).toBe(200);
+    expect(invalid.status).toBe(400);
+    expect(session.title).toBe("Acme prep");
+
+    expect((await stub.fetch("http://do/sessions/s1", { method: "DELETE" })).status).toBe(200);
+    expect((await stub.fetch("http://do/sessions/s1")).status).toBe(404);
+  });
+
+  it("decodes session IDs from the path", async () => {
+    const stub = getStub("sessions-encoded");
+    const path = `http://do/sessions/${encodeURIComponent("prep 100%")}`;
+
+    await recordActivity(stub, encodeURIComponent("prep 100%"), { message: "Hello" });
+    const { sessions } = await (await stub.fetch("http://do/sessions")).json() as any;
+    const renamed = await stub.fetch(path, { method: "PATCH", body: JSON.stringify({ title: "Acme prep" }) });
+
+    expect(sessions.map((s: any) => s.id)).toEqual(["prep 100%"]);
+    expect(await renamed.json()).toMatchObject({ session: { id: "prep 100%", title: "Acme prep" } });
+    expect((await stub.fetch(path, { method: "DELETE" })).status).toBe(200);
+    expect((await stub.fetch(path)).status).toBe(404);
+  });
+});
+
+describe("session routes", () => {
+  async function tokenFor(userId: string) {
+    const response = await SELF.fetch("http://worker/api/auth/token", {
+      method: "POST",
+      body: JSON.stringify({ userId }),
+    });
+    return (await response.json() as { token: string }).token;
+  }
+
+  it("indexes sessions per user and deletes their conversations", async () => {
+    const token = await tokenFor("sessions-route-user");
+    const headers = { Authorization: `Bearer ${token}` };
+
+    await SELF.fetch("http://worker/api/context/sessions-route-1", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jobContext: { jobTitle: "Engineer", company: "Acme" } }),
+    });
+
+    const { sessions } = await (await SELF.fetch("http://worker/api/sessions", { headers })).json() as any;
+    const otherUser = await (await SELF.fetch("http://worker/api/sessions", {
+      headers: { Authorization: `Bearer ${await tokenFor("sessions-route-other")}` },
+    })).json() as any;
+
+    expect(sessions.map((s: any) => s.id)).toEqual(["sessions-route-1"]);
+    expect(otherUser.sessions).toEqual([]);
+
+    const deleted = await SELF.fetch("http://worker/api/sessions/sessions-route-1", { method: "DELETE", headers });
+    const context = await (await SELF.fetch("http://worker/api/context/sessions-route-1", { headers })).json() as any;
+
+    expect(deleted.status).toBe(200);
+    expect(context.context).toEqual({});
+  });
+});
@@ -0,0 +1,59 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+
+function getStub(name: string) {
+  return env.WORKFLOW_PROGRESS.get(env.WORKFLOW_PROGRESS.idFromName(name));
+}
+
+describe("WorkflowProgress", () => {
+  it("starts with no completed steps", async () => {
+    const response = await getStub("workflow-empty").fetch("http://do/progress");
+
+    expect(await response.json()).toEqual({ steps: {}, updatedAt: 0 });
+  });
+
+  it("records step outputs and keeps the first completion time on replay", async () => {
+    const stub = getStub("workflow-replay");
+
+    await stub.fetch("http://do/step", {
+      method: "POST",
+      body: JSON.stringify({ step: "analyze-job", output: "first" }),
+    });
+    const first = await (await stub.fetch("http://do/progress")).json() as any;
+
+    await stub.fetch("http://do/step", {
+      method: "POST",
+      body: JSON.stringify({ step: "analyze-job", output: "replayed" }),
+    });
+    const second = await (await stub.fetch("http://do/progress")).json() as any;
+
+    expect(second.steps["analyze-job"].output).toBe("replayed");
+    expect(second.steps["analyze-job"].completedAt).toBe(first.steps["analyze-job"].completedAt);
+  });
+
+  it("stores the planned steps alongside completed ones", async () => {
+    const stub = getStub("workflow-plan");
+
+    await stub.fetch("http://do/plan", {
+      method: "POST",
+      body: JSON.stringify({ steps: ["generate-cover-letter"] }),
+    });
+    await stub.fetch("http://do/step", {
+      method: "POST",
+      body: JSON.stringify({ step: "generate-cover-letter", output: "Dear team" }),
+    });
+    const progress = await (await stub.fetch("http://do/progress")).json() as any;
+
+    expect(progress.planned).toEqual(["generate-cover-letter"]);
+    expect(progress.steps["generate-cover-letter"].output).toBe("Dear team");
+  });
+
+  it("rejects a step without a name", async () => {
+    const response = await getStub("workflow-invalid").fetch("http://do/step", {
+      method: "POST",
+      body: JSON.stringify({ output: "x" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
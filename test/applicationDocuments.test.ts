@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { reviewCoverLetter, writeCoverLetter } from "../src/lib/applicationDocuments";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+const input = {
+  jobTitle: "Engineer",
+  company: "Acme",
+  jobDescription: "Build payments in Go",
+  resumeText: "Jane Doe\n\nGo developer",
+};
+
+const words = (count: number) => Array(count).fill("word").join(" ");
+
+describe("reviewCoverLetter", () => {
+  it("passes a letter that meets every preference", () => {
+    const letter = `Dear Ms. Smith,\n\n${words(196)}\n\nJane Doe`;
+
+    expect(reviewCoverLetter(letter, { wordTarget: 200, hiringManager: "Maria Smith" })).toEqual({
+      wordCount: 201,
+      wordRange: { min: 170, max: 230 },
+      placeholders: [],
+      issues: [],
+    });
+  });
+
+  it("finds placeholders and letters that are too long or not addressed to the hiring manager", () => {
+    const letter = `Dear Hiring Manager,\n\nI want to join [Company Name] as {{job_title}}. ${words(450)}\n\n<Your Name>`;
+    const review = reviewCoverLetter(letter, { onePage: true, hiringManager: "Maria Smith" });
+
+    expect(review.wordRange).toEqual({ min: 0, max: 400 });
+    expect(review.placeholders).toEqual(["[Company Name]", "{{job_title}}", "<Your Name>"]);
+    expect(review.issues).toEqual([
+      "It is 463 words long; it must fit on one page (at most 400 words).",
+      "It contains placeholder text: [Company Name], {{job_title}}, <Your Name>.",
+      "It is not addressed to Maria Smith.",
+    ]);
+  });
+
+  it("only checks the length when one was asked for", () => {
+    expect(reviewCoverLetter("See [my portfolio](https://example.com).")).toEqual({ wordCount: 3, placeholders: [], issues: [] });
+  });
+});
+
+describe("writeCoverLetter", () => {
+  it("puts the preferences in the prompt", async () => {
+    const llm = createFakeLLMClient(() => `Dear Mr. Lee,\n\n${words(120)}`);
+
+    const { review } = await writeCoverLetter(llm, {
+      ...input,
+      preferences: { tone: "conversational", wordTarget: 120, highlights: ["Cut checkout latency by 40%"], hiringManager: "Sam Lee" },
+    });
+    const prompt = llm.calls[0].messages[0].content;
+
+    expect(llm.calls).toHaveLength(1);
+    expect(review.issues).toEqual([]);
+    expect(prompt).toContain("Use a warm, conversational tone");
+    expect(prompt).toContain("Write about 120 words (between 102 and 138).");
+    expect(prompt).toContain("- Cut checkout latency by 40%");
+    expect(prompt).toContain("Address the letter to Sam Lee.");
+  });
+
+  it("asks for one revision when a check fails", async () => {
+    const llm = createFakeLLMClient((_, call) => call === 1 ? "Dear [Hiring Manager], I love [Company]." : "Dear hiring team, I love Acme.");
+
+    const letter = await writeCoverLetter(llm, input);
+
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[1].messages[0].content).toContain("- It contains placeholder text: [Hiring Manager], [Company].");
+    expect(letter).toEqual({
+      text: "Dear hiring team, I love Acme.",
+      review: { wordCount: 6, placeholders: [], issues: [] },
+    });
+  });
+
+  it("keeps the first draft when the revision is worse", async () => {
+    const llm = createFakeLLMClient((_, call) => call === 1 ? `Dear Sam Lee, ${words(300)}` : `[Date] ${words(600)}`);
+
+    const letter = await writeCoverLetter(llm, { ...input, preferences: { onePage: true, wordTarget: 200, hiringManager: "Sam Lee" } });
+
+    expect(letter.text).toMatch(/^Dear Sam Lee/);
+    expect(letter.review.issues).toEqual(["It is 303 words long; it should be 170-230 words."]);
+  });
+});
@@ -0,0 +1,82 @@
+import { SELF } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+
+async function tokenFor(userId?: string) {
+  const response = await SELF.fetch("http://worker/api/auth/token", {
+    method: "POST",
+    body: JSON.stringify(userId ? { userId } : {}),
+  });
+  return await response.json() as { token: string; userId: string; expiresAt: number };
+}
+
+function authed(token: string, init: RequestInit = {}): RequestInit {
+  return { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } };
+}
+
+describe("auth", () => {
+  it("issues anonymous tokens for new users", async () => {
+    const first = await tokenFor();
+    const second = await tokenFor();
+
+    expect(first.userId).toMatch(/^user-/);
+    expect(first.userId).not.toBe(second.userId);
+    expect(first.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it("rejects API calls without a valid token", async () => {
+    const missing = await SELF.fetch("http://worker/api/history/auth-any");
+    const forged = await SELF.fetch("http://worker/api/history/auth-any", authed("not.a.token"));
+
+    expect(missing.status).toBe(401);
+    expect(forged.status).toBe(401);
+  });
+
+  it("keeps session tokens out of URLs", async () => {
+    const { token } = await tokenFor("auth-query-user");
+
+    const asToken = await SELF.fetch(`http://worker/api/applications?token=${token}`);
+    const asDownload = await SELF.fetch(`http://worker/api/applications?download=${token}`);
+
+    expect(asToken.status).toBe(401);
+    expect(asDownload.status).toBe(401);
+  });
+
+  it("binds a session to the first user and rejects everyone else", async () => {
+    const owner = await tokenFor("auth-owner");
+    const other = await tokenFor("auth-other");
+    const contextBody = JSON.stringify({ jobContext: { company: "Acme" } });
+
+    const claim = await SELF.fetch("http://worker/api/context/auth-session", authed(owner.token, { method: "POST", body: contextBody }));
+    expect(claim.status).toBe(200);
+
+    for (const [path, method] of [
+      ["/api/history/auth-session", "GET"],
+      ["/api/history/auth-session", "DELETE"],
+      ["/api/context/auth-session", "GET"],
+    ]) {
+      const response = await SELF.fetch(`http://worker${path}`, authed(other.token, { method }));
+      expect(response.status, `${method} ${path}`).toBe(403);
+    }
+    const overwrite = await SELF.fetch("http://worker/api/context/auth-session", authed(other.token, { method: "POST", body: contextBody }));
+    expect(overwrite.status).toBe(403);
+
+    const history = await SELF.fetch("http://worker/api/history/auth-session", authed(owner.token));
+    expect(history.status).toBe(200);
+  });
+
+  it("reports workflows the user didn't start as not found", async () => {
+    const { token } = await tokenFor("auth-workflow-user");
+
+    const response = await SELF.fetch("http://worker/api/workflow/someone-elses-workflow", authed(token));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("refreshes a token for the same user", async () => {
+    const { token } = await tokenFor("auth-refresh-user");
+
+    const response = await SELF.fetch("http://worker/api/auth/refresh", authed(token, { method: "POST" }));
+
+    expect(await response.json()).toMatchObject({ userId: "auth-refresh-user" });
+  });
+});
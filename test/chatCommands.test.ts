@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { parseChatCommand, runChatCommand } from "../src/lib/chatCommands";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+const jobContext = {
+  jobTitle: "Engineer",
+  company: "Acme",
+  jobDescription: "Build payments in Go",
+  resumeText: "Jane Doe\nGo developer",
+};
+
+describe("parseChatCommand", () => {
+  it("leaves ordinary messages and paths alone", () => {
+    expect(parseChatCommand("How do I write a cover letter?")).toBeNull();
+    expect(parseChatCommand("/usr/bin/env is missing")).toBeNull();
+  });
+
+  it("parses commands with their instructions", () => {
+    expect(parseChatCommand("/analyze")).toEqual({ command: { name: "analyze" } });
+    expect(parseChatCommand("  /Cover keep it short\nand warm ")).toEqual({ command: { name: "cover", instructions: "keep it short\nand warm" } });
+    expect(parseChatCommand("/reset")).toEqual({ command: { name: "reset" } });
+  });
+
+  it("parses /context set with a multi-line value", () => {
+    expect(parseChatCommand("/context")).toEqual({ command: { name: "context" } });
+    expect(parseChatCommand("/context set description Line one\nLine two")).toEqual({
+      command: { name: "context", set: { field: "jobDescription", value: "Line one\nLine two" } },
+    });
+    expect(parseChatCommand("/context set company")).toEqual({ command: { name: "context", set: { field: "company", value: "" } } });
+  });
+
+  it("explains unknown commands and bad arguments", () => {
+    expect(parseChatCommand("/tailr")).toEqual({ error: "Unknown command /tailr. Type /help to see the commands." });
+    expect(parseChatCommand("/context set salary 100k")).toEqual({ error: "Field must be one of: title, company, description, resume" });
+    expect(parseChatCommand("/context show")).toEqual({ error: "Usage: /context set <field> <value>" });
+    expect(parseChatCommand("/reset now")).toEqual({ error: "/reset takes no arguments" });
+  });
+});
+
+describe("runChatCommand", () => {
+  it("asks for the job description before writing anything", async () => {
+    const llm = createFakeLLMClient();
+
+    const result = await runChatCommand(llm, { name: "tailor" }, { jobTitle: "Engineer" });
+
+    expect(result.content).toBe("Add the job description first: /context set description <the job posting>");
+    expect(llm.calls).toHaveLength(0);
+  });
+
+  it("analyzes the job and attaches the structured analysis", async () => {
+    const llm = createFakeLLMClient();
+
+    const result = await runChatCommand(llm, { name: "analyze" }, jobContext);
+
+    expect(result.attachment).toMatchObject({ type: "analysis", analysis: { requiredSkills: ["Fake requiredSkills"] } });
+    expect(result.content).toContain("Required skills: Fake requiredSkills");
+  });
+
+  it("writes the cover letter from the analysis, with the instructions", async () => {
+    const llm = createFakeLLMClient();
+
+    const result = await runChatCommand(llm, { name: "cover", instructions: "Mention relocation" }, jobContext);
+
+    expect(llm.calls.map((call) => call.task)).toEqual(["analysis", "writing"]);
+    expect(llm.calls[1].messages[0].content).toContain("Additional instructions from the candidate:\nMention relocation");
+    expect(result).toMatchObject({
+      content: expect.stringMatching(/^Fake writing reply to: Write a compelling cover letter for the Engineer position at Acme/),
+      attachment: { type: "document", deliverable: "coverLetter", title: "Cover letter" },
+    });
+  });
+
+  it("returns the context update for /context set", async () => {
+    const result = await runChatCommand(createFakeLLMClient(), { name: "context", set: { field: "company", value: "Globex" } }, jobContext);
+
+    expect(result.jobContext).toEqual({ company: "Globex" });
+    expect(result.attachment).toEqual({ type: "context", jobContext: { ...jobContext, company: "Globex" } });
+    expect(result.content).toContain("Company updated.");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { estimateTokens, planSummary, summarizeTurns } from "../src/lib/conversationSummary";
+import type { ChatMessage } from "../src/types";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+const budget = { maxTranscriptTokens: 100, recentTokens: 50, minRecentMessages: 2 };
+
+// Each turn is 80 characters, i.e. 20 estimated tokens
+function turns(count: number): ChatMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `${i}`.padEnd(80, "."),
+  }));
+}
+
+describe("estimateTokens", () => {
+  it("estimates roughly four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("planSummary", () => {
+  it("returns null while the transcript fits the budget", () => {
+    expect(planSummary(turns(5), 0, budget)).toBeNull();
+  });
+
+  it("keeps the most recent turns that fit the recent budget", () => {
+    // 8 turns = 160 tokens; the last two (40 tokens) stay verbatim
+    expect(planSummary(turns(8), 0, budget)).toBe(6);
+  });
+
+  it("ignores system messages and already summarized turns", () => {
+    const messages: ChatMessage[] = [{ role: "system", content: "x".repeat(4000) }, ...turns(8)];
+
+    expect(planSummary(messages, 0, budget)).toBe(7);
+    expect(planSummary(messages, 7, budget)).toBeNull();
+  });
+
+  it("always keeps the minimum number of recent messages", () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: "x".repeat(400) },
+      { role: "assistant", content: "x".repeat(400) },
+      { role: "user", content: "x".repeat(400) },
+    ];
+
+    expect(planSummary(messages, 0, budget)).toBe(1);
+  });
+
+  it("returns null when nothing older than the kept turns is left", () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: "x".repeat(800) },
+      { role: "assistant", content: "x".repeat(800) },
+    ];
+
+    expect(planSummary(messages, 0, budget)).toBeNull();
+  });
+});
+
+describe("summarizeTurns", () => {
+  it("sends the previous summary and transcript to the model", async () => {
+    const llm = createFakeLLMClient(() => "  - User wants a backend role  ");
+
+    const summary = await summarizeTurns(llm, "- User is a Go developer", [
+      { role: "user", content: "I want a backend role" },
+      { role: "assistant", content: "Great, tell me more" },
+    ]);
+
+    expect(summary).toBe("- User wants a backend role");
+    expect(llm.calls).toHaveLength(1);
+
+    const prompt = llm.calls[0].messages[1].content;
+    expect(prompt).toContain("- User is a Go developer");
+    expect(prompt).toContain("User: I want a backend role");
+    expect(prompt).toContain("Assistant: Great, tell me more");
+  });
+
+  it("rejects an empty summary", async () => {
+    const llm = createFakeLLMClient(() => "   ");
+
+    await expect(summarizeTurns(llm, undefined, turns(2))).rejects.toThrow("empty summary");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { buildExportDocument, extractContactHeader, parseArtifact, renderMarkdown } from "../src/lib/documentExport";
+import { renderDocx } from "../src/lib/docx";
+import { renderPdf } from "../src/lib/pdf";
+import { crc32 } from "../src/lib/zip";
+
+const resume = `Jane Doe
+jane@example.com | +1 555 010 0200 | linkedin.com/in/janedoe
+Berlin, Germany
+
+## Experience
+**Acme Corp — Senior Engineer**
+- Built payment APIs in Go
+- Ran PostgreSQL at scale
+
+SKILLS
+Go, PostgreSQL, Kubernetes`;
+
+describe("extractContactHeader", () => {
+  it("takes the name and splits the contact details", () => {
+    expect(extractContactHeader(resume)).toEqual({
+      name: "Jane Doe",
+      details: ["jane@example.com", "+1 555 010 0200", "linkedin.com/in/janedoe"],
+    });
+  });
+
+  it("gives up when the resume doesn't start with a name", () => {
+    expect(extractContactHeader("jane@example.com\nEngineer")).toBeUndefined();
+  });
+});
+
+describe("parseArtifact", () => {
+  it("recognizes headings, bullets and paragraphs and drops the duplicated contact block", () => {
+    const blocks = parseArtifact(resume, extractContactHeader(resume));
+
+    expect(blocks).toEqual([
+      { type: "paragraph", text: "Berlin, Germany" },
+      { type: "heading", text: "Experience", level: 1 },
+      { type: "heading", text: "Acme Corp — Senior Engineer", level: 2 },
+      { type: "bullet", text: "Built payment APIs in Go" },
+      { type: "bullet", text: "Ran PostgreSQL at scale" },
+      { type: "heading", text: "SKILLS", level: 1 },
+      { type: "paragraph", text: "Go, PostgreSQL, Kubernetes" },
+    ]);
+  });
+});
+
+describe("document rendering", () => {
+  const doc = buildExportDocument(
+    { tailoredResume: resume, coverLetter: "Dear hiring team,\n\nI'd love to join (really).", interviewTips: "" },
+    ["tailoredResume", "coverLetter", "interviewTips"],
+    { jobTitle: "Engineer", company: "Acme", contact: extractContactHeader(resume) }
+  );
+
+  it("skips empty artifacts and titles the document after the role", () => {
+    expect(doc.title).toBe("Application Documents - Engineer at Acme");
+    expect(doc.sections.map((s) => s.title)).toEqual(["Tailored Resume", "Cover Letter"]);
+  });
+
+  it("renders Markdown with the contact header on each document", () => {
+    const markdown = renderMarkdown(doc);
+
+    expect(markdown).toContain("# Jane Doe\njane@example.com | +1 555 010 0200 | linkedin.com/in/janedoe\n\nBerlin, Germany\n\n## Experience");
+    expect(markdown).toContain("\n\n---\n\n# Jane Doe");
+    expect(markdown.match(/^# /gm)).toHaveLength(2);
+  });
+
+  it("renders a DOCX archive with valid entry checksums", () => {
+    const bytes = renderDocx(doc);
+    const view = new DataView(bytes.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    // First entry is [Content_Types].xml; its stored CRC must match its data
+    const nameLength = view.getUint16(26, true);
+    const size = view.getUint32(18, true);
+    const data = bytes.slice(30 + nameLength, 30 + nameLength + size);
+    expect(view.getUint32(14, true)).toBe(crc32(data));
+
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain('<w:pStyle w:val="ListBullet"/></w:pPr><w:r><w:t xml:space="preserve">Built payment APIs in Go');
+  });
+
+  it("renders a PDF whose cross-reference offsets point at its objects", () => {
+    const text = String.fromCharCode(...renderPdf(doc));
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text).toContain("/Count 2");
+    expect(text).toContain("(I'd love to join \\(really\\).) Tj");
+
+    const xref = text.slice(text.lastIndexOf("xref"));
+    const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, index) => {
+      expect(text.slice(offset, offset + 10)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+    });
+  });
+
+  it("writes the Windows-1252 letters outside Latin-1 as single bytes", () => {
+    const letters = buildExportDocument({ coverLetter: "Œuvre, Šimon, Žižek, Ÿves, cœur, 20€ → done" }, ["coverLetter"]);
+
+    const text = String.fromCharCode(...renderPdf(letters));
+
+    expect(text).toContain("(\x8cuvre, \x8aimon, \x8ei\x9eek, \x9fves, c\x9cur, 20\x80 ? done) Tj");
+  });
+});
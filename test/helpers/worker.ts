@@ -0,0 +1,56 @@
+import { env, createExecutionContext, waitOnExecutionContext } from "cloudflare:test";
+import worker from "../../src/index";
+import type { JobApplicationParams, JobApplicationResult } from "../../src/workflows/JobApplicationWorkflow";
+
+export interface FakeWorkflowInstance {
+  id: string;
+  params: JobApplicationParams;
+  status: string;
+  output?: JobApplicationResult;
+}
+
+/**
+ * Stand-in for the JOB_WORKFLOW binding, which the test runtime doesn't provide. Created
+ * instances are recorded and never run; tests set their status and output directly.
+ */
+export function createFakeWorkflow() {
+  const instances = new Map<string, FakeWorkflowInstance>();
+
+  const workflow = {
+    instances,
+    async create({ id, params }: { id: string; params: JobApplicationParams }) {
+      instances.set(id, { id, params, status: "running" });
+      return { id };
+    },
+    async get(id: string) {
+      const instance = instances.get(id);
+      if (!instance) throw new Error("instance.not_found");
+      return { id, status: async () => ({ status: instance.status, output: instance.output }) };
+    },
+  };
+
+  return workflow as typeof workflow & Workflow;
+}
+
+/**
+ * Calls the Worker directly rather than through SELF, so a test can replace bindings.
+ */
+export async function callWorker(path: string, init: RequestInit = {}, bindings: Partial<typeof env> = {}) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(new Request(`http://worker${path}`, init), { ...env, ...bindings }, ctx);
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+export async function tokenFor(userId: string) {
+  const response = await callWorker("/api/auth/token", {
+    method: "POST",
+    body: JSON.stringify({ userId }),
+  });
+  const { token } = await response.json() as { token: string };
+  return token;
+}
+
+export function authed(token: string, init: RequestInit = {}): RequestInit {
+  return { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } };
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { analyzeJob, formatJobAnalysis, validateJobAnalysis, type JobAnalysis } from "../src/lib/jobAnalysis";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+const validAnalysis: JobAnalysis = {
+  summary: "Backend engineer building payment APIs.",
+  requiredSkills: ["Go", "PostgreSQL"],
+  niceToHaveSkills: ["Kubernetes"],
+  seniority: "senior",
+  yearsOfExperience: { min: 5, max: null },
+  responsibilities: ["Design payment APIs"],
+  cultureSignals: ["Remote-first"],
+  redFlags: [],
+};
+
+describe("validateJobAnalysis", () => {
+  it("accepts a parsed object and normalizes it", () => {
+    const { analysis, errors } = validateJobAnalysis({
+      ...validAnalysis,
+      seniority: "Senior",
+      requiredSkills: [" Go ", "Go", "PostgreSQL", ""],
+      yearsOfExperience: { min: "5", max: null },
+    });
+
+    expect(errors).toEqual([]);
+    expect(analysis).toEqual(validAnalysis);
+  });
+
+  it("extracts JSON wrapped in prose or code fences", () => {
+    const raw = "Here is the analysis:\n```json\n" + JSON.stringify(validAnalysis) + "\n```";
+
+    expect(validateJobAnalysis(raw).analysis).toEqual(validAnalysis);
+  });
+
+  it("reports every invalid field", () => {
+    const { analysis, errors } = validateJobAnalysis({
+      ...validAnalysis,
+      requiredSkills: "Go",
+      seniority: "wizard",
+      yearsOfExperience: { min: 8, max: 3 },
+    });
+
+    expect(analysis).toBeUndefined();
+    expect(errors).toEqual([
+      "requiredSkills must be an array of strings",
+      expect.stringContaining("seniority must be one of"),
+      "yearsOfExperience.min must not exceed yearsOfExperience.max",
+    ]);
+  });
+
+  it("rejects responses without JSON", () => {
+    expect(validateJobAnalysis("I cannot help with that").errors).toEqual([
+      "Response did not contain a JSON object",
+    ]);
+  });
+});
+
+describe("analyzeJob", () => {
+  const input = { jobTitle: "Engineer", company: "Acme", jobDescription: "Build things" };
+
+  it("retries with the validation errors until the output is valid", async () => {
+    const llm = createFakeLLMClient((_, call) => call === 1 ? "{\"summary\": \"\"}" : JSON.stringify(validAnalysis));
+
+    const analysis = await analyzeJob(llm, input);
+
+    expect(analysis).toEqual(validAnalysis);
+    expect(llm.calls).toHaveLength(2);
+    const retryMessages = llm.calls[1].messages;
+    expect(retryMessages.at(-1)?.content).toContain("summary must be a non-empty string");
+  });
+
+  it("gives up after the maximum number of attempts", async () => {
+    const llm = createFakeLLMClient(() => "not json");
+
+    await expect(analyzeJob(llm, input, 2)).rejects.toThrow("failed validation after 2 attempts");
+    expect(llm.calls).toHaveLength(2);
+  });
+});
+
+describe("formatJobAnalysis", () => {
+  it("renders the fields later workflow steps rely on", () => {
+    const text = formatJobAnalysis(validAnalysis);
+
+    expect(text).toContain("Seniority: senior (experience: 5+ years)");
+    expect(text).toContain("Required skills: Go, PostgreSQL");
+    expect(text).toContain("- Design payment APIs");
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { checkJobPageUrl, extractJobPosting, fetchJobPage, htmlToText, parseSalary } from "../src/lib/jobIngest";
+
+const greenhouse = `<html><head><title>Job Application for Senior Engineer at Acme</title></head><body>
+<div id="app_body">
+  <div id="header">
+    <h1 class="app-title">Senior Engineer</h1>
+    <span class="company-name">at Acme</span>
+    <div class="location">Berlin, Germany</div>
+  </div>
+  <div id="content">
+    <p>We build <strong>payments</strong> infrastructure.</p>
+    <h3>What you'll do</h3>
+    <ul><li>Design APIs in Go</li><li>Run PostgreSQL &amp; Kafka</li></ul>
+    <p>The pay range is €70,000 – €85,000 per year.</p>
+  </div>
+  <form id="application_form"><button>Submit</button></form>
+</div>
+</body></html>`;
+
+const lever = `<html><head><title>Globex - Backend Developer</title></head><body>
+<div class="content">
+  <div class="posting-headline">
+    <h2>Backend Developer</h2>
+    <div class="posting-categories">
+      <div class="sort-by-time posting-category medium-category-label location">Remote - US</div>
+      <div class="sort-by-team posting-category medium-category-label department">Engineering</div>
+    </div>
+  </div>
+  <div class="section-wrapper page-full-width">
+    <div class="section page-centered" data-qa="job-description"><div>Globex ships logistics software.</div></div>
+    <div class="section page-centered"><h3>Requirements</h3><ul class="posting-requirements plain-list"><li>5 years of Node.js</li></ul></div>
+    <div class="section page-centered" data-qa="salary-range"><div>$120,000 - $150,000 a year</div></div>
+    <div class="section page-centered last-section-apply"><a class="postings-btn">Apply for this job</a></div>
+  </div>
+</div>
+</body></html>`;
+
+const workday = `<html><head>
+<script type="application/ld+json">{"@context":"http://schema.org","@type":"JobPosting","title":"Data Analyst","hiringOrganization":{"@type":"Organization","name":"Initech"},"jobLocation":{"@type":"Place","address":{"@type":"PostalAddress","addressLocality":"Austin","addressRegion":"TX","addressCountry":"US"}},"description":"&lt;p&gt;Analyze sales data.&lt;/p&gt;&lt;ul&gt;&lt;li&gt;SQL&lt;/li&gt;&lt;/ul&gt;"}</script>
+</head><body>
+<div data-automation-id="jobPostingHeader">Data Analyst II</div>
+<div data-automation-id="locations"><dl><dt>locations</dt><dd>Austin, TX</dd></dl></div>
+<div data-automation-id="jobPostingDescription"><p>Analyze sales data.</p></div>
+</body></html>`;
+
+const jsonLdGraph = `<script type="application/ld+json">
+{"@context":"https://schema.org","@graph":[{"@type":"WebPage","name":"Careers"},{"@type":"JobPosting","title":"Support Lead",
+"hiringOrganization":"Hooli","jobLocationType":"TELECOMMUTE",
+"baseSalary":{"@type":"MonetaryAmount","currency":"usd","value":{"@type":"QuantitativeValue","minValue":30,"maxValue":40,"unitText":"HOUR"}},
+"description":"Lead our support team.\\nHelp customers."}]}
+</script>`;
+
+describe("extractJobPosting", () => {
+  it("reads a Greenhouse posting and finds the pay range in the description", () => {
+    expect(extractJobPosting(greenhouse, "https://boards.greenhouse.io/acme/jobs/1")).toEqual({
+      jobTitle: "Senior Engineer",
+      company: "Acme",
+      location: "Berlin, Germany",
+      salary: { min: 70000, max: 85000, currency: "EUR", period: "year" },
+      description: "We build payments infrastructure.\n\nWhat you'll do\n- Design APIs in Go\n- Run PostgreSQL & Kafka\n\nThe pay range is €70,000 – €85,000 per year.",
+      source: "greenhouse",
+      url: "https://boards.greenhouse.io/acme/jobs/1",
+    });
+  });
+
+  it("reads a Lever posting without the apply section", () => {
+    const posting = extractJobPosting(lever);
+
+    expect(posting).toMatchObject({
+      jobTitle: "Backend Developer",
+      company: "Globex",
+      location: "Remote - US",
+      salary: { min: 120000, max: 150000, currency: "USD", period: "year" },
+      source: "lever",
+    });
+    expect(posting?.description).toBe("Globex ships logistics software.\n\nRequirements\n- 5 years of Node.js\n\n$120,000 - $150,000 a year");
+  });
+
+  it("prefers the JSON-LD fields on a Workday page", () => {
+    expect(extractJobPosting(workday, "https://initech.wd5.myworkdayjobs.com/en-US/jobs/job/123")).toMatchObject({
+      jobTitle: "Data Analyst",
+      company: "Initech",
+      location: "Austin, TX, US",
+      description: "Analyze sales data.\n\n- SQL",
+      source: "workday",
+    });
+  });
+
+  it("finds a JobPosting inside a JSON-LD graph", () => {
+    expect(extractJobPosting(jsonLdGraph)).toEqual({
+      jobTitle: "Support Lead",
+      company: "Hooli",
+      location: "Remote",
+      salary: { min: 30, max: 40, currency: "USD", period: "hour" },
+      description: "Lead our support team.\nHelp customers.",
+      source: "json-ld",
+    });
+  });
+
+  it("falls back to the page metadata and main content", () => {
+    const html = `<html><head><meta property="og:title" content="Product Designer"><meta property="og:site_name" content="Umbrella"></head>
+<body><nav><a>Home</a><a>Careers</a></nav><main><h1>Product Designer</h1><p>Design our apps.</p></main><footer>© Umbrella</footer></body></html>`;
+
+    expect(extractJobPosting(html)).toEqual({
+      jobTitle: "Product Designer",
+      company: "Umbrella",
+      description: "Product Designer\n\nDesign our apps.",
+      source: "generic",
+    });
+  });
+
+  it("returns undefined for pages without text", () => {
+    expect(extractJobPosting("<html><body><script>render()</script></body></html>")).toBeUndefined();
+  });
+});
+
+describe("parseSalary", () => {
+  it("understands common ways of writing a range", () => {
+    expect(parseSalary("Pay: $60k-75k/yr")).toEqual({ min: 60000, max: 75000, currency: "USD", period: "year" });
+    expect(parseSalary("£45 to £55 an hour")).toEqual({ min: 45, max: 55, currency: "GBP", period: "hour" });
+    expect(parseSalary("CAD 90,000 - 110,000")).toEqual({ min: 90000, max: 110000, currency: "CAD" });
+    expect(parseSalary("Competitive salary")).toBeUndefined();
+  });
+});
+
+describe("htmlToText", () => {
+  it("drops scripts and comments and decodes entities", () => {
+    expect(htmlToText("<div>Caf&eacute; <!-- note --><script>x()</script>&#8217;s&nbsp;menu<br>Line two</div>")).toBe("Café ’s menu\nLine two");
+  });
+
+  it("leaves entities it can't decode as written", () => {
+    expect(htmlToText("<p>&#x110000; &#99999999999; &constructor; &toString;</p>")).toBe("&#x110000; &#99999999999; &constructor; &toString;");
+  });
+});
+
+describe("checkJobPageUrl", () => {
+  it("only allows http(s) URLs on public hosts", () => {
+    expect(checkJobPageUrl("https://jobs.lever.co/globex/1")).toBeUndefined();
+    expect(checkJobPageUrl("jobs.lever.co/globex")).toBe("url must be a valid URL");
+    expect(checkJobPageUrl("ftp://example.com/job")).toBe("url must start with http:// or https://");
+    expect(checkJobPageUrl("http://192.168.1.10/admin")).toBe("url must point to a public website");
+    expect(checkJobPageUrl("http://[::1]:8787/")).toBe("url must point to a public website");
+    expect(checkJobPageUrl("http://[::ffff:127.0.0.1]/")).toBe("url must point to a public website");
+    expect(checkJobPageUrl("http://[::ffff:a00:5]/")).toBe("url must point to a public website");
+    expect(checkJobPageUrl("http://[::ffff:808:808]/")).toBeUndefined();
+  });
+});
+
+describe("fetchJobPage", () => {
+  it("reports error statuses and non-HTML responses", async () => {
+    const respond = (response: Response) => ({ fetch: async () => response });
+
+    expect(await fetchJobPage(respond(new Response("gone", { status: 404 })), "https://example.com/job")).toEqual({
+      error: "The page returned HTTP 404",
+    });
+    expect(await fetchJobPage(respond(new Response("%PDF", { headers: { "Content-Type": "application/pdf" } })), "https://example.com/job.pdf")).toEqual({
+      error: "The URL does not point to a web page",
+    });
+  });
+
+  it("checks every redirect target", async () => {
+    const pages: Record<string, Response> = {
+      "https://example.com/job": new Response(null, { status: 301, headers: { Location: "/jobs/1" } }),
+      "https://example.com/jobs/1": new Response("<p>Engineer</p>", { headers: { "Content-Type": "text/html" } }),
+      "https://example.com/internal": new Response(null, { status: 302, headers: { Location: "http://[::ffff:7f00:1]/admin" } }),
+      "https://example.com/loop": new Response(null, { status: 302, headers: { Location: "/loop" } }),
+    };
+    const requested: string[] = [];
+    const fetcher = {
+      fetch: async (input: RequestInfo, init?: RequestInit) => {
+        requested.push(String(input));
+        expect(init?.redirect).toBe("manual");
+        return pages[String(input)].clone();
+      },
+    };
+
+    expect(await fetchJobPage(fetcher, "https://example.com/job")).toEqual({ html: "<p>Engineer</p>", url: "https://example.com/jobs/1" });
+    expect(await fetchJobPage(fetcher, "https://example.com/internal")).toEqual({
+      error: "The page redirected to an address that can't be imported",
+    });
+    expect(requested).not.toContain("http://[::ffff:7f00:1]/admin");
+    expect(await fetchJobPage(fetcher, "https://example.com/loop")).toEqual({ error: "The page redirected too many times" });
+  });
+
+  it("stops reading large pages at the size limit", async () => {
+    // A page that never ends
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(64 * 1024).fill(0x61));
+      },
+    });
+
+    const page = await fetchJobPage({ fetch: async () => new Response(body) }, "https://example.com/job");
+
+    expect("html" in page && page.html.length).toBe(2 * 1024 * 1024);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { detectLanguage, resolveLanguage, translateResume } from "../src/lib/language";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+describe("detectLanguage", () => {
+  it("recognizes job descriptions in each supported language", () => {
+    expect(detectLanguage("We are looking for an engineer to join our team. You will work with Go and own the payments platform.")).toBe("en");
+    expect(detectLanguage("Wir suchen eine Entwicklerin für unser Team. Du arbeitest mit Go und bist für die Plattform verantwortlich.")).toBe("de");
+    expect(detectLanguage("Nous recherchons un développeur pour notre équipe. Vous travaillerez avec Go et serez responsable de la plateforme.")).toBe("fr");
+    expect(detectLanguage("Buscamos un desarrollador para nuestro equipo. Trabajarás con Go y serás responsable de la plataforma de pagos.")).toBe("es");
+  });
+
+  it("gives up on text without enough common words", () => {
+    expect(detectLanguage("Go, Kubernetes, PostgreSQL, AWS")).toBeUndefined();
+    expect(resolveLanguage("auto", "Go, Kubernetes")).toBeUndefined();
+    expect(resolveLanguage("fr", "We are looking for an engineer to join our team")).toBe("fr");
+  });
+});
+
+describe("translateResume", () => {
+  const resume = `# Jane Doe
+jane@example.com | 555-123-4567
+
+## Experience
+- Led the payments team
+  - Cut latency by 40%
+2019 - 2023`;
+
+  it("translates line by line and keeps bullets, headings and lines without words", async () => {
+    const llm = createFakeLLMClient((request) => {
+      // The lines come last in the prompt, after a blank line
+      const lines: string[] = JSON.parse(request.messages[0].content.split("\n\n").pop()!);
+      return JSON.stringify({ lines: lines.map((line) => `DE(${line})`) });
+    });
+
+    expect(await translateResume(llm, resume, "de")).toBe(`# DE(Jane Doe)
+DE(jane@example.com | 555-123-4567)
+
+## DE(Experience)
+- DE(Led the payments team)
+  - DE(Cut latency by 40%)
+2019 - 2023`);
+    expect(llm.calls).toHaveLength(1);
+  });
+
+  it("returns null when the model doesn't return a line for every line", async () => {
+    const llm = createFakeLLMClient(() => JSON.stringify({ lines: ["Jane Doe"] }));
+
+    expect(await translateResume(llm, resume, "fr")).toBeNull();
+    // One retry before giving up
+    expect(llm.calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,149 @@
+import { SELF } from "cloudflare:test";
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { createFakeLLMClient, createLLMClient, createOpenAICompatibleClient, resolveModels } from "../src/lib/llm";
+
+const models = { chat: "small", analysis: "large", writing: "large" };
+
+describe("createFakeLLMClient", () => {
+  it("answers text requests with a canned reply and streams it word by word", async () => {
+    const llm = createFakeLLMClient();
+    const request = { task: "chat" as const, messages: [{ role: "user" as const, content: "Hello   there" }] };
+
+    const response = await llm.complete(request);
+    const tokens: string[] = [];
+    for await (const token of await llm.stream(request)) tokens.push(token);
+
+    expect(response.text).toBe("Fake chat reply to: Hello there");
+    expect(response.usage.estimated).toBe(true);
+    expect(tokens.join("")).toBe(response.text);
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(llm.calls).toHaveLength(2);
+  });
+
+  it("answers JSON requests with an object matching the schema", async () => {
+    const llm = createFakeLLMClient();
+    const schema = {
+      type: "object",
+      properties: {
+        summary: { type: "string" },
+        seniority: { type: "string", enum: ["junior", "senior"] },
+        skills: { type: "array", items: { type: "string" } },
+        score: { type: "number" },
+      },
+    };
+
+    const { text } = await llm.complete({ task: "analysis", messages: [], json: { name: "test", schema } });
+
+    expect(JSON.parse(text)).toEqual({ summary: "Fake summary", seniority: "junior", skills: ["Fake skills"], score: 0 });
+  });
+});
+
+describe("resolveModels", () => {
+  it("prefers per-task models over LLM_MODEL over the provider default", () => {
+    expect(resolveModels({ LLM_MODEL_WRITING: "writer" } as any, "workers-ai")).toEqual({
+      chat: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+      analysis: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+      writing: "writer",
+    });
+    expect(resolveModels({ LLM_MODEL: "base", LLM_MODEL_CHAT: "fast" } as any, "openai-compatible")).toEqual({
+      chat: "fast",
+      analysis: "base",
+      writing: "base",
+    });
+  });
+
+  it("requires a model for OpenAI-compatible servers", () => {
+    expect(() => resolveModels({ LLM_MODEL_CHAT: "fast" } as any, "openai-compatible")).toThrow("No model configured for analysis");
+  });
+});
+
+describe("createLLMClient", () => {
+  it("rejects unknown providers and incomplete OpenAI-compatible config", () => {
+    expect(() => createLLMClient({ LLM_PROVIDER: "other" } as any)).toThrow('Unknown LLM_PROVIDER "other"');
+    expect(() => createLLMClient({ LLM_PROVIDER: "openai-compatible", LLM_MODEL: "m" } as any)).toThrow("LLM_BASE_URL is required");
+  });
+});
+
+describe("createOpenAICompatibleClient", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sends the task's model and JSON schema and normalizes the reply", async () => {
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(Response.json({
+      choices: [{ message: { content: "{\"ok\":true}" } }],
+      usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+    }));
+    const llm = createOpenAICompatibleClient({ baseUrl: "http://llm.test/v1/", apiKey: "key", models });
+
+    const response = await llm.complete({
+      task: "analysis",
+      messages: [{ role: "user", content: "Analyze" }],
+      json: { name: "result", schema: { type: "object" } },
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init?.body as string);
+    expect(url).toBe("http://llm.test/v1/chat/completions");
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer key");
+    expect(body.model).toBe("large");
+    expect(body.response_format).toEqual({ type: "json_schema", json_schema: { name: "result", schema: { type: "object" } } });
+    expect(response).toEqual({
+      text: "{\"ok\":true}",
+      model: "large",
+      usage: { promptTokens: 12, completionTokens: 4, totalTokens: 16, estimated: false },
+    });
+  });
+
+  it("streams delta content and returns the final usage", async () => {
+    const events = [
+      'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":" you"}}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}\n\n',
+      "data: [DONE]\n\n",
+    ];
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(events.join("")));
+    const llm = createOpenAICompatibleClient({ baseUrl: "http://llm.test/v1", models });
+
+    const tokens = await llm.stream({ task: "chat", messages: [] });
+    let text = "";
+    let next = await tokens.next();
+    while (!next.done) {
+      text += next.value;
+      next = await tokens.next();
+    }
+
+    expect(text).toBe("Hi you");
+    expect(next.value).toMatchObject({ totalTokens: 7, estimated: false });
+  });
+
+  it("reports failed requests with the status", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("model not found", { status: 404 }));
+    const llm = createOpenAICompatibleClient({ baseUrl: "http://llm.test/v1", models });
+
+    await expect(llm.complete({ task: "chat", messages: [] })).rejects.toThrow("small request failed with 404: model not found");
+  });
+});
+
+describe("chat route with the fake provider", () => {
+  it("replies and stores the turn without AI access", async () => {
+    const tokenResponse = await SELF.fetch("http://worker/api/auth/token", {
+      method: "POST",
+      body: JSON.stringify({ userId: "llm-route-user" }),
+    });
+    const { token } = await tokenResponse.json() as { token: string };
+    const headers = { Authorization: `Bearer ${token}` };
+
+    const response = await SELF.fetch("http://worker/api/chat", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ message: "How should I prepare?", sessionId: "llm-route-session" }),
+    });
+    const history = await SELF.fetch("http://worker/api/history/llm-route-session", { headers });
+
+    expect(response.status).toBe(200);
+    expect((await response.json() as { response: string }).response).toBe("Fake chat reply to: How should I prepare?");
+    const { messages } = await history.json() as { messages: { role: string; content: string }[] };
+    expect(messages.map((m) => m.role)).toEqual(["system", "user", "assistant"]);
+  });
+});
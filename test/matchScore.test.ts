@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { computeMatchScore, tokenize } from "../src/lib/matchScore";
+
+const jobDescription = `We are hiring a backend engineer to build payment APIs in Go.
+You will design APIs, operate PostgreSQL databases and deploy services on Kubernetes.
+Experience with Kafka is a plus. Payment APIs experience preferred.`;
+
+describe("tokenize", () => {
+  it("keeps tech names intact and applies aliases", () => {
+    expect(tokenize("Node.js, C++ and C# on K8s with Postgres.")).toEqual([
+      "nodejs", "c++", "and", "c#", "on", "kubernetes", "with", "postgresql",
+    ]);
+  });
+
+  it("keeps accented and non-Latin words whole", () => {
+    expect(tokenize("Développeur Go, Größe: Zürich. Ingeniero de Señales; Москва")).toEqual([
+      "développeur", "go", "größe", "zürich", "ingeniero", "de", "señales", "москва",
+    ]);
+  });
+});
+
+describe("computeMatchScore", () => {
+  it("is deterministic", () => {
+    const resume = "Go developer building payment APIs on PostgreSQL";
+
+    expect(computeMatchScore(resume, jobDescription)).toEqual(computeMatchScore(resume, jobDescription));
+  });
+
+  it("ranks job description keywords by frequency", () => {
+    const { matchedKeywords, missingKeywords } = computeMatchScore("", jobDescription);
+
+    expect(matchedKeywords).toEqual([]);
+    // "apis" appears three times, "payment" twice
+    expect(missingKeywords.slice(0, 2)).toEqual(["apis", "payment"]);
+  });
+
+  it("scores a closer resume higher", () => {
+    const weak = computeMatchScore("Frontend developer working with React and CSS", jobDescription);
+    const strong = computeMatchScore(
+      "Backend engineer: designed payment APIs in Go, ran PostgreSQL databases, deployed services to Kubernetes",
+      jobDescription
+    );
+
+    expect(strong.score).toBeGreaterThan(weak.score);
+    expect(strong.matchedKeywords).toEqual(expect.arrayContaining(["apis", "go", "postgresql", "kubernetes"]));
+  });
+
+  it("treats plural and singular forms as the same keyword", () => {
+    const { matchedKeywords } = computeMatchScore("Built a payment API and a database", jobDescription);
+
+    expect(matchedKeywords).toEqual(expect.arrayContaining(["apis", "payment", "databases"]));
+  });
+
+  it("weights required and nice-to-have skills from the analysis", () => {
+    const resume = "Go and PostgreSQL engineer";
+    const skills = { required: ["Go", "PostgreSQL", "Kubernetes", "Machine Learning"], niceToHave: ["Kafka"] };
+
+    const report = computeMatchScore(resume, jobDescription, skills);
+
+    expect(report.requiredSkills).toEqual({ matched: ["Go", "PostgreSQL"], missing: ["Kubernetes", "Machine Learning"] });
+    expect(report.niceToHaveSkills).toEqual({ matched: [], missing: ["Kafka"] });
+    // 0.5 * 2/4 + 0.2 * 0 + 0.3 * keyword coverage
+    const keywordCoverage = report.matchedKeywords.length / (report.matchedKeywords.length + report.missingKeywords.length);
+    expect(report.score).toBe(Math.round((0.5 * 0.5 + 0.3 * keywordCoverage) * 100));
+  });
+
+  it("matches skills as whole phrases", () => {
+    const report = computeMatchScore("Worked at Google on ML infrastructure", jobDescription, {
+      required: ["Go", "Machine Learning"],
+      niceToHave: [],
+    });
+
+    expect(report.requiredSkills).toEqual({ matched: ["Machine Learning"], missing: ["Go"] });
+  });
+
+  it("returns zero when the job description has no keywords", () => {
+    expect(computeMatchScore("anything", "the and of").score).toBe(0);
+  });
+});
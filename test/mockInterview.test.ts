@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildInterviewReport,
+  generateQuestion,
+  gradeAnswer,
+  questionKindAt,
+  validateAnswerGrade,
+  type AnswerGrade,
+  type InterviewSession,
+} from "../src/lib/mockInterview";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+const jobContext = { jobTitle: "Engineer", company: "Acme", jobDescription: "Build payments in Go" };
+
+const gradeReply = {
+  scores: { star: 4, relevance: 5, specificity: 2 },
+  feedback: "Clear story, light on numbers.",
+  strengths: ["Clear structure"],
+  improvements: ["Quantify the result"],
+  improvedAnswer: "At [company] I led...",
+};
+
+function grade(scores: AnswerGrade["scores"], improvements: string[] = []): AnswerGrade {
+  const values = Object.values(scores);
+  return {
+    scores,
+    overall: Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10,
+    feedback: "ok",
+    strengths: [],
+    improvements,
+    improvedAnswer: "better",
+  };
+}
+
+describe("validateAnswerGrade", () => {
+  it("rounds and clamps scores and computes the overall score", () => {
+    const { grade, errors } = validateAnswerGrade(JSON.stringify({ ...gradeReply, scores: { star: 4.4, relevance: 9, specificity: "0" } }));
+
+    expect(errors).toEqual([]);
+    expect(grade).toMatchObject({ scores: { star: 4, relevance: 5, specificity: 1 }, overall: 3.3 });
+  });
+
+  it("reports missing scores, feedback and improved answer", () => {
+    const { grade, errors } = validateAnswerGrade({ scores: { star: 3 }, feedback: " ", strengths: [] });
+
+    expect(grade).toBeUndefined();
+    expect(errors).toEqual([
+      "scores.relevance must be a number from 1 to 5",
+      "scores.specificity must be a number from 1 to 5",
+      "feedback must be a non-empty string",
+      "improvedAnswer must be a non-empty string",
+    ]);
+  });
+});
+
+describe("gradeAnswer", () => {
+  it("re-prompts with the errors when the first reply is invalid", async () => {
+    const llm = createFakeLLMClient((_, call) => call === 1 ? "{}" : JSON.stringify(gradeReply));
+
+    const result = await gradeAnswer(llm, { jobContext, kind: "behavioral", question: "Tell me about a conflict", answer: "I talked to them" });
+
+    expect(result.overall).toBe(3.7);
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[0].messages[1].content).toContain("Question (behavioral): Tell me about a conflict");
+    expect(llm.calls[1].messages.at(-1)?.content).toContain("feedback must be a non-empty string");
+  });
+
+  it("gives up after the last attempt", async () => {
+    const llm = createFakeLLMClient(() => "not json");
+
+    await expect(gradeAnswer(llm, { kind: "technical", question: "Q", answer: "A" })).rejects.toThrow(/failed validation after 2 attempts/);
+  });
+});
+
+describe("generateQuestion", () => {
+  it("asks for the kind of question and lists the ones already asked", async () => {
+    const llm = createFakeLLMClient(() => JSON.stringify({ question: "  How would you design idempotent payments?  " }));
+
+    const question = await generateQuestion(llm, { jobContext, kind: "technical", previousQuestions: ["Tell me about yourself"] });
+
+    expect(question).toBe("How would you design idempotent payments?");
+    expect(llm.calls[0].messages[0].content).toContain("Ask one technical interview question");
+    expect(llm.calls[0].messages[0].content).toContain("- Tell me about yourself");
+  });
+
+  it("rotates through the chosen kinds", () => {
+    expect([0, 1, 2, 3].map((i) => questionKindAt(["behavioral", "technical", "role-specific"], i)))
+      .toEqual(["behavioral", "technical", "role-specific", "behavioral"]);
+    expect(questionKindAt(["technical"], 2)).toBe("technical");
+  });
+});
+
+describe("buildInterviewReport", () => {
+  const session = (turns: InterviewSession["turns"]): InterviewSession => ({
+    status: "active",
+    questionCount: 3,
+    kinds: ["behavioral", "technical", "role-specific"],
+    turns,
+    startedAt: 0,
+  });
+
+  it("averages graded answers per criterion and kind and ranks focus areas", () => {
+    const report = buildInterviewReport(session([
+      { kind: "behavioral", question: "Q1", askedAt: 0, answer: "A1", grade: grade({ star: 2, relevance: 4, specificity: 3 }, ["Use numbers", "Shorter intro"]) },
+      { kind: "technical", question: "Q2", askedAt: 0, answer: "A2", grade: grade({ star: 4, relevance: 5, specificity: 3 }, ["use numbers"]) },
+      { kind: "role-specific", question: "Q3", askedAt: 0 },
+    ]));
+
+    expect(report).toMatchObject({
+      questionsAsked: 3,
+      questionsAnswered: 2,
+      averages: { star: 3, relevance: 4.5, specificity: 3, overall: 3.5 },
+      byKind: { behavioral: 3, technical: 4 },
+      strongestCriterion: "relevance",
+      weakestCriterion: "star",
+      focusAreas: ["Use numbers", "Shorter intro"],
+    });
+  });
+
+  it("has no averages before any answer is graded", () => {
+    const report = buildInterviewReport(session([{ kind: "behavioral", question: "Q1", askedAt: 0 }]));
+
+    expect(report).toMatchObject({ averages: null, byKind: {}, strongestCriterion: null, weakestCriterion: null, focusAreas: [] });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { detectResumeFormat, extractDocxText, extractResumeText, extractRtfText } from "../src/lib/resumeExtract";
+import { buildExportDocument } from "../src/lib/documentExport";
+import { renderDocx } from "../src/lib/docx";
+import { createZip } from "../src/lib/zip";
+
+// A DOCX written by Python's zipfile to a pipe, so its entries are deflated and use data
+// descriptors like Word's. It has the same header twice, a tab stop in the paragraph
+// properties, a numbered paragraph, a tracked deletion and a line break.
+const DEFLATED_DOCX = "UEsDBBQACAAIAMxsU10AAAAAAAAAAAAAAAATAAAAW0NvbnRlbnRfVHlwZXNdLnhtbLMJqSxILda3AwBQSwcIxxwXPAoAAAAIAAAAUEsDBBQACAAIAMxsU10AAAAAAAAAAAAAAAAQAAAAd29yZC9oZWFkZXIxLnhtbLOxr8jNUShLLSrOzM+zVTLUM1BSSM1Lzk/JzEu3VQoNcdO1ULK3sym3ykgpUgAqzSu2KrdVqlACCRWAiCIQUWLnlZiXquCSn2qjD+KByCIwWYCuMAuo0CG1IjG3ICdVLzk/F4sGfbBtdgBQSwcINm75sWoAAACbAAAAUEsDBBQACAAIAMxsU10AAAAAAAAAAAAAAAAQAAAAd29yZC9oZWFkZXIyLnhtbLOxr8jNUShLLSrOzM+zVTLUM1BSSM1Lzk/JzEu3VQoNcdO1ULK3sym3ykgpUgAqzSu2KrdVqlACCRWAiCIQUWLnlZiXquCSn2qjD+KByCIwWYCuMAuo0CG1IjG3ICdVLzk/F4sGfbBtdgBQSwcINm75sWoAAACbAAAAUEsDBBQACAAIAMxsU10AAAAAAAAAAAAAAAARAAAAd29yZC9kb2N1bWVudC54bWx9kstOwzAQRfd8heUFq1K7XSAIJBWgAJUqVNoisXXiIY3kl2w3af8e5wVCjdjEGc/J9Z0b3y+OUqAKrCu1ivFsSjEClWteqiLGH7vnqxuMnGeKM6EVxPgEDi+Si/s64jo/SFAeBQXlojrGe+9NRIjL9yCZm2oDKvS+tJXMh9IWpNaWG6tzcC4cIAWZU3pNJCsVToJkpvmp1TZNZda2Xbb+JADVUcVEjF+BNd5mmDQ9zzLXrwNgy2LvcaiMdjG+pZQ2KBlY8qPbPnySfq7TzTJ9e0pbqCVsx/1aGVhVlArATtBDLuEPPzAs64wlczqnaBRpAoucYXmI01hwYCvAySWT5g5p9Y+L3rg6yO6lFJUYxqZdIKG35MPerJ+8/+Bs9MdDKTwy7NT8RjfmlYPYwdEnG5C6At40h60zh+Qsrhc9Qdv31ZhwZvuYViFQ5Gs9Njbpb0R7bH/bkm9QSwcISX6HSVkBAACyAgAAUEsDBBQACAAIAMxsU10AAAAAAAAAAAAAAAAVAAAAd29yZC9tZWRpYS9pbWFnZTEucG5n6wzwc2cgGQAAUEsHCHt6UbUJAAAANgAAAFBLAQIUAxQACAAIAMxsU13HHBc8CgAAAAgAAAATAAAAAAAAAAAAAACAAQAAAABbQ29udGVudF9UeXBlc10ueG1sUEsBAhQDFAAIAAgAzGxTXTZu+bFqAAAAmwAAABAAAAAAAAAAAAAAAIABSwAAAHdvcmQvaGVhZGVyMS54bWxQSwECFAMUAAgACADMbFNdNm75sWoAAACbAAAAEAAAAAAAAAAAAAAAgAHzAAAAd29yZC9oZWFkZXIyLnhtbFBLAQIUAxQACAAIAMxsU11JfodJWQEAALICAAARAAAAAAAAAAAAAACAAZsBAAB3b3JkL2RvY3VtZW50LnhtbFBLAQIUAxQACAAIAMxsU117elG1CQAAADYAAAAVAAAAAAAAAAAAAACAATMDAAB3b3JkL21lZGlhL2ltYWdlMS5wbmdQSwUGAAAAAAUABQA/AQAAfwMAAAAA";
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("detectResumeFormat", () => {
+  it("goes by the extension, then the MIME type", () => {
+    expect(detectResumeFormat("Resume.DOCX")).toBe("docx");
+    expect(detectResumeFormat("resume.markdown", "text/plain")).toBe("md");
+    expect(detectResumeFormat("resume", "text/rtf; charset=utf-8")).toBe("rtf");
+    expect(detectResumeFormat("resume.doc", "application/msword")).toBeUndefined();
+    expect(detectResumeFormat("resume.pdf", "application/pdf")).toBeUndefined();
+  });
+});
+
+describe("extractDocxText", () => {
+  it("reads deflated entries, headers, list items and breaks", async () => {
+    const text = await extractDocxText(fromBase64(DEFLATED_DOCX));
+
+    expect(text).toBe("Jane Doe\njane@example.com\nEXPERIENCE\nEngineer, Acme\t2020 & on\n- Built payments\n\nGo, SQL\nLine two");
+  });
+
+  it("reads the documents we export", async () => {
+    const doc = buildExportDocument({ tailoredResume: "Jane Doe\njane@example.com\n\nEXPERIENCE\n- Built payments" }, ["tailoredResume"]);
+
+    const text = await extractDocxText(renderDocx(doc));
+
+    expect(text).toContain("Jane Doe");
+    expect(text).toContain("- Built payments");
+  });
+
+  it("leaves character references past the last code point as written", async () => {
+    const xml = "<w:document><w:body><w:p><w:r><w:t>A&#x110000;&#99999999999;&#233;</w:t></w:r></w:p></w:body></w:document>";
+
+    const text = await extractDocxText(createZip([{ name: "word/document.xml", data: encode(xml) }]));
+
+    expect(text).toBe("A&#x110000;&#99999999999;é");
+  });
+});
+
+describe("extractRtfText", () => {
+  it("keeps paragraphs and decodes escapes while dropping tables and pictures", () => {
+    const rtf = String.raw`{\rtf1\ansi\deff0{\fonttbl{\f0 Calibri;}}{\colortbl;\red0\green0\blue0;}
+{\*\generator Riched20}\pard\b Jane Doe\b0\par
+Caf\'e9 \u8212? Engineer\tab 2020\line
+\bullet  Built \{payments\}{\pict\pngblip 89504e47}\par
+}`;
+
+    expect(extractRtfText(rtf)).toBe("Jane Doe\nCafé — Engineer\t2020\n• Built {payments}\n");
+  });
+
+  it("ignores control words named like object properties", () => {
+    expect(extractRtfText(String.raw`{\rtf1 Jane \constructor\valueOf Doe}`)).toBe("Jane Doe");
+  });
+});
+
+describe("extractResumeText", () => {
+  it("normalizes plain text and falls back to Windows-1252", async () => {
+    const utf8 = await extractResumeText(encode("\uFEFFJane Doe  \r\n\r\n\r\n\r\nEngineer at Acme\r\n"), "txt");
+    const legacy = await extractResumeText(Uint8Array.from([0x43, 0x61, 0x66, 0xe9, 0x20, 0x93, 0x4f, 0x4b, 0x94]), "md");
+
+    expect(utf8).toEqual({ text: "Jane Doe\n\nEngineer at Acme" });
+    expect(legacy).toEqual({ text: "Café “OK”" });
+  });
+
+  it("explains files that aren't what their extension says or have no text", async () => {
+    expect(await extractResumeText(encode("Jane Doe"), "docx")).toEqual({
+      error: "The file is not a valid DOCX document. Older .doc files need to be saved as .docx first.",
+    });
+    expect(await extractResumeText(encode("PK not really a zip"), "docx")).toEqual({
+      error: "The DOCX file could not be read. It may be damaged or password-protected.",
+    });
+    expect(await extractResumeText(encode("Jane Doe"), "rtf")).toEqual({ error: "The file is not a valid RTF document." });
+    expect(await extractResumeText(encode(" \n\n "), "txt")).toEqual({ error: "No text was found in the file." });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { formatResumeProfile, parseResume, validateResumeProfile, type ResumeProfile } from "../src/lib/resumeProfile";
+import { createFakeLLMClient } from "../src/lib/llm";
+
+const resumeText = "Jane Doe\njane@example.com | 555-0100\n\nEXPERIENCE\nEngineer, Acme 2020 - Present\n- Built payments";
+
+const reply = {
+  contact: { name: " Jane Doe ", email: "jane@example.com", phone: "555-0100", location: "", links: [] },
+  summary: "",
+  experience: [{ title: "Engineer", company: "Acme", location: "", startDate: "2020", endDate: "Present", bullets: ["Built payments", "Built payments", " "] }],
+  education: [{ institution: "State University", degree: "BSc", field: "Computer Science", startDate: "", endDate: "2019", details: [] }],
+  skills: ["Go", "PostgreSQL"],
+  certifications: [{ name: "CKA", issuer: "CNCF", date: "" }],
+};
+
+const profile: ResumeProfile = {
+  contact: { name: "Jane Doe", email: "jane@example.com", phone: "555-0100", links: ["github.com/jane"] },
+  summary: "Backend engineer.",
+  experience: [{ title: "Engineer", company: "Acme", location: "Remote", startDate: "2020", endDate: "Present", bullets: ["Built payments"] }],
+  education: [{ institution: "State University", degree: "BSc", field: "Computer Science", endDate: "2019", details: [] }],
+  skills: ["Go", "PostgreSQL"],
+  certifications: [{ name: "CKA", issuer: "CNCF", date: "2022" }],
+};
+
+describe("validateResumeProfile", () => {
+  it("trims text, drops empty optional fields and de-duplicates lists", () => {
+    const { profile, errors } = validateResumeProfile(JSON.stringify(reply));
+
+    expect(errors).toEqual([]);
+    expect(profile).toEqual({
+      contact: { name: "Jane Doe", email: "jane@example.com", phone: "555-0100", links: [] },
+      summary: "",
+      experience: [{ title: "Engineer", company: "Acme", startDate: "2020", endDate: "Present", bullets: ["Built payments"] }],
+      education: [{ institution: "State University", degree: "BSc", field: "Computer Science", endDate: "2019", details: [] }],
+      skills: ["Go", "PostgreSQL"],
+      certifications: [{ name: "CKA", issuer: "CNCF" }],
+    });
+  });
+
+  it("takes a missing name from the top of the resume", () => {
+    const { profile } = validateResumeProfile({ ...reply, contact: { ...reply.contact, name: "" } }, resumeText);
+
+    expect(profile?.contact.name).toBe("Jane Doe");
+  });
+
+  it("reports what doesn't match the schema", () => {
+    const { profile, errors } = validateResumeProfile({ ...reply, contact: {}, experience: [{ company: "Acme", bullets: "Built" }], skills: "Go" });
+
+    expect(profile).toBeUndefined();
+    expect(errors).toEqual([
+      "contact.name must be a non-empty string",
+      "experience[0].title must be a non-empty string",
+      "experience[0].bullets must be an array of strings",
+      "skills must be an array of strings",
+    ]);
+  });
+});
+
+describe("parseResume", () => {
+  it("re-prompts with the errors when a reply is invalid", async () => {
+    const llm = createFakeLLMClient((_, call) => call === 1 ? JSON.stringify({ ...reply, skills: null }) : JSON.stringify(reply));
+
+    const parsed = await parseResume(llm, resumeText);
+
+    expect(parsed.skills).toEqual(["Go", "PostgreSQL"]);
+    expect(llm.calls).toHaveLength(2);
+    expect(llm.calls[0].json?.name).toBe("resume_profile");
+    expect(llm.calls[1].messages.at(-1)?.content).toContain("skills must be an array of strings");
+  });
+});
+
+describe("formatResumeProfile", () => {
+  it("renders the contact block and one heading per section", () => {
+    expect(formatResumeProfile(profile)).toBe(`Jane Doe
+jane@example.com | 555-0100 | github.com/jane
+
+SUMMARY
+Backend engineer.
+
+EXPERIENCE
+Engineer, Acme (Remote) | 2020 - Present
+- Built payments
+
+EDUCATION
+BSc in Computer Science, State University | 2019
+
+SKILLS
+Go, PostgreSQL
+
+CERTIFICATIONS
+- CKA, CNCF (2022)`);
+  });
+
+  it("leaves out empty sections", () => {
+    const text = formatResumeProfile({ ...profile, summary: "", experience: [], certifications: [] });
+
+    expect(text).not.toContain("SUMMARY");
+    expect(text).not.toContain("EXPERIENCE");
+    expect(text).toContain("SKILLS");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { findUnsupportedFacts, verifyTailoredResume } from "../src/lib/resumeVerification";
+import { createFakeLLMClient } from "../src/lib/llm";
+import type { JobAnalysis } from "../src/lib/jobAnalysis";
+
+const original = `Jane Doe
+555-123-4567
+
+Backend Engineer, Globex (March 2019 - 2023)
+- Cut API latency by 40% for 1,200,000 daily users
+- Led a team of five engineers building services in Go`;
+
+const analysis: JobAnalysis = {
+  summary: "Payments backend",
+  requiredSkills: ["Go", "Kubernetes"],
+  niceToHaveSkills: ["PostgreSQL"],
+  seniority: "senior",
+  yearsOfExperience: { min: 5, max: null },
+  responsibilities: [],
+  cultureSignals: [],
+  redFlags: [],
+};
+
+describe("findUnsupportedFacts", () => {
+  it("accepts figures and dates the original supports, however they are written", () => {
+    const tailored = `Jane Doe
+555-123-4567
+
+Backend Engineer, Globex (Mar 2019 - 2023)
+- Cut API latency by 40 percent for 1.2M daily users
+- Led a team of 5 Go engineers`;
+
+    expect(findUnsupportedFacts(original, tailored, analysis)).toEqual([]);
+  });
+
+  it("flags new numbers, dates and job skills", () => {
+    const tailored = `Backend Engineer, Globex (January 2018 - 2023)
+- Cut API latency by 60% for 1,200,000 daily users
+- Ran Go services on Kubernetes, saving $2M a year`;
+
+    expect(findUnsupportedFacts(original, tailored, analysis)).toEqual([
+      { kind: "date", text: "January 2018", line: "Backend Engineer, Globex (January 2018 - 2023)" },
+      { kind: "number", text: "60%", line: "- Cut API latency by 60% for 1,200,000 daily users" },
+      { kind: "number", text: "$2M", line: "- Ran Go services on Kubernetes, saving $2M a year" },
+      { kind: "skill", text: "Kubernetes", line: "- Ran Go services on Kubernetes, saving $2M a year" },
+    ]);
+  });
+});
+
+describe("verifyTailoredResume", () => {
+  it("keeps the model's entity claims only when they are new to the tailored resume", async () => {
+    const tailored = `Backend Engineer, Globex
+AWS Certified Solutions Architect
+- Led a team of five engineers building services in Go`;
+    const llm = createFakeLLMClient(() => JSON.stringify({
+      claims: [
+        { text: "AWS Certified Solutions Architect", reason: "No certification in the original" },
+        { text: "Globex", reason: "Employer" },
+        { text: "Initech", reason: "Not in the tailored resume either" },
+      ],
+    }));
+
+    expect(await verifyTailoredResume(llm, { resumeText: original, tailoredResume: tailored, analysis })).toEqual([
+      {
+        kind: "entity",
+        text: "AWS Certified Solutions Architect",
+        line: "AWS Certified Solutions Architect",
+        reason: "No certification in the original",
+      },
+    ]);
+  });
+
+  it("still reports the deterministic checks when the model reply is unusable", async () => {
+    const llm = createFakeLLMClient(() => "not json");
+
+    expect(await verifyTailoredResume(llm, { resumeText: original, tailoredResume: "- Grew revenue 3x" })).toEqual([
+      { kind: "number", text: "3x", line: "- Grew revenue 3x" },
+    ]);
+  });
+});
@@ -0,0 +1,796 @@
+import { env } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import { authed, callWorker, createFakeWorkflow, tokenFor } from "./helpers/worker";
+import type { JobAnalysis } from "../src/lib/jobAnalysis";
+
+const jsonPost = (body: unknown): RequestInit => ({ method: "POST", body: JSON.stringify(body) });
+
+const analysis: JobAnalysis = {
+  summary: "Backend role on the payments team",
+  requiredSkills: ["Go", "PostgreSQL"],
+  niceToHaveSkills: ["Kubernetes"],
+  seniority: "senior",
+  yearsOfExperience: { min: 5, max: null },
+  responsibilities: ["Own the payments API"],
+  cultureSignals: [],
+  redFlags: [],
+};
+
+describe("GET /", () => {
+  it("describes the API without a token", async () => {
+    const response = await callWorker("/");
+    const body = await response.json() as { endpoints: Record<string, string> };
+
+    expect(response.status).toBe(200);
+    expect(body.endpoints.chat).toBe("POST /api/chat");
+  });
+});
+
+describe("chat routes", () => {
+  it("rejects requests without a message or session", async () => {
+    const token = await tokenFor("routes-chat-invalid");
+
+    const response = await callWorker("/api/chat", authed(token, jsonPost({ message: "Hi" })));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: { code: "invalid_request", message: "Invalid request body", details: ["sessionId is required"] },
+    });
+  });
+
+  it("replies and stores both turns", async () => {
+    const token = await tokenFor("routes-chat");
+
+    const response = await callWorker("/api/chat", authed(token, jsonPost({ message: "Hello", sessionId: "routes-chat-1" })));
+    const body = await response.json() as { response: string; sessionId: string };
+    const history = await callWorker("/api/history/routes-chat-1", authed(token));
+    const { messages } = await history.json() as { messages: { role: string; content: string }[] };
+
+    expect(body).toMatchObject({ response: "Fake chat reply to: Hello", sessionId: "routes-chat-1" });
+    expect(messages.slice(1)).toMatchObject([
+      { role: "user", content: "Hello" },
+      { role: "assistant", content: "Fake chat reply to: Hello" },
+    ]);
+  });
+
+  it("streams tokens as events and stores the full reply", async () => {
+    const token = await tokenFor("routes-stream");
+
+    const response = await callWorker("/api/chat/stream", authed(token, jsonPost({ message: "Tell me more", sessionId: "routes-stream-1" })));
+    const events = (await response.text()).split("\n\n").filter(Boolean);
+    const history = await callWorker("/api/history/routes-stream-1?limit=1", authed(token));
+    const { messages } = await history.json() as { messages: { role: string; content: string }[] };
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    const tokens = events
+      .filter((event) => event.startsWith("event: token"))
+      .map((event) => JSON.parse(event.split("data: ")[1]).token);
+    expect(tokens.join("")).toBe("Fake chat reply to: Tell me more");
+    expect(events.at(-1)).toMatch(/^event: done/);
+    expect(messages).toMatchObject([{ role: "assistant", content: "Fake chat reply to: Tell me more" }]);
+  });
+
+  it("refuses to chat in another user's session", async () => {
+    const owner = await tokenFor("routes-chat-owner");
+    const other = await tokenFor("routes-chat-other");
+    await callWorker("/api/chat", authed(owner, jsonPost({ message: "Hi", sessionId: "routes-chat-owned" })));
+
+    const response = await callWorker("/api/chat", authed(other, jsonPost({ message: "Hi", sessionId: "routes-chat-owned" })));
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("chat commands", () => {
+  const send = (token: string, sessionId: string, message: string) =>
+    callWorker("/api/chat", authed(token, jsonPost({ message, sessionId })));
+
+  it("sets the job context and stores commands with their results", async () => {
+    const token = await tokenFor("routes-commands");
+
+    const set = await send(token, "routes-commands-1", "/context set description Build payments in Go");
+    const analyzed = await send(token, "routes-commands-1", "/analyze");
+    const context = await callWorker("/api/context/routes-commands-1", authed(token));
+    const history = await callWorker("/api/history/routes-commands-1", authed(token));
+    const { messages } = await history.json() as { messages: { role: string; content: string; attachment?: unknown }[] };
+
+    expect(await set.json()).toMatchObject({ attachment: { type: "context", jobContext: { jobDescription: "Build payments in Go" } } });
+    expect(await analyzed.json()).toMatchObject({ attachment: { type: "analysis", analysis: { summary: "Fake summary" } } });
+    expect(await context.json()).toEqual({ context: { jobDescription: "Build payments in Go" }, language: "auto" });
+    expect(messages.slice(1)).toMatchObject([
+      { role: "user", content: "/context set description Build payments in Go" },
+      { role: "assistant", attachment: { type: "context" } },
+      { role: "user", content: "/analyze" },
+      { role: "assistant", attachment: { type: "analysis" } },
+    ]);
+  });
+
+  it("answers unknown commands without storing them", async () => {
+    const token = await tokenFor("routes-commands-unknown");
+
+    const response = await send(token, "routes-commands-unknown-1", "/tailr");
+    const history = await callWorker("/api/history/routes-commands-unknown-1", authed(token));
+    const { messages } = await history.json() as { messages: unknown[] };
+
+    expect(await response.json()).toMatchObject({ response: "Unknown command /tailr. Type /help to see the commands." });
+    expect(messages).toHaveLength(1);
+  });
+
+  it("clears the conversation on /reset and sends commands as one stream event", async () => {
+    const token = await tokenFor("routes-commands-reset");
+    await send(token, "routes-commands-reset-1", "Hello");
+
+    const response = await callWorker("/api/chat/stream", authed(token, jsonPost({ message: "/reset", sessionId: "routes-commands-reset-1" })));
+    const events = (await response.text()).split("\n\n").filter(Boolean);
+    const history = await callWorker("/api/history/routes-commands-reset-1", authed(token));
+
+    expect(events).toHaveLength(2);
+    expect(JSON.parse(events[0].split("data: ")[1])).toMatchObject({ reset: true, message: { content: "Conversation cleared." } });
+    expect(await history.json()).toEqual({ messages: [] });
+  });
+
+  it("charges /tailor and /cover to the workflow limits", async () => {
+    const token = await tokenFor("routes-commands-limit");
+
+    const statuses: number[] = [];
+    for (const message of ["/tailor", "/cover", "/tailor", "/cover"]) {
+      statuses.push((await send(token, "routes-commands-limit-1", message)).status);
+    }
+    const help = await send(token, "routes-commands-limit-1", "/help");
+
+    expect(statuses).toEqual([200, 200, 200, 429]);
+    expect(help.status).toBe(200);
+  });
+
+  it("lists the commands", async () => {
+    const token = await tokenFor("routes-commands-list");
+
+    const response = await callWorker("/api/chat/commands", authed(token));
+    const { commands } = await response.json() as { commands: { name: string }[] };
+
+    expect(commands.map((command) => command.name)).toEqual(["analyze", "tailor", "cover", "tips", "context", "reset", "help"]);
+  });
+});
+
+describe("history routes", () => {
+  it("returns the newest messages up to the limit", async () => {
+    const token = await tokenFor("routes-history");
+    for (const message of ["one", "two"]) {
+      await callWorker("/api/chat", authed(token, jsonPost({ message, sessionId: "routes-history-1" })));
+    }
+
+    const all = await callWorker("/api/history/routes-history-1", authed(token));
+    const limited = await callWorker("/api/history/routes-history-1?limit=2", authed(token));
+
+    expect((await all.json() as { messages: unknown[] }).messages).toHaveLength(5);
+    const { messages } = await limited.json() as { messages: { role: string; content: string }[] };
+    expect(messages.map((m) => m.content)).toEqual(["two", "Fake chat reply to: two"]);
+  });
+
+  it("clears the conversation and its session list entry", async () => {
+    const token = await tokenFor("routes-clear");
+    await callWorker("/api/chat", authed(token, jsonPost({ message: "Hi", sessionId: "routes-clear-1" })));
+
+    const cleared = await callWorker("/api/history/routes-clear-1", authed(token, { method: "DELETE" }));
+    const history = await callWorker("/api/history/routes-clear-1", authed(token));
+    const sessions = await callWorker("/api/sessions", authed(token));
+
+    expect(await cleared.json()).toEqual({ success: true, message: "History cleared" });
+    expect(await history.json()).toEqual({ messages: [] });
+    expect(await sessions.json()).toEqual({ sessions: [] });
+  });
+});
+
+describe("context routes", () => {
+  it("merges updates into the stored context, wrapped or bare", async () => {
+    const token = await tokenFor("routes-context");
+
+    await callWorker("/api/context/routes-context-1", authed(token, jsonPost({ jobContext: { jobTitle: "Engineer", company: "Acme" } })));
+    const updated = await callWorker("/api/context/routes-context-1", authed(token, jsonPost({ company: "Globex" })));
+    const context = await callWorker("/api/context/routes-context-1", authed(token));
+
+    expect(await updated.json()).toEqual({ success: true, context: { jobTitle: "Engineer", company: "Globex" }, language: "auto" });
+    expect(await context.json()).toEqual({ context: { jobTitle: "Engineer", company: "Globex" }, language: "auto" });
+  });
+
+  it("returns an empty context for a new session", async () => {
+    const token = await tokenFor("routes-context-new");
+
+    const response = await callWorker("/api/context/routes-context-new-1", authed(token));
+
+    expect(await response.json()).toEqual({ context: {}, language: "auto" });
+  });
+
+  it("sets the session language and rejects unsupported ones", async () => {
+    const token = await tokenFor("routes-context-language");
+
+    const updated = await callWorker("/api/context/routes-context-language-1", authed(token, jsonPost({ language: "es" })));
+    const unsupported = await callWorker("/api/context/routes-context-language-1", authed(token, jsonPost({ language: "it" })));
+
+    expect(await updated.json()).toEqual({ success: true, context: {}, language: "es" });
+    expect(unsupported.status).toBe(400);
+  });
+});
+
+describe("interview routes", () => {
+  it("asks, grades and reports on every question", async () => {
+    const token = await tokenFor("routes-interview");
+    await callWorker("/api/context/routes-interview-1", authed(token, jsonPost({ jobTitle: "Engineer", company: "Acme" })));
+
+    const started = await callWorker("/api/interview/routes-interview-1", authed(token, jsonPost({ questionCount: 2 })));
+    const first = await callWorker("/api/interview/routes-interview-1/answer", authed(token, jsonPost({ answer: "I led the payments migration" })));
+    const second = await callWorker("/api/interview/routes-interview-1/answer", authed(token, jsonPost({ answer: "I would shard by account" })));
+    const report = await callWorker("/api/interview/routes-interview-1/report", authed(token));
+    const history = await callWorker("/api/history/routes-interview-1", authed(token));
+
+    expect(await started.json()).toMatchObject({
+      interview: { status: "active", questionCount: 2, turns: [{ kind: "behavioral", question: "Fake question" }] },
+    });
+    expect(await first.json()).toMatchObject({
+      grade: { scores: { star: 1, relevance: 1, specificity: 1 }, overall: 1, improvedAnswer: "Fake improvedAnswer" },
+      interview: { status: "active", turns: [{ answer: "I led the payments migration" }, { kind: "technical" }] },
+    });
+    expect(await second.json()).toMatchObject({ interview: { status: "complete" } });
+    expect(await report.json()).toMatchObject({
+      report: { status: "complete", questionsAsked: 2, questionsAnswered: 2, averages: { overall: 1 }, byKind: { behavioral: 1, technical: 1 } },
+    });
+
+    const { messages } = await history.json() as { messages: { role: string; content: string }[] };
+    expect(messages.slice(1).map((m) => m.role)).toEqual(["assistant", "assistant", "user", "assistant", "assistant", "user", "assistant", "assistant"]);
+    expect(messages[2].content).toBe("Question 1 of 2 (behavioral): Fake question");
+  });
+
+  it("rejects answers when no question is waiting", async () => {
+    const token = await tokenFor("routes-interview-idle");
+    await callWorker("/api/context/routes-interview-idle-1", authed(token, jsonPost({ jobTitle: "Engineer" })));
+
+    const answer = await callWorker("/api/interview/routes-interview-idle-1/answer", authed(token, jsonPost({ answer: "Hello" })));
+    const report = await callWorker("/api/interview/routes-interview-idle-1/report", authed(token));
+    const current = await callWorker("/api/interview/routes-interview-idle-1", authed(token));
+
+    expect(answer.status).toBe(400);
+    expect(report.status).toBe(404);
+    expect(await current.json()).toEqual({ interview: null });
+  });
+
+  it("keeps other users out of the interview", async () => {
+    const owner = await tokenFor("routes-interview-owner");
+    const other = await tokenFor("routes-interview-other");
+    await callWorker("/api/interview/routes-interview-owned", authed(owner, jsonPost({})));
+
+    const answer = await callWorker("/api/interview/routes-interview-owned/answer", authed(other, jsonPost({ answer: "Hello" })));
+    const restart = await callWorker("/api/interview/routes-interview-owned", authed(other, jsonPost({})));
+
+    expect(answer.status).toBe(403);
+    expect(restart.status).toBe(403);
+  });
+});
+
+describe("workflow routes", () => {
+  const job = { jobTitle: "Engineer", company: "Acme", jobDescription: "Build payments in Go" };
+
+  it("validates the request before starting a workflow", async () => {
+    const token = await tokenFor("routes-workflow-invalid");
+    const workflow = createFakeWorkflow();
+
+    const missing = await callWorker("/api/workflow", authed(token, jsonPost({ jobTitle: "Engineer" })), { JOB_WORKFLOW: workflow });
+    const deliverables = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeText: "Go", deliverables: ["poem"] })), { JOB_WORKFLOW: workflow });
+    const previous = await callWorker("/api/workflow", authed(token, jsonPost({
+      ...job,
+      resumeText: "Go",
+      previousResults: { analysis: { summary: "" } },
+    })), { JOB_WORKFLOW: workflow });
+    // A fourth workflow request would be over the user's limit
+    const match = await callWorker("/api/workflow", authed(await tokenFor("routes-workflow-invalid-match"), jsonPost({
+      ...job,
+      resumeText: "Go",
+      previousResults: { match: { score: "high", matchedKeywords: ["go"], missingKeywords: [], gaps: [] } },
+    })), { JOB_WORKFLOW: workflow });
+
+    expect(missing.status).toBe(400);
+    expect(deliverables.status).toBe(400);
+    expect(await deliverables.json()).toMatchObject({ error: { details: [expect.stringContaining("deliverables[0] must be one of")] } });
+    expect(previous.status).toBe(400);
+    expect(await previous.json()).toMatchObject({ error: { message: "Invalid previousResults.analysis", details: expect.any(Array) } });
+    expect(await match.json()).toMatchObject({ error: { details: ["previousResults.match.score must be a whole number"] } });
+    expect(workflow.instances.size).toBe(0);
+  });
+
+  it("passes valid cover letter preferences to the workflow", async () => {
+    const token = await tokenFor("routes-workflow-preferences");
+    const workflow = createFakeWorkflow();
+    const coverLetterPreferences = { tone: "enthusiastic", onePage: true, highlights: ["Led the Go migration"] };
+
+    const invalid = await callWorker("/api/workflow", authed(token, jsonPost({
+      ...job,
+      resumeText: "Go",
+      coverLetterPreferences: { tone: "sarcastic", wordTarget: 5000 },
+    })), { JOB_WORKFLOW: workflow });
+    const started = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeText: "Go", coverLetterPreferences })), {
+      JOB_WORKFLOW: workflow,
+    });
+    const { workflowId } = await started.json() as { workflowId: string };
+
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ error: { details: [
+      expect.stringContaining("coverLetterPreferences.tone must be one of"),
+      expect.stringContaining("coverLetterPreferences.wordTarget"),
+    ] } });
+    expect(workflow.instances.get(workflowId)!.params).toMatchObject({ coverLetterPreferences });
+  });
+
+  it("rejects a resumeId that isn't in the user's library", async () => {
+    const token = await tokenFor("routes-workflow-resume");
+
+    const response = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeId: "missing" })), {
+      JOB_WORKFLOW: createFakeWorkflow(),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it("starts a workflow with the library resume and reports its steps", async () => {
+    const token = await tokenFor("routes-workflow");
+    const workflow = createFakeWorkflow();
+    const saved = await callWorker("/api/resumes", authed(token, jsonPost({ name: "Base", text: "Go developer" })));
+    const { resume } = await saved.json() as { resume: { id: string } };
+
+    const started = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeId: resume.id })), { JOB_WORKFLOW: workflow });
+    const { workflowId } = await started.json() as { workflowId: string };
+    const status = await callWorker(`/api/workflow/${workflowId}`, authed(token), { JOB_WORKFLOW: workflow });
+
+    const instance = workflow.instances.get(workflowId)!;
+    expect(instance.params).toMatchObject({ ...job, resumeText: "Go developer", userId: "routes-workflow" });
+    const body = await status.json() as { status: string; steps: { name: string; status: string }[] };
+    expect(body.status).toBe("running");
+    expect(body.steps.map((s) => s.status)).toEqual(["running", "pending", "pending", "pending", "pending"]);
+
+    instance.status = "complete";
+    instance.output = { analysis, coverLetter: "Dear Acme," };
+    const finished = await callWorker(`/api/workflow/${workflowId}`, authed(token), { JOB_WORKFLOW: workflow });
+    expect(await finished.json()).toMatchObject({ status: "complete", output: instance.output });
+  });
+
+  it("reports the resume's unverified claims with the tailoring step", async () => {
+    const token = await tokenFor("routes-workflow-claims");
+    const workflow = createFakeWorkflow();
+    const started = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeText: "Go" })), { JOB_WORKFLOW: workflow });
+    const { workflowId } = await started.json() as { workflowId: string };
+    const progress = env.WORKFLOW_PROGRESS.get(env.WORKFLOW_PROGRESS.idFromName(workflowId));
+    const claims = [{ kind: "number", text: "20", line: "- Led a team of 20" }];
+
+    await progress.fetch("http://do/step", { method: "POST", body: JSON.stringify({ step: "tailor-resume", output: "Jane Doe" }) });
+    const beforeCheck = await callWorker(`/api/workflow/${workflowId}`, authed(token), { JOB_WORKFLOW: workflow });
+    await progress.fetch("http://do/step", { method: "POST", body: JSON.stringify({ step: "verify-tailored-resume", output: claims }) });
+    const afterCheck = await callWorker(`/api/workflow/${workflowId}`, authed(token), { JOB_WORKFLOW: workflow });
+
+    const tailoring = async (response: Response) =>
+      (await response.json() as { steps: { name: string }[] }).steps.find((step) => step.name === "tailor-resume");
+    expect(await tailoring(beforeCheck)).toMatchObject({ status: "complete", output: "Jane Doe", checks: {} });
+    expect(await tailoring(afterCheck)).toMatchObject({ checks: { unverifiedClaims: claims } });
+  });
+
+  it("keeps workflow status and exports to the user who started it", async () => {
+    const owner = await tokenFor("routes-workflow-owner");
+    const other = await tokenFor("routes-workflow-other");
+    const workflow = createFakeWorkflow();
+    const started = await callWorker("/api/workflow", authed(owner, jsonPost({ ...job, resumeText: "Go" })), { JOB_WORKFLOW: workflow });
+    const { workflowId } = await started.json() as { workflowId: string };
+
+    const status = await callWorker(`/api/workflow/${workflowId}`, authed(other), { JOB_WORKFLOW: workflow });
+    const exported = await callWorker(`/api/workflow/${workflowId}/export`, authed(other), { JOB_WORKFLOW: workflow });
+    const unknown = await callWorker("/api/workflow/never-started", authed(owner), { JOB_WORKFLOW: workflow });
+
+    expect(status.status).toBe(403);
+    expect(exported.status).toBe(403);
+    expect(unknown.status).toBe(404);
+  });
+
+  it("exports the generated documents in the requested format", async () => {
+    const token = await tokenFor("routes-export");
+    const workflow = createFakeWorkflow();
+    const started = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeText: "Go" })), { JOB_WORKFLOW: workflow });
+    const { workflowId } = await started.json() as { workflowId: string };
+    const exportUrl = `/api/workflow/${workflowId}/export`;
+
+    const empty = await callWorker(exportUrl, authed(token), { JOB_WORKFLOW: workflow });
+    const badFormat = await callWorker(`${exportUrl}?format=odt`, authed(token), { JOB_WORKFLOW: workflow });
+    workflow.instances.get(workflowId)!.output = { coverLetter: "Dear Acme, I build payments." };
+    const markdown = await callWorker(`${exportUrl}?format=md&artifact=coverLetter`, authed(token), { JOB_WORKFLOW: workflow });
+
+    expect(empty.status).toBe(404);
+    expect(badFormat.status).toBe(400);
+    expect(markdown.headers.get("Content-Disposition")).toBe('attachment; filename="coverletter.md"');
+    expect(await markdown.text()).toContain("Dear Acme, I build payments.");
+  });
+
+  it("issues download links that only work for the workflow's export", async () => {
+    const token = await tokenFor("routes-export-link");
+    const other = await tokenFor("routes-export-link-other");
+    const workflow = createFakeWorkflow();
+    const started = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, resumeText: "Go" })), { JOB_WORKFLOW: workflow });
+    const { workflowId } = await started.json() as { workflowId: string };
+    workflow.instances.get(workflowId)!.output = { coverLetter: "Dear Acme, I build payments." };
+
+    const issued = await callWorker(`/api/workflow/${workflowId}/export/link`, authed(token, { method: "POST" }));
+    const { token: download, expiresAt } = await issued.json() as { token: string; expiresAt: number };
+    const exported = await callWorker(`/api/workflow/${workflowId}/export?format=md&download=${download}`, {}, { JOB_WORKFLOW: workflow });
+    const elsewhere = await callWorker(`/api/workflow/${workflowId}?download=${download}`, {}, { JOB_WORKFLOW: workflow });
+    const asSession = await callWorker("/api/applications", authed(download));
+    const forOther = await callWorker(`/api/workflow/${workflowId}/export/link`, authed(other, { method: "POST" }));
+
+    expect(expiresAt - Date.now()).toBeLessThanOrEqual(5 * 60 * 1000);
+    expect(await exported.text()).toContain("Dear Acme, I build payments.");
+    expect(elsewhere.status).toBe(401);
+    expect(asSession.status).toBe(401);
+    expect(forOther.status).toBe(403);
+  });
+});
+
+describe("POST /api/match", () => {
+  it("rejects missing text and invalid analyses", async () => {
+    const token = await tokenFor("routes-match-invalid");
+
+    const missing = await callWorker("/api/match", authed(token, jsonPost({ resumeText: "Go" })));
+    const invalid = await callWorker("/api/match", authed(token, jsonPost({ resumeText: "Go", jobDescription: "Go", analysis: {} })));
+
+    expect(missing.status).toBe(400);
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({ error: { code: "invalid_request", message: "Invalid analysis" } });
+  });
+
+  it("scores the resume against the analysis skills", async () => {
+    const token = await tokenFor("routes-match");
+
+    const response = await callWorker("/api/match", authed(token, jsonPost({
+      resumeText: "Senior Go developer",
+      jobDescription: "We need Go and PostgreSQL experience",
+      analysis,
+    })));
+    const report = await response.json() as { score: number; requiredSkills: { matched: string[]; missing: string[] }; gaps: unknown[] };
+
+    expect(response.status).toBe(200);
+    expect(report.requiredSkills).toMatchObject({ matched: ["Go"], missing: ["PostgreSQL"] });
+    expect(report.score).toBeGreaterThan(0);
+    expect(report.gaps).toHaveLength(1);
+  });
+});
+
+describe("GET /api/usage", () => {
+  it("reports the day's usage against the budget", async () => {
+    const token = await tokenFor("routes-usage");
+    await callWorker("/api/chat", authed(token, jsonPost({ message: "Hi", sessionId: "routes-usage-1" })));
+
+    const response = await callWorker("/api/usage", authed(token));
+    const usage = await response.json() as { tokensUsed: number; calls: number; dailyTokenBudget: number };
+
+    expect(usage.calls).toBe(1);
+    expect(usage.tokensUsed).toBeGreaterThan(0);
+    expect(usage.dailyTokenBudget).toBe(Number(env.DAILY_TOKEN_BUDGET ?? 200_000));
+  });
+});
+
+describe("application routes", () => {
+  it("creates, updates, lists and deletes applications", async () => {
+    const token = await tokenFor("routes-applications");
+
+    const invalid = await callWorker("/api/applications", authed(token, jsonPost({ company: "Acme" })));
+    const invalidReview = await callWorker("/api/applications", authed(token, jsonPost({
+      company: "Acme",
+      jobTitle: "Engineer",
+      artifacts: { coverLetterReview: { wordCount: 250, issues: [] } },
+    })));
+    const created = await callWorker("/api/applications", authed(token, jsonPost({ company: "Acme", jobTitle: "Engineer" })));
+    const { application } = await created.json() as { application: { id: string } };
+    const updated = await callWorker(`/api/applications/${application.id}`, authed(token, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "applied" }),
+    }));
+    const listed = await callWorker("/api/applications", authed(token));
+    const deleted = await callWorker(`/api/applications/${application.id}`, authed(token, { method: "DELETE" }));
+    const missing = await callWorker(`/api/applications/${application.id}`, authed(token));
+
+    expect(invalid.status).toBe(400);
+    expect(await invalidReview.json()).toMatchObject({ error: { details: ["artifacts.coverLetterReview.placeholders is required"] } });
+    expect(created.status).toBe(201);
+    expect(await updated.json()).toMatchObject({ application: { status: "applied" } });
+    expect((await listed.json() as { applications: unknown[] }).applications).toHaveLength(1);
+    expect(deleted.status).toBe(200);
+    expect(missing.status).toBe(404);
+  });
+});
+
+describe("resume routes", () => {
+  it("saves, diffs, renames and deletes resume versions", async () => {
+    const token = await tokenFor("routes-resumes");
+
+    const base = await callWorker("/api/resumes", authed(token, jsonPost({ name: "Base", text: "Go\nSQL" })));
+    const { resume: parent } = await base.json() as { resume: { id: string } };
+    const child = await callWorker("/api/resumes", authed(token, jsonPost({ name: "Tailored", text: "Go\nPostgreSQL", parentId: parent.id })));
+    const { resume } = await child.json() as { resume: { id: string } };
+
+    const diff = await callWorker(`/api/resumes/${resume.id}/diff`, authed(token));
+    const renamed = await callWorker(`/api/resumes/${resume.id}`, authed(token, { method: "PATCH", body: JSON.stringify({ name: "For Acme" }) }));
+    const fetched = await callWorker(`/api/resumes/${resume.id}`, authed(token));
+    const deleted = await callWorker(`/api/resumes/${parent.id}`, authed(token, { method: "DELETE" }));
+    const listed = await callWorker("/api/resumes", authed(token));
+
+    expect(await diff.json()).toMatchObject({ parentId: parent.id, added: 1, removed: 1 });
+    expect(renamed.status).toBe(200);
+    expect(await fetched.json()).toMatchObject({ resume: { name: "For Acme", text: "Go\nPostgreSQL" } });
+    expect(deleted.status).toBe(200);
+    expect((await listed.json() as { resumes: unknown[] }).resumes).toHaveLength(1);
+  });
+});
+
+describe("profile routes", () => {
+  it("parses a library resume into the profile and saves edits", async () => {
+    const token = await tokenFor("routes-profile");
+    const saved = await callWorker("/api/resumes", authed(token, jsonPost({ name: "Base", text: "Jane Doe\njane@example.com\n\nGo developer" })));
+    const { resume } = await saved.json() as { resume: { id: string } };
+
+    const parsed = await callWorker("/api/profile/parse", authed(token, jsonPost({ resumeId: resume.id })));
+    const { profile } = await parsed.json() as { profile: Record<string, any> };
+    const edited = await callWorker("/api/profile", authed(token, {
+      method: "PUT",
+      body: JSON.stringify({ ...profile, updatedAt: undefined, skills: ["Go", "SQL"] }),
+    }));
+    const fetched = await callWorker("/api/profile", authed(token));
+
+    expect(parsed.status).toBe(200);
+    expect(profile).toMatchObject({ contact: { name: "Fake name" }, experience: [{ title: "Fake title" }], sourceResumeId: resume.id });
+    expect(edited.status).toBe(200);
+    expect(await fetched.json()).toMatchObject({ profile: { skills: ["Go", "SQL"], sourceResumeId: resume.id } });
+  });
+
+  it("rejects invalid profiles and parse requests without a resume", async () => {
+    const token = await tokenFor("routes-profile-invalid");
+
+    const profile = await callWorker("/api/profile", authed(token, { method: "PUT", body: JSON.stringify({ contact: { name: "Jane" } }) }));
+    const parse = await callWorker("/api/profile/parse", authed(token, jsonPost({})));
+
+    expect(profile.status).toBe(400);
+    expect(await profile.json()).toMatchObject({ error: { details: expect.arrayContaining(["contact.links is required", "skills is required"]) } });
+    expect(await parse.json()).toMatchObject({ error: { details: ["text or resumeId is required"] } });
+  });
+
+  it("starts a workflow from the profile", async () => {
+    const token = await tokenFor("routes-profile-workflow");
+    const workflow = createFakeWorkflow();
+    const job = { jobTitle: "Engineer", company: "Acme", jobDescription: "Build payments in Go" };
+
+    const missing = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, useProfile: true })), { JOB_WORKFLOW: workflow });
+    await callWorker("/api/profile", authed(token, {
+      method: "PUT",
+      body: JSON.stringify({ contact: { name: "Jane Doe", links: [] }, summary: "", experience: [], education: [], skills: ["Go"], certifications: [] }),
+    }));
+    const started = await callWorker("/api/workflow", authed(token, jsonPost({ ...job, useProfile: true })), { JOB_WORKFLOW: workflow });
+    const { workflowId } = await started.json() as { workflowId: string };
+
+    expect(missing.status).toBe(404);
+    expect(workflow.instances.get(workflowId)!.params.resumeText).toBe("Jane Doe\n\nSKILLS\nGo");
+  });
+});
+
+describe("request validation", () => {
+  it("lists every problem with the body", async () => {
+    const token = await tokenFor("routes-validation");
+
+    const response = await callWorker("/api/chat", authed(token, jsonPost({
+      message: "x".repeat(8_001),
+      sessionId: 42,
+      stream: true,
+    })));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: {
+        code: "invalid_request",
+        message: "Invalid request body",
+        details: [
+          "stream is not an allowed field",
+          "message must be at most 8000 characters",
+          "sessionId must be a string",
+        ],
+      },
+    });
+  });
+
+  it("rejects malformed JSON and oversized bodies", async () => {
+    const token = await tokenFor("routes-validation-body");
+
+    const logged = vi.spyOn(console, "error");
+
+    const malformed = await callWorker("/api/context/routes-validation-1", authed(token, { method: "POST", body: "{" }));
+    const oversized = await callWorker("/api/resumes", authed(token, jsonPost({ name: "Huge", text: "x".repeat(600 * 1024) })));
+
+    expect(await malformed.json()).toEqual({ error: { code: "invalid_request", message: "Request body must be valid JSON" } });
+    expect(oversized.status).toBe(413);
+    expect(await oversized.json()).toMatchObject({ error: { code: "payload_too_large", message: "Request body must be at most 512 KB" } });
+    expect(logged).not.toHaveBeenCalled();
+    logged.mockRestore();
+  });
+
+  it("validates application, resume and session updates", async () => {
+    const token = await tokenFor("routes-validation-updates");
+
+    const created = await callWorker("/api/applications", authed(token, jsonPost({ company: "Acme", jobTitle: "Engineer" })));
+    const { application } = await created.json() as { application: { id: string } };
+    const application400 = await callWorker(`/api/applications/${application.id}`, authed(token, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "hired", salary: 100 }),
+    }));
+    const resume400 = await callWorker("/api/resumes/missing", authed(token, { method: "PATCH", body: JSON.stringify({ name: "" }) }));
+    const session400 = await callWorker("/api/sessions/routes-validation-3", authed(token, { method: "PATCH", body: "{" }));
+
+    expect(await application400.json()).toMatchObject({
+      error: { code: "invalid_request", details: ["salary is not an allowed field", expect.stringContaining("status must be one of")] },
+    });
+    expect(resume400.status).toBe(400);
+    expect(await session400.json()).toEqual({ error: { code: "invalid_request", message: "Request body must be valid JSON" } });
+  });
+
+  it("rejects out of range history limits", async () => {
+    const token = await tokenFor("routes-validation-limit");
+
+    const response = await callWorker("/api/history/routes-validation-2?limit=0", authed(token));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { message: "limit must be a whole number from 1 to 500" } });
+  });
+
+  it("uses the error envelope for unknown routes and auth failures", async () => {
+    const token = await tokenFor("routes-validation-404");
+
+    const unknown = await callWorker("/api/nothing-here", authed(token));
+    const unauthenticated = await callWorker("/api/sessions");
+
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toEqual({ error: { code: "not_found", message: "No route for GET /api/nothing-here" } });
+    expect(await unauthenticated.json()).toEqual({ error: { code: "unauthorized", message: "Authentication required" } });
+  });
+});
+
+describe("resume extract route", () => {
+  const upload = (token: string, file: File) => {
+    const form = new FormData();
+    form.append("file", file);
+    return callWorker("/api/resume/extract", authed(token, { method: "POST", body: form }));
+  };
+
+  it("extracts the text of an uploaded file without storing it", async () => {
+    const token = await tokenFor("routes-extract");
+
+    const response = await upload(token, new File(["# Jane Doe\r\n\r\nGo developer\r\n"], "resume.md", { type: "text/markdown" }));
+    const listed = await callWorker("/api/resumes", authed(token));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: "# Jane Doe\n\nGo developer", format: "md", fileName: "resume.md" });
+    expect(await listed.json()).toEqual({ resumes: [] });
+  });
+
+  it("rejects missing, unsupported and unreadable files", async () => {
+    const token = await tokenFor("routes-extract-invalid");
+
+    const missing = await callWorker("/api/resume/extract", authed(token, jsonPost({})));
+    const legacy = await upload(token, new File(["binary"], "resume.doc", { type: "application/msword" }));
+    const pdf = await upload(token, new File(["%PDF-1.7"], "resume", { type: "application/pdf" }));
+    const broken = await upload(token, new File(["not a zip"], "resume.docx"));
+
+    expect(await missing.json()).toMatchObject({ error: { details: ["file is required"] } });
+    expect(legacy.status).toBe(415);
+    expect(await legacy.json()).toMatchObject({
+      error: { code: "unsupported_media_type", message: "Unsupported file type. Upload a DOCX, TXT, Markdown or RTF file." },
+    });
+    expect(await pdf.json()).toMatchObject({
+      error: { message: "PDF files can't be read by this endpoint. Extract the text before sending it, or upload a DOCX, TXT, Markdown or RTF file." },
+    });
+    expect(broken.status).toBe(422);
+    expect(await broken.json()).toMatchObject({ error: { code: "unprocessable_content" } });
+  });
+
+  it("accepts uploads larger than the JSON body limit", async () => {
+    const token = await tokenFor("routes-extract-large");
+
+    const response = await upload(token, new File([`Jane Doe\n${" ".repeat(600 * 1024)}\nGo developer`], "resume.txt"));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ text: "Jane Doe\n\nGo developer" });
+  });
+});
+
+describe("resume diff route", () => {
+  it("diffs the resume text or the profile against the tailored resume", async () => {
+    const token = await tokenFor("routes-resume-diff");
+
+    const fromText = await callWorker("/api/resume/diff", authed(token, jsonPost({
+      resumeText: "Jane Doe\n\nSKILLS\nPython",
+      tailoredResume: "Jane Doe\n\nSKILLS\nGo, Python",
+    })));
+    const noProfile = await callWorker("/api/resume/diff", authed(token, jsonPost({ useProfile: true, tailoredResume: "Jane" })));
+    const missing = await callWorker("/api/resume/diff", authed(token, jsonPost({ tailoredResume: "Jane" })));
+
+    expect(fromText.status).toBe(200);
+    expect(await fromText.json()).toMatchObject({
+      sections: [
+        { heading: "", hunks: [{ type: "equal", lines: ["Jane Doe", ""] }] },
+        { heading: "SKILLS", hunks: [{ type: "equal", lines: ["SKILLS"] }, { type: "change", id: 1, removed: ["Python"], added: ["Go, Python"] }] },
+      ],
+      changes: 1,
+    });
+    expect(noProfile.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ error: { details: ["resumeText or useProfile is required"] } });
+  });
+});
+
+describe("job ingest route", () => {
+  const page = `<html><head><title>Globex - Backend Developer</title></head><body>
+<div class="posting-headline"><h2>Backend Developer</h2><div class="posting-category location">Remote</div></div>
+<div class="section page-centered"><p>Build logistics APIs.</p></div></body></html>`;
+
+  it("reads pasted HTML", async () => {
+    const token = await tokenFor("routes-ingest");
+
+    const response = await callWorker("/api/job/ingest", authed(token, jsonPost({ html: page })));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      posting: { jobTitle: "Backend Developer", company: "Globex", location: "Remote", description: "Build logistics APIs.", source: "lever" },
+    });
+  });
+
+  it("fetches a URL through the page fetcher", async () => {
+    const token = await tokenFor("routes-ingest-url");
+    const requested: string[] = [];
+    const fetcher = {
+      async fetch(input: RequestInfo) {
+        requested.push(String(input));
+        return new Response(page, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+      },
+    };
+
+    const response = await callWorker(
+      "/api/job/ingest",
+      authed(token, jsonPost({ url: "https://jobs.lever.co/globex/123" })),
+      { JOB_PAGE_FETCHER: fetcher as unknown as Fetcher }
+    );
+
+    expect(requested).toEqual(["https://jobs.lever.co/globex/123"]);
+    expect(await response.json()).toMatchObject({ posting: { jobTitle: "Backend Developer", url: "https://jobs.lever.co/globex/123" } });
+  });
+
+  it("rejects bad URLs and reports pages that can't be read", async () => {
+    const token = await tokenFor("routes-ingest-invalid");
+    const notFound = { fetch: async () => new Response("Not found", { status: 404 }) } as unknown as Fetcher;
+
+    const missing = await callWorker("/api/job/ingest", authed(token, jsonPost({})));
+    const internal = await callWorker("/api/job/ingest", authed(token, jsonPost({ url: "http://localhost:8787/api" })));
+    const gone = await callWorker("/api/job/ingest", authed(token, jsonPost({ url: "https://example.com/job" })), { JOB_PAGE_FETCHER: notFound });
+    const empty = await callWorker("/api/job/ingest", authed(token, jsonPost({ html: "<html><body></body></html>" })));
+
+    expect(await missing.json()).toMatchObject({ error: { details: ["html or url is required"] } });
+    expect(await internal.json()).toMatchObject({ error: { details: ["url must point to a public website"] } });
+    expect(gone.status).toBe(502);
+    expect(await gone.json()).toMatchObject({ error: { code: "bad_gateway", message: "Could not fetch the job posting: The page returned HTTP 404" } });
+    expect(empty.status).toBe(422);
+  });
+
+  it("charges fetched URLs, but not pasted HTML, to the chat limits", async () => {
+    const token = await tokenFor("routes-ingest-limit");
+    const fetcher = { fetch: async () => new Response(page, { headers: { "Content-Type": "text/html" } }) } as unknown as Fetcher;
+    const ingest = (body: object) => callWorker("/api/job/ingest", authed(token, jsonPost(body)), { JOB_PAGE_FETCHER: fetcher });
+    const limiter = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName("user:routes-ingest-limit"));
+
+    const fetched = await ingest({ url: "https://jobs.lever.co/globex/123" });
+    // Use up the rest of the user's chat bucket
+    for (let i = 1; i < 20; i++) {
+      await limiter.fetch("http://do/consume", { method: "POST", body: JSON.stringify({ action: "chat", scope: "user" }) });
+    }
+    const limited = await ingest({ url: "https://jobs.lever.co/globex/123" });
+    const pasted = await ingest({ html: page });
+
+    expect(fetched.status).toBe(200);
+    expect(limited.status).toBe(429);
+    expect(pasted.status).toBe(200);
+  });
+});
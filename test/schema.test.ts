@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { array, integer, object, oneOf, optional, string } from "../src/lib/schema";
+
+describe("schemas", () => {
+  const schema = object({
+    title: string({ max: 10 }),
+    note: optional(string({ min: 0 })),
+    tags: optional(array(oneOf(["a", "b"]), { min: 1 })),
+    owner: optional(object({ name: string() })),
+  });
+
+  it("returns the typed value with strings trimmed and empty optionals dropped", () => {
+    const result = schema.check({ title: "  Hello ", note: null, tags: ["a"], owner: { name: "Jane" } }, "");
+
+    expect(result).toEqual({ ok: true, value: { title: "Hello", tags: ["a"], owner: { name: "Jane" } } });
+  });
+
+  it("reports every problem with the path of the field", () => {
+    const result = schema.check({ title: "   ", tags: ["a", "c"], owner: { name: 1, age: 40 }, extra: true }, "");
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "extra is not an allowed field",
+        "title is required",
+        "tags[1] must be one of: a, b",
+        "owner.age is not an allowed field",
+        "owner.name must be a string",
+      ],
+    });
+  });
+
+  it("rejects bodies that aren't objects", () => {
+    expect(schema.check([], "")).toEqual({ ok: false, errors: ["body must be a JSON object"] });
+    expect(array(string(), { min: 1 }).check([], "tags")).toEqual({ ok: false, errors: ["tags must have at least 1 item"] });
+  });
+
+  it("accepts whole numbers within range", () => {
+    const count = integer({ min: 1, max: 5 });
+
+    expect(count.check(3, "count")).toEqual({ ok: true, value: 3 });
+    expect(count.check(2.5, "count")).toEqual({ ok: false, errors: ["count must be a whole number"] });
+    expect(count.check("3", "count")).toEqual({ ok: false, errors: ["count must be a whole number"] });
+    expect(count.check(6, "count")).toEqual({ ok: false, errors: ["count must be at most 5"] });
+  });
+});
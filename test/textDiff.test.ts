@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, diffResume, diffWords, type ResumeDiff } from "../src/lib/textDiff";
+
+describe("diffLines", () => {
+  it("marks changed lines as removed then added", () => {
+    const diff = diffLines("Jane Doe\nEngineer at Acme\nPython", "Jane Doe\nSenior Engineer at Acme\nPython\nGo");
+
+    expect(diff.lines).toEqual([
+      { type: "equal", text: "Jane Doe" },
+      { type: "removed", text: "Engineer at Acme" },
+      { type: "added", text: "Senior Engineer at Acme" },
+      { type: "equal", text: "Python" },
+      { type: "added", text: "Go" },
+    ]);
+    expect(diff).toMatchObject({ added: 2, removed: 1 });
+  });
+
+  it("ignores trailing whitespace and line ending differences", () => {
+    const diff = diffLines("Skills  \r\nGo", "Skills\nGo");
+
+    expect(diff).toMatchObject({ added: 0, removed: 0 });
+  });
+
+  it("replaces the differing middle as a block when it is too large to compare", () => {
+    const before = ["Jane Doe", ...Array.from({ length: 1500 }, (_, i) => `a${i}`), "References"].join("\n");
+    const after = ["Jane Doe", ...Array.from({ length: 1500 }, (_, i) => `b${i}`), "References"].join("\n");
+
+    const diff = diffLines(before, after);
+
+    expect(diff).toMatchObject({ added: 1500, removed: 1500 });
+    expect(diff.lines[0]).toEqual({ type: "equal", text: "Jane Doe" });
+    expect(diff.lines[1]).toEqual({ type: "removed", text: "a0" });
+    expect(diff.lines[1501]).toEqual({ type: "added", text: "b0" });
+    expect(diff.lines[3001]).toEqual({ type: "equal", text: "References" });
+  });
+
+  it("handles empty texts", () => {
+    expect(diffLines("", "One\nTwo").lines.map((l) => l.type)).toEqual(["added", "added"]);
+    expect(diffLines("", "").lines).toEqual([]);
+  });
+});
+
+describe("diffWords", () => {
+  it("marks changed words and keeps the spacing", () => {
+    expect(diffWords("Built APIs in Python.", "Built payment APIs in Go.")).toEqual([
+      { type: "equal", text: "Built " },
+      { type: "added", text: "payment " },
+      { type: "equal", text: "APIs in " },
+      { type: "removed", text: "Python" },
+      { type: "added", text: "Go" },
+      { type: "equal", text: "." },
+    ]);
+  });
+});
+
+describe("diffResume", () => {
+  const original = `JANE DOE
+jane@example.com
+
+EXPERIENCE
+Engineer, Acme
+- Built APIs in Python
+
+SKILLS
+Python, SQL
+
+HOBBIES
+Chess`;
+
+  const tailored = `# Jane Doe
+jane@example.com
+
+## Skills
+Go, Python, SQL
+
+## Work Experience
+Engineer, Acme
+- Built payment APIs in Python`;
+
+  // Takes the tailored side of the accepted changes and the original side of the rest
+  const assemble = (diff: ResumeDiff, accepted: (id: number) => boolean) =>
+    diff.sections
+      .flatMap(({ hunks }) => hunks.flatMap((hunk) =>
+        hunk.type === "equal" ? hunk.lines : accepted(hunk.id) ? hunk.added : hunk.removed))
+      .join("\n");
+
+  it("matches sections by heading, keeps dropped ones in place and numbers each change", () => {
+    const diff = diffResume(original, tailored);
+
+    expect(diff.sections.map((section) => section.heading)).toEqual(["", "## Skills", "HOBBIES", "## Work Experience"]);
+    expect(diff.sections[3].hunks).toEqual([
+      { type: "change", id: 4, removed: ["EXPERIENCE"], added: ["## Work Experience"], words: expect.any(Array) },
+      { type: "equal", lines: ["Engineer, Acme"] },
+      {
+        type: "change",
+        id: 5,
+        removed: ["- Built APIs in Python", ""],
+        added: ["- Built payment APIs in Python"],
+        words: [
+          { type: "equal", text: "- Built " },
+          { type: "added", text: "payment " },
+          { type: "equal", text: "APIs in Python" },
+          { type: "removed", text: "\n" },
+        ],
+      },
+    ]);
+    expect(diff.sections[2].hunks).toEqual([{ type: "change", id: 3, removed: ["HOBBIES", "Chess"], added: [] }]);
+    expect(diff).toMatchObject({ changes: 5, added: 5, removed: 8 });
+  });
+
+  it("rebuilds the tailored resume from accepted changes and keeps rejected ones as they were", () => {
+    const diff = diffResume(original, tailored);
+
+    expect(assemble(diff, () => true)).toBe(tailored);
+    expect(assemble(diff, (id) => id === 5)).toContain("- Built payment APIs in Python");
+    expect(assemble(diff, () => false).split("\n").sort()).toEqual(original.split("\n").sort());
+  });
+});
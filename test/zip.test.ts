@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { createZip, readZip } from "../src/lib/zip";
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// A single deflated entry, with the uncompressed size the central directory declares
+async function deflatedZip(name: string, data: Uint8Array, declaredSize = data.length): Promise<Uint8Array> {
+  const compressed = await deflateRaw(data);
+  const zip = createZip([{ name, data: compressed }]);
+  const view = new DataView(zip.buffer);
+  const central = 30 + name.length + compressed.length;
+
+  view.setUint16(8, 8, true);
+  view.setUint16(central + 10, 8, true);
+  view.setUint32(central + 24, declaredSize, true);
+  return zip;
+}
+
+describe("readZip", () => {
+  it("reads stored and deflated entries", async () => {
+    const stored = createZip([{ name: "a.txt", data: encode("Jane") }, { name: "b.txt", data: encode("Doe") }]);
+    const deflated = await deflatedZip("word/document.xml", encode("<w:t>Jane Doe</w:t>".repeat(50)));
+
+    const entries = await readZip(stored, (name) => name === "b.txt");
+    const [document] = await readZip(deflated);
+
+    expect(entries.map((entry) => entry.name)).toEqual(["b.txt"]);
+    expect(new TextDecoder().decode(entries[0].data)).toBe("Doe");
+    expect(document.data).toHaveLength(950);
+  });
+
+  it("refuses entries that declare or inflate to more than the limit", async () => {
+    const zeros = new Uint8Array(64 * 1024);
+
+    await expect(readZip(await deflatedZip("big.xml", zeros), undefined, 1024)).rejects.toThrow("big.xml is too large to extract");
+    // Declared as 10 bytes, so only inflating reveals the size
+    await expect(readZip(await deflatedZip("bomb.xml", zeros, 10), undefined, 1024)).rejects.toThrow("bomb.xml is too large to extract");
+    await expect(readZip(createZip([{ name: "a", data: zeros }, { name: "b", data: zeros }]), undefined, 100_000)).rejects.toThrow("b is too large");
+  });
+});
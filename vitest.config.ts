@@ -0,0 +1,35 @@
+import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
+
+// wrangler.toml binds Workers AI and Workflows, which only exist remotely, so the test
+// runtime is configured here with just the Durable Objects and the fake model provider.
+// Route tests that start workflows pass a fake JOB_WORKFLOW binding (test/helpers/worker.ts).
+export default defineWorkersConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    poolOptions: {
+      workers: {
+        main: "./src/index.ts",
+        // Isolated storage can't snapshot Durable Object SQLite files in this pool version;
+        // tests use a unique object name each instead
+        isolatedStorage: false,
+        miniflare: {
+          compatibilityDate: "2024-11-01",
+          compatibilityFlags: ["nodejs_compat"],
+          bindings: {
+            ENVIRONMENT: "development",
+            AUTH_SECRET: "test-secret",
+            LLM_PROVIDER: "fake",
+          },
+          durableObjects: {
+            CONVERSATIONS: "ConversationMemory",
+            WORKFLOW_PROGRESS: "WorkflowProgress",
+            APPLICATIONS: "ApplicationTracker",
+            RESUMES: "ResumeLibrary",
+            SESSIONS: "SessionIndex",
+            RATE_LIMITER: "RateLimiter",
+          },
+        },
+      },
+    },
+  },
+});